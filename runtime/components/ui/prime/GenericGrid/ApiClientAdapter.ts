@@ -10,15 +10,18 @@ export class ApiClientAdapter<TClient, TSearchQuery extends ISearchQueryBase, TM
   
   constructor(private ClientClass: new () => TClient) {}
 
-  async Query(request: { body: TSearchQuery }): Promise<{ rows?: TModel[]; totalRowCount?: number }> {
+  async Query(request: { body: TSearchQuery }, requestOptions?: { signal?: AbortSignal }): Promise<{ rows?: TModel[]; totalRowCount?: number }> {
     const client = new this.ClientClass();
     // Check if client has Query method (new API pattern)
     if ('Query' in client && typeof client.Query === 'function') {
       try {
-        const result = await (client as any).Query(request);
+        const result = await (client as any).Query(request, requestOptions);
         return result;
       } catch (error) {
-        console.error(`❌ [ApiClientAdapter] Query method failed:`, error);
+        // Aborted requests were superseded on purpose - not a failure
+        if ((error as Error)?.name !== 'AbortError') {
+          console.error(`❌ [ApiClientAdapter] Query method failed:`, error);
+        }
         throw error;
       }
     }
@@ -26,7 +29,7 @@ export class ApiClientAdapter<TClient, TSearchQuery extends ISearchQueryBase, TM
     // Fallback to query method (mixed patterns)
     if ('query' in client && typeof client.query === 'function') {
       try {
-        const result = await (client as any).query(request);
+        const result = await (client as any).query(request, requestOptions);
         return result;
       } catch (error) {
         console.error(`❌ [ApiClientAdapter] query method failed:`, error);
@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DataTable } from 'primereact/datatable';
+import type { DataTablePageEvent, DataTableSortEvent } from 'primereact/datatable';
+import { Column } from 'primereact/column';
+import { Message } from 'primereact/message';
+import type { z } from 'zod';
+import { zodRegistry } from '@/api/GreenOnion/Schema/Registry';
+import { buildColumnsFromSchema } from '@/utils/schemaBasedColumnBuilder';
+import { getCellRenderer } from '@/utils/cellRendererRegistry';
+import { getSchemaMetadata } from '@/utils/zodSchemaHelper';
+import { buildDetailFilter, findParentForeignKey, getParentReferenceFields } from './detailRelations';
+import type { GenericGridColumn, GridDetailConfig } from './types';
+
+export interface DetailGridProps {
+  config: GridDetailConfig;
+  /** Parent model name or interface (e.g., 'QuerySchoolDistrictModel') - used to resolve the foreign key */
+  parentModel?: string;
+  /** Value of the parent key for the expanded row */
+  parentValue: unknown;
+}
+
+interface DetailSetup {
+  columns: GenericGridColumn<any>[];
+  foreignKey: string;
+  dataKey?: string;
+}
+
+/**
+ * Child grid rendered inside an expanded SimpleGenericGrid row
+ * Columns come from the child schema (buildColumnsFromSchema); rows are queried through the child's client,
+ * filtered by the foreign key that points back at the parent (x-navigation-target)
+ */
+export function DetailGrid({ config, parentModel, parentValue }: DetailGridProps) {
+  const { childModelName, client, pageSize = 10 } = config;
+  const [setup, setSetup] = useState<DetailSetup | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [rows, setRows] = useState<any[]>([]);
+  const [totalRecords, setTotalRecords] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [first, setFirst] = useState(0);
+  const [sortField, setSortField] = useState<string | undefined>(undefined);
+  const [sortOrder, setSortOrder] = useState<1 | -1 | 0>(0);
+  // A new client instance (e.g. created inline by the parent) does not refetch - the child model does
+  const clientRef = useRef(client);
+  clientRef.current = client;
+
+  // Resolve the foreign key and build the child columns once
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSetup = async () => {
+      const schema = await zodRegistry.getSchemaByInterface(childModelName) as z.ZodObject<any> | null;
+      if (!schema) {
+        throw new Error(`Schema not found for ${childModelName}`);
+      }
+
+      const foreignKey = config.foreignKey ?? (parentModel ? findParentForeignKey(schema, parentModel) : undefined);
+      if (!foreignKey) {
+        throw new Error(`${childModelName} has no field referencing ${parentModel ?? 'the parent'} - set foreignKey on the detail grid`);
+      }
+
+      // The parent reference would repeat the same value on every child row
+      const columns = await buildColumnsFromSchema<any>(childModelName, {
+        excludeFields: getParentReferenceFields(schema, foreignKey)
+      });
+
+      return {
+        columns: columns.filter(col => !col.hidden),
+        foreignKey,
+        dataKey: getSchemaMetadata(schema).primaryKey
+      };
+    };
+
+    loadSetup()
+      .then(result => { if (!cancelled) setSetup(result); })
+      .catch(err => {
+        console.error(`❌ [DetailGrid] Failed to set up ${childModelName}:`, err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load detail grid');
+      });
+    return () => { cancelled = true; };
+  }, [childModelName, config.foreignKey, parentModel]);
+
+  // Query the child rows for the current page and sort
+  useEffect(() => {
+    if (!setup) return;
+
+    let cancelled = false;
+    setLoading(true);
+    clientRef.current.Query({
+      body: {
+        currentPage: Math.floor(first / pageSize),
+        pageSize,
+        filter: buildDetailFilter(setup.foreignKey, parentValue),
+        orderBy: sortField && sortOrder !== 0 ? { [sortField]: sortOrder === 1 ? 'asc' : 'desc' } : undefined
+      }
+    })
+      .then(response => {
+        if (cancelled) return;
+        setRows(response.rows || []);
+        setTotalRecords(response.totalRowCount || 0);
+        setError(null);
+      })
+      .catch(err => {
+        console.error(`❌ [DetailGrid] Failed to fetch ${childModelName}:`, err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to fetch data');
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [setup, parentValue, first, pageSize, sortField, sortOrder, childModelName]);
+
+  if (error) {
+    return <Message severity="error" text={error} className="w-full justify-content-start" />;
+  }
+
+  return (
+    <DataTable
+      value={rows}
+      lazy
+      paginator={totalRecords > pageSize}
+      rows={pageSize}
+      first={first}
+      totalRecords={totalRecords}
+      onPage={(e: DataTablePageEvent) => setFirst(e.first)}
+      sortField={sortField}
+      sortOrder={sortOrder}
+      onSort={(e: DataTableSortEvent) => {
+        setSortField(e.sortField);
+        setSortOrder((e.sortOrder ?? 0) as 1 | -1 | 0);
+        setFirst(0);
+      }}
+      removableSort
+      loading={loading || !setup}
+      dataKey={setup?.dataKey}
+      size="small"
+      stripedRows
+      emptyMessage="No related records"
+      className="detail-grid"
+    >
+      {setup?.columns.map(col => {
+        const fieldName = String(col.field);
+        let body = col.body;
+        if (!body && col.cellRenderer) {
+          const renderer = getCellRenderer(col.cellRenderer);
+          if (renderer) {
+            body = (rowData: any) => renderer(rowData[fieldName], rowData);
+          }
+        }
+        return (
+          <Column
+            key={fieldName}
+            field={fieldName}
+            header={col.header}
+            sortable={col.sortable !== false}
+            body={body}
+            style={col.width ? { width: col.width } : undefined}
+          />
+        );
+      })}
+    </DataTable>
+  );
+}
+
+export default DetailGrid;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Dialog } from 'primereact/dialog';
+import { ProgressBar } from 'primereact/progressbar';
+import { Button } from 'primereact/button';
+import type { ExportProgress } from './exportChunks';
+
+export interface ExportProgressDialogProps {
+  /** Current progress - dialog is hidden when null */
+  progress: ExportProgress | null;
+  /** Label of the format being exported (e.g. 'Excel (.xlsx)') */
+  formatLabel?: string;
+  onCancel: () => void;
+}
+
+/**
+ * Non-modal progress dialog for chunked exports
+ * Sits in the bottom-right corner so the grid stays usable while the export runs
+ */
+export function ExportProgressDialog({ progress, formatLabel, onCancel }: ExportProgressDialogProps) {
+  const percent = progress?.total
+    ? Math.min(100, Math.round((progress.exported / progress.total) * 100))
+    : null;
+
+  return (
+    <Dialog
+      header={`Exporting${formatLabel ? ` ${formatLabel}` : ''}`}
+      visible={progress !== null}
+      onHide={onCancel}
+      modal={false}
+      position="bottom-right"
+      closable={false}
+      draggable={false}
+      resizable={false}
+      style={{ width: '22rem' }}
+    >
+      <div className="flex flex-column gap-3">
+        {percent !== null ? (
+          <ProgressBar value={percent} />
+        ) : (
+          <ProgressBar mode="indeterminate" style={{ height: '6px' }} />
+        )}
+        <span className="text-sm text-600">
+          {progress?.exported.toLocaleString() ?? 0}
+          {progress?.total ? ` of ${progress.total.toLocaleString()}` : ''} records
+        </span>
+        <div className="flex justify-content-end">
+          <Button
+            label="Cancel"
+            icon="pi pi-times"
+            size="small"
+            severity="secondary"
+            outlined
+            onClick={onCancel}
+          />
+        </div>
+      </div>
+    </Dialog>
+  );
+}
+
+export default ExportProgressDialog;
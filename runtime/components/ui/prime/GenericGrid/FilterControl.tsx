@@ -6,7 +6,14 @@ import { InputText } from 'primereact/inputtext';
 import { Calendar } from 'primereact/calendar';
 import { ProgressSpinner } from 'primereact/progressspinner';
 import { Skeleton } from 'primereact/skeleton';
-import type { GenericGridColumn, FilterOperation } from './types';
+import type { GenericGridColumn, FilterOperation, FilterOperator } from './types';
+import {
+  FILTER_OPERATOR_LABELS,
+  getOperatorsForFieldType,
+  isListOperator,
+  isValuelessOperator,
+  type FilterFieldType
+} from './filterOperations';
 import { extractZodFields, getSchemaMetadata } from '@/utils/zodSchemaHelper';
 import type { z } from 'zod';
 import { ModelControlFactory } from '@/components/ui/controls/data';
@@ -46,7 +53,8 @@ export interface FilterControlProps<TModel> {
 
 /**
  * Reusable filter control component that provides a consistent filter interface
- * Uses 'in'/'Contains' operator and determines field type from Zod metadata
+ * Offers the operators that fit the field type (defaults to 'in') and determines
+ * field type from Zod metadata, falling back to the column filterType
  * Used by both column dropdown overlays and sidebar filter panels
  */
 export function FilterControl<TModel>({
@@ -83,9 +91,29 @@ export function FilterControl<TModel>({
   // For navigation relations, we need to determine the target type from the related field
   const navigationType = navigationTarget || (navigationRelation ? getNavigationTargetFromRelation(navigationRelation, schema) : null);
   const relatedFieldName = navigationRelation; // The actual field to filter on (e.g., 'ManufacturerId')
-  const fieldType = fieldMetadata?.type || 'string';
+  const fieldType = fieldMetadata?.type || (
+    column.filterType === 'number' ? 'number' :
+    column.filterType === 'date' ? 'date' :
+    column.filterType === 'boolean' ? 'boolean' : 'string'
+  );
+
+  // Operators available for this field - first entry is the default
+  const availableOperators = useMemo(
+    () => getOperatorsForFieldType(isNavigationField ? 'navigation' : fieldType as FilterFieldType),
+    [isNavigationField, fieldType]
+  );
+  const resolveOperator = (candidate?: FilterOperator): FilterOperator =>
+    candidate && availableOperators.includes(candidate) ? candidate : availableOperators[0];
 
-  // Local state for the filter being edited - always use 'in' operator
+  const [operator, setOperator] = useState<FilterOperator>(() => resolveOperator(initialFilter?.operator));
+  const [rangeFrom, setRangeFrom] = useState<string>(() =>
+    initialFilter?.operator === 'between' && initialFilter.values?.[0] != null ? String(initialFilter.values[0]) : ''
+  );
+  const [rangeTo, setRangeTo] = useState<string>(() =>
+    initialFilter?.operator === 'between' && initialFilter.values?.[1] != null ? String(initialFilter.values[1]) : ''
+  );
+
+  // Local state for the filter being edited
   const [filterValues, setFilterValues] = useState<any[]>(() => {
     if (initialFilter?.values && Array.isArray(initialFilter.values)) {
       return initialFilter.values;
@@ -107,6 +135,15 @@ export function FilterControl<TModel>({
 
   // Update local state when initialFilter changes
   useEffect(() => {
+    setOperator(resolveOperator(initialFilter?.operator));
+    if (initialFilter?.operator === 'between') {
+      setRangeFrom(initialFilter.values?.[0] != null ? String(initialFilter.values[0]) : '');
+      setRangeTo(initialFilter.values?.[1] != null ? String(initialFilter.values[1]) : '');
+    } else {
+      setRangeFrom('');
+      setRangeTo('');
+    }
+
     if (initialFilter?.values && Array.isArray(initialFilter.values)) {
       setFilterValues(initialFilter.values);
     } else if (initialFilter?.value !== undefined) {
@@ -126,7 +163,7 @@ export function FilterControl<TModel>({
         setInputValue(String(initialFilter.value));
       }
     }
-  }, [initialFilter, isNavigationField]);
+  }, [initialFilter, isNavigationField, availableOperators]);
 
   // Helper to get the model interface from navigation target
   const getModelInterface = (navigationTarget: string) => {
@@ -152,7 +189,43 @@ export function FilterControl<TModel>({
     return interfaceMap[modelName] || null;
   };
 
+  // Parse a single typed value from text input
+  const parseSingleValue = (raw: string): any => {
+    const trimmed = raw.trim();
+    if (trimmed === '') return undefined;
+    if (fieldType === 'number') {
+      const parsed = parseFloat(trimmed);
+      return isNaN(parsed) ? undefined : parsed;
+    }
+    if (fieldType === 'boolean') {
+      return trimmed.toLowerCase() === 'true';
+    }
+    return trimmed;
+  };
+
   const handleApply = () => {
+    const targetField = relatedFieldName || fieldName; // Use relation field if present, otherwise original field
+
+    // Null checks carry no value
+    if (isValuelessOperator(operator)) {
+      onApply({ field: targetField, operator, value: null });
+      return;
+    }
+
+    // Range filters carry [from, to]
+    if (operator === 'between') {
+      const from = parseSingleValue(rangeFrom);
+      const to = parseSingleValue(rangeTo);
+      onApply({ field: targetField, operator, value: from, values: [from, to] });
+      return;
+    }
+
+    // Single-value operators (contains, gt, eq, ...)
+    if (!isListOperator(operator) && !isNavigationField) {
+      onApply({ field: targetField, operator, value: parseSingleValue(inputValue) });
+      return;
+    }
+
     let values: any[] = [];
 
     if (isNavigationField) {
@@ -183,8 +256,8 @@ export function FilterControl<TModel>({
     }
 
     const filter: FilterOperation = {
-      field: relatedFieldName || fieldName, // Use relation field if present, otherwise original field
-      operator: 'in', // Always use 'in' operator
+      field: targetField,
+      operator, // 'in' or 'notIn'
       value: values.length === 1 ? values[0] : values,
       values: values
     };
@@ -194,10 +267,39 @@ export function FilterControl<TModel>({
   const handleClear = () => {
     setFilterValues([]);
     setInputValue('');
+    setRangeFrom('');
+    setRangeTo('');
+    setOperator(availableOperators[0]);
     onClear();
   };
 
   const renderFilterInput = () => {
+    // Null checks need no input
+    if (isValuelessOperator(operator)) {
+      return null;
+    }
+
+    // Range input: two values side by side
+    if (operator === 'between') {
+      return (
+        <div className="flex align-items-center gap-2">
+          <InputText
+            value={rangeFrom}
+            onChange={(e) => setRangeFrom(e.target.value)}
+            placeholder="From"
+            className="flex-1 min-w-0"
+          />
+          <span className="text-500">–</span>
+          <InputText
+            value={rangeTo}
+            onChange={(e) => setRangeTo(e.target.value)}
+            placeholder="To"
+            className="flex-1 min-w-0"
+          />
+        </div>
+      );
+    }
+
     // If this is a navigation field with x-navigation-target, use generated components with variant support
     if (isNavigationField && navigationType) {
       // Try to use the generated component from componentRegistry (supports variants)
@@ -321,6 +423,16 @@ export function FilterControl<TModel>({
         </div>
       )}
 
+      {/* Operator selector - hidden when only one operator applies */}
+      {availableOperators.length > 1 && (
+        <Dropdown
+          value={operator}
+          options={availableOperators.map(op => ({ label: FILTER_OPERATOR_LABELS[op], value: op }))}
+          onChange={(e) => setOperator(e.value)}
+          className="w-full"
+        />
+      )}
+
       {/* Just the filter input control */}
       {renderFilterInput()}
 
@@ -332,7 +444,11 @@ export function FilterControl<TModel>({
             size="small"
             onClick={handleApply}
             className="flex-1"
-            disabled={isNavigationField ? filterValues.length === 0 : !inputValue.trim()}
+            disabled={
+              isValuelessOperator(operator) ? false :
+              operator === 'between' ? !rangeFrom.trim() && !rangeTo.trim() :
+              isNavigationField ? filterValues.length === 0 : !inputValue.trim()
+            }
           />
           <Button
             label="Clear"
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { Button } from 'primereact/button';
+import { Dropdown } from 'primereact/dropdown';
+import { SelectButton } from 'primereact/selectbutton';
+import { Checkbox } from 'primereact/checkbox';
+import type { GenericGridColumn, FilterGroup, FilterNode, FilterOperation } from './types';
+import { FilterControl } from './FilterControl';
+import { createFilterGroup, isFilterGroup } from './filterOperations';
+
+export interface FilterGroupEditorProps {
+  group: FilterGroup;
+  onChange: (group: FilterGroup) => void;
+  /** Remove this group from its parent (not provided for the root group) */
+  onRemove?: () => void;
+  /** Fields that can be added as conditions */
+  fieldOptions: { label: string; value: string }[];
+  /** Resolve the column config used by FilterControl for a field */
+  getColumnForField: (fieldName: string) => GenericGridColumn<any> | null;
+  schema?: any;
+  depth?: number;
+  /** Maximum nesting depth for sub-groups (default: 3) */
+  maxDepth?: number;
+}
+
+const logicOptions = [
+  { label: 'AND', value: 'and' },
+  { label: 'OR', value: 'or' }
+];
+
+/**
+ * Tree-style editor for nested AND/OR filter groups
+ * Each condition reuses FilterControl; groups can be negated and nested
+ */
+export function FilterGroupEditor({
+  group,
+  onChange,
+  onRemove,
+  fieldOptions,
+  getColumnForField,
+  schema,
+  depth = 0,
+  maxDepth = 3
+}: FilterGroupEditorProps) {
+  const [selectedField, setSelectedField] = useState<string>('');
+
+  const updateConditions = (conditions: FilterNode[]) => {
+    onChange({ ...group, conditions });
+  };
+
+  const updateNode = (index: number, node: FilterNode) => {
+    const conditions = [...group.conditions];
+    conditions[index] = node;
+    updateConditions(conditions);
+  };
+
+  const removeNode = (index: number) => {
+    updateConditions(group.conditions.filter((_, i) => i !== index));
+  };
+
+  const addCondition = (field: string) => {
+    const condition: FilterOperation = {
+      field,
+      operator: 'eq',
+      value: ''
+    };
+    updateConditions([...group.conditions, condition]);
+  };
+
+  const addGroup = () => {
+    // Nested groups default to the opposite logic - the common "A AND (B OR C)" case
+    updateConditions([...group.conditions, createFilterGroup(group.logic === 'and' ? 'or' : 'and')]);
+  };
+
+  return (
+    <div
+      className={`filter-group-editor flex flex-column gap-2 ${depth > 0 ? 'border-left-2 border-primary-200 pl-2' : ''}`}
+    >
+      {/* Group header: logic, negation, remove */}
+      <div className="flex align-items-center gap-2">
+        <SelectButton
+          value={group.logic}
+          options={logicOptions}
+          onChange={(e) => e.value && onChange({ ...group, logic: e.value })}
+          className="p-button-sm"
+        />
+        <div className="flex align-items-center gap-1">
+          <Checkbox
+            inputId={`negate-${group.id}`}
+            checked={!!group.negate}
+            onChange={(e) => onChange({ ...group, negate: !!e.checked })}
+          />
+          <label htmlFor={`negate-${group.id}`} className="text-sm">NOT</label>
+        </div>
+        {onRemove && (
+          <Button
+            icon="pi pi-trash"
+            size="small"
+            severity="danger"
+            text
+            onClick={onRemove}
+            tooltip="Remove group"
+            className="ml-auto"
+          />
+        )}
+      </div>
+
+      {/* Conditions and nested groups */}
+      {group.conditions.map((node, index) => (
+        <React.Fragment key={isFilterGroup(node) ? node.id : `${node.field}-${index}`}>
+          {index > 0 && (
+            <small className="text-500 font-medium">{group.logic.toUpperCase()}</small>
+          )}
+          {isFilterGroup(node) ? (
+            <FilterGroupEditor
+              group={node}
+              onChange={(updated) => updateNode(index, updated)}
+              onRemove={() => removeNode(index)}
+              fieldOptions={fieldOptions}
+              getColumnForField={getColumnForField}
+              schema={schema}
+              depth={depth + 1}
+              maxDepth={maxDepth}
+            />
+          ) : (() => {
+            const column = getColumnForField(node.field);
+            if (!column) return null;
+            return (
+              <FilterControl
+                column={column}
+                initialFilter={node}
+                onApply={(updated) => updateNode(index, updated)}
+                onClear={() => removeNode(index)}
+                onCancel={() => removeNode(index)}
+                showHeader={true}
+                showButtons={true}
+                className="border-1 border-300 border-round p-2"
+                schema={schema}
+              />
+            );
+          })()}
+        </React.Fragment>
+      ))}
+
+      {group.conditions.length === 0 && (
+        <small className="text-500">Empty group - add a condition</small>
+      )}
+
+      {/* Add condition / group */}
+      <div className="flex align-items-center gap-2">
+        <Dropdown
+          value={selectedField}
+          options={fieldOptions}
+          onChange={(e) => setSelectedField(e.value)}
+          placeholder="Add condition..."
+          className="flex-1 min-w-0"
+        />
+        <Button
+          icon="pi pi-plus"
+          className="p-button-sm"
+          disabled={!selectedField}
+          onClick={() => {
+            if (selectedField) {
+              addCondition(selectedField);
+              setSelectedField('');
+            }
+          }}
+          tooltip="Add condition"
+        />
+        {depth < maxDepth && (
+          <Button
+            icon="pi pi-sitemap"
+            className="p-button-sm"
+            severity="secondary"
+            outlined
+            onClick={addGroup}
+            tooltip="Add nested group"
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default FilterGroupEditor;
@@ -2,6 +2,7 @@ import React, { useState, useMemo } from 'react';
 import { Panel } from 'primereact/panel';
 import { Button } from 'primereact/button';
 import { Dropdown } from 'primereact/dropdown';
+import { SelectButton } from 'primereact/selectbutton';
 import {
   DndContext,
   closestCenter,
@@ -21,11 +22,16 @@ import {
   useSortable,
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { GenericGridColumn, FilterOperation, OrderByConfig, GlobalSearchConfig, PredefinedFilter, GridStateConfig } from './types';
+import { GenericGridColumn, FilterOperation, OrderByConfig, GlobalSearchConfig, PredefinedFilter, GridStateConfig, FilterGroup } from './types';
+import type { ConditionalFormatRule, ConditionalFormatStyle } from './types';
 import { FilterControl } from './FilterControl';
+import { FilterGroupEditor } from './FilterGroupEditor';
+import { createFilterGroup, flattenFilterGroup } from './filterOperations';
+import { CONDITIONAL_FORMAT_STYLES, createConditionalFormatRule, describeConditionalFormat } from './conditionalFormatting';
 import { InputText } from 'primereact/inputtext';
 import { DevelopmentPanel } from './DevelopmentPanel';
 import { DefinedFilterComponent } from '../DefinedFilter';
+import { toDefinedFilterState } from './definedFilterState';
 import DevelopmentConfig from '@/config/development';
 import type { IDevelopmentFilterViewModel, IFilter, IOrderBy } from './DevelopmentTypes';
 import { extractZodFields } from '@/utils/zodSchemaHelper';
@@ -42,6 +48,9 @@ interface FilterSidebarProps<TSearchQuery> {
   onColumnOrderChange: (order: string[]) => void;
   activeFilters?: FilterOperation[];
   onActiveFiltersChange?: (filters: FilterOperation[]) => void;
+  /** Nested AND/OR filter tree (combined with activeFilters using AND) */
+  filterGroup?: FilterGroup | null;
+  onFilterGroupChange?: (group: FilterGroup | null) => void;
   activeSorts?: OrderByConfig[];
   onActiveSortsChange?: (sorts: OrderByConfig[]) => void;
   globalSearch?: GlobalSearchConfig;
@@ -60,6 +69,11 @@ interface FilterSidebarProps<TSearchQuery> {
   onDefinedFiltersChange?: () => void;
   // Schema for field metadata lookup
   schema?: any; // z.ZodObject<any> - using any to avoid import issues
+  /** User formatting rules - the Formatting panel is hidden without onConditionalFormatsChange */
+  conditionalFormats?: ConditionalFormatRule[];
+  onConditionalFormatsChange?: (rules: ConditionalFormatRule[]) => void;
+  /** Rules from code and the schema - listed read-only */
+  builtInConditionalFormats?: ConditionalFormatRule[];
 }
 
 // Sortable item component for column visibility (with excluded drag handle for buttons)
@@ -131,6 +145,8 @@ export function FilterSidebar<TSearchQuery>({
   onColumnOrderChange,
   activeFilters = [],
   onActiveFiltersChange,
+  filterGroup = null,
+  onFilterGroupChange,
   activeSorts = [],
   onActiveSortsChange,
   globalSearch,
@@ -146,11 +162,18 @@ export function FilterSidebar<TSearchQuery>({
   onClearSelections,
   onDefinedFilterApply,
   onDefinedFiltersChange,
-  schema
+  schema,
+  conditionalFormats = [],
+  onConditionalFormatsChange,
+  builtInConditionalFormats = []
 }: FilterSidebarProps<TSearchQuery>) {
   // Local state for form inputs
   const [selectedFilterField, setSelectedFilterField] = useState<string>('');
   const [selectedSortField, setSelectedSortField] = useState<string>('');
+  // New formatting rule - the condition is edited with FilterControl once a field is picked
+  const [formatField, setFormatField] = useState<string>('');
+  const [formatStyle, setFormatStyle] = useState<ConditionalFormatStyle>('highlight');
+  const [formatTarget, setFormatTarget] = useState<ConditionalFormatRule['target']>('row');
 
   // Build filterable fields from schema (independent of displayed columns)
   // This includes navigation target fields that may be hidden from display
@@ -358,6 +381,12 @@ export function FilterSidebar<TSearchQuery>({
         if (onClearSelections) {
           onClearSelections();
         }
+
+        // The grid restores the whole saved state (widths, pins, views...) in one undo step
+        if (onDefinedFilterApply) {
+          onDefinedFilterApply(filter);
+          return;
+        }
         
         // Apply search term
         if (state.searchTerm && onGlobalSearchChange) {
@@ -378,6 +407,11 @@ export function FilterSidebar<TSearchQuery>({
         } else if (onActiveFiltersChange) {
           onActiveFiltersChange([]);
         }
+
+        // Apply filter group
+        if (onFilterGroupChange) {
+          onFilterGroupChange(state.filterGroup || null);
+        }
         
         // Apply sorts
         if (state.orderBy && onActiveSortsChange) {
@@ -398,11 +432,6 @@ export function FilterSidebar<TSearchQuery>({
         } else if (allColumns.length > 0 && onColumnOrderChange) {
           onColumnOrderChange(allColumns);
         }
-        
-        // Call parent callback if provided
-        if (onDefinedFilterApply) {
-          onDefinedFilterApply(filter);
-        }
       }
     } catch (error) {
       console.error('❌ [FilterSidebar] Failed to apply defined filter:', error);
@@ -428,6 +457,9 @@ export function FilterSidebar<TSearchQuery>({
     if (onActiveFiltersChange) {
       onActiveFiltersChange([]);
     }
+    if (onFilterGroupChange) {
+      onFilterGroupChange(null);
+    }
     if (onActiveSortsChange) {
       onActiveSortsChange([]);
     }
@@ -458,7 +490,7 @@ export function FilterSidebar<TSearchQuery>({
         onFilterApply={handleDefinedFilterApply}
         onNewFilter={handleNewFilter}
         getCurrentGridState={() => {
-          return currentGridState || null;
+          return currentGridState ? toDefinedFilterState(currentGridState) : null;
         }}
         onFiltersChange={onDefinedFiltersChange}
       />
@@ -491,6 +523,9 @@ export function FilterSidebar<TSearchQuery>({
     if (onActiveFiltersChange) {
       onActiveFiltersChange([]);
     }
+    if (onFilterGroupChange) {
+      onFilterGroupChange(null);
+    }
     if (onActiveSortsChange) {
       onActiveSortsChange([]);
     }
@@ -583,6 +618,62 @@ export function FilterSidebar<TSearchQuery>({
     </Panel>
   );
 
+  // Advanced Filters Panel - nested AND/OR groups with negation
+  const filterGroupConditionCount = flattenFilterGroup(filterGroup).length;
+  const advancedFilterPanel = onFilterGroupChange ? (
+    <Panel
+      header={
+        <div className="flex align-items-center justify-content-between w-full">
+          <span>Advanced Filters ({filterGroupConditionCount})</span>
+          {filterGroup && (
+            <Button
+              icon="pi pi-times"
+              size="small"
+              severity="secondary"
+              text
+              onClick={() => onFilterGroupChange(null)}
+              tooltip="Clear advanced filters"
+            />
+          )}
+        </div>
+      }
+      toggleable
+      collapsed={!filterGroup}
+      className="mb-3"
+    >
+      {filterGroup ? (
+        <FilterGroupEditor
+          group={filterGroup}
+          onChange={onFilterGroupChange}
+          fieldOptions={filterableFields.map(f => ({
+            label: f.header,
+            value: f.field
+          }))}
+          getColumnForField={getColumnForField}
+          schema={schema}
+        />
+      ) : (
+        <div className="flex flex-column gap-2">
+          <small className="text-500">
+            Combine conditions with AND/OR, nest groups and negate them with NOT.
+          </small>
+          <Button
+            label="Create filter group"
+            icon="pi pi-sitemap"
+            size="small"
+            outlined
+            onClick={() => {
+              // Seed the root group with the simple filters so nothing is lost
+              const group = createFilterGroup('and');
+              onFilterGroupChange({ ...group, conditions: [...activeFilters] });
+              onActiveFiltersChange?.([]);
+            }}
+          />
+        </div>
+      )}
+    </Panel>
+  ) : null;
+
   // Order By Panel with count in header and reset button
   const orderByPanel = (
     <Panel 
@@ -777,6 +868,102 @@ export function FilterSidebar<TSearchQuery>({
     </Panel>
   );
 
+  // Formatting Panel - user rules style matching rows or cells; built-in rules are listed read-only
+  const getFieldLabel = (field: string) => getColumnForField(field)?.header ?? field;
+  const formatColumn = formatField ? getColumnForField(formatField) : null;
+  const formattingPanel = onConditionalFormatsChange ? (
+    <Panel
+      header={
+        <div className="flex align-items-center justify-content-between w-full">
+          <span>Formatting ({conditionalFormats.length})</span>
+          {conditionalFormats.length > 0 && (
+            <Button
+              icon="pi pi-times"
+              size="small"
+              severity="secondary"
+              text
+              onClick={() => onConditionalFormatsChange([])}
+              tooltip="Remove all formatting rules"
+            />
+          )}
+        </div>
+      }
+      toggleable
+      collapsed={conditionalFormats.length === 0}
+      className="mb-3"
+    >
+      <div className="flex flex-column gap-2">
+        <Dropdown
+          value={formatField}
+          options={filterableFields.map(f => ({
+            label: f.header,
+            value: f.field
+          }))}
+          onChange={(e) => setFormatField(e.value)}
+          placeholder="Add rule for..."
+        />
+        {formatColumn && (
+          <>
+            <div className="flex align-items-center gap-2">
+              <Dropdown
+                value={formatStyle}
+                options={Object.entries(CONDITIONAL_FORMAT_STYLES).map(([value, preset]) => ({ label: preset.label, value }))}
+                onChange={(e) => setFormatStyle(e.value)}
+                className="flex-1"
+              />
+              <SelectButton
+                value={formatTarget}
+                options={[{ label: 'Row', value: 'row' }, { label: 'Cell', value: 'cell' }]}
+                onChange={(e) => e.value && setFormatTarget(e.value)}
+                className="p-button-sm"
+              />
+            </div>
+            <FilterControl
+              key={formatField}
+              column={formatColumn}
+              onApply={(condition) => {
+                onConditionalFormatsChange([...conditionalFormats, createConditionalFormatRule(condition, formatStyle, formatTarget, formatField)]);
+                setFormatField('');
+              }}
+              onClear={() => setFormatField('')}
+              onCancel={() => setFormatField('')}
+              showHeader={false}
+              showButtons={true}
+              className="border-1 border-300 border-round p-3"
+              schema={schema}
+            />
+          </>
+        )}
+
+        {conditionalFormats.map(rule => (
+          <div key={rule.id} className="flex align-items-center gap-2 p-2 border-1 border-300 border-round">
+            <span className={`flex-1 text-sm px-1 ${rule.target === 'row' ? CONDITIONAL_FORMAT_STYLES[rule.style].rowClassName : CONDITIONAL_FORMAT_STYLES[rule.style].cellClassName}`}>
+              {describeConditionalFormat(rule, getFieldLabel)}
+            </span>
+            <Button
+              icon="pi pi-times"
+              size="small"
+              severity="secondary"
+              text
+              onClick={() => onConditionalFormatsChange(conditionalFormats.filter(r => r.id !== rule.id))}
+              tooltip="Remove rule"
+            />
+          </div>
+        ))}
+        {builtInConditionalFormats.map(rule => (
+          <div key={rule.id} className="flex align-items-center gap-2 p-2 text-sm text-600">
+            <i className="pi pi-lock text-400" title={rule.source === 'schema' ? 'Defined in the schema' : 'Defined by the application'} />
+            <span>{describeConditionalFormat(rule, getFieldLabel)}</span>
+          </div>
+        ))}
+
+        {conditionalFormats.length === 0 && builtInConditionalFormats.length === 0 && !formatColumn && (
+          <small className="text-500">No formatting rules</small>
+        )}
+      </div>
+    </Panel>
+  ) : null;
+
   // Development Panel Section
   const developmentPanel = DevelopmentConfig.enableGridDebugPanel && developmentPanelVisible && developmentViewModel ? (
     <DevelopmentPanel
@@ -789,8 +976,10 @@ export function FilterSidebar<TSearchQuery>({
     <div className="filter-sidebar">
       {predefinedFiltersPanel}
       {filterPanel}
+      {advancedFilterPanel}
       {orderByPanel}
       {columnsPanel}
+      {formattingPanel}
       {definedFiltersPanel}
       {developmentPanel}
     </div>
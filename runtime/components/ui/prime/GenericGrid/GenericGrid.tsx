@@ -1,12 +1,14 @@
-import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import React, { useState, useMemo, useRef } from 'react';
 import { DataTable } from 'primereact/datatable';
 import { Column } from 'primereact/column';
 import { Sidebar } from 'primereact/sidebar';
 import { Toast } from 'primereact/toast';
+import { Skeleton } from 'primereact/skeleton';
 import { GridToolbar } from './GridToolbar';
 import { FilterSidebar } from './FilterSidebar';
 import { GenericGridProps, GlobalSearchConfig, IQueryableClient } from './interfaces';
 import { ISearchQueryBase } from '../Base/types';
+import { useVirtualRows } from './useVirtualRows';
 
 export function GenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearchQueryBase, TModel>({
   client,
@@ -14,8 +16,7 @@ export function GenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearchQuery
   columns,
   predefinedFilters = [],
   initialSearchQuery = {},
-  pageSize = 20,
-  pageSizeOptions = [50, 100, 1000],
+  virtualScrolling,
   enableBulkSelection = true,
   enableColumnReordering = true,
   enableFiltering = true,
@@ -25,17 +26,27 @@ export function GenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearchQuery
   onBulkSelect,
   onCreateClick,
   className = '',
-  height = '600px'
+  height = '600px',
+  dataKey = 'id'
 }: GenericGridProps<TFilter, TOrderBy, TSearchQuery, TModel>) {
   const toastRef = useRef<Toast>(null);
 
-  // State management for server-side pagination
-  const [data, setData] = useState<TModel[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [initialLoading, setInitialLoading] = useState(true);
-  const [totalRecords, setTotalRecords] = useState(0);
-  const [currentPage, setCurrentPage] = useState(0);
-  const [currentPageSize, setCurrentPageSize] = useState(pageSize);
+  // Virtual scrolling configuration with defaults
+  const virtualConfig = useMemo(() => ({
+    enabled: virtualScrolling?.enabled ?? true,
+    itemHeight: virtualScrolling?.itemHeight ?? 50,
+    pageSize: virtualScrolling?.pageSize ?? 50,
+    buffer: virtualScrolling?.buffer ?? 10,
+    maxCachedPages: virtualScrolling?.maxCachedPages ?? 10
+  }), [
+    virtualScrolling?.enabled,
+    virtualScrolling?.itemHeight,
+    virtualScrolling?.pageSize,
+    virtualScrolling?.buffer,
+    virtualScrolling?.maxCachedPages
+  ]);
+
+  // Selected rows are kept by object (matched on dataKey) so selection survives page eviction
   const [selectedRows, setSelectedRows] = useState<TModel[]>([]);
   const [sidebarVisible, setSidebarVisible] = useState(false);
   
@@ -46,10 +57,6 @@ export function GenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearchQuery
     searchType: 'contains'
   });
   
-  // Virtual scrolling state (keeping original logic for now)
-  const [hasNextPage, setHasNextPage] = useState(true);
-  const loadedPagesRef = useRef<Set<number>>(new Set());
-  
   // Grid state
   const [visibleColumns, setVisibleColumns] = useState<string[]>(
     columns.filter(col => !col.hidden).map(col => String(col.field))
@@ -69,109 +76,51 @@ export function GenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearchQuery
     }
   };
 
-  // Data fetching for infinite scrolling
-  const fetchPage = useCallback(async (pageNumber: number, isInitial = false) => {
-    if (!isInitial && loadedPagesRef.current.has(pageNumber)) {
-      return;
-    }
-    
-    setLoading(true);
-    try {
-      // Build search query with virtual scrolling parameters
-      const queryWithSearch: TSearchQuery = {
+  // Pages loaded on demand - a new search drops the cache and cancels the pages still loading
+  // Without virtual scrolling only the first page is shown
+  // Selection is intentionally kept so rows stay selected across searches
+  const virtualRows = useVirtualRows<TModel, Awaited<ReturnType<typeof client.Query>>>({
+    enabled: true,
+    fetchPage: (page, pageSize, signal) => client.Query({
+      body: {
         ...searchQuery,
-        currentPage: pageNumber, // 0-based page number
-        pageSize: virtualConfig.pageSize,
-        excludePageCount: pageNumber === 0, // Only get total count on first page
-        searchTerm: globalSearch.searchTerm ? 
-          formatGlobalSearch(globalSearch.searchTerm, globalSearch.searchType) : 
+        currentPage: page, // 0-based page number
+        pageSize,
+        excludePageCount: page !== 0, // Only get total count on first page
+        searchTerm: globalSearch.searchTerm ?
+          formatGlobalSearch(globalSearch.searchTerm, globalSearch.searchType) :
           undefined
-      };
-
-      const response = await client.Query({ body: queryWithSearch });
-      const newRows = response.rows || [];
-      if (isInitial || pageNumber === 0) {
-        // Initial load or search change - replace all data
-        setAllData(newRows);
-        setData(newRows);
-        setTotalRecords(response.totalRowCount || 0);
-        loadedPagesRef.current = new Set([pageNumber]);
-        setCurrentPage(0);
-        setHasNextPage(newRows.length >= virtualConfig.pageSize);
-      } else {
-        // Append new data for infinite scrolling
-        setAllData(prev => {
-          const combined = [...prev, ...newRows];
-          // Remove duplicates if any (based on id field)
-          const unique = combined.filter((item, index, arr) => 
-            arr.findIndex(i => (i as any).id === (item as any).id) === index
-          );
-          return unique;
-        });
-        loadedPagesRef.current = new Set([...loadedPagesRef.current, pageNumber]);
-        setHasNextPage(newRows.length >= virtualConfig.pageSize);
       }
-    } catch (error) {
-      console.error('❌ [GenericGrid] Error fetching data:', error);
-      console.error('❌ [GenericGrid] Error stack:', error instanceof Error ? error.stack : 'No stack trace');
-      toastRef.current?.show({
-        severity: 'error',
-        summary: 'Error',
-        detail: 'Failed to load data',
-        life: 3000
-      });
-    } finally {
-      setLoading(false);
-      if (isInitial) {
-        setInitialLoading(false);
-      }
-    }
-  }, [client, searchQuery, globalSearch, virtualConfig.pageSize]);
-
-  // Initial data fetch
-  useEffect(() => {
-    fetchPage(0, true);
-  }, [fetchPage]);
-
-  // Refetch when search/filter changes
-  useEffect(() => {
-    loadedPagesRef.current = new Set();
-    setCurrentPage(0);
-    fetchPage(0, true);
-  }, [searchQuery, globalSearch, fetchPage]);
-
-  // Virtual scrolling handler
-  const onVirtualScrollerLazyLoad = useCallback((event: any) => {
-    if (!virtualConfig.enabled || !hasNextPage) return;
-    
-    const { first, last } = event;
-    const nextPageNeeded = Math.floor(last / virtualConfig.pageSize);
-    
-    if (nextPageNeeded > currentPage && !loadedPagesRef.current.has(nextPageNeeded)) {
-      setCurrentPage(nextPageNeeded);
-      fetchPage(nextPageNeeded);
-    }
-  }, [virtualConfig.enabled, virtualConfig.pageSize, currentPage, hasNextPage, fetchPage]);
+    }, { signal }),
+    queryKey: JSON.stringify({ searchQuery, globalSearch }),
+    pageSize: virtualConfig.pageSize,
+    maxCachedPages: virtualConfig.maxCachedPages,
+    onError: () => toastRef.current?.show({
+      severity: 'error',
+      summary: 'Error',
+      detail: 'Failed to load data',
+      life: 3000
+    })
+  });
+  const { totalRecords, loading, loadedRows } = virtualRows;
 
-  // Selection handling
+  // Selection handling - placeholders (rows not loaded yet) can't be selected
   const handleSelectionChange = (e: { value: TModel[] }) => {
-    setSelectedRows(e.value);
+    const selection = e.value.filter(Boolean);
+    setSelectedRows(selection);
     if (onBulkSelect) {
-      const selectedIds = e.value.map((row: any) => row.id || row.Id).filter(Boolean);
+      const selectedIds = selection.map((row: any) => row[dataKey]).filter(Boolean);
       onBulkSelect(selectedIds);
     }
   };
 
   // Row click handling
-  const handleRowClick = (e: { data: TModel }) => {
-    if (onRowClick) {
+  const handleRowClick = (e: { data: TModel | undefined }) => {
+    if (onRowClick && e.data) {
       onRowClick(e.data);
     }
   };
 
-  // Use allData for virtual scrolling, or filtered data for regular display
-  const displayData = virtualConfig.enabled ? allData : data;
-  
   // Render columns
   const renderColumns = useMemo(() => {
     const orderedColumns = columnOrder
@@ -188,7 +137,11 @@ export function GenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearchQuery
         filter={col.filterable && enableFiltering}
         style={{ width: col.width }}
         frozen={col.frozen}
-        body={col.body}
+        // Placeholder rows render a skeleton until their page is loaded
+        body={(rowData: TModel | undefined) => {
+          if (!rowData) return <Skeleton height="1rem" />;
+          return col.body ? col.body(rowData) : (rowData as any)[String(col.field)];
+        }}
       />
     ));
   }, [columns, columnOrder, visibleColumns, enableSorting, enableFiltering]);
@@ -233,12 +186,13 @@ export function GenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearchQuery
         {/* Data Table */}
         <div className="grid-table-container" style={{ flex: 1 }}>
           <DataTable
-            value={displayData}
-            loading={initialLoading}
+            value={virtualConfig.enabled ? virtualRows.rows : loadedRows}
+            loading={virtualRows.initialLoading}
             selection={enableBulkSelection ? selectedRows : undefined}
             onSelectionChange={enableBulkSelection ? handleSelectionChange : undefined}
             onRowClick={handleRowClick}
-            dataKey="id"
+            dataKey={dataKey}
+            showSelectAll={!virtualConfig.enabled} // Select-all can't cover rows that aren't loaded
             paginator={false}
             className="generic-data-table"
             resizableColumns
@@ -252,14 +206,14 @@ export function GenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearchQuery
               loading: loading,
               delay: 250,
               lazy: true,
-              onLazyLoad: onVirtualScrollerLazyLoad,
+              onLazyLoad: virtualRows.onLazyLoad,
               loadingTemplate: () => (
                 <div className="flex align-items-center justify-content-center h-4rem">
                   <i className="pi pi-spin pi-spinner" style={{ fontSize: '2rem' }}></i>
                   <span className="ml-2">Loading more data...</span>
                 </div>
               ),
-              // Calculate total number of items for virtual scroller
+              // Rows rendered beyond the viewport in each direction
               numToleratedItems: virtualConfig.buffer
             } : undefined}
           >
@@ -272,18 +226,21 @@ export function GenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearchQuery
           {/* Status indicator for virtual scrolling */}
           {virtualConfig.enabled && (
             <div className="grid-status-bar p-2 text-sm text-500">
-              {totalRecords > 0 ? (
+              {virtualRows.rowCountKnown ? (
                 <span>
-                  Showing {allData.length} of {totalRecords.toLocaleString()} records
+                  {totalRecords.toLocaleString()} records ({loadedRows.length.toLocaleString()} loaded)
                   {loading && <i className="pi pi-spin pi-spinner ml-2"></i>}
                 </span>
               ) : (
                 <span>
-                  Loaded {allData.length} records
-                  {hasNextPage && <span> (more available)</span>}
+                  Loaded {loadedRows.length.toLocaleString()} records
+                  {loadedRows.length < totalRecords && <span> (more available)</span>}
                   {loading && <i className="pi pi-spin pi-spinner ml-2"></i>}
                 </span>
               )}
+              {selectedRows.length > 0 && (
+                <span className="ml-3">{selectedRows.length} selected</span>
+              )}
             </div>
           )}
         </div>
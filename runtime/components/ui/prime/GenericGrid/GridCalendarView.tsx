@@ -0,0 +1,247 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from 'primereact/button';
+import { SelectButton } from 'primereact/selectbutton';
+import { Message } from 'primereact/message';
+import { ProgressBar } from 'primereact/progressbar';
+import type { CalendarMode } from './types';
+import type { CardLayout } from './cardLayout';
+import {
+  CALENDAR_MODE_OPTIONS,
+  formatCalendarTitle,
+  getCalendarRange,
+  groupCalendarEntries,
+  shiftCalendarAnchor,
+  toDayKey
+} from './calendarOperations';
+import type { CalendarEntry, CalendarFields, CalendarRange } from './calendarOperations';
+
+export interface GridCalendarViewProps<TModel> {
+  /** Date (or start/end) fields records are plotted by (see getCalendarFields) */
+  fields: CalendarFields;
+  mode: CalendarMode;
+  onModeChange: (mode: CalendarMode) => void;
+  /** Title and subtitle fields of each entry (see resolveCardLayout) */
+  layout: CardLayout;
+  dataKey: string;
+  /** Rendered cell content - same renderers as the table columns */
+  renderValue: (field: string, row: TModel) => React.ReactNode;
+  /** The grid's query narrowed to the visible range (see buildCalendarRangeFilter) */
+  fetchRange: (range: CalendarRange, pageSize: number, signal: AbortSignal) => Promise<{ rows?: TModel[]; totalRowCount?: number }>;
+  /** Changes whenever the grid's search or filters change - the range reloads */
+  queryKey: string;
+  /** Records loaded at most per range (default: 500) */
+  maxRecords?: number;
+  /** Opens a record (e.g. its entity form) */
+  onEntryClick?: (row: TModel) => void;
+}
+
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 7].map(day =>
+  // 2024-01-01 was a Monday
+  new Date(2024, 0, day).toLocaleDateString(undefined, { weekday: 'short' })
+);
+const ENTRIES_PER_MONTH_DAY = 3;
+
+const formatTime = (date: Date) => date.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+
+/**
+ * Calendar of the grid's matching records by a date or date range - month, week or day at a time
+ * Only the visible range is loaded; it reloads when the range or the grid's search and filters change
+ */
+export function GridCalendarView<TModel>({
+  fields,
+  mode,
+  onModeChange,
+  layout,
+  dataKey,
+  renderValue,
+  fetchRange,
+  queryKey,
+  maxRecords = 500,
+  onEntryClick
+}: GridCalendarViewProps<TModel>) {
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [loaded, setLoaded] = useState<{ rangeKey: string; rows: TModel[]; total: number } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // The fetcher closes over the grid's query - the reload is driven by queryKey instead
+  const fetchRangeRef = useRef(fetchRange);
+  fetchRangeRef.current = fetchRange;
+
+  const range = useMemo(() => getCalendarRange(mode, anchor), [mode, anchor]);
+  const rangeKey = `${toDayKey(range.start)}/${toDayKey(range.end)}`;
+  const todayKey = toDayKey(new Date());
+
+  useEffect(() => {
+    const abortController = new AbortController();
+    setLoading(true);
+    setError(null);
+    fetchRangeRef.current(range, maxRecords, abortController.signal)
+      .then(response => {
+        if (abortController.signal.aborted) return;
+        const rows = response.rows ?? [];
+        setLoaded({ rangeKey, rows, total: response.totalRowCount ?? rows.length });
+      })
+      .catch(err => {
+        if (abortController.signal.aborted) return;
+        console.error('❌ [GridCalendarView] Failed to load records:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load data');
+      })
+      .finally(() => {
+        if (!abortController.signal.aborted) setLoading(false);
+      });
+    return () => abortController.abort();
+    // range is covered by rangeKey
+  }, [rangeKey, queryKey, maxRecords]);
+
+  // Records of another range are not shown while the next one loads
+  const entriesByDay = useMemo(
+    () => groupCalendarEntries(loaded && loaded.rangeKey === rangeKey ? loaded.rows : [], fields, range),
+    [loaded, rangeKey, fields, range]
+  );
+
+  const showDay = (day: Date) => {
+    setAnchor(day);
+    onModeChange('day');
+  };
+
+  const renderEntry = (entry: CalendarEntry<TModel>, compact: boolean) => {
+    const key = (entry.row as any)[dataKey];
+    const time = entry.allDay || entry.continuesBefore ? null : formatTime(entry.start);
+    const title = layout.titleField ? renderValue(layout.titleField, entry.row) : String(key ?? '');
+
+    return (
+      <div
+        key={key}
+        className={`grid-calendar-entry surface-100 border-left-3 border-primary px-2 py-1 text-sm ${onEntryClick ? 'cursor-pointer' : ''} ${entry.continuesBefore ? 'border-noround-left' : 'border-round-right'}`}
+        role={onEntryClick ? 'button' : undefined}
+        tabIndex={onEntryClick ? 0 : undefined}
+        onClick={onEntryClick ? () => onEntryClick(entry.row) : undefined}
+        onKeyDown={(e) => {
+          if (onEntryClick && (e.key === 'Enter' || e.key === ' ')) {
+            e.preventDefault();
+            onEntryClick(entry.row);
+          }
+        }}
+      >
+        <div className="white-space-nowrap overflow-hidden text-overflow-ellipsis">
+          {entry.continuesBefore && <i className="pi pi-angle-left text-xs mr-1" aria-label="Continued" />}
+          {time && <span className="text-600 mr-1">{time}</span>}
+          <span className="font-medium">{title}</span>
+          {entry.continuesAfter && <i className="pi pi-angle-right text-xs ml-1" aria-label="Continues" />}
+        </div>
+        {!compact && layout.subtitleField && (
+          <div className="text-600 white-space-nowrap overflow-hidden text-overflow-ellipsis">
+            {renderValue(layout.subtitleField, entry.row)}
+          </div>
+        )}
+        {!compact && !entry.allDay && entry.end.getTime() !== entry.start.getTime() && (
+          <div className="text-500 text-xs">
+            {entry.start.toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' })} – {entry.end.toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' })}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderMonth = () => (
+    <div className="grid-calendar-month flex flex-column h-full">
+      <div className="grid-calendar-weekdays" style={{ display: 'grid', gridTemplateColumns: 'repeat(7, minmax(0, 1fr))' }}>
+        {WEEKDAYS.map(weekday => (
+          <div key={weekday} className="p-1 text-center text-sm font-semibold text-600">{weekday}</div>
+        ))}
+      </div>
+      <div className="flex-1" style={{ display: 'grid', gridTemplateColumns: 'repeat(7, minmax(0, 1fr))', gridAutoRows: 'minmax(6rem, 1fr)' }}>
+        {range.days.map(day => {
+          const dayKey = toDayKey(day);
+          const entries = entriesByDay.get(dayKey) ?? [];
+          const outside = day.getMonth() !== anchor.getMonth();
+          return (
+            <div
+              key={dayKey}
+              className={`grid-calendar-day border-1 surface-border p-1 flex flex-column gap-1 overflow-hidden ${outside ? 'surface-50' : ''}`}
+              style={{ minWidth: 0 }}
+            >
+              <button
+                type="button"
+                className={`p-link align-self-end text-sm px-1 border-round ${dayKey === todayKey ? 'bg-primary' : outside ? 'text-400' : 'text-700'}`}
+                onClick={() => showDay(day)}
+                aria-label={day.toLocaleDateString(undefined, { dateStyle: 'full' })}
+              >
+                {day.getDate()}
+              </button>
+              {entries.slice(0, ENTRIES_PER_MONTH_DAY).map(entry => renderEntry(entry, true))}
+              {entries.length > ENTRIES_PER_MONTH_DAY && (
+                <button type="button" className="p-link text-xs text-primary text-left" onClick={() => showDay(day)}>
+                  +{entries.length - ENTRIES_PER_MONTH_DAY} more
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  const renderDays = () => (
+    <div className="h-full" style={{ display: 'grid', gridTemplateColumns: `repeat(${range.days.length}, minmax(0, 1fr))` }}>
+      {range.days.map(day => {
+        const dayKey = toDayKey(day);
+        const entries = entriesByDay.get(dayKey) ?? [];
+        return (
+          <div key={dayKey} className="grid-calendar-day border-1 surface-border flex flex-column overflow-hidden" style={{ minWidth: 0 }}>
+            {mode === 'week' && (
+              <button
+                type="button"
+                className={`p-link p-2 text-sm font-semibold text-center border-bottom-1 surface-border ${dayKey === todayKey ? 'text-primary' : 'text-700'}`}
+                onClick={() => showDay(day)}
+              >
+                {day.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' })}
+              </button>
+            )}
+            <div className="flex flex-column gap-1 p-1 overflow-y-auto flex-1">
+              {entries.map(entry => renderEntry(entry, false))}
+              {entries.length === 0 && !loading && mode === 'day' && (
+                <div className="p-4 text-center text-500">No records found</div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="grid-calendar flex flex-column gap-2 h-full">
+      <div className="flex flex-wrap align-items-center gap-2">
+        <Button icon="pi pi-chevron-left" className="p-button-text p-button-sm" onClick={() => setAnchor(shiftCalendarAnchor(mode, anchor, -1))} aria-label="Previous" />
+        <Button icon="pi pi-chevron-right" className="p-button-text p-button-sm" onClick={() => setAnchor(shiftCalendarAnchor(mode, anchor, 1))} aria-label="Next" />
+        <Button label="Today" className="p-button-outlined p-button-sm" onClick={() => setAnchor(new Date())} />
+        <span className="font-semibold text-lg ml-2" aria-live="polite">{formatCalendarTitle(mode, anchor)}</span>
+        <SelectButton
+          value={mode}
+          options={CALENDAR_MODE_OPTIONS}
+          optionLabel="label"
+          optionValue="value"
+          onChange={(e) => e.value && onModeChange(e.value)}
+          className="p-button-sm ml-auto"
+        />
+      </div>
+
+      {error && <Message severity="error" text={error} className="w-full justify-content-start" />}
+      {loaded && loaded.rangeKey === rangeKey && loaded.total > loaded.rows.length && (
+        <Message
+          severity="warn"
+          text={`Showing the first ${loaded.rows.length} of ${loaded.total} records in this range`}
+          className="w-full justify-content-start"
+        />
+      )}
+      {loading && <ProgressBar mode="indeterminate" style={{ height: '4px' }} />}
+
+      <div className="flex-1 overflow-auto" style={{ minHeight: 0 }} aria-busy={loading}>
+        {mode === 'month' ? renderMonth() : renderDays()}
+      </div>
+    </div>
+  );
+}
+
+export default GridCalendarView;
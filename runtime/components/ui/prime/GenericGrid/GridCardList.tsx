@@ -0,0 +1,128 @@
+import React from 'react';
+import { Checkbox } from 'primereact/checkbox';
+import { ProgressSpinner } from 'primereact/progressspinner';
+import type { CardLayout } from './cardLayout';
+
+export interface GridCardListProps<TModel> {
+  rows: TModel[];
+  /** Title, subtitle, image and detail fields (see resolveCardLayout) */
+  layout: CardLayout;
+  dataKey: string;
+  loading?: boolean;
+  /** Column header for a field - used as the detail label */
+  getLabel: (field: string) => string;
+  /** Rendered cell content - same renderers as the table columns */
+  renderValue: (field: string, row: TModel) => React.ReactNode;
+  /** Show a selection checkbox on each card */
+  selectable?: boolean;
+  selectedKeys?: (string | number)[];
+  onToggleSelect?: (row: TModel, selected: boolean) => void;
+  onCardClick?: (row: TModel) => void;
+  /** Row actions (the grid's actions column) shown at the bottom of each card */
+  renderActions?: (row: TModel) => React.ReactNode;
+  emptyMessage?: string;
+}
+
+/**
+ * Card/list layout for narrow screens - one card per row instead of a wide table
+ * Cards are focusable: Enter opens the card, Space toggles its selection
+ */
+export function GridCardList<TModel>({
+  rows,
+  layout,
+  dataKey,
+  loading = false,
+  getLabel,
+  renderValue,
+  selectable = false,
+  selectedKeys = [],
+  onToggleSelect,
+  onCardClick,
+  renderActions,
+  emptyMessage = 'No records found'
+}: GridCardListProps<TModel>) {
+  if (loading && rows.length === 0) {
+    return (
+      <div className="flex justify-content-center p-4">
+        <ProgressSpinner style={{ width: '2.5rem', height: '2.5rem' }} />
+      </div>
+    );
+  }
+
+  if (rows.length === 0) {
+    return <div className="p-4 text-center text-500">{emptyMessage}</div>;
+  }
+
+  return (
+    <div className="grid-card-list flex flex-column gap-2 p-1" role="list" aria-busy={loading} style={{ opacity: loading ? 0.6 : 1 }}>
+      {rows.map((row, index) => {
+        const key = (row as any)[dataKey];
+        const selected = selectedKeys.includes(key);
+        const imageUrl = layout.imageField ? (row as any)[layout.imageField] : undefined;
+
+        return (
+          <div
+            key={key ?? index}
+            className={`grid-card surface-card border-1 border-round p-3 flex gap-3 ${selected ? 'border-primary' : 'surface-border'} ${onCardClick ? 'cursor-pointer' : ''}`}
+            role="listitem"
+            tabIndex={0}
+            onClick={onCardClick ? () => onCardClick(row) : undefined}
+            onKeyDown={(e) => {
+              if (e.target !== e.currentTarget) return;
+              if (e.key === 'Enter' && onCardClick) {
+                e.preventDefault();
+                onCardClick(row);
+              } else if (e.key === ' ' && selectable) {
+                e.preventDefault();
+                onToggleSelect?.(row, !selected);
+              }
+            }}
+          >
+            {selectable && (
+              <div onClick={(e) => e.stopPropagation()}>
+                <Checkbox
+                  checked={selected}
+                  onChange={(e) => onToggleSelect?.(row, !!e.checked)}
+                  aria-label="Select record"
+                />
+              </div>
+            )}
+            {imageUrl && (
+              <img
+                src={String(imageUrl)}
+                alt=""
+                className="border-round flex-shrink-0"
+                style={{ width: '3.5rem', height: '3.5rem', objectFit: 'cover' }}
+              />
+            )}
+            <div className="flex flex-column gap-1 flex-1" style={{ minWidth: 0 }}>
+              {layout.titleField && (
+                <div className="font-semibold text-900 white-space-nowrap overflow-hidden text-overflow-ellipsis">
+                  {renderValue(layout.titleField, row)}
+                </div>
+              )}
+              {layout.subtitleField && (
+                <div className="text-sm text-600">{renderValue(layout.subtitleField, row)}</div>
+              )}
+              {layout.detailFields.length > 0 && (
+                <div className="flex flex-column gap-1 mt-1">
+                  {layout.detailFields.map(field => (
+                    <div key={field} className="flex justify-content-between gap-2 text-sm">
+                      <span className="text-500">{getLabel(field)}</span>
+                      <span className="text-right overflow-hidden text-overflow-ellipsis">{renderValue(field, row)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {renderActions && (
+                <div className="flex justify-content-end mt-2" onClick={(e) => e.stopPropagation()}>
+                  {renderActions(row)}
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import React, { useMemo } from 'react';
+import { Chart } from 'primereact/chart';
+import { Dropdown } from 'primereact/dropdown';
+import { SelectButton } from 'primereact/selectbutton';
+import { Button } from 'primereact/button';
+import { Message } from 'primereact/message';
+import { ProgressBar } from 'primereact/progressbar';
+import type { GridChartConfig, GridChartType } from './types';
+import { AGGREGATE_FUNCTIONS } from './aggregateOperations';
+import { buildPivotRequest, buildPivotTable, describePivotMeasure } from './pivotOperations';
+import type { PivotDimension, PivotPageFetcher } from './pivotOperations';
+import {
+  CHART_INTERVAL_OPTIONS,
+  CHART_TYPE_OPTIONS,
+  bucketChartGroups,
+  buildChartData,
+  chartPivotConfig
+} from './chartOperations';
+import { usePivotData } from './usePivotData';
+
+export interface GridChartPanelProps {
+  config: GridChartConfig;
+  onConfigChange: (config: GridChartConfig) => void;
+  /** Category fields for the x-axis and the series (see getPivotDimensions) */
+  dimensions: PivotDimension[];
+  /** Date fields (getDateColumns) - grouped by interval, the only x-axis choices for time series */
+  dateFields: { field: string; header: string }[];
+  /** Numeric fields the values can aggregate (getNumericColumns) */
+  measures: { field: string; header: string }[];
+  /** One page of the grid's current query - page 0 also carries the pivot request */
+  fetchPage: PivotPageFetcher;
+  /** Changes whenever the grid's search or filters change - the chart reloads */
+  queryKey: string;
+  /** Rows fetched at most when the server does not aggregate (default: 100000) */
+  maxRecords?: number;
+  /** Rows per request when paging through the data (default: 1000) */
+  chunkSize?: number;
+  onClose?: () => void;
+}
+
+// PrimeFlex palette variables, with fallbacks for themes that do not define them
+const PALETTE = [
+  ['--blue-500', '#3b82f6'], ['--green-500', '#22c55e'], ['--orange-500', '#f97316'], ['--purple-500', '#a855f7'],
+  ['--teal-500', '#14b8a6'], ['--pink-500', '#ec4899'], ['--yellow-500', '#eab308'], ['--indigo-500', '#6366f1'],
+  ['--cyan-500', '#06b6d4'], ['--red-500', '#ef4444']
+];
+
+/**
+ * Chart of the grid's matching rows - bar, line, pie or time series
+ * Values are grouped like the pivot view: by the server when it supports searchQuery.pivot, otherwise from all matching rows
+ */
+export function GridChartPanel({
+  config,
+  onConfigChange,
+  dimensions,
+  dateFields,
+  measures,
+  fetchPage,
+  queryKey,
+  maxRecords = 100000,
+  chunkSize = 1000,
+  onClose
+}: GridChartPanelProps) {
+  const isDateAxis = !!config.xField && dateFields.some(date => date.field === config.xField);
+  const interval = isDateAxis ? config.interval ?? 'month' : null;
+  const pivotConfig = chartPivotConfig(config);
+  const axisFields = useMemo(
+    () => [...dateFields, ...dimensions.filter(dimension => !dateFields.some(date => date.field === dimension.field))],
+    [dateFields, dimensions]
+  );
+
+  const { result, progress, error } = usePivotData({
+    fetchPage,
+    request: config.xField ? buildPivotRequest(pivotConfig) : null,
+    dimensions,
+    queryKey,
+    maxRecords,
+    chunkSize
+  });
+
+  const getHeader = (field: string) =>
+    axisFields.find(option => option.field === field)?.header
+    ?? measures.find(measure => measure.field === field)?.header
+    ?? field;
+
+  const colors = useMemo(() => {
+    const style = typeof window !== 'undefined' ? getComputedStyle(document.documentElement) : null;
+    return PALETTE.map(([variable, fallback]) => style?.getPropertyValue(variable).trim() || fallback);
+  }, []);
+
+  const chart = useMemo(() => {
+    if (!result || !config.xField) return null;
+    const groups = interval ? bucketChartGroups(result.groups, config.xField, interval) : result.groups;
+    const data = buildChartData(buildPivotTable(groups, pivotConfig), config, {
+      interval,
+      measureLabel: describePivotMeasure(pivotConfig, getHeader)
+    });
+
+    const datasets = data.datasets.map((dataset, index) => {
+      const color = colors[index % colors.length];
+      switch (config.type) {
+        case 'pie':
+          return { ...dataset, backgroundColor: data.labels.map((_, slice) => colors[slice % colors.length]) };
+        case 'bar':
+          return { ...dataset, backgroundColor: color };
+        default:
+          return {
+            ...dataset,
+            borderColor: color,
+            backgroundColor: config.type === 'timeseries' ? `${color}33` : color,
+            fill: config.type === 'timeseries' && data.datasets.length === 1,
+            tension: 0.3,
+            spanGaps: false
+          };
+      }
+    });
+
+    return {
+      data: { labels: data.labels, datasets },
+      options: {
+        maintainAspectRatio: false,
+        plugins: { legend: { display: config.type === 'pie' || datasets.length > 1, position: 'bottom' } },
+        ...(config.type !== 'pie' ? { scales: { y: { beginAtZero: true } } } : {})
+      }
+    };
+  }, [result, config, interval, colors]);
+
+  const handleTypeChange = (type: GridChartType) => {
+    // Time series need a date on the x-axis
+    const xField = type === 'timeseries' && !isDateAxis ? dateFields[0]?.field ?? null : config.xField;
+    onConfigChange({ ...config, type, xField });
+  };
+
+  const xOptions = (config.type === 'timeseries' ? dateFields : axisFields).map(option => ({ label: option.header, value: option.field }));
+  const seriesOptions = dimensions
+    .filter(dimension => dimension.field !== config.xField)
+    .map(dimension => ({ label: dimension.header, value: dimension.field }));
+  // Dropdown treats null as "nothing selected" - '' stands for counting rows
+  const measureOptions = [
+    { label: 'Count of rows', value: '' },
+    ...measures.map(measure => ({ label: measure.header, value: measure.field }))
+  ];
+
+  return (
+    <div className="grid-chart-panel flex flex-column gap-2 h-full">
+      <div className="flex flex-wrap align-items-center gap-2">
+        <SelectButton
+          value={config.type}
+          options={CHART_TYPE_OPTIONS}
+          optionValue="value"
+          optionDisabled={(option) => option.value === 'timeseries' && dateFields.length === 0}
+          itemTemplate={(option) => <i className={option.icon} title={option.label} aria-label={option.label} />}
+          onChange={(e) => e.value && handleTypeChange(e.value)}
+          className="p-button-sm"
+        />
+        <Dropdown
+          value={config.xField}
+          options={xOptions}
+          onChange={(e) => onConfigChange({ ...config, xField: e.value, seriesField: e.value === config.seriesField ? null : config.seriesField })}
+          placeholder={config.type === 'pie' ? 'Slices by...' : 'X-axis...'}
+          className="w-12rem p-inputtext-sm"
+          aria-label="X-axis field"
+        />
+        {interval && (
+          <Dropdown
+            value={interval}
+            options={CHART_INTERVAL_OPTIONS}
+            onChange={(e) => onConfigChange({ ...config, interval: e.value })}
+            className="w-8rem p-inputtext-sm"
+            aria-label="Date interval"
+          />
+        )}
+        {config.type !== 'pie' && (
+          <Dropdown
+            value={config.seriesField ?? null}
+            options={seriesOptions}
+            onChange={(e) => onConfigChange({ ...config, seriesField: e.value ?? null })}
+            placeholder="Series by..."
+            showClear
+            className="w-11rem p-inputtext-sm"
+            aria-label="Series field"
+          />
+        )}
+        <Dropdown
+          value={config.aggregate}
+          options={AGGREGATE_FUNCTIONS}
+          optionLabel="label"
+          optionValue="value"
+          onChange={(e) => onConfigChange({ ...config, aggregate: e.value })}
+          disabled={config.measure === null}
+          className="w-8rem p-inputtext-sm"
+          aria-label="Aggregate function"
+        />
+        <Dropdown
+          value={config.measure ?? ''}
+          options={measureOptions}
+          onChange={(e) => onConfigChange({ ...config, measure: e.value || null })}
+          className="w-12rem p-inputtext-sm"
+          aria-label="Values"
+        />
+        {onClose && (
+          <Button icon="pi pi-times" className="p-button-text ml-auto" onClick={onClose} tooltip="Close chart" aria-label="Close chart" />
+        )}
+      </div>
+
+      {error && <Message severity="error" text={error} className="w-full justify-content-start" />}
+      {progress !== null && <ProgressBar mode="indeterminate" style={{ height: '4px' }} />}
+
+      <div className="flex-1 relative" style={{ minHeight: 0, opacity: progress !== null ? 0.6 : 1 }} aria-busy={progress !== null}>
+        {!config.xField ? (
+          <div className="p-4 text-center text-500">Pick a field to chart</div>
+        ) : chart && chart.data.labels.length === 0 ? (
+          <div className="p-4 text-center text-500">No records found</div>
+        ) : chart && (
+          <Chart
+            type={config.type === 'timeseries' ? 'line' : config.type}
+            data={chart.data}
+            options={chart.options}
+            height="100%"
+            ariaLabel={`${describePivotMeasure(pivotConfig, getHeader)} by ${getHeader(config.xField)}`}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default GridChartPanel;
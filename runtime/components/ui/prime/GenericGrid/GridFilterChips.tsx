@@ -0,0 +1,124 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from 'primereact/button';
+import type { FilterGroup, FilterOperation, GlobalSearchConfig, OrderByConfig } from './types';
+import { buildFilterChips } from './filterChips';
+import type { FilterChip } from './filterChips';
+import { loadLookupOptions } from '@/components/GreenOnion/componentRegistry';
+
+export interface GridFilterChipsProps {
+  globalSearch: GlobalSearchConfig;
+  activeFilters: FilterOperation[];
+  filterGroup?: FilterGroup | null;
+  activeSorts: OrderByConfig[];
+  /** field -> column header */
+  headers: Record<string, string>;
+  /** Fields whose values are shown as dates */
+  dateFields?: string[];
+  /** field -> x-navigation-target - filtered ids are shown with their lookup labels */
+  navigationTargets?: Record<string, string>;
+  /** Records matching the search and filters */
+  totalRecords: number;
+  loading?: boolean;
+  onRemove: (chip: FilterChip) => void;
+  /** Opens the chip's editor (search box, column filter, sidebar) - the chip is the anchor */
+  onEdit: (chip: FilterChip, event: React.MouseEvent<HTMLElement>) => void;
+  onClearAll: () => void;
+}
+
+const CHIP_ICONS: Record<FilterChip['kind'], string> = {
+  search: 'pi pi-search',
+  filter: 'pi pi-filter',
+  group: 'pi pi-sitemap',
+  sort: 'pi pi-sort-alt'
+};
+
+/**
+ * Active search, filters and sorts as chips under the toolbar, with the result count and "Clear all"
+ * Hidden while nothing is applied
+ */
+export function GridFilterChips({
+  globalSearch,
+  activeFilters,
+  filterGroup,
+  activeSorts,
+  headers,
+  dateFields,
+  navigationTargets = {},
+  totalRecords,
+  loading = false,
+  onRemove,
+  onEdit,
+  onClearAll
+}: GridFilterChipsProps) {
+  // navigation target -> id -> label, loaded once per target through the generated ComboBox lookups
+  const [lookupLabels, setLookupLabels] = useState<Record<string, Record<string, string>>>({});
+  const requestedTargetsRef = useRef(new Set<string>());
+
+  const filteredTargets = [...new Set(
+    activeFilters.map(filter => navigationTargets[filter.field]).filter((target): target is string => !!target)
+  )];
+
+  useEffect(() => {
+    let cancelled = false;
+    filteredTargets
+      .filter(target => !requestedTargetsRef.current.has(target))
+      .forEach(target => {
+        requestedTargetsRef.current.add(target);
+        loadLookupOptions(target)
+          .then(options => {
+            if (cancelled || !options) return;
+            const labels = Object.fromEntries(options.map(option => [String(option.value), option.label]));
+            setLookupLabels(prev => ({ ...prev, [target]: labels }));
+          })
+          .catch(error => {
+            // Not retried - the chip keeps showing the id
+            console.warn(`⚠️ [GridFilterChips] Failed to load lookup labels for ${target}:`, error);
+          });
+      });
+    return () => { cancelled = true; };
+  }, [filteredTargets.join()]);
+
+  const chips = useMemo(() => buildFilterChips({ globalSearch, activeFilters, filterGroup, activeSorts }, {
+    headers,
+    dateFields,
+    valueLabels: Object.fromEntries(
+      Object.entries(navigationTargets)
+        .filter(([, target]) => lookupLabels[target])
+        .map(([field, target]) => [field, lookupLabels[target]])
+    )
+  }), [globalSearch, activeFilters, filterGroup, activeSorts, headers, dateFields, navigationTargets, lookupLabels]);
+
+  if (chips.length === 0) return null;
+
+  return (
+    <div className="grid-filter-chips flex flex-wrap align-items-center gap-2 mb-3" aria-label="Active filters">
+      {chips.map(chip => (
+        <span key={chip.key} className="p-chip grid-filter-chip">
+          <button
+            type="button"
+            className="p-link flex align-items-center gap-2 py-1"
+            onClick={(e) => onEdit(chip, e)}
+            title={`Edit: ${chip.label}`}
+          >
+            <i className={`${CHIP_ICONS[chip.kind]} text-500`} />
+            <span className="p-chip-text">{chip.label}</span>
+          </button>
+          <button
+            type="button"
+            className="p-link ml-2"
+            onClick={() => onRemove(chip)}
+            aria-label={`Remove ${chip.label}`}
+          >
+            <i className="pi pi-times-circle" />
+          </button>
+        </span>
+      ))}
+      <span className="text-sm text-600 ml-auto" aria-live="polite">
+        {loading ? 'Loading...' : `${totalRecords.toLocaleString()} ${totalRecords === 1 ? 'result' : 'results'}`}
+      </span>
+      <Button label="Clear all" icon="pi pi-filter-slash" className="p-button-text p-button-sm" onClick={onClearAll} />
+    </div>
+  );
+}
+
+export default GridFilterChips;
@@ -0,0 +1,297 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from 'primereact/button';
+import { Menu } from 'primereact/menu';
+import type { MenuItem } from 'primereact/menuitem';
+import { Message } from 'primereact/message';
+import { ProgressSpinner } from 'primereact/progressspinner';
+import type { CardLayout } from './cardLayout';
+import { boardColumnKey, moveBoardCard } from './boardOperations';
+import type { BoardColumnOption, BoardState } from './boardOperations';
+
+export interface GridKanbanBoardProps<TModel> {
+  /** Board field (x-board-field) - each card sits in the column of its value */
+  field: string;
+  /** One column per value, in this order */
+  options: BoardColumnOption[];
+  /** Title, subtitle, image and detail fields (see resolveCardLayout) */
+  layout: CardLayout;
+  dataKey: string;
+  /** Column header for a field - used as the detail label */
+  getLabel: (field: string) => string;
+  /** Rendered cell content - same renderers as the table columns */
+  renderValue: (field: string, row: TModel) => React.ReactNode;
+  /** One page of a column - the grid's query narrowed to the column's value */
+  fetchColumn: (
+    value: BoardColumnOption['value'],
+    page: number,
+    pageSize: number,
+    signal: AbortSignal
+  ) => Promise<{ rows?: TModel[]; totalRowCount?: number }>;
+  /** Changes whenever the grid's search, filters or sorting change - the columns reload */
+  queryKey: string;
+  /** Cards loaded per column page (default: 25) */
+  pageSize?: number;
+  /** Saves a card's new value - the card moves right away and moves back when this rejects. Read-only when not provided */
+  onMove?: (row: TModel, value: BoardColumnOption['value']) => Promise<TModel | undefined | null>;
+  onCardClick?: (row: TModel) => void;
+  /** Row actions (the grid's actions column) shown at the bottom of each card */
+  renderActions?: (row: TModel) => React.ReactNode;
+}
+
+const emptyColumn = { rows: [], total: 0, page: 0, loading: true };
+
+/**
+ * Board view - one column per value of the board field, cards dragged between columns change the value
+ * Each column pages on its own through the grid's query; cards can also be moved from their menu (keyboard access)
+ */
+export function GridKanbanBoard<TModel>({
+  field,
+  options,
+  layout,
+  dataKey,
+  getLabel,
+  renderValue,
+  fetchColumn,
+  queryKey,
+  pageSize = 25,
+  onMove,
+  onCardClick,
+  renderActions
+}: GridKanbanBoardProps<TModel>) {
+  const [board, setBoard] = useState<BoardState<TModel>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [savingKeys, setSavingKeys] = useState<unknown[]>([]);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const draggedRef = useRef<{ row: TModel; from: BoardColumnOption['value'] } | null>(null);
+  const moveMenuRef = useRef<Menu>(null);
+  const [menuCard, setMenuCard] = useState<{ row: TModel; from: BoardColumnOption['value'] } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // The fetcher closes over the grid's query - the reload is driven by queryKey instead
+  const fetchColumnRef = useRef(fetchColumn);
+  fetchColumnRef.current = fetchColumn;
+  const optionsKey = JSON.stringify(options.map(option => option.value));
+
+  const loadPage = (value: BoardColumnOption['value'], page: number, signal: AbortSignal) => {
+    const key = boardColumnKey(value);
+    setBoard(prev => ({ ...prev, [key]: { ...(prev[key] ?? emptyColumn), loading: true } }));
+    return fetchColumnRef.current(value, page, pageSize, signal)
+      .then(response => {
+        if (signal.aborted) return;
+        const rows = response.rows ?? [];
+        setBoard(prev => {
+          const loaded = page === 0 ? [] : prev[key]?.rows ?? [];
+          // Cards moved in while paging are already in the column
+          const known = new Set(loaded.map(row => (row as any)[dataKey]));
+          return {
+            ...prev,
+            [key]: {
+              rows: [...loaded, ...rows.filter(row => !known.has((row as any)[dataKey]))],
+              total: response.totalRowCount ?? rows.length,
+              page,
+              loading: false
+            }
+          };
+        });
+      })
+      .catch(err => {
+        if (signal.aborted) return;
+        console.error(`❌ [GridKanbanBoard] Failed to load column '${key}':`, err);
+        setError(err instanceof Error ? err.message : 'Failed to load data');
+        setBoard(prev => ({ ...prev, [key]: { ...(prev[key] ?? emptyColumn), loading: false } }));
+      });
+  };
+
+  useEffect(() => {
+    abortRef.current?.abort();
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+    setError(null);
+    setBoard({});
+    options.forEach(option => loadPage(option.value, 0, abortController.signal));
+    return () => abortController.abort();
+    // options is covered by optionsKey
+  }, [queryKey, optionsKey, pageSize]);
+
+  const moveCard = async (row: TModel, from: BoardColumnOption['value'], to: BoardColumnOption['value']) => {
+    if (!onMove || boardColumnKey(from) === boardColumnKey(to)) return;
+    const key = (row as any)[dataKey];
+    if (savingKeys.includes(key)) return;
+
+    setBoard(prev => moveBoardCard(prev, { key, dataKey, field, from, to }));
+    setSavingKeys(prev => [...prev, key]);
+    try {
+      const saved = await onMove(row, to);
+      if (saved) {
+        // Server values win (e.g. a modified date)
+        setBoard(prev => {
+          const column = prev[boardColumnKey(to)];
+          if (!column) return prev;
+          return {
+            ...prev,
+            [boardColumnKey(to)]: {
+              ...column,
+              rows: column.rows.map(card => (card as any)[dataKey] === key ? { ...card, ...saved, [field]: to } : card)
+            }
+          };
+        });
+      }
+    } catch {
+      // onMove reports the failure - put the card back
+      setBoard(prev => moveBoardCard(prev, { key, dataKey, field, from: to, to: from }));
+    } finally {
+      setSavingKeys(prev => prev.filter(saving => saving !== key));
+    }
+  };
+
+  const moveMenuItems = useMemo((): MenuItem[] => {
+    if (!menuCard) return [];
+    return options.map(option => ({
+      label: option.label,
+      disabled: boardColumnKey(option.value) === boardColumnKey(menuCard.from),
+      command: () => moveCard(menuCard.row, menuCard.from, option.value)
+    }));
+  }, [menuCard, options]);
+
+  const renderCard = (row: TModel, from: BoardColumnOption['value']) => {
+    const key = (row as any)[dataKey];
+    const saving = savingKeys.includes(key);
+    const imageUrl = layout.imageField ? (row as any)[layout.imageField] : undefined;
+
+    return (
+      <div
+        key={key}
+        className={`grid-board-card surface-card border-1 surface-border border-round p-2 flex gap-2 ${onCardClick ? 'cursor-pointer' : ''}`}
+        role="listitem"
+        tabIndex={0}
+        draggable={!!onMove && !saving}
+        aria-busy={saving}
+        style={{ opacity: saving ? 0.6 : 1 }}
+        onDragStart={(e) => {
+          draggedRef.current = { row, from };
+          e.dataTransfer.effectAllowed = 'move';
+          e.dataTransfer.setData('text/plain', String(key));
+        }}
+        onDragEnd={() => {
+          draggedRef.current = null;
+          setDropTarget(null);
+        }}
+        onClick={onCardClick ? () => onCardClick(row) : undefined}
+        onKeyDown={(e) => {
+          if (e.target === e.currentTarget && e.key === 'Enter' && onCardClick) {
+            e.preventDefault();
+            onCardClick(row);
+          }
+        }}
+      >
+        {imageUrl && (
+          <img
+            src={String(imageUrl)}
+            alt=""
+            className="border-round flex-shrink-0"
+            style={{ width: '2.5rem', height: '2.5rem', objectFit: 'cover' }}
+          />
+        )}
+        <div className="flex flex-column gap-1 flex-1" style={{ minWidth: 0 }}>
+          {layout.titleField && (
+            <div className="font-semibold text-900 white-space-nowrap overflow-hidden text-overflow-ellipsis">
+              {renderValue(layout.titleField, row)}
+            </div>
+          )}
+          {layout.subtitleField && (
+            <div className="text-sm text-600">{renderValue(layout.subtitleField, row)}</div>
+          )}
+          {layout.detailFields.map(detailField => (
+            <div key={detailField} className="flex justify-content-between gap-2 text-sm">
+              <span className="text-500">{getLabel(detailField)}</span>
+              <span className="text-right overflow-hidden text-overflow-ellipsis">{renderValue(detailField, row)}</span>
+            </div>
+          ))}
+          {renderActions && (
+            <div className="flex justify-content-end mt-1" onClick={(e) => e.stopPropagation()}>
+              {renderActions(row)}
+            </div>
+          )}
+        </div>
+        {onMove && (
+          <Button
+            icon="pi pi-ellipsis-v"
+            className="p-button-text p-button-sm p-button-plain align-self-start"
+            disabled={saving}
+            aria-label={`Move to another ${getLabel(field)}`}
+            aria-haspopup
+            onClick={(e) => {
+              e.stopPropagation();
+              setMenuCard({ row, from });
+              moveMenuRef.current?.toggle(e);
+            }}
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="grid-board flex flex-column gap-2 h-full">
+      {error && <Message severity="error" text={error} className="w-full justify-content-start" />}
+
+      <div className="flex gap-3 flex-1 overflow-x-auto pb-2" style={{ minHeight: 0 }}>
+        {options.map(option => {
+          const key = boardColumnKey(option.value);
+          const column = board[key] ?? emptyColumn;
+          const isDropTarget = dropTarget === key;
+
+          return (
+            <section
+              key={key}
+              className={`grid-board-column flex flex-column flex-shrink-0 border-round surface-ground border-2 ${isDropTarget ? 'border-primary' : 'border-transparent'}`}
+              style={{ width: '18rem', minHeight: 0 }}
+              aria-label={option.label}
+              onDragOver={(e) => {
+                if (!draggedRef.current) return;
+                e.preventDefault();
+                e.dataTransfer.dropEffect = 'move';
+                if (dropTarget !== key) setDropTarget(key);
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                setDropTarget(null);
+                const dragged = draggedRef.current;
+                draggedRef.current = null;
+                if (dragged) moveCard(dragged.row, dragged.from, option.value);
+              }}
+            >
+              <div className="flex align-items-center justify-content-between p-2">
+                <span className="font-semibold">{option.label}</span>
+                <span className="text-500 text-sm">{column.loading && column.rows.length === 0 ? '' : column.total}</span>
+              </div>
+
+              <div className="flex flex-column gap-2 px-2 pb-2 overflow-y-auto flex-1" role="list" aria-busy={column.loading}>
+                {column.rows.map(row => renderCard(row, option.value))}
+                {column.loading ? (
+                  <div className="flex justify-content-center p-2">
+                    <ProgressSpinner style={{ width: '1.5rem', height: '1.5rem' }} />
+                  </div>
+                ) : column.rows.length === 0 ? (
+                  <div className="p-3 text-center text-500 text-sm">No records</div>
+                ) : column.rows.length < column.total && (
+                  <Button
+                    label="Load more"
+                    className="p-button-text p-button-sm"
+                    onClick={() => abortRef.current && loadPage(option.value, column.page + 1, abortRef.current.signal)}
+                  />
+                )}
+              </div>
+            </section>
+          );
+        })}
+      </div>
+
+      <Menu model={moveMenuItems} popup ref={moveMenuRef} onHide={() => setMenuCard(null)} />
+    </div>
+  );
+}
+
+export default GridKanbanBoard;
@@ -1,10 +1,23 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Toolbar } from 'primereact/toolbar';
 import { Button } from 'primereact/button';
+import { Menu } from 'primereact/menu';
 import { Dropdown } from 'primereact/dropdown';
-import { InputText } from 'primereact/inputtext';
+import { MultiSelect } from 'primereact/multiselect';
+import { OverlayPanel } from 'primereact/overlaypanel';
+import { AutoComplete } from 'primereact/autocomplete';
 import { PredefinedFilter, GlobalSearchConfig } from './types';
+import type { FilterOperation } from './types';
+import type { AggregateFunction } from './types';
+import { AGGREGATE_FUNCTIONS } from './aggregateOperations';
 import type { IQueryDefinedFilterModel } from '@/api/GreenOnion/Models';
+import { EXPORT_FORMAT_OPTIONS } from './gridExport';
+import type { GridExportFormat } from './gridExport';
+import { GridViewMenu } from './GridViewMenu';
+import { GRID_SHORTCUTS } from './gridKeyboard';
+import type { GridViewMenuProps } from './GridViewMenu';
+import { loadRecentSearches, matchRecentSearches, saveRecentSearch } from './searchSuggestions';
+import type { SearchSuggestion } from './searchSuggestions';
 
 interface GridToolbarProps<TSearchQuery> {
   title: string;
@@ -12,18 +25,79 @@ interface GridToolbarProps<TSearchQuery> {
   definedFilters?: IQueryDefinedFilterModel[];  // New defined filters from database
   globalSearch: GlobalSearchConfig;
   onGlobalSearchChange: (config: GlobalSearchConfig) => void;
+  /** Typing is applied after this pause (ms) - Enter, the search button and the search type apply at once */
+  searchDebounceMs?: number;
+  /** Fields the search term can cover (x-searchable) - the search field picker is hidden when empty */
+  searchFields?: { field: string; header: string }[];
+  /** Fields searched when none are picked (x-search-term-default) */
+  defaultSearchFields?: string[];
+  /** localStorage key of the grid's recent searches (see getRecentSearchesKey) - not kept when omitted */
+  recentSearchesKey?: string;
+  /** Typeahead suggestions for the typed text (display values and quick filters) - recent searches only when omitted */
+  fetchSuggestions?: (query: string, signal: AbortSignal) => Promise<SearchSuggestion[]>;
+  /** Applies a picked quick filter suggestion as a column filter */
+  onQuickFilter?: (filter: FilterOperation) => void;
   onPredefinedFilterChange?: (filter: PredefinedFilter<TSearchQuery>) => void;  // Legacy support
   onDefinedFilterChange?: (filter: IQueryDefinedFilterModel | null) => void;  // New defined filter handler
   enableCreate: boolean;
   onCreateClick?: () => void;
   onToggleSidebar: () => void;
+  /** Undo/redo grid state changes - buttons are hidden without handlers */
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
   selectedDefinedFilter?: IQueryDefinedFilterModel | null;  // Currently selected defined filter
   /** Enable export buttons */
   enableExport?: boolean;
   /** Handler for export action */
-  onExport?: (format: 'csv' | 'excel') => void;
+  onExport?: (format: GridExportFormat) => void;
   /** Loading state - disables export buttons during export */
   loading?: boolean;
+  /** Show the import button */
+  enableImport?: boolean;
+  /** Handler for the import button (opens the import wizard) */
+  onImport?: () => void;
+  /** Show the inline edit mode toggle */
+  enableInlineEdit?: boolean;
+  /** Whether inline edit mode is on */
+  inlineEditActive?: boolean;
+  /** Handler for the inline edit mode toggle */
+  onToggleInlineEdit?: () => void;
+  /** Columns the rows can be grouped by - grouping is hidden when empty */
+  groupByOptions?: { label: string; value: string }[];
+  /** Current group-by column */
+  groupBy?: string | null;
+  /** Handler for group-by changes */
+  onGroupByChange?: (field: string | null) => void;
+  /** Numeric columns that can show footer aggregates - totals menu is hidden when empty */
+  aggregateColumns?: { field: string; header: string }[];
+  /** Current aggregates per column */
+  aggregates?: Record<string, AggregateFunction[]>;
+  /** Handler for aggregate changes */
+  onAggregatesChange?: (aggregates: Record<string, AggregateFunction[]>) => void;
+  /** Personal saved views menu - hidden when not provided */
+  viewMenu?: GridViewMenuProps;
+  /** Layout currently shown */
+  layout?: 'table' | 'cards';
+  /** Handler for the table/cards toggle - hidden when not provided */
+  onLayoutChange?: (layout: 'table' | 'cards') => void;
+  /** Whether the pivot view is shown */
+  pivotActive?: boolean;
+  /** Handler for the rows/pivot toggle - hidden when not provided */
+  onTogglePivot?: () => void;
+  /** Whether the board view is shown */
+  boardActive?: boolean;
+  /** Handler for the rows/board toggle - hidden when not provided */
+  onToggleBoard?: () => void;
+  /** Whether the calendar view is shown */
+  calendarActive?: boolean;
+  /** Handler for the rows/calendar toggle - hidden when not provided */
+  onToggleCalendar?: () => void;
+  /** Whether the chart panel is open */
+  chartActive?: boolean;
+  /** Handler for the chart panel toggle - hidden when not provided */
+  onToggleChart?: () => void;
 }
 
 export function GridToolbar<TSearchQuery>({
@@ -32,23 +106,159 @@ export function GridToolbar<TSearchQuery>({
   definedFilters = [],
   globalSearch,
   onGlobalSearchChange,
+  searchDebounceMs = 300,
+  searchFields = [],
+  defaultSearchFields = [],
+  recentSearchesKey,
+  fetchSuggestions,
+  onQuickFilter,
   onPredefinedFilterChange,
   onDefinedFilterChange,
   enableCreate,
   onCreateClick,
   onToggleSidebar,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
   selectedDefinedFilter,
   enableExport = false,
   onExport,
-  loading = false
+  loading = false,
+  enableImport = false,
+  onImport,
+  enableInlineEdit = false,
+  inlineEditActive = false,
+  onToggleInlineEdit,
+  groupByOptions = [],
+  groupBy = null,
+  onGroupByChange,
+  aggregateColumns = [],
+  aggregates = {},
+  onAggregatesChange,
+  viewMenu,
+  layout = 'table',
+  onLayoutChange,
+  pivotActive = false,
+  onTogglePivot,
+  boardActive = false,
+  onToggleBoard,
+  calendarActive = false,
+  onToggleCalendar,
+  chartActive = false,
+  onToggleChart
 }: GridToolbarProps<TSearchQuery>) {
+  const exportMenuRef = useRef<Menu>(null);
+  // Search input runs ahead of globalSearch while typing; the term is applied once typing pauses
+  const [searchInput, setSearchInput] = useState(globalSearch.searchTerm);
+  const searchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const searchBoxRef = useRef<AutoComplete>(null);
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const suggestionsAbortRef = useRef<AbortController | null>(null);
+
+  // Follow search changes made elsewhere (defined filters, views, undo, URL)
+  useEffect(() => {
+    setSearchInput(globalSearch.searchTerm);
+  }, [globalSearch.searchTerm]);
+
+  useEffect(() => () => {
+    if (searchTimerRef.current) clearTimeout(searchTimerRef.current);
+    suggestionsAbortRef.current?.abort();
+  }, []);
+
+  const applySearch = (config: GlobalSearchConfig) => {
+    if (searchTimerRef.current) {
+      clearTimeout(searchTimerRef.current);
+      searchTimerRef.current = null;
+    }
+    if (
+      config.searchTerm !== globalSearch.searchTerm
+      || config.searchType !== globalSearch.searchType
+      || (config.searchFields ?? []).join() !== (globalSearch.searchFields ?? []).join()
+    ) {
+      onGlobalSearchChange(config);
+    }
+  };
+
+  const handleSearchInput = (searchTerm: string) => {
+    setSearchInput(searchTerm);
+    if (searchTimerRef.current) clearTimeout(searchTimerRef.current);
+    searchTimerRef.current = setTimeout(() => applySearch({ ...globalSearch, searchTerm }), searchDebounceMs);
+  };
+
+  // Enter, the search button and picked suggestions are remembered - terms applied while typing are not
+  const submitSearch = (searchTerm: string) => {
+    if (recentSearchesKey) saveRecentSearch(recentSearchesKey, searchTerm);
+    applySearch({ ...globalSearch, searchTerm });
+  };
+
+  // Recent searches at once; display values and quick filters once the lookup answers
+  const completeSearch = (query: string) => {
+    suggestionsAbortRef.current?.abort();
+    const recent = recentSearchesKey ? matchRecentSearches(loadRecentSearches(recentSearchesKey), query) : [];
+    if (!fetchSuggestions || query.trim().length < 2) {
+      setSuggestions(recent);
+      return;
+    }
+    const abortController = new AbortController();
+    suggestionsAbortRef.current = abortController;
+    fetchSuggestions(query, abortController.signal)
+      .then(found => {
+        if (!abortController.signal.aborted) setSuggestions([...recent, ...found]);
+      })
+      .catch(err => {
+        if (abortController.signal.aborted) return;
+        console.error('❌ [GridToolbar] Failed to load search suggestions:', err);
+        setSuggestions(recent);
+      });
+  };
+
+  // Quick filters replace the typed text - the term they came from is not searched as well
+  const handleSuggestionSelect = (suggestion: SearchSuggestion) => {
+    if (suggestion.filter && onQuickFilter) {
+      setSearchInput('');
+      applySearch({ ...globalSearch, searchTerm: '' });
+      onQuickFilter(suggestion.filter);
+    } else if (suggestion.term !== undefined) {
+      setSearchInput(suggestion.term);
+      submitSearch(suggestion.term);
+    }
+  };
+
+  const suggestionIcons: Record<SearchSuggestion['kind'], string> = {
+    recent: 'pi pi-history',
+    value: 'pi pi-search',
+    filter: 'pi pi-filter'
+  };
+  const totalsPanelRef = useRef<OverlayPanel>(null);
+  const activeAggregateCount = Object.values(aggregates).filter(functions => functions.length > 0).length;
+  const exportMenuItems = EXPORT_FORMAT_OPTIONS.map(option => ({
+    label: option.label,
+    icon: option.icon,
+    command: () => onExport && onExport(option.format)
+  }));
+
   const searchTypeOptions = [
     { label: 'Contains', value: 'contains' },
     { label: 'Starts With', value: 'startsWith' },
     { label: 'Ends With', value: 'endsWith' },
-    { label: 'Matches', value: 'equals' }
+    { label: 'Exact Match', value: 'equals' }
   ];
 
+  // Picking exactly the default fields (or none) goes back to the server's default search
+  const pickedSearchFields = globalSearch.searchFields?.length ? globalSearch.searchFields : defaultSearchFields;
+  const handleSearchFieldsChange = (fields: string[]) => {
+    const isDefault = fields.length === 0
+      || (fields.length === defaultSearchFields.length && fields.every(field => defaultSearchFields.includes(field)));
+    applySearch({ ...globalSearch, searchTerm: searchInput, searchFields: isDefault ? undefined : fields });
+  };
+  const searchedHeaders = searchFields
+    .filter(option => pickedSearchFields.includes(option.field))
+    .map(option => option.header);
+  const searchPlaceholder = searchedHeaders.length === 0
+    ? 'Search all columns...'
+    : searchedHeaders.length <= 2 ? `Search ${searchedHeaders.join(', ')}...` : `Search ${searchedHeaders.length} fields...`;
+
   const leftContent = (
     <div className="flex align-items-center gap-2">
       <h2 className="text-xl font-semibold m-0">{title}</h2>
@@ -56,25 +266,170 @@ export function GridToolbar<TSearchQuery>({
         icon="pi pi-filter"
         className="p-button-text"
         onClick={onToggleSidebar}
-        tooltip="Toggle Filters"
+        tooltip={`Toggle Filters (${GRID_SHORTCUTS.filters.label})`}
+        aria-label="Toggle filters"
+        aria-keyshortcuts={GRID_SHORTCUTS.filters.ariaKeys}
       />
+      {onLayoutChange && (
+        <Button
+          icon={layout === 'cards' ? 'pi pi-list' : 'pi pi-th-large'}
+          className="p-button-text"
+          onClick={() => onLayoutChange(layout === 'cards' ? 'table' : 'cards')}
+          tooltip={layout === 'cards' ? 'Show as table' : 'Show as cards'}
+          aria-label={layout === 'cards' ? 'Show as table' : 'Show as cards'}
+        />
+      )}
+      {onTogglePivot && (
+        <Button
+          icon="pi pi-table"
+          className={pivotActive ? 'p-button-text p-button-info' : 'p-button-text'}
+          onClick={onTogglePivot}
+          tooltip={pivotActive ? 'Show rows' : 'Pivot table'}
+          aria-label={pivotActive ? 'Show rows' : 'Show pivot table'}
+          aria-pressed={pivotActive}
+        />
+      )}
+      {onToggleBoard && (
+        <Button
+          icon="pi pi-objects-column"
+          className={boardActive ? 'p-button-text p-button-info' : 'p-button-text'}
+          onClick={onToggleBoard}
+          tooltip={boardActive ? 'Show rows' : 'Board'}
+          aria-label={boardActive ? 'Show rows' : 'Show board'}
+          aria-pressed={boardActive}
+        />
+      )}
+      {onToggleCalendar && (
+        <Button
+          icon="pi pi-calendar"
+          className={calendarActive ? 'p-button-text p-button-info' : 'p-button-text'}
+          onClick={onToggleCalendar}
+          tooltip={calendarActive ? 'Show rows' : 'Calendar'}
+          aria-label={calendarActive ? 'Show rows' : 'Show calendar'}
+          aria-pressed={calendarActive}
+        />
+      )}
+      {onToggleChart && (
+        <Button
+          icon="pi pi-chart-bar"
+          className={chartActive ? 'p-button-text p-button-info' : 'p-button-text'}
+          onClick={onToggleChart}
+          tooltip={chartActive ? 'Hide chart' : 'Show chart'}
+          aria-label={chartActive ? 'Hide chart' : 'Show chart'}
+          aria-pressed={chartActive}
+        />
+      )}
+      {onUndo && onRedo && (
+        <>
+          <Button
+            icon="pi pi-undo"
+            className="p-button-text"
+            onClick={onUndo}
+            disabled={!canUndo}
+            tooltip="Undo"
+            aria-label="Undo"
+          />
+          <Button
+            icon="pi pi-redo"
+            className="p-button-text"
+            onClick={onRedo}
+            disabled={!canRedo}
+            tooltip="Redo"
+            aria-label="Redo"
+          />
+        </>
+      )}
       {enableExport && onExport && (
+        <>
+          <Menu model={exportMenuItems} popup ref={exportMenuRef} />
+          <Button
+            icon="pi pi-download"
+            label="Export"
+            severity="secondary"
+            size="small"
+            className="grid-export-button"
+            onClick={(e) => exportMenuRef.current?.toggle(e)}
+            loading={loading}
+            disabled={loading}
+            tooltip={`Export all matching records (${GRID_SHORTCUTS.export.label})`}
+            aria-haspopup="menu"
+            aria-keyshortcuts={GRID_SHORTCUTS.export.ariaKeys}
+          />
+        </>
+      )}
+      {enableImport && onImport && (
         <Button
-          icon="pi pi-download"
-          label="Export"
+          icon="pi pi-upload"
+          label="Import"
           severity="secondary"
           size="small"
-          onClick={() => onExport('csv')}
-          loading={loading}
-          disabled={loading}
-          tooltip="Export to CSV"
+          onClick={onImport}
+          tooltip="Import records from CSV or Excel"
+        />
+      )}
+      {enableInlineEdit && onToggleInlineEdit && (
+        <Button
+          icon="pi pi-pencil"
+          label={inlineEditActive ? 'Done Editing' : 'Edit'}
+          severity={inlineEditActive ? 'warning' : 'secondary'}
+          size="small"
+          outlined={!inlineEditActive}
+          onClick={onToggleInlineEdit}
+          tooltip={inlineEditActive ? 'Leave inline edit mode' : 'Edit cells inline'}
+        />
+      )}
+      {groupByOptions.length > 0 && onGroupByChange && (
+        <Dropdown
+          value={groupBy}
+          options={groupByOptions}
+          onChange={(e) => onGroupByChange(e.value ?? null)}
+          placeholder="Group by..."
+          showClear
+          className="w-10rem p-inputtext-sm"
+          tooltip="Group rows by column"
         />
       )}
+      {aggregateColumns.length > 0 && onAggregatesChange && (
+        <>
+          <Button
+            icon="pi pi-calculator"
+            label="Totals"
+            severity="secondary"
+            size="small"
+            outlined={activeAggregateCount === 0}
+            badge={activeAggregateCount > 0 ? String(activeAggregateCount) : undefined}
+            onClick={(e) => totalsPanelRef.current?.toggle(e)}
+            tooltip="Footer totals for numeric columns"
+          />
+          <OverlayPanel ref={totalsPanelRef}>
+            <div className="flex flex-column gap-2" style={{ width: '20rem' }}>
+              {aggregateColumns.map(column => (
+                <div key={column.field} className="flex align-items-center justify-content-between gap-2">
+                  <span className="text-sm">{column.header}</span>
+                  <MultiSelect
+                    value={aggregates[column.field] ?? []}
+                    options={AGGREGATE_FUNCTIONS}
+                    optionLabel="label"
+                    optionValue="value"
+                    onChange={(e) => onAggregatesChange({ ...aggregates, [column.field]: e.value })}
+                    placeholder="None"
+                    display="chip"
+                    className="w-11rem p-inputtext-sm"
+                  />
+                </div>
+              ))}
+            </div>
+          </OverlayPanel>
+        </>
+      )}
     </div>
   );
 
   const rightContent = (
     <div className="flex align-items-center gap-3">
+      {/* Personal saved views */}
+      {viewMenu && <GridViewMenu {...viewMenu} />}
+
       {/* Defined Filters (new) or Predefined Filters (legacy) */}
       {definedFilters.length > 0 ? (
         <div className="field">
@@ -112,21 +467,51 @@ export function GridToolbar<TSearchQuery>({
       {/* Global Search */}
       <div className="field flex align-items-center gap-2">
         <label htmlFor="search" className="text-sm font-medium">Search:</label>
-        <InputText
-          id="search"
-          value={globalSearch.searchTerm}
-          onChange={(e) => onGlobalSearchChange({
-            ...globalSearch,
-            searchTerm: e.target.value
-          })}
-          placeholder="Search all columns..."
-          className="w-12rem"
+        <AutoComplete
+          ref={searchBoxRef}
+          inputId="search"
+          value={searchInput}
+          suggestions={suggestions}
+          completeMethod={(e) => completeSearch(e.query)}
+          field="label"
+          itemTemplate={(suggestion: SearchSuggestion) => (
+            <span className="flex align-items-center gap-2">
+              <i className={`${suggestionIcons[suggestion.kind]} text-500`} />
+              <span>{suggestion.label}</span>
+            </span>
+          )}
+          // Picked suggestions arrive through onSelect - only typed text is taken from onChange
+          onChange={(e) => { if (typeof e.value === 'string') handleSearchInput(e.value); }}
+          onSelect={(e) => handleSuggestionSelect(e.value)}
+          onKeyUp={(e) => { if (e.key === 'Enter') submitSearch(searchInput); }}
+          // An empty box lists the recent searches
+          onFocus={(e) => { if (!searchInput && recentSearchesKey) searchBoxRef.current?.search(e, '', 'dropdown'); }}
+          delay={searchDebounceMs}
+          placeholder={searchPlaceholder}
+          title={searchedHeaders.length > 0 ? `Searches ${searchedHeaders.join(', ')}` : undefined}
+          inputClassName="grid-search-input w-12rem"
+          aria-keyshortcuts={GRID_SHORTCUTS.search.ariaKeys}
         />
+        {searchFields.length > 1 && (
+          <MultiSelect
+            value={pickedSearchFields}
+            options={searchFields}
+            optionLabel="header"
+            optionValue="field"
+            onChange={(e) => handleSearchFieldsChange(e.value ?? [])}
+            maxSelectedLabels={1}
+            selectedItemsLabel="{0} fields"
+            className={`w-10rem ${globalSearch.searchFields?.length ? 'border-primary' : ''}`}
+            aria-label="Search fields"
+          />
+        )}
         <Dropdown
           value={globalSearch.searchType}
+          ariaLabel="Search type"
           options={searchTypeOptions}
-          onChange={(e) => onGlobalSearchChange({
+          onChange={(e) => applySearch({
             ...globalSearch,
+            searchTerm: searchInput,
             searchType: e.value
           })}
           className="w-9rem"
@@ -134,7 +519,9 @@ export function GridToolbar<TSearchQuery>({
         <Button
           icon="pi pi-search"
           className="p-button-outlined"
+          onClick={() => submitSearch(searchInput)}
           tooltip="Search"
+          aria-label="Search"
         />
 
         {/* Create Button */}
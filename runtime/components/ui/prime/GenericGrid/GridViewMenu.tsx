@@ -0,0 +1,125 @@
+import React, { useRef, useState } from 'react';
+import { Button } from 'primereact/button';
+import { OverlayPanel } from 'primereact/overlaypanel';
+import { InputText } from 'primereact/inputtext';
+import { Checkbox } from 'primereact/checkbox';
+import type { SavedGridView } from './gridViews';
+
+export interface GridViewMenuProps {
+  views: SavedGridView[];
+  activeViewId: string | null;
+  onApply: (view: SavedGridView) => void;
+  /** Save the current grid state under a name (same name overwrites) */
+  onSave: (name: string, makeDefault: boolean) => Promise<void> | void;
+  onDelete: (view: SavedGridView) => void;
+  /** Mark a view as default, or clear the default with null */
+  onSetDefault: (view: SavedGridView | null) => void;
+}
+
+/**
+ * Toolbar menu for personal saved views - apply, save, delete and pick the default view
+ */
+export function GridViewMenu({ views, activeViewId, onApply, onSave, onDelete, onSetDefault }: GridViewMenuProps) {
+  const panelRef = useRef<OverlayPanel>(null);
+  const activeView = views.find(view => view.id === activeViewId) ?? null;
+  const [name, setName] = useState('');
+  const [makeDefault, setMakeDefault] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setSaving(true);
+    try {
+      await onSave(trimmed, makeDefault);
+      panelRef.current?.hide();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        icon="pi pi-bookmark"
+        label={activeView ? activeView.name : 'Views'}
+        severity="secondary"
+        size="small"
+        outlined={!activeView}
+        onClick={(e) => {
+          setName(activeView?.name ?? '');
+          setMakeDefault(activeView?.isDefault ?? false);
+          panelRef.current?.toggle(e);
+        }}
+        tooltip="My saved views"
+      />
+      <OverlayPanel ref={panelRef}>
+        <div className="flex flex-column gap-3" style={{ width: '20rem' }}>
+          {views.length === 0 ? (
+            <span className="text-sm text-600">No saved views yet</span>
+          ) : (
+            <ul className="list-none m-0 p-0 flex flex-column gap-1">
+              {views.map(view => (
+                <li key={view.id} className="flex align-items-center gap-1">
+                  <Button
+                    label={view.name}
+                    text
+                    size="small"
+                    className={`flex-1 justify-content-start ${view.id === activeViewId ? 'font-bold' : ''}`}
+                    onClick={() => {
+                      onApply(view);
+                      panelRef.current?.hide();
+                    }}
+                  />
+                  <Button
+                    icon={view.isDefault ? 'pi pi-star-fill' : 'pi pi-star'}
+                    text
+                    rounded
+                    size="small"
+                    severity={view.isDefault ? 'warning' : 'secondary'}
+                    onClick={() => onSetDefault(view.isDefault ? null : view)}
+                    tooltip={view.isDefault ? 'Default view - click to clear' : 'Make default view'}
+                  />
+                  <Button
+                    icon="pi pi-trash"
+                    text
+                    rounded
+                    size="small"
+                    severity="danger"
+                    onClick={() => onDelete(view)}
+                    tooltip="Delete view"
+                  />
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex flex-column gap-2 border-top-1 surface-border pt-3">
+            <InputText
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+              placeholder="View name"
+              className="p-inputtext-sm"
+            />
+            <div className="flex align-items-center justify-content-between">
+              <div className="flex align-items-center gap-2">
+                <Checkbox inputId="view-default" checked={makeDefault} onChange={(e) => setMakeDefault(!!e.checked)} />
+                <label htmlFor="view-default" className="text-sm">Default view</label>
+              </div>
+              <Button
+                label={views.some(view => view.name === name.trim()) ? 'Update View' : 'Save View'}
+                icon="pi pi-save"
+                size="small"
+                onClick={handleSave}
+                loading={saving}
+                disabled={!name.trim()}
+              />
+            </div>
+          </div>
+        </div>
+      </OverlayPanel>
+    </>
+  );
+}
+
+export default GridViewMenu;
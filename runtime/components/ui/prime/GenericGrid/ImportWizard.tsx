@@ -0,0 +1,368 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Dialog } from 'primereact/dialog';
+import { Steps } from 'primereact/steps';
+import { Button } from 'primereact/button';
+import { Dropdown } from 'primereact/dropdown';
+import { ProgressBar } from 'primereact/progressbar';
+import { Message } from 'primereact/message';
+import { DataTable } from 'primereact/datatable';
+import { Column } from 'primereact/column';
+import { autoMatchColumns, mapImportRows } from './importMapping';
+import type { ImportColumnMapping, ImportRow } from './importMapping';
+import {
+  IMPORT_FILE_ACCEPT,
+  readImportFile,
+  loadImportSchema,
+  loadImportLookups,
+  validateImportRows,
+  saveImportRows,
+  downloadImportErrorReport
+} from './gridImport';
+import type { ImportSchema, ImportSheet } from './gridImport';
+
+export interface ImportWizardProps {
+  visible: boolean;
+  onHide: () => void;
+  /** Dialog title and error report filename (e.g. 'Products') */
+  title: string;
+  /** Query model interface name (e.g., 'IQueryProductModel') */
+  queryModelName: string;
+  /** Explicit save model name - otherwise derived from x-save-model or the query model name */
+  saveModelName?: string;
+  /** Generated client's Save({ body }) */
+  save: (params: { body: any }) => Promise<unknown>;
+  /** Called when the wizard closes after saving at least one row */
+  onImported?: (saved: number) => void;
+}
+
+type ImportStep = 'upload' | 'map' | 'review' | 'import';
+
+const STEP_ORDER: ImportStep[] = ['upload', 'map', 'review', 'import'];
+const STEP_ITEMS = [{ label: 'Upload' }, { label: 'Map Columns' }, { label: 'Review' }, { label: 'Import' }];
+
+/**
+ * CSV/XLSX import wizard
+ * Upload -> map columns to SaveModel fields (auto-matched by x-label) -> validate -> save through client.Save
+ * Rows that fail conversion, validation or saving are listed and downloadable as a CSV error report
+ */
+export function ImportWizard({
+  visible,
+  onHide,
+  title,
+  queryModelName,
+  saveModelName,
+  save,
+  onImported
+}: ImportWizardProps) {
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [schema, setSchema] = useState<ImportSchema | null>(null);
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mapping, setMapping] = useState<ImportColumnMapping>([]);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [validRows, setValidRows] = useState<ImportRow[]>([]);
+  const [processed, setProcessed] = useState(0);
+  const [saved, setSaved] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Load the form/save schema once the wizard opens
+  useEffect(() => {
+    if (!visible || schema) return;
+
+    let cancelled = false;
+    loadImportSchema(queryModelName, saveModelName)
+      .then(result => { if (!cancelled) setSchema(result); })
+      .catch(err => {
+        console.error('❌ [ImportWizard] Failed to load schema:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load schema');
+      });
+    return () => { cancelled = true; };
+  }, [visible, schema, queryModelName, saveModelName]);
+
+  const fields = useMemo(() => schema?.fields ?? [], [schema]);
+  const errorRows = useMemo(() => rows.filter(row => row.errors.length > 0), [rows]);
+  const importing = step === 'import' && saved === null;
+
+  const unmappedRequired = useMemo(
+    () => fields.filter(field => field.required && !mapping.includes(field.name)),
+    [fields, mapping]
+  );
+
+  const reset = () => {
+    setStep('upload');
+    setSheet(null);
+    setFileName('');
+    setMapping([]);
+    setRows([]);
+    setValidRows([]);
+    setProcessed(0);
+    setSaved(null);
+    setError(null);
+  };
+
+  const handleHide = () => {
+    if (importing) return;
+    if (saved && onImported) onImported(saved);
+    reset();
+    onHide();
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await readImportFile(file);
+      if (result.rows.length === 0) {
+        throw new Error('The file has no data rows');
+      }
+      setSheet(result);
+      setFileName(file.name);
+      setMapping(autoMatchColumns(result.headers, fields));
+      setStep('map');
+    } catch (err) {
+      console.error('❌ [ImportWizard] Failed to read file:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleMappingChange = (column: number, fieldName: string | null) => {
+    setMapping(prev => prev.map((value, index) => {
+      if (index === column) return fieldName;
+      // A field can only be mapped once - the new column wins
+      return fieldName && value === fieldName ? null : value;
+    }));
+  };
+
+  // Resolve navigation lookups, convert and validate every row
+  const handleValidate = async () => {
+    if (!schema || !sheet) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const lookups = await loadImportLookups(fields, mapping);
+      const mapped = mapImportRows(sheet.rows, mapping, fields, lookups);
+      setValidRows(validateImportRows(mapped, schema));
+      setRows(mapped);
+      setStep('review');
+    } catch (err) {
+      console.error('❌ [ImportWizard] Validation failed:', err);
+      setError(err instanceof Error ? err.message : 'Validation failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!schema) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStep('import');
+    setProcessed(0);
+    try {
+      const count = await saveImportRows(validRows, schema.formSchema, save, {
+        signal: controller.signal,
+        onProgress: setProcessed
+      });
+      setSaved(count);
+    } finally {
+      // Save failures were added to the rows - refresh so the error list picks them up
+      setRows(prev => [...prev]);
+      abortRef.current = null;
+    }
+  };
+
+  const handleDownloadErrors = () => {
+    if (!sheet) return;
+    downloadImportErrorReport(sheet.headers, errorRows, title.replace(/\s+/g, '-').toLowerCase());
+  };
+
+  const fieldOptions = fields.map(field => ({
+    label: `${field.label}${field.required ? ' *' : ''}`,
+    value: field.name
+  }));
+
+  const errorTable = (
+    <DataTable value={errorRows} size="small" scrollable scrollHeight="240px" emptyMessage="No errors">
+      <Column field="rowNumber" header="Row" style={{ width: '5rem' }} />
+      <Column
+        header="Errors"
+        body={(row: ImportRow) => (
+          <ul className="m-0 pl-3">
+            {row.errors.map((rowError, index) => <li key={index}>{rowError.message}</li>)}
+          </ul>
+        )}
+      />
+    </DataTable>
+  );
+
+  const renderStep = () => {
+    switch (step) {
+      case 'upload':
+        return (
+          <div className="flex flex-column align-items-center gap-3 py-4">
+            <i className="pi pi-upload text-4xl text-500" />
+            <span className="text-600">Select a CSV or Excel (.xlsx) file - the first row must contain column headers</span>
+            <label className={`p-button p-component p-button-sm ${!schema || busy ? 'p-disabled' : ''}`}>
+              <i className={`pi ${busy ? 'pi-spin pi-spinner' : 'pi-file'} mr-2`} />
+              Choose File
+              <input
+                type="file"
+                accept={IMPORT_FILE_ACCEPT}
+                className="hidden"
+                disabled={!schema || busy}
+                onChange={handleFileSelect}
+              />
+            </label>
+          </div>
+        );
+
+      case 'map':
+        return (
+          <div className="flex flex-column gap-3">
+            <span className="text-600">
+              {fileName} - {sheet?.rows.length.toLocaleString()} rows. Columns were matched by label; adjust as needed.
+            </span>
+            {unmappedRequired.length > 0 && (
+              <Message
+                severity="warn"
+                text={`Required fields not mapped: ${unmappedRequired.map(field => field.label).join(', ')}`}
+              />
+            )}
+            <DataTable value={sheet?.headers.map((header, index) => ({ header, index })) ?? []} size="small" scrollable scrollHeight="320px">
+              <Column field="header" header="File Column" />
+              <Column
+                header="Sample"
+                body={({ index }: { index: number }) => (
+                  <span className="text-600">{sheet?.rows.find(row => row[index])?.[index] ?? ''}</span>
+                )}
+              />
+              <Column
+                header="Import As"
+                body={({ index }: { index: number }) => (
+                  <Dropdown
+                    value={mapping[index]}
+                    options={fieldOptions}
+                    onChange={(e) => handleMappingChange(index, e.value ?? null)}
+                    placeholder="Ignore column"
+                    showClear
+                    filter={fieldOptions.length > 10}
+                    className="w-full"
+                  />
+                )}
+              />
+            </DataTable>
+          </div>
+        );
+
+      case 'review':
+        return (
+          <div className="flex flex-column gap-3">
+            <Message
+              severity={validRows.length > 0 ? 'success' : 'warn'}
+              text={`${validRows.length.toLocaleString()} of ${rows.length.toLocaleString()} rows are ready to import`}
+            />
+            {errorRows.length > 0 && (
+              <>
+                <span className="font-semibold">{errorRows.length.toLocaleString()} rows have errors and will be skipped</span>
+                {errorTable}
+              </>
+            )}
+          </div>
+        );
+
+      case 'import':
+        return (
+          <div className="flex flex-column gap-3">
+            <ProgressBar value={validRows.length ? Math.round((processed / validRows.length) * 100) : 100} />
+            <span className="text-sm text-600">
+              {processed.toLocaleString()} of {validRows.length.toLocaleString()} rows processed
+            </span>
+            {saved !== null && (
+              <>
+                <Message
+                  severity={errorRows.length === 0 ? 'success' : 'warn'}
+                  text={`Imported ${saved.toLocaleString()} rows`
+                    + (errorRows.length > 0 ? ` - ${errorRows.length.toLocaleString()} rows failed` : '')
+                    + (processed < validRows.length ? ' - cancelled before the remaining rows' : '')}
+                />
+                {errorRows.length > 0 && errorTable}
+              </>
+            )}
+          </div>
+        );
+    }
+  };
+
+  const footer = (
+    <div className="flex justify-content-between">
+      <div>
+        {errorRows.length > 0 && (step === 'review' || saved !== null) && (
+          <Button label="Download Error Report" icon="pi pi-download" severity="secondary" outlined size="small" onClick={handleDownloadErrors} />
+        )}
+      </div>
+      <div className="flex gap-2">
+        {step === 'map' && (
+          <>
+            <Button label="Back" severity="secondary" text size="small" onClick={reset} disabled={busy} />
+            <Button
+              label="Validate"
+              icon="pi pi-check-square"
+              size="small"
+              onClick={handleValidate}
+              loading={busy}
+              disabled={!mapping.some(Boolean) || unmappedRequired.length > 0}
+            />
+          </>
+        )}
+        {step === 'review' && (
+          <>
+            <Button label="Back" severity="secondary" text size="small" onClick={() => setStep('map')} />
+            <Button
+              label={`Import ${validRows.length.toLocaleString()} Rows`}
+              icon="pi pi-upload"
+              size="small"
+              onClick={handleImport}
+              disabled={validRows.length === 0}
+            />
+          </>
+        )}
+        {importing && (
+          <Button label="Cancel" icon="pi pi-times" severity="secondary" outlined size="small" onClick={() => abortRef.current?.abort()} />
+        )}
+        {!importing && (
+          <Button label="Close" severity="secondary" size="small" outlined={step !== 'import'} onClick={handleHide} />
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog
+      header={`Import ${title}`}
+      visible={visible}
+      onHide={handleHide}
+      footer={footer}
+      closable={!importing}
+      style={{ width: '50rem' }}
+      breakpoints={{ '960px': '90vw' }}
+    >
+      <div className="flex flex-column gap-4">
+        <Steps model={STEP_ITEMS} activeIndex={STEP_ORDER.indexOf(step)} readOnly />
+        {error && <Message severity="error" text={error} />}
+        {renderStep()}
+      </div>
+    </Dialog>
+  );
+}
+
+export default ImportWizard;
@@ -0,0 +1,103 @@
+import React, { Suspense } from 'react';
+import { InputText } from 'primereact/inputtext';
+import { InputNumber } from 'primereact/inputnumber';
+import { Checkbox } from 'primereact/checkbox';
+import { Calendar } from 'primereact/calendar';
+import { Skeleton } from 'primereact/skeleton';
+import { getComboboxComponent } from '@/components/GreenOnion/componentRegistry';
+import type { InlineEditableField } from './inlineEditing';
+
+export interface InlineCellEditorProps {
+  editable: InlineEditableField;
+  rowData: Record<string, any>;
+  /** Called with the changed field(s) - navigation relations change both FK and display text */
+  onChange: (changes: Record<string, any>) => void;
+}
+
+/**
+ * Compact cell editor for SimpleGenericGrid inline edit mode
+ * Renders the same editor types as BasePropertyEditor (text, number, date, boolean, navigation combobox)
+ */
+export function InlineCellEditor({ editable, rowData, onChange }: InlineCellEditorProps) {
+  const { field, valueField, displayField, navigationTarget } = editable;
+  const value = rowData[valueField];
+
+  // Navigation lookups - combobox bound to the FK field
+  if (navigationTarget) {
+    const ComboBoxComponent = getComboboxComponent(navigationTarget);
+    if (ComboBoxComponent) {
+      return (
+        <Suspense fallback={<Skeleton height="2rem" className="w-full" />}>
+          <ComboBoxComponent
+            value={value}
+            onChange={(newValue: any) => onChange({ [valueField]: newValue })}
+            onTextChange={displayField ? (newText: string) => onChange({ [displayField]: newText }) : undefined}
+            placeholder={`Select ${field.label}...`}
+            className="w-full"
+          />
+        </Suspense>
+      );
+    }
+
+    // No combobox registered - edit the raw ID
+    return (
+      <InputNumber
+        value={value as number | null}
+        onValueChange={(e) => onChange({ [valueField]: e.value })}
+        className="w-full"
+        autoFocus
+      />
+    );
+  }
+
+  switch (field.type) {
+    case 'number':
+      return (
+        <InputNumber
+          value={value as number | null}
+          onValueChange={(e) => onChange({ [valueField]: e.value })}
+          min={field.minimum}
+          max={field.maximum}
+          className="w-full"
+          autoFocus
+        />
+      );
+
+    case 'boolean':
+      return (
+        <Checkbox
+          checked={Boolean(value)}
+          onChange={(e) => onChange({ [valueField]: !!e.checked })}
+        />
+      );
+
+    case 'date':
+    case 'datetime':
+      return (
+        <Calendar
+          value={value ? new Date(value as string) : null}
+          // Store ISO strings so edited values match what the API returns
+          onChange={(e) => onChange({ [valueField]: e.value instanceof Date ? e.value.toISOString() : null })}
+          dateFormat="mm/dd/yy"
+          showTime={field.type === 'datetime'}
+          hourFormat="12"
+          className="w-full"
+          autoFocus
+        />
+      );
+
+    default:
+      // text, textarea, email, phone, url
+      return (
+        <InputText
+          value={String(value ?? '')}
+          onChange={(e) => onChange({ [valueField]: e.target.value })}
+          maxLength={field.maxLength}
+          className="w-full"
+          autoFocus
+        />
+      );
+  }
+}
+
+export default InlineCellEditor;
@@ -208,8 +208,15 @@ export class MockDemoClient implements IQueryableClient<IDemoFilter, IDemoOrderB
   /**
    * Simulate API delay
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(resolve, ms);
+      // Aborting rejects like fetch does
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+      }, { once: true });
+    });
   }
 
   /**
@@ -320,9 +327,9 @@ export class MockDemoClient implements IQueryableClient<IDemoFilter, IDemoOrderB
   /**
    * Mock query implementation
    */
-  async Query(request: { body: IDemoSearchQuery }): Promise<{ rows?: IDemoModel[]; totalRowCount?: number }> {
+  async Query(request: { body: IDemoSearchQuery }, requestOptions?: { signal?: AbortSignal }): Promise<{ rows?: IDemoModel[]; totalRowCount?: number }> {
     // Simulate API delay
-    await this.delay(Math.random() * 500 + 200);
+    await this.delay(Math.random() * 500 + 200, requestOptions?.signal);
 
     const { 
       currentPage = 0, 
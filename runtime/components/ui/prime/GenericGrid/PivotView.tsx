@@ -0,0 +1,243 @@
+import React, { useMemo, useRef } from 'react';
+import { MultiSelect } from 'primereact/multiselect';
+import { Dropdown } from 'primereact/dropdown';
+import { Button } from 'primereact/button';
+import { Menu } from 'primereact/menu';
+import { Message } from 'primereact/message';
+import { ProgressBar } from 'primereact/progressbar';
+import type { PivotConfig } from './types';
+import { AGGREGATE_FUNCTIONS, formatAggregateValue } from './aggregateOperations';
+import { buildPivotExport, buildPivotRequest, buildPivotTable, describePivotMeasure } from './pivotOperations';
+import type { PivotDimension, PivotPageFetcher } from './pivotOperations';
+import { usePivotData } from './usePivotData';
+import { createExportBuilder, EXPORT_FORMAT_OPTIONS } from './gridExport';
+import type { GridExportFormat } from './gridExport';
+
+export interface PivotViewProps {
+  config: PivotConfig;
+  onConfigChange: (config: PivotConfig) => void;
+  /** Fields rows and columns can be grouped by (see getPivotDimensions) */
+  dimensions: PivotDimension[];
+  /** Numeric fields the values can aggregate (getNumericColumns) */
+  measures: { field: string; header: string }[];
+  /** One page of the grid's current query - page 0 also carries the pivot request */
+  fetchPage: PivotPageFetcher;
+  /** Changes whenever the grid's search or filters change - the pivot reloads */
+  queryKey: string;
+  /** Rows fetched at most when the server does not aggregate (default: 100000) */
+  maxRecords?: number;
+  /** Rows per request when paging through the data (default: 1000) */
+  chunkSize?: number;
+  title: string;
+  /** Export file name without extension */
+  exportFilename: string;
+  enableExport?: boolean;
+}
+
+const cellClassName = 'border-1 surface-border px-3 py-2';
+
+/**
+ * Pivot (crosstab) of the grid's matching rows
+ * Aggregated by the server when it supports searchQuery.pivot, otherwise computed from all matching rows
+ */
+export function PivotView({
+  config,
+  onConfigChange,
+  dimensions,
+  measures,
+  fetchPage,
+  queryKey,
+  maxRecords = 100000,
+  chunkSize = 1000,
+  title,
+  exportFilename,
+  enableExport = true
+}: PivotViewProps) {
+  const exportMenuRef = useRef<Menu>(null);
+  const hasLayout = config.rowFields.length > 0 || config.columnFields.length > 0;
+
+  // Reloads when the dimensions, the measure or the grid's filters change - a new function only rebuilds the table
+  const { result, progress, error, setError } = usePivotData({
+    fetchPage,
+    request: hasLayout ? buildPivotRequest(config) : null,
+    dimensions,
+    queryKey,
+    maxRecords,
+    chunkSize
+  });
+
+  const table = useMemo(
+    () => result && hasLayout ? buildPivotTable(result.groups, config) : null,
+    [result, config, hasLayout]
+  );
+
+  const getHeader = (field: string) =>
+    dimensions.find(dimension => dimension.field === field)?.header
+    ?? measures.find(measure => measure.field === field)?.header
+    ?? field;
+  const valueFunction = config.measure === null ? 'count' : config.aggregate;
+  const formatValue = (value: number | null | undefined) => value === undefined ? '' : formatAggregateValue(valueFunction, value);
+
+  const handleExport = async (format: GridExportFormat) => {
+    if (!table) return;
+    try {
+      const { columns, rows } = buildPivotExport(table, config, getHeader);
+      const builder = await createExportBuilder(format, columns, `${exportFilename}_pivot`, `${title} - ${describePivotMeasure(config, getHeader)}`);
+      builder.addRows(rows);
+      await builder.finish();
+    } catch (err) {
+      console.error('❌ [PivotView] Export failed:', err);
+      setError(err instanceof Error ? err.message : 'Export failed');
+    }
+  };
+
+  const dimensionOptions = (exclude: string[]) =>
+    dimensions.filter(dimension => !exclude.includes(dimension.field)).map(dimension => ({ label: dimension.header, value: dimension.field }));
+  // Dropdown treats null as "nothing selected" - '' stands for counting rows
+  const measureOptions = [
+    { label: 'Count of rows', value: '' },
+    ...measures.map(measure => ({ label: measure.header, value: measure.field }))
+  ];
+
+  const status = (() => {
+    if (!result) return null;
+    if (result.source === 'server') return 'Aggregated by the server';
+    const rowCount = result.rowCount ?? 0;
+    return result.totalRowCount && result.totalRowCount > rowCount
+      ? `Computed from the first ${rowCount.toLocaleString()} of ${result.totalRowCount.toLocaleString()} rows`
+      : `Computed from ${rowCount.toLocaleString()} row${rowCount !== 1 ? 's' : ''}`;
+  })();
+
+  return (
+    <div className="pivot-view flex flex-column gap-2 h-full">
+      <div className="flex flex-wrap align-items-end gap-2">
+        <div className="flex flex-column gap-1">
+          <label htmlFor="pivot-rows" className="text-sm text-600">Rows</label>
+          <MultiSelect
+            inputId="pivot-rows"
+            value={config.rowFields}
+            options={dimensionOptions(config.columnFields)}
+            onChange={(e) => onConfigChange({ ...config, rowFields: e.value })}
+            placeholder="Group rows by..."
+            display="chip"
+            className="w-14rem p-inputtext-sm"
+          />
+        </div>
+        <div className="flex flex-column gap-1">
+          <label htmlFor="pivot-columns" className="text-sm text-600">Columns</label>
+          <MultiSelect
+            inputId="pivot-columns"
+            value={config.columnFields}
+            options={dimensionOptions(config.rowFields)}
+            onChange={(e) => onConfigChange({ ...config, columnFields: e.value })}
+            placeholder="Group columns by..."
+            display="chip"
+            className="w-14rem p-inputtext-sm"
+          />
+        </div>
+        <div className="flex flex-column gap-1">
+          <label htmlFor="pivot-measure" className="text-sm text-600">Values</label>
+          <div className="flex gap-2">
+            <Dropdown
+              inputId="pivot-aggregate"
+              value={config.aggregate}
+              options={AGGREGATE_FUNCTIONS}
+              optionLabel="label"
+              optionValue="value"
+              onChange={(e) => onConfigChange({ ...config, aggregate: e.value })}
+              disabled={config.measure === null}
+              className="w-8rem p-inputtext-sm"
+              aria-label="Aggregate function"
+            />
+            <Dropdown
+              inputId="pivot-measure"
+              value={config.measure ?? ''}
+              options={measureOptions}
+              onChange={(e) => onConfigChange({ ...config, measure: e.value || null })}
+              className="w-12rem p-inputtext-sm"
+            />
+          </div>
+        </div>
+        {enableExport && (
+          <>
+            <Menu
+              model={EXPORT_FORMAT_OPTIONS.map(option => ({ label: option.label, icon: option.icon, command: () => handleExport(option.format) }))}
+              popup
+              ref={exportMenuRef}
+            />
+            <Button
+              icon="pi pi-download"
+              label="Export Pivot"
+              severity="secondary"
+              size="small"
+              onClick={(e) => exportMenuRef.current?.toggle(e)}
+              disabled={!table || progress !== null}
+              aria-haspopup="menu"
+            />
+          </>
+        )}
+        {status && progress === null && <span className="text-sm text-500 ml-auto">{status}</span>}
+      </div>
+
+      {error && <Message severity="error" text={error} className="w-full justify-content-start" />}
+      {progress !== null && (
+        progress.total
+          ? <ProgressBar value={Math.min(100, Math.round((progress.exported / progress.total) * 100))} style={{ height: '6px' }} showValue={false} />
+          : <ProgressBar mode="indeterminate" style={{ height: '6px' }} />
+      )}
+
+      <div className="flex-1 overflow-auto" style={{ minHeight: 0, opacity: progress !== null ? 0.6 : 1 }} aria-busy={progress !== null}>
+        {!hasLayout ? (
+          <div className="p-4 text-center text-500">Pick row or column fields to build the pivot</div>
+        ) : table && table.rowHeaders.length === 0 ? (
+          <div className="p-4 text-center text-500">No records found</div>
+        ) : table && (
+          <table className="pivot-table text-sm" style={{ borderCollapse: 'collapse', minWidth: '100%' }}>
+            <caption className="p-hidden-accessible">{`${title} - ${describePivotMeasure(config, getHeader)}`}</caption>
+            <thead className="surface-100" style={{ position: 'sticky', top: 0 }}>
+              <tr>
+                {config.rowFields.map(field => (
+                  <th key={field} scope="col" className={`${cellClassName} text-left`}>{getHeader(field)}</th>
+                ))}
+                {table.columnHeaders.map(header => (
+                  <th key={header.key} scope="col" className={`${cellClassName} text-right`}>
+                    {header.labels.length > 0 ? header.labels.join(' / ') : describePivotMeasure(config, getHeader)}
+                  </th>
+                ))}
+                {config.columnFields.length > 0 && <th scope="col" className={`${cellClassName} text-right`}>Total</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {table.rowHeaders.map(header => (
+                <tr key={header.key}>
+                  {header.labels.map((label, index) => (
+                    <th key={index} scope="row" className={`${cellClassName} text-left font-normal`}>{label}</th>
+                  ))}
+                  {table.columnHeaders.map(column => (
+                    <td key={column.key} className={`${cellClassName} text-right`}>{formatValue(table.cells[header.key]?.[column.key])}</td>
+                  ))}
+                  {config.columnFields.length > 0 && (
+                    <td className={`${cellClassName} text-right font-semibold`}>{formatValue(table.rowTotals[header.key])}</td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+            {config.rowFields.length > 0 && (
+              <tfoot className="surface-50 font-semibold">
+                <tr>
+                  <th scope="row" colSpan={config.rowFields.length} className={`${cellClassName} text-left`}>Total</th>
+                  {table.columnHeaders.map(column => (
+                    <td key={column.key} className={`${cellClassName} text-right`}>{formatValue(table.columnTotals[column.key])}</td>
+                  ))}
+                  {config.columnFields.length > 0 && <td className={`${cellClassName} text-right`}>{formatValue(table.grandTotal)}</td>}
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default PivotView;
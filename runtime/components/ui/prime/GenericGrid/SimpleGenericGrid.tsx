@@ -1,34 +1,141 @@
-import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef, Suspense } from 'react';
 import { useLocation } from 'react-router-dom';
-import { DataTable, DataTablePageEvent, DataTableSortEvent, DataTableFilterEvent } from 'primereact/datatable';
+import { DataTable, DataTablePageEvent } from 'primereact/datatable';
+import type { DataTableExpandedRows, DataTableRowToggleEvent } from 'primereact/datatable';
 import { Column } from 'primereact/column';
 import { Toast } from 'primereact/toast';
+import { OverlayPanel } from 'primereact/overlaypanel';
 import { Paginator } from 'primereact/paginator';
 import { Dropdown } from 'primereact/dropdown';
 import { Button } from 'primereact/button';
+import { Message } from 'primereact/message';
+import { Menu } from 'primereact/menu';
+import type { MenuItem } from 'primereact/menuitem';
+import { TabView, TabPanel } from 'primereact/tabview';
+import { Skeleton } from 'primereact/skeleton';
 import DefinedFilterClient from '@/api/GreenOnion/Clients/DefinedFilterClient';
 import type { IQueryDefinedFilterModel } from '@/api/GreenOnion/Models';
 
-import type { GenericGridColumn, FilterOperation, OrderByConfig } from './types';
+import type { GenericGridColumn, FilterOperation } from './types';
 import type { ISearchQueryBase } from '../Base/types';
 import { GridToolbar } from './GridToolbar';
 import { FilterSidebar } from './FilterSidebar';
+import { FilterControl } from './FilterControl';
 import { DevelopmentPanel } from './DevelopmentPanel';
 import { createDevelopmentFilterViewModel } from './DevelopmentTypes';
 import DevelopmentConfig from '@/config/development';
-import type { GlobalSearchConfig, PredefinedFilter, GridStateConfig, ColumnWidthConfig } from './types';
+import type { GlobalSearchConfig, PredefinedFilter, GridStateConfig, ColumnWidthConfig, ColumnPinSide, AggregateFunction, GridDetailConfig, GridVirtualScrollingConfig, ConditionalFormatRule } from './types';
 import type { ISearch, IFilter, IOrderBy } from '@/api/_ClientBase';
 import { getCellRenderer } from '@/utils/cellRendererRegistry';
 import { BulkActionBar, getBulkActionsForEntity } from '@/utils/bulkActionRegistry';
 import type { BulkActionResult } from '@/utils/bulkActionRegistry';
 import { usePermissions } from '@/hooks/usePermissions';
-import { DataExporter } from '@/utils/dataExport';
+import { cycleColumnSort } from './sortOperations';
+import { buildGridQuery, buildGridSearch, createGridState, gridStateFromConfig } from './gridState';
+import {
+  createGroupedPageFetcher,
+  createBoardColumnFetcher,
+  createCalendarRangeFetcher
+} from './gridRequests';
+import type { GridViewQuery } from './gridRequests';
+import type { GridState } from './gridState';
+import { useGridState } from './useGridState';
+import { useGridData } from './useGridData';
+import { useGridUrlState } from './useGridUrlState';
+import { useGridContentViews } from './useGridContentViews';
+import {
+  AGGREGATE_FUNCTIONS,
+  buildAggregateRequest,
+  computeAggregates,
+  computeGroupAggregates,
+  formatAggregateValue,
+  getGroupKey
+} from './aggregateOperations';
+import type { AggregateConfig, AggregateResults } from './aggregateOperations';
+import { getNumericColumns, getDateColumns, getSchemaMetadata, getCardFields, getNavigationFields, getSearchFields } from '@/utils/zodSchemaHelper';
+import { useMediaQuery } from '@/hooks/useMediaQuery';
+import { resolveCardLayout } from './cardLayout';
+import type { GridLayout } from './cardLayout';
+import { GridCardList } from './GridCardList';
+import { useGridKeyboard } from './useGridKeyboard';
+import { resolveGridShortcut, describeGridStatus } from './gridKeyboard';
+import {
+  pinColumn,
+  orderColumnsByPin,
+  fitColumnWidth,
+  measureCellContentWidths,
+  columnPinsToConfig
+} from './columnLayout';
+import { getRowFormatClassName, getCellFormatClassName } from './conditionalFormatting';
+import { PivotView } from './PivotView';
+import type { GridChartPanelProps } from './GridChartPanel';
+import { buildBoardMovePayload } from './boardOperations';
+import type { BoardColumnOption } from './boardOperations';
+import { GridKanbanBoard } from './GridKanbanBoard';
+import { GridCalendarView } from './GridCalendarView';
+import { highlightSearchMatches } from './searchHighlight';
+import { buildSearchSuggestions, getRecentSearchesKey, SEARCH_SUGGESTION_PAGE_SIZE } from './searchSuggestions';
+import type { QuickFilterField } from './searchSuggestions';
+import { GridFilterChips } from './GridFilterChips';
+import type { FilterChip } from './filterChips';
+import { buildExportColumns, createExportBuilder, runChunkedExport, EXPORT_FORMAT_OPTIONS } from './gridExport';
+import type { GridExportFormat } from './gridExport';
+import { ExportCancelledError } from './exportChunks';
+import type { ExportProgress } from './exportChunks';
+import { ExportProgressDialog } from './ExportProgressDialog';
+import { fromDefinedFilterState } from './definedFilterState';
+import type { DefinedFilterState } from './definedFilterState';
+import { useVirtualRows } from './useVirtualRows';
+import { ImportWizard } from './ImportWizard';
+import { DetailGrid } from './DetailGrid';
+import {
+  applyDefaultFlag,
+  createLocalStorageViewAdapter,
+  createViewId,
+  findDefaultView,
+  upsertView
+} from './gridViews';
+import type { GridViewPersistenceAdapter, SavedGridView } from './gridViews';
+import { decodeGridUrlState, readGridStateParam } from './gridUrlState';
+import type { UrlGridState } from './gridUrlState';
+import { InlineCellEditor } from './InlineCellEditor';
+import {
+  applyCellChanges,
+  buildRowSavePayload,
+  getRowKey,
+  mergeRowEdits,
+  resolveInlineEditableField
+} from './inlineEditing';
+import type { InlineEditableField, RowEditMap } from './inlineEditing';
+import { loadEditableFields, buildFieldsFromSchema } from '../EntityForm/schemaUtils';
+import type { FieldMetadata } from '../EntityForm/types';
+
+// Loaded when the chart is first opened - primereact/chart needs the optional chart.js package
+const GridChartPanel = React.lazy(() => import('./GridChartPanel').catch(error => {
+  console.error('❌ [SimpleGenericGrid] Failed to load the chart panel:', error);
+  return {
+    default: ({ onClose }: GridChartPanelProps) => (
+      <div className="flex align-items-center gap-2">
+        <Message severity="error" text="Charts need the chart.js package" className="w-full justify-content-start" />
+        {onClose && <Button icon="pi pi-times" className="p-button-text" onClick={onClose} tooltip="Close chart" aria-label="Close chart" />}
+      </div>
+    )
+  };
+}));
 
 /**
- * Simplified GenericGrid Props without virtual scrolling
+ * Simplified GenericGrid Props - paged by default, virtual scrolling is opt-in
  */
 export interface SimpleGenericGridProps<TFilter, TOrderBy, TSearchQuery extends ISearchQueryBase, TModel> {
-  client: { Query: (params: { body: TSearchQuery }) => Promise<{ rows?: TModel[]; totalRowCount?: number }> };
+  client: {
+    /** aggregates is only returned by servers that support searchQuery.aggregates */
+    Query: (
+      params: { body: TSearchQuery },
+      requestOptions?: { signal?: AbortSignal }
+    ) => Promise<{ rows?: TModel[]; totalRowCount?: number; aggregates?: AggregateResults }>;
+    /** Used by inline edit mode - generated clients' Save({ body }) */
+    Save?: (params: { body: any }) => Promise<TModel | undefined | null>;
+  };
   title: string;
   columns: GenericGridColumn<TModel>[];
   predefinedFilters?: PredefinedFilter<TSearchQuery>[];
@@ -36,8 +143,14 @@ export interface SimpleGenericGridProps<TFilter, TOrderBy, TSearchQuery extends
   pageSize?: number;
   pageSizeOptions?: number[];
   enableBulkSelection?: boolean;
+  /** Enable click-to-sort column headers (respects column.sortable / x-not-sortable) */
+  enableSorting?: boolean;
+  /** Enable per-column filter menus in headers (respects column.filterable / x-not-filterable) */
+  enableFiltering?: boolean;
   enableCreate?: boolean;
   onRowClick?: (data: TModel) => void;
+  /** Opens a record (e.g. its entity form) from the board and calendar views - defaults to onRowClick */
+  onRecordOpen?: (data: TModel) => void;
   onBulkSelect?: (selectedRows: TModel[]) => void;
   onBulkSelectIds?: (selectedRowIds: (string | number)[]) => void;
   onCreateClick?: () => void;
@@ -60,10 +173,56 @@ export interface SimpleGenericGridProps<TFilter, TOrderBy, TSearchQuery extends
   exportFilename?: string;
   /** Maximum records to export (default: 100000) */
   exportMaxRecords?: number;
+  /** Records fetched per export request (default: 1000) */
+  exportChunkSize?: number;
+  /** Enable the inline cell edit mode toggle (requires client.Save and queryModelName) */
+  enableInlineEdit?: boolean;
+  /** Query model interface name used to load editable fields (e.g., 'IQueryManufacturerModel') */
+  queryModelName?: string;
+  /** Explicit save model name - otherwise derived from x-save-model or the query model name */
+  saveModelName?: string;
+  /** Enable the CSV/XLSX import wizard (requires client.Save and queryModelName) */
+  enableImport?: boolean;
+  /** Enable row grouping by column with collapsible group headers (default: true) */
+  enableGrouping?: boolean;
+  /** Enable footer aggregates for numeric columns (default: true) */
+  enableAggregates?: boolean;
+  /** Child grids shown when a row is expanded (master-detail) - not available while rows are grouped */
+  detailGrids?: GridDetailConfig[];
+  /** Enable personal saved views in the toolbar (default: true) */
+  enableViews?: boolean;
+  /** Where saved views are stored - defaults to localStorage (see createDefinedFilterViewAdapter for server storage) */
+  viewPersistence?: GridViewPersistenceAdapter;
+  /** Mirror filters, sorts, search, columns and page into the URL hash for sharing and back/forward (default: true) */
+  enableUrlState?: boolean;
+  /** Delay before typing in the toolbar search runs a query (ms, default: 300) */
+  searchDebounceMs?: number;
+  /** 'table', 'cards' or 'auto' - cards below cardBreakpoint, table above it (default: 'auto') */
+  layout?: GridLayout;
+  /** Viewport width (px) below which the 'auto' layout shows cards (default: 768) */
+  cardBreakpoint?: number;
+  /** Arrow-key cell navigation, Enter/Space on rows and the search/filters/export shortcuts (default: true) */
+  enableKeyboardNavigation?: boolean;
+  /** Row/cell formatting rules defined in code - combined with column rules (x-conditional-format) and user rules */
+  conditionalFormats?: ConditionalFormatRule[];
+  /** Enable the pivot (crosstab) view toggle in the toolbar (default: true) */
+  enablePivot?: boolean;
+  /** Enable the chart panel toggle in the toolbar (default: true) */
+  enableCharts?: boolean;
+  /** Enable the board view toggle when the schema marks an x-board-field (default: true) */
+  enableBoard?: boolean;
+  /** Enable the calendar view toggle when the schema marks an x-calendar-start field (default: true) */
+  enableCalendar?: boolean;
+  /** Typeahead in the toolbar search - matching display values and related-record quick filters (default: true) */
+  enableSearchSuggestions?: boolean;
+  /** Chips under the toolbar for the active search, filters and sorts (default: true) */
+  enableFilterChips?: boolean;
+  /** Load table rows while scrolling instead of paging (opt-in) - grouped rows, detail rows and inline edit mode keep the paginator */
+  virtualScrolling?: GridVirtualScrollingConfig;
 }
 
 /**
- * Simplified GenericGrid component with server-side pagination
+ * Simplified GenericGrid component with server-side pagination (or virtual scrolling, see virtualScrolling)
  */
 export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearchQueryBase, TModel>({
   client,
@@ -75,10 +234,11 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
   pageSizeOptions = [50, 100, 1000],
   enableBulkSelection = true,
   // enableColumnReordering = true,
-  // enableFiltering = true,
-  // enableSorting = true,
+  enableFiltering = true,
+  enableSorting = true,
   enableCreate = false,
   onRowClick,
+  onRecordOpen,
   onBulkSelect,
   onBulkSelectIds,
   onCreateClick,
@@ -93,79 +253,210 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
   onBulkActionComplete,
   enableExport = true,
   exportFilename,
-  exportMaxRecords = 100000
+  exportMaxRecords = 100000,
+  exportChunkSize = 1000,
+  enableInlineEdit = false,
+  queryModelName,
+  saveModelName,
+  enableImport = false,
+  enableGrouping = true,
+  enableAggregates = true,
+  detailGrids = [],
+  enableViews = true,
+  viewPersistence,
+  enableUrlState = true,
+  searchDebounceMs = 300,
+  layout = 'auto',
+  cardBreakpoint = 768,
+  enableKeyboardNavigation = true,
+  conditionalFormats = [],
+  enablePivot = true,
+  enableCharts = true,
+  enableBoard = true,
+  enableCalendar = true,
+  enableSearchSuggestions = true,
+  enableFilterChips = true,
+  virtualScrolling
 }: SimpleGenericGridProps<TFilter, TOrderBy, TSearchQuery, TModel>) {
 
   // Get user role for bulk action permissions
   const { userRole } = usePermissions();
 
   const toastRef = useRef<Toast>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const tableContainerRef = useRef<HTMLDivElement>(null);
+  // Running export - progress drives the dialog, the controller cancels between chunks
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null);
+  const [exportFormat, setExportFormat] = useState<GridExportFormat | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const filterOverlayRef = useRef<OverlayPanel>(null);
+  // Column whose header filter menu is open
+  const [filterOverlayField, setFilterOverlayField] = useState<string | null>(null);
   const [hasAppliedUrlFilter, setHasAppliedUrlFilter] = useState(false);
   const definedFilterClient = useMemo(() => new DefinedFilterClient(), []);
   const [definedFilters, setDefinedFilters] = useState<IQueryDefinedFilterModel[]>([]);
   const [selectedDefinedFilter, setSelectedDefinedFilter] = useState<IQueryDefinedFilterModel | null>(null);
+  // Personal saved views - stored through the persistence adapter (localStorage unless one is provided)
+  const viewAdapter = useMemo(() => viewPersistence ?? createLocalStorageViewAdapter(), [viewPersistence]);
+  const [savedViews, setSavedViews] = useState<SavedGridView<TSearchQuery>[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  // The first fetch waits until the default view / URL filter has been applied
+  const [initialStateReady, setInitialStateReady] = useState(false);
 
-  // State management for server-side pagination
-  const [data, setData] = useState<TModel[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [totalRecords, setTotalRecords] = useState(0);
-  const [currentPage, setCurrentPage] = useState(0);
-  const [currentPageSize, setCurrentPageSize] = useState(pageSize);
   const [selectedRows, setSelectedRows] = useState<TModel[]>([]);
-  const [sidebarVisible, setSidebarVisible] = useState(true); // Default to open/pinned
+  // Narrow screens: card layout and a closed filter sidebar that opens over the grid
+  const isNarrow = useMediaQuery(`(max-width: ${cardBreakpoint - 1}px)`);
+  const [sidebarVisible, setSidebarVisible] = useState(!isNarrow); // Default to open/pinned on wide screens
   const location = useLocation(); // React Router location for detecting programmatic navigation
   const [lastProcessedHash, setLastProcessedHash] = useState<string>(''); // Track processed hash to prevent duplicates
   
-  // Search and filter state
+  // Legacy search query (predefined filters) - merged into every query
   const [searchQuery, setSearchQuery] = useState<TSearchQuery>(initialSearchQuery as TSearchQuery);
-  const [globalSearch, setGlobalSearch] = useState<GlobalSearchConfig>({
-    searchTerm: '',
-    searchType: 'contains'
-  });
+
+  // Generate unique storage key for this grid instance
+  const storageKey = selectionStorageKey || `grid-selection-${(title || 'grid').replace(/\s+/g, '-').toLowerCase()}`;
   
-  // Sort and filter state for UI interaction
-  const [activeFilters, setActiveFilters] = useState<FilterOperation[]>([]);
-  const [activeSorts, setActiveSorts] = useState<OrderByConfig[]>([]);
+  // Recent toolbar searches are kept next to the selection
+  const recentSearchesKey = getRecentSearchesKey(storageKey);
+
+  // Generate grid instance identifier for defined filters
+  const gridInstance = (title || 'grid').replace(/\s+/g, '-').toLowerCase();
+
+  // Search, filters (flat and the sidebar's nested AND/OR tree), sorts, columns, grouping, the pivot/board/calendar
+  // view, the chart, the layout, selection and paging live in useGridState - changes are undoable, paging and
+  // selection are not recorded
+  // Hidden columns start out of view; column order includes them (for the filter panel)
+  // Statically frozen columns start pinned left; the header menu can unpin them
+  const createDefaultGridState = () => createGridState(columns.map(col => String(col.field)), {
+    visibleColumns: columns.filter(col => !col.hidden).map(col => String(col.field)),
+    columnPins: Object.fromEntries(columns.filter(col => col.frozen).map(col => [String(col.field), 'left' as ColumnPinSide])),
+    currentPageSize: pageSize
+  });
+  const grid = useGridState({
+    columns: columns.map(col => String(col.field)),
+    initialState: () => {
+      // Selections persist across navigation in localStorage
+      let selectedRowIds: (string | number)[] = [];
+      try {
+        const stored = localStorage.getItem(storageKey);
+        if (stored) {
+          selectedRowIds = JSON.parse(stored);
+        }
+      } catch (error) {
+        console.warn(`⚠️ [SimpleGenericGrid] Failed to restore selections for ${title}:`, error);
+      }
+      return { ...createDefaultGridState(), selectedRowIds };
+    }
+  });
+  const {
+    globalSearch, activeFilters, filterGroup, activeSorts, groupBy,
+    visibleColumns, columnOrder, columnWidths, columnPins, selectedRowIds, currentPage, currentPageSize,
+    conditionalFormats: userFormatRules,
+    contentView, pivotConfig, chartVisible, chartConfig, calendarMode, layout: layoutOverride
+  } = grid.state;
+  const {
+    setGlobalSearch, setActiveFilters, setFilterGroup, setActiveSorts, setGroupBy,
+    setVisibleColumns, setColumnOrder, setColumnWidths, setColumnPins, setSelectedRowIds, setCurrentPage, setCurrentPageSize,
+    setConditionalFormats, setContentView, setPivotConfig, setChartVisible, setChartConfig, setCalendarMode,
+    setLayout: setLayoutOverride,
+    applyState
+  } = grid;
+
+  // Conditional formatting - rules from code, then columns (x-conditional-format), then the user's own rules
+  const formatRules = useMemo((): ConditionalFormatRule[] => [
+    ...conditionalFormats.map(rule => ({ source: 'code' as const, ...rule })),
+    ...columns.flatMap(col => col.conditionalFormats ?? []),
+    ...userFormatRules
+  ], [conditionalFormats, columns, userFormatRules]);
+  const hasCellFormats = formatRules.some(rule => rule.target === 'cell');
+
+  // Row grouping - rows are ordered by the group column so each page shows contiguous groups
+  const [collapsedGroups, setCollapsedGroups] = useState<string[]>([]);
+  // Footer aggregates - null until the user changes them, then overrides column/x-aggregate defaults
+  const [aggregateOverrides, setAggregateOverrides] = useState<AggregateConfig | null>(null);
+  // Aggregates over all matching rows, when the server supports them
+  const [serverAggregates, setServerAggregates] = useState<AggregateResults | null>(null);
+
+  // Numeric columns (getNumericColumns) can show footer aggregates; navigation IDs and the key are excluded
+  const aggregateColumns = useMemo(() => {
+    if (!enableAggregates) return [];
+    const numericFields = new Set<string>(schema ? getNumericColumns(schema) : []);
+    return columns
+      .filter(col => {
+        const fieldName = String(col.field);
+        if (fieldName === dataKey || col.navigationTarget) return false;
+        return numericFields.has(fieldName) || !!col.aggregate?.length;
+      })
+      .map(col => ({ field: String(col.field), header: col.header }));
+  }, [enableAggregates, schema, columns, dataKey]);
+
+  // Effective aggregates - user changes win over column aggregate / x-aggregate defaults
+  const aggregateConfig = useMemo<AggregateConfig>(() => {
+    if (!enableAggregates) return {};
+    if (aggregateOverrides) return aggregateOverrides;
+    return Object.fromEntries(
+      columns.filter(col => col.aggregate?.length).map(col => [String(col.field), col.aggregate!])
+    );
+  }, [enableAggregates, aggregateOverrides, columns]);
+  const hasAggregates = Object.values(aggregateConfig).some(functions => functions.length > 0);
+
+  // Group by any sortable column (the server orders rows by the group column)
+  const groupByOptions = useMemo(() => {
+    if (!enableGrouping) return [];
+    return columns
+      .filter(col => col.sortable && String(col.field) !== 'actions')
+      .map(col => ({ label: col.header, value: String(col.field) }));
+  }, [enableGrouping, columns]);
 
   // Show selected only mode - when true, shows only selected rows (no other filters)
   // Stores the previous filter state to restore when toggling back
   const [showSelectedOnly, setShowSelectedOnly] = useState(false);
   const [savedFiltersBeforeShowSelected, setSavedFiltersBeforeShowSelected] = useState<FilterOperation[]>([]);
   const [savedGlobalSearchBeforeShowSelected, setSavedGlobalSearchBeforeShowSelected] = useState<GlobalSearchConfig>({ searchTerm: '', searchType: 'contains' });
+
+  // Inline edit mode - pending edits are tracked per row (by dataKey) and survive paging
+  const canInlineEdit = enableInlineEdit && !!client.Save && !!queryModelName;
+  const canImport = enableImport && !!client.Save && !!queryModelName;
+  const [importVisible, setImportVisible] = useState(false);
+  const [inlineEditMode, setInlineEditMode] = useState(false);
+  const [editableFields, setEditableFields] = useState<Set<string>>(new Set());
+  const [fieldMetadata, setFieldMetadata] = useState<Record<string, FieldMetadata>>({});
+  const [rowEdits, setRowEdits] = useState<RowEditMap<TModel>>({});
+  const [rowSaveErrors, setRowSaveErrors] = useState<Record<string, string>>({});
+  const [savingRowKeys, setSavingRowKeys] = useState<string[]>([]);
+
+  // Cards, pivot, board and calendar in place of the table rows, and the fields the chart panel can use
+  const {
+    pivotMeasures, pivotDimensions, chartDateFields, canChart, boardField, calendarFields,
+    showCards, showPivot, showBoard, showCalendar, toggleContentView
+  } = useGridContentViews({
+    columns,
+    schema,
+    dataKey,
+    enablePivot,
+    enableCharts,
+    enableBoard,
+    enableCalendar,
+    contentView,
+    setContentView,
+    layout: layoutOverride ?? layout,
+    isNarrow,
+    inlineEditMode
+  });
+  // Virtual scrolling with defaults - only the plain table scrolls virtually (see useVirtualRows below)
+  const virtualConfig = {
+    enabled: virtualScrolling?.enabled ?? false,
+    itemHeight: virtualScrolling?.itemHeight ?? 50,
+    pageSize: virtualScrolling?.pageSize ?? 50,
+    buffer: virtualScrolling?.buffer ?? 10,
+    maxCachedPages: virtualScrolling?.maxCachedPages ?? 10
+  };
+  const isVirtualTable = virtualConfig.enabled && !showCards && !showPivot && !showBoard && !showCalendar
+    && !inlineEditMode && !groupBy && detailGrids.length === 0;
   
   // Column filter functionality removed
   // Remove DataTable's separate sort state - use only activeSorts as single source of truth
 
-  // Column visibility and ordering
-  // Initialize visible columns excluding those marked as hidden
-  const [visibleColumns, setVisibleColumns] = useState<string[]>(
-    columns.filter(col => !col.hidden).map(col => String(col.field))
-  );
-  // Column order includes all columns (even hidden ones for filter panel)
-  const [columnOrder, setColumnOrder] = useState<string[]>(
-    columns.map(col => String(col.field))
-  );
-  const [columnWidths, setColumnWidths] = useState<{[key: string]: string}>({});
-  // Generate unique storage key for this grid instance
-  const storageKey = selectionStorageKey || `grid-selection-${(title || 'grid').replace(/\s+/g, '-').toLowerCase()}`;
-  
-  // Generate grid instance identifier for defined filters
-  const gridInstance = (title || 'grid').replace(/\s+/g, '-').toLowerCase();
-  
-  // Initialize selected rows from localStorage
-  const [selectedRowIds, setSelectedRowIds] = useState<(string | number)[]>(() => {
-    try {
-      const stored = localStorage.getItem(storageKey);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        return parsed;
-      }
-    } catch (error) {
-      console.warn(`⚠️ [SimpleGenericGrid] Failed to restore selections for ${title}:`, error);
-    }
-    return [];
-  });
-
   // Persist selected rows to localStorage whenever they change
   useEffect(() => {
     try {
@@ -179,10 +470,6 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
     }
   }, [selectedRowIds, storageKey, title]);
 
-  // Debug column visibility changes
-  useEffect(() => {
-  }, [visibleColumns, columns]);
-
   // Load defined filters for this grid
   // Uses entityType (stable identifier) when available, falls back to gridInstance for backward compatibility
   const loadDefinedFilters = useCallback(async () => {
@@ -234,6 +521,12 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
     }
   };
 
+  // Apply a DefinedFilter's saved state like a saved view (see fromDefinedFilterState for what is kept)
+  const applyDefinedFilterState = (state: DefinedFilterState<TSearchQuery>) => {
+    restoreGridState(fromDefinedFilterState(state));
+    setAggregateOverrides(state.aggregates ?? null);
+  };
+
   // Load and apply filter from URL on initial mount
   const loadFilterFromUrl = useCallback(async () => {
     if (hasAppliedUrlFilter) {
@@ -263,31 +556,7 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
         const filter = response.rows[0] as IQueryDefinedFilterModel;
         if (filter.state) {
           try {
-            const state = JSON.parse(filter.state);
-            // Apply the filter state
-            if (state.searchTerm) {
-              setGlobalSearch({
-                searchTerm: state.searchTerm,
-                searchType: 'contains'
-              });
-            }
-            
-            if (state.filters) {
-              setActiveFilters(state.filters);
-            }
-            
-            if (state.orderBy) {
-              setActiveSorts(state.orderBy);
-            }
-            
-            if (state.visibleColumns) {
-              setVisibleColumns(state.visibleColumns);
-            }
-            
-            if (state.columnOrder) {
-              setColumnOrder(state.columnOrder);
-            }
-            
+            applyDefinedFilterState(JSON.parse(filter.state));
             setHasAppliedUrlFilter(true);
             setSelectedDefinedFilter(filter); // Set the selected filter for the dropdown
             
@@ -318,148 +587,399 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
   // Update column visibility when columns prop changes
   useEffect(() => {
     const newColumnFields = columns.map(col => String(col.field));
-    setVisibleColumns(newColumnFields);
-    setColumnOrder(newColumnFields);
+    applyState({ visibleColumns: newColumnFields, columnOrder: newColumnFields }, { skipHistory: true });
   }, [columns]);
 
-  // Global search formatter
-  const formatGlobalSearch = (searchTerm: string, searchType: string): string => {
-    switch (searchType) {
-      case 'startsWith':
-        return `${searchTerm}*`;
-      case 'endsWith':
-        return `*${searchTerm}`;
-      case 'contains':
-      default:
-        return `*${searchTerm}*`;
-    }
+  // Search term, filter and orderBy for the current state (grouping, "show selected only" and the
+  // sidebar's filter tree included) - page and page size can be overridden
+  const buildQuery = (overrides: Partial<GridState> = {}) =>
+    buildGridQuery({ ...grid.state, ...overrides }, { dataKey, showSelectedOnly });
+
+  // Server-side paging - the first page reloads when the search, filters, sorting or grouping change
+  // (the virtual table loads its own pages, see useVirtualRows below)
+  const aggregateRequestKey = JSON.stringify(buildAggregateRequest(aggregateConfig) ?? {});
+  const { data, setData, loading, totalRecords, setTotalRecords, fetchData, loadPageAfterUpdate } = useGridData<
+    TModel,
+    TSearchQuery,
+    Awaited<ReturnType<typeof client.Query>>
+  >({
+    enabled: initialStateReady && !isVirtualTable,
+    send: (body, signal) => client.Query({ body }, { signal }),
+    // When showing selected only, global search is skipped and rows are filtered by IDs
+    buildBody: (page, size) => ({
+      ...searchQuery,
+      ...buildQuery({ currentPage: page, currentPageSize: size }),
+      // Servers without aggregate support ignore this and aggregates are computed per page
+      aggregates: buildAggregateRequest(aggregateConfig)
+    }),
+    page: currentPage,
+    pageSize: currentPageSize,
+    setPage: setCurrentPage,
+    setPageSize: setCurrentPageSize,
+    // Keyed by the search request, so restricting the search to other fields reloads too
+    resetKey: JSON.stringify({
+      searchQuery,
+      search: buildGridSearch(globalSearch),
+      activeFilters,
+      filterGroup,
+      activeSorts,
+      groupBy,
+      showSelectedOnly
+    }),
+    // Refetch so servers that support aggregates can return them
+    refreshKey: hasAggregates ? aggregateRequestKey : null,
+    onLoaded: response => {
+      setServerAggregates(response.aggregates || null);
+      // Restore selection state for current page based on persistent selectedRowIds
+      setSelectedRows((response.rows || []).filter(row => selectedRowIds.includes((row as any)[dataKey])));
+    },
+    onError: error => toastRef.current?.show({
+      severity: 'error',
+      summary: 'Error',
+      detail: `Failed to fetch data: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      life: 5000
+    })
+  });
+
+  // Header click sorting - cycles asc/desc/none, shift-click adds to a multi-column sort
+  // DataTable's built-in sorting stays disabled so activeSorts remains the single source of truth
+  const handleHeaderSort = (fieldName: string, event: React.MouseEvent) => {
+    setActiveSorts(prev => cycleColumnSort(prev, fieldName, event.shiftKey));
   };
 
-  // Convert active sorts to search query orderBy format
-  const buildOrderBy = (): any => {
-    if (activeSorts.length === 0) return undefined;
-    
-    const orderBy: any = {};
-    // Sort by priority to ensure correct order
-    const sortedBySorts = [...activeSorts].sort((a, b) => (a.priority || 0) - (b.priority || 0));
-    sortedBySorts.forEach(sort => {
-      orderBy[sort.field] = sort.direction;
+  // Header filter menu - applies/clears the column's entry in activeFilters
+  const handleHeaderFilterApply = (filter: FilterOperation) => {
+    setActiveFilters(prev => {
+      const index = prev.findIndex(f => f.field === filter.field);
+      if (index === -1) return [...prev, filter];
+      const next = [...prev];
+      next[index] = filter;
+      return next;
     });
-    return orderBy;
+    filterOverlayRef.current?.hide();
   };
 
-  // Convert active filters to search query filter format
-  const buildFilter = (): any => {
-    // When in "show selected only" mode, ONLY filter by selected IDs - ignore other filters
-    if (showSelectedOnly && selectedRowIds.length > 0) {
-      return { [dataKey]: { in: selectedRowIds } };
+  const handleHeaderFilterClear = (fieldName: string) => {
+    setActiveFilters(prev => prev.filter(f => f.field !== fieldName));
+    filterOverlayRef.current?.hide();
+  };
+
+  // Active filter chips - labels come from the column headers; navigation ids are resolved by the chips bar
+  const chipHeaders = useMemo(
+    () => Object.fromEntries(columns.map(col => [String(col.field), col.header])),
+    [columns]
+  );
+  const chipDateFields = useMemo(() => [...new Set([
+    ...(schema ? getDateColumns(schema) : []),
+    ...columns.filter(col => col.filterType === 'date').map(col => String(col.field))
+  ])], [schema, columns]);
+  const chipNavigationTargets = useMemo(() => Object.fromEntries([
+    ...(schema ? getNavigationFields(schema).map(nav => [nav.field, nav.target]) : []),
+    ...columns.filter(col => col.navigationTarget).map(col => [String(col.field), col.navigationTarget!])
+  ]), [schema, columns]);
+
+  const handleChipRemove = (chip: FilterChip) => {
+    switch (chip.kind) {
+      case 'search':
+        setGlobalSearch({ ...globalSearch, searchTerm: '' });
+        break;
+      case 'filter':
+        handleHeaderFilterClear(chip.field!);
+        break;
+      case 'group':
+        setFilterGroup(null);
+        break;
+      case 'sort':
+        setActiveSorts(prev => prev
+          .filter(sort => sort.field !== chip.field)
+          .sort((a, b) => a.priority - b.priority)
+          .map((sort, priority) => ({ ...sort, priority })));
+        break;
     }
+  };
 
-    // Normal mode: apply active filters from UI
-    const filter: any = {};
-    activeFilters.forEach(filterOp => {
-      if (filterOp.operator === 'in' && filterOp.values) {
-        filter[filterOp.field] = { [filterOp.operator]: filterOp.values };
-      } else {
-        filter[filterOp.field] = { [filterOp.operator]: filterOp.value };
+  // Column filters open the header filter menu at the chip; the filter tree and sorts are edited in the sidebar
+  const handleChipEdit = (chip: FilterChip, event: React.MouseEvent<HTMLElement>) => {
+    const column = chip.kind === 'filter' ? columns.find(col => String(col.field) === chip.field) : undefined;
+    if (chip.kind === 'search') {
+      rootRef.current?.querySelector<HTMLInputElement>('.grid-search-input')?.focus();
+    } else if (column && enableFiltering && column.filterable) {
+      setFilterOverlayField(chip.field!);
+      filterOverlayRef.current?.show(event, event.currentTarget);
+    } else {
+      setSidebarVisible(true);
+    }
+  };
+
+  // One undo step for everything the chips show
+  const handleClearAllChips = () => {
+    applyState({
+      globalSearch: { ...globalSearch, searchTerm: '' },
+      activeFilters: [],
+      filterGroup: null,
+      activeSorts: []
+    });
+  };
+
+  // Load editable fields (SaveModel comparison) and field metadata for inline editing
+  useEffect(() => {
+    if (!canInlineEdit || !queryModelName) return;
+
+    let cancelled = false;
+    const loadInlineEditConfig = async () => {
+      try {
+        const editable = await loadEditableFields(queryModelName, saveModelName);
+        const fields = await buildFieldsFromSchema(queryModelName, editable);
+        if (cancelled) return;
+        setEditableFields(editable);
+        setFieldMetadata(Object.fromEntries(fields.map(f => [f.field, f])));
+      } catch (error) {
+        console.error('❌ [SimpleGenericGrid] Failed to load editable fields:', error);
       }
+    };
+    loadInlineEditConfig();
+    return () => { cancelled = true; };
+  }, [canInlineEdit, queryModelName, saveModelName]);
+
+  // Editable columns for inline edit mode
+  const inlineEditableColumns = useMemo(() => {
+    const result: Record<string, InlineEditableField> = {};
+    if (!canInlineEdit) return result;
+    columns.forEach(col => {
+      const fieldName = String(col.field);
+      const editable = resolveInlineEditableField(fieldName, fieldMetadata, editableFields);
+      if (editable) result[fieldName] = editable;
     });
+    return result;
+  }, [canInlineEdit, columns, fieldMetadata, editableFields]);
+
+  // Rows shown in the table include pending edits
+  const displayData = useMemo(() => mergeRowEdits(data, rowEdits, dataKey), [data, rowEdits, dataKey]);
+  const dirtyRowCount = Object.keys(rowEdits).length;
 
-    return Object.keys(filter).length > 0 ? filter : undefined;
+  const handleCellChange = (row: TModel, changes: Record<string, any>) => {
+    setRowEdits(prev => applyCellChanges(prev, row, dataKey, changes as Partial<TModel>));
   };
 
-  // DataTable sort event handler - disabled, using custom header clicks instead
-  const onSort = (event: DataTableSortEvent) => {
-    // Prevent DataTable's built-in sorting since we handle it in custom header template
+  const revertRow = (rowKey: string) => {
+    setRowEdits(prev => {
+      const next = { ...prev };
+      delete next[rowKey];
+      return next;
+    });
+    setRowSaveErrors(prev => {
+      const next = { ...prev };
+      delete next[rowKey];
+      return next;
+    });
   };
 
-  // Filter event handler
-  const onFilter = (event: DataTableFilterEvent) => {
-    // Handle DataTable filtering if needed
+  const revertAllEdits = () => {
+    setRowEdits({});
+    setRowSaveErrors({});
   };
 
-  // Column reorder functionality removed
+  // Save one row through client.Save - returns true on success
+  const saveRow = async (rowKey: string): Promise<boolean> => {
+    const edit = rowEdits[rowKey];
+    if (!edit || !client.Save) return false;
 
-  // Data fetching function
-  const fetchData = useCallback(async (page: number = 0, size: number = currentPageSize) => {
-    setLoading(true);
+    setSavingRowKeys(prev => [...prev, rowKey]);
     try {
-      // Build search query with pagination, filtering, and sorting
-      const orderBy = buildOrderBy();
-      const filter = buildFilter();
-      
-      const queryWithSearch: TSearchQuery = {
-        ...searchQuery,
-        currentPage: page,
-        pageSize: size,
-        // When showing selected only, don't apply global search - only filter by IDs
-        searchTerm: (!showSelectedOnly && globalSearch.searchTerm) ?
-          formatGlobalSearch(globalSearch.searchTerm, globalSearch.searchType) :
-          undefined,
-        orderBy: orderBy,
-        filter: filter
-      };
-      
-      const response = await client.Query({ body: queryWithSearch });
-      
-      const newRows = response.rows || [];
-      
-      setData(newRows);
-      setTotalRecords(response.totalRowCount || 0);
-      setCurrentPage(page);
-      setCurrentPageSize(size);
-      
-      // Restore selection state for current page based on persistent selectedRowIds
-      const currentPageSelectedRows = newRows.filter(row => 
-        selectedRowIds.includes((row as any)[dataKey])
-      );
-      setSelectedRows(currentPageSelectedRows);
+      const editedRow = { ...edit.original, ...edit.changes } as Record<string, any>;
+      const result = await client.Save({ body: buildRowSavePayload(editedRow, editableFields, dataKey) });
+      if (!result) {
+        throw new Error('Save returned no result');
+      }
+
+      // Show the saved values (server result wins) and stop tracking the row
+      setData(prev => prev.map(row =>
+        getRowKey(row, dataKey) === rowKey ? { ...row, ...editedRow, ...result } : row
+      ));
+      revertRow(rowKey);
+      return true;
     } catch (error) {
-      console.error('Error fetching data:', error);
+      console.error(`❌ [SimpleGenericGrid] Failed to save row ${rowKey}:`, error);
+      setRowSaveErrors(prev => ({
+        ...prev,
+        [rowKey]: error instanceof Error ? error.message : 'Unknown error'
+      }));
+      return false;
+    } finally {
+      setSavingRowKeys(prev => prev.filter(key => key !== rowKey));
+    }
+  };
+
+  const handleSaveRow = async (rowKey: string) => {
+    const success = await saveRow(rowKey);
+    toastRef.current?.show({
+      severity: success ? 'success' : 'error',
+      summary: success ? 'Saved' : 'Save Failed',
+      detail: success ? 'Row saved successfully' : `Failed to save row ${rowKey}`,
+      life: success ? 3000 : 5000
+    });
+  };
+
+  const saveAllEdits = async () => {
+    const rowKeys = Object.keys(rowEdits);
+    let saved = 0;
+    // Sequential saves keep server load predictable and errors attributable per row
+    for (const rowKey of rowKeys) {
+      if (await saveRow(rowKey)) saved++;
+    }
+    const failed = rowKeys.length - saved;
+    toastRef.current?.show({
+      severity: failed === 0 ? 'success' : saved === 0 ? 'error' : 'warn',
+      summary: failed === 0 ? 'Changes Saved' : 'Some Changes Not Saved',
+      detail: failed === 0
+        ? `Saved ${saved} row${saved !== 1 ? 's' : ''}`
+        : `Saved ${saved} of ${rowKeys.length} rows - ${failed} failed`,
+      life: 5000
+    });
+  };
+
+  const handleToggleInlineEdit = () => {
+    if (inlineEditMode && dirtyRowCount > 0) {
       toastRef.current?.show({
-        severity: 'error',
-        summary: 'Error',
-        detail: `Failed to fetch data: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        life: 5000
+        severity: 'warn',
+        summary: 'Unsaved Changes',
+        detail: 'Save or revert your changes before leaving edit mode',
+        life: 4000
       });
-    } finally {
-      setLoading(false);
+      return;
+    }
+    setInlineEditMode(!inlineEditMode);
+  };
+
+  const openRecord = onRecordOpen ?? onRowClick;
+  const cardLayout = useMemo(() => resolveCardLayout(
+    schema ? getCardFields(schema) : { displayValueFields: [] },
+    columnOrder.filter(field => field !== 'actions' && visibleColumns.includes(field)),
+    {
+      dataKey,
+      // Foreign key ids - their display names come from separate columns
+      excludeFields: columns.filter(col => col.navigationTarget).map(col => String(col.field))
     }
-  }, [client, searchQuery, globalSearch, currentPageSize, activeFilters, activeSorts, selectedRowIds, dataKey, showSelectedOnly]);
+  ), [schema, columnOrder, visibleColumns, columns, dataKey]);
 
-  // Initial data load, defined filters load, and URL filter check
+  // Search term fields (x-searchable / x-search-term-default) - users can restrict the search to some of them
+  const searchFieldConfig = useMemo(
+    () => schema ? getSearchFields(schema) : { fields: [], defaultFields: [] },
+    [schema]
+  );
+  const searchFieldOptions = useMemo(() => searchFieldConfig.fields.map(field => ({
+    field,
+    header: columns.find(col => String(col.field) === field)?.header ?? field
+  })), [searchFieldConfig, columns]);
+  // Typeahead - x-display-value fields (else the card title) and related records offered as quick filters
+  const suggestionDisplayFields = useMemo(() => {
+    const { displayValueFields } = schema ? getCardFields(schema) : { displayValueFields: [] };
+    return displayValueFields.length > 0 ? displayValueFields : cardLayout.titleField ? [cardLayout.titleField] : [];
+  }, [schema, cardLayout]);
+  const quickFilterFields = useMemo((): QuickFilterField[] => {
+    if (!schema) return [];
+    const headerOf = (field: string) => columns.find(col => String(col.field) === field)?.header;
+    return getNavigationFields(schema)
+      .filter((nav): nav is { field: string; target: string; labelField: string } => !!nav.labelField && !!headerOf(nav.field))
+      .map(nav => ({
+        field: nav.field,
+        labelField: nav.labelField,
+        // 'Manufacturer ID' -> 'Manufacturer: Acme'
+        header: headerOf(nav.field)!.replace(/ ID$/i, '')
+      }));
+  }, [schema, columns]);
+  // Matches are marked in the searched fields - in every column when the schema does not list them
+  const searchedFields = globalSearch.searchFields?.length ? globalSearch.searchFields : searchFieldConfig.defaultFields;
+  const isSearchHighlighted = (field: string) =>
+    !showSelectedOnly && !!globalSearch.searchTerm.trim() && (searchedFields.length === 0 || searchedFields.includes(field));
+
+  // Cell content for cards - same precedence as the table: explicit body > cellRenderer > raw value
+  const renderCardValue = (field: string, row: TModel): React.ReactNode => {
+    const column = columns.find(col => String(col.field) === field);
+    const registryRenderer = column?.cellRenderer ? getCellRenderer(column.cellRenderer) : undefined;
+    const value = (row as any)[field];
+    const content = column?.body
+      ? column.body(row)
+      : registryRenderer ? registryRenderer(value, row) : value === null || value === undefined ? '' : String(value);
+    return isSearchHighlighted(field) ? highlightSearchMatches(content, globalSearch.searchTerm, globalSearch.searchType) : content;
+  };
+
+  // Card checkboxes and the Space key feed the same selection handler as the table,
+  // so persistence and bulk actions keep working
+  const toggleRowSelection = (row: TModel, selected: boolean) => {
+    const key = (row as any)[dataKey];
+    handleSelectionChange({
+      value: selected
+        ? [...selectedRows.filter(r => (r as any)[dataKey] !== key), row]
+        : selectedRows.filter(r => (r as any)[dataKey] !== key)
+    });
+  };
+
+  // Column reorder functionality removed
+
+  // Initial data load, defined filters load, URL filter check and default view
   useEffect(() => {
-    // Load defined filters and URL filter in parallel
+    // Shared link with encoded state - applied before anything is fetched
+    const encodedState = enableUrlState ? readGridStateParam(window.location.hash) : null;
+    if (encodedState) {
+      const urlState = decodeGridUrlState(encodedState);
+      if (urlState) {
+        applyUrlGridState(urlState);
+      } else {
+        toastRef.current?.show({
+          severity: 'warn',
+          summary: 'Link Not Supported',
+          detail: 'The grid state in this link could not be read',
+          life: 5000
+        });
+      }
+    }
+
+    // Load defined filters, URL filter and saved views in parallel
     Promise.all([
       loadDefinedFilters(),
-      loadFilterFromUrl()
+      loadFilterFromUrl(),
+      loadSavedViews()
     ]).then(() => {
-      // Then fetch data (with any applied filters)
-      fetchData(0, currentPageSize);
+      // Then fetch data (with any applied filters) - useGridData starts once the initial state is ready
+      setInitialStateReady(true);
     });
   }, []); // Only run once on mount
 
-
-  // Search/filter change effect
+  // Undo starts from the initial state (URL, default view or filter link), not the blank grid
   useEffect(() => {
-    fetchData(0, currentPageSize);
-  }, [searchQuery, globalSearch.searchTerm, globalSearch.searchType]);
-
-  // Sort/filter change effect
-  useEffect(() => {
-    if (currentPage > 0) {
-      setCurrentPage(0);
-      fetchData(0, currentPageSize);
-    } else {
-      fetchData(currentPage, currentPageSize);
+    if (initialStateReady) {
+      grid.clearHistory();
     }
-  }, [activeFilters, activeSorts]);
+  }, [initialStateReady]);
 
-  // Show selected only filter change effect
-  useEffect(() => {
-    setCurrentPage(0);
-    fetchData(0, currentPageSize);
-  }, [showSelectedOnly]);
+  // Shared links - a selected defined filter keeps its #filter=<name> link, which the hash/location
+  // listeners below handle on back/forward
+  useGridUrlState({
+    enabled: enableUrlState,
+    state: initialStateReady ? {
+      globalSearch,
+      activeFilters,
+      filterGroup,
+      activeSorts,
+      visibleColumns,
+      columnOrder,
+      groupBy,
+      contentView,
+      pivotConfig,
+      calendarMode,
+      chart: chartVisible ? chartConfig : null,
+      layout: layoutOverride,
+      page: currentPage,
+      pageSize: currentPageSize
+    } : null,
+    defaults: { columns: columns.map(col => String(col.field)), pageSize },
+    paused: !!selectedDefinedFilter,
+    onNavigate: urlState => {
+      if (getFilterNameFromUrl()) return;
+      applyUrlGridState(urlState);
+    }
+  });
 
   // Pagination handlers
   const onPageChange = (event: DataTablePageEvent) => {
@@ -467,9 +987,11 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
   };
 
   // Row selection handlers
-  const handleSelectionChange = (e: { value: TModel[] }) => {
+  const handleSelectionChange = (e: { value: (TModel | undefined)[] }) => {
+    // Placeholders (virtual table rows not loaded yet) can't be selected
+    const selection = e.value.filter((row): row is TModel => !!row);
     const currentPageIds = data.map(row => (row as any)[dataKey]);
-    const newlySelectedIds = e.value.map(row => (row as any)[dataKey]);
+    const newlySelectedIds = selection.map(row => (row as any)[dataKey]);
     
     // Calculate which rows were deselected on current page
     const deselectedIds = currentPageIds.filter(id => !newlySelectedIds.includes(id));
@@ -483,10 +1005,10 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
     ];
     
     setSelectedRowIds(updatedSelectedIds);
-    setSelectedRows(e.value);
+    setSelectedRows(selection);
     
     if (onBulkSelect) {
-      onBulkSelect(e.value);
+      onBulkSelect(selection);
     }
     
     if (onBulkSelectIds) {
@@ -494,8 +1016,8 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
     }
   };
 
-  const handleRowClick = (e: { data: TModel }) => {
-    if (onRowClick) {
+  const handleRowClick = (e: { data: TModel | undefined }) => {
+    if (onRowClick && e.data) {
       onRowClick(e.data);
     }
   };
@@ -538,26 +1060,163 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
     }
   };
 
+  // Pivot, chart, board and calendar data - the grid's search and filters; the board and the virtual table
+  // also keep its sorting (paging does not apply to any of them)
+  const { searchTerm: groupedSearchTerm, filter: groupedFilter, orderBy: boardOrderBy } = buildQuery();
+  const viewQuery: GridViewQuery = { searchQuery, searchTerm: groupedSearchTerm, filter: groupedFilter, orderBy: boardOrderBy };
+  const sendViewQuery = (body: Record<string, any>, signal?: AbortSignal) => client.Query({ body: body as TSearchQuery }, { signal });
+  const groupedQueryKey = JSON.stringify({ searchQuery, searchTerm: groupedSearchTerm, filter: groupedFilter });
+  const boardQueryKey = JSON.stringify({ groupedQueryKey, orderBy: boardOrderBy });
+  const fetchGroupedPage = createGroupedPageFetcher(sendViewQuery, viewQuery);
+
+  // Virtual table - the board's query (search, filters and sorting) loaded page by page while scrolling
+  // Page 0 also returns the row count and the server aggregates
+  const virtualRows = useVirtualRows<TModel, Awaited<ReturnType<typeof client.Query>>>({
+    enabled: isVirtualTable && initialStateReady,
+    fetchPage: (page: number, size: number, signal: AbortSignal) => client.Query({
+      body: {
+        ...searchQuery,
+        searchTerm: groupedSearchTerm,
+        filter: groupedFilter,
+        orderBy: boardOrderBy,
+        currentPage: page,
+        pageSize: size,
+        excludePageCount: page !== 0,
+        ...(page === 0 ? { aggregates: buildAggregateRequest(aggregateConfig) } : {})
+      }
+    }, { signal }),
+    queryKey: JSON.stringify({ boardQueryKey, aggregateRequestKey }),
+    pageSize: virtualConfig.pageSize,
+    maxCachedPages: virtualConfig.maxCachedPages,
+    onFirstPage: response => setServerAggregates(response.aggregates || null),
+    onError: error => toastRef.current?.show({
+      severity: 'error',
+      summary: 'Error',
+      detail: `Failed to fetch data: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      life: 5000
+    })
+  });
+
+  // The loaded rows stand in for the page - selection, bulk actions and page aggregates work on them
+  useEffect(() => {
+    if (!isVirtualTable) return;
+    setData(virtualRows.loadedRows);
+    setTotalRecords(virtualRows.totalRecords);
+    setSelectedRows(virtualRows.loadedRows.filter(row => selectedRowIds.includes((row as any)[dataKey])));
+  }, [isVirtualTable, virtualRows.loadedRows, virtualRows.totalRecords]);
+
+  // Reload the rows after records changed (bulk actions, import)
+  const reloadRows = (page: number) => {
+    if (isVirtualTable) {
+      virtualRows.reload();
+    } else {
+      fetchData(page, currentPageSize);
+    }
+  };
+
+  // Search suggestions - a small page matching the typed text within the grid's filters
+  const fetchSearchSuggestions = async (query: string, signal: AbortSignal) => {
+    const { searchTerm, filter } = buildGridQuery(
+      { ...grid.state, globalSearch: { ...globalSearch, searchTerm: query, searchType: 'contains' } },
+      { dataKey }
+    );
+    const response = await client.Query({
+      body: {
+        ...searchQuery,
+        searchTerm,
+        filter,
+        currentPage: 0,
+        pageSize: SEARCH_SUGGESTION_PAGE_SIZE,
+        excludePageCount: true
+      }
+    }, { signal });
+    return buildSearchSuggestions((response.rows ?? []) as Record<string, any>[], query, {
+      displayFields: suggestionDisplayFields,
+      quickFilterFields
+    });
+  };
+
+  // A picked quick filter replaces the column's filter - the typed text was cleared by the toolbar
+  const handleQuickFilter = (filter: FilterOperation) => {
+    setActiveFilters(prev => [...prev.filter(f => f.field !== filter.field), filter]);
+  };
+
+  // Dropping a card saves only the key and the board field; the board moves it back when this throws
+  const handleBoardMove = async (row: TModel, value: BoardColumnOption['value']) => {
+    if (!client.Save || !boardField) return undefined;
+    try {
+      const result = await client.Save({ body: buildBoardMovePayload(row as any, dataKey, boardField.field, value) });
+      if (!result) {
+        throw new Error('Save returned no result');
+      }
+      // Keep the rows view in step
+      const rowKey = getRowKey(row, dataKey);
+      setData(prev => prev.map(existing =>
+        getRowKey(existing, dataKey) === rowKey ? { ...existing, ...result, [boardField.field]: value } : existing
+      ));
+      return result;
+    } catch (error) {
+      console.error('❌ [SimpleGenericGrid] Failed to move card:', error);
+      toastRef.current?.show({
+        severity: 'error',
+        summary: 'Move Failed',
+        detail: error instanceof Error ? error.message : 'The record could not be saved',
+        life: 4000
+      });
+      throw error;
+    }
+  };
+
   // Export handler - fetches all data with current filters and exports to file
-  const handleExportAll = useCallback(async (format: 'csv' | 'excel') => {
-    setLoading(true);
+  // Export runs in the background: pages through the data in chunks and streams them into the file builder
+  // The grid's own loading state is untouched so it stays usable during the export
+  const handleExportAll = useCallback(async (format: GridExportFormat) => {
+    if (exportAbortRef.current) return; // One export at a time
+
+    const abortController = new AbortController();
+    exportAbortRef.current = abortController;
+    setExportFormat(format);
+    setExportProgress({ exported: 0 });
+
     try {
-      // Build query with same filters/sort but no paging
-      const exportQuery: TSearchQuery = {
+      // Snapshot the query with the same filters/sort as the grid
+      const { searchTerm, orderBy, filter } = buildQuery();
+      const baseQuery: TSearchQuery = {
         ...searchQuery,
-        currentPage: 0,
-        pageSize: exportMaxRecords,
-        searchTerm: globalSearch.searchTerm ?
-          formatGlobalSearch(globalSearch.searchTerm, globalSearch.searchType) : undefined,
-        orderBy: buildOrderBy(),
-        filter: buildFilter()
+        searchTerm,
+        orderBy,
+        filter
       };
 
-      // Fetch all data
-      const response = await client.Query({ body: exportQuery });
-      const exportData = response.rows || [];
+      // Visible columns in display order, typed and formatted from schema metadata
+      const exportColumns = buildExportColumns(
+        columns,
+        columnOrder.filter(field => visibleColumns.includes(field)),
+        schema
+      );
+      const filename = exportFilename || (title || 'export').replace(/\s+/g, '_');
+      // Nothing is awaited before this - the PDF print window must open within the click
+      const builder = await createExportBuilder(format, exportColumns, filename, title);
+
+      const exported = await runChunkedExport(
+        (page, chunkSize, signal) => client.Query({
+          body: {
+            ...baseQuery,
+            currentPage: page,
+            pageSize: chunkSize,
+            excludePageCount: page !== 0 // Total is only needed for progress
+          }
+        }, { signal }),
+        builder,
+        {
+          chunkSize: exportChunkSize,
+          maxRecords: exportMaxRecords,
+          signal: abortController.signal,
+          onProgress: setExportProgress
+        }
+      );
 
-      if (exportData.length === 0) {
+      if (exported === 0) {
         toastRef.current?.show({
           severity: 'warn',
           summary: 'No Data',
@@ -567,32 +1226,23 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
         return;
       }
 
-      // Build column overrides from visible columns
-      const columnOverrides: Record<string, { header?: string; hidden?: boolean }> = {};
-      columns.forEach(col => {
-        const fieldName = String(col.field);
-        columnOverrides[fieldName] = {
-          header: col.header,
-          hidden: !visibleColumns.includes(fieldName)
-        };
-      });
-
-      // Export using existing DataExporter
-      const filename = exportFilename || (title || 'export').replace(/\s+/g, '_');
-      await DataExporter.exportData(exportData, {
-        filename: filename,
-        format: format,
-        includeHeaders: true
-      }, columnOverrides);
-
       toastRef.current?.show({
         severity: 'success',
         summary: 'Export Complete',
-        detail: `Exported ${exportData.length} records to ${format.toUpperCase()}`,
+        detail: `Exported ${exported} records to ${format.toUpperCase()}`,
         life: 3000
       });
 
     } catch (error) {
+      if (error instanceof ExportCancelledError) {
+        toastRef.current?.show({
+          severity: 'info',
+          summary: 'Export Cancelled',
+          detail: 'No file was created',
+          life: 3000
+        });
+        return;
+      }
       console.error('Export failed:', error);
       toastRef.current?.show({
         severity: 'error',
@@ -601,45 +1251,116 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
         life: 5000
       });
     } finally {
-      setLoading(false);
+      exportAbortRef.current = null;
+      setExportProgress(null);
+      setExportFormat(null);
     }
-  }, [client, searchQuery, globalSearch, exportMaxRecords, columns, visibleColumns, exportFilename, title]);
+  }, [client, searchQuery, globalSearch, activeFilters, filterGroup, activeSorts, groupBy, selectedRowIds, showSelectedOnly, dataKey, exportMaxRecords, exportChunkSize, columns, visibleColumns, columnOrder, schema, exportFilename, title]);
+
+  const handleCancelExport = () => {
+    exportAbortRef.current?.abort();
+  };
 
   // Column filter functionality removed
 
   // Column width management
+  // Widths from a drag are already on screen (PrimeReact styles the resized column); any other width change
+  // (auto-fit, reset, views, undo) remounts the table so PrimeReact's resize styles do not hide the new widths
+  const resizedWidthsRef = useRef(columnWidths);
+  const [columnLayoutRevision, setColumnLayoutRevision] = useState(0);
+  useEffect(() => {
+    if (columnWidths !== resizedWidthsRef.current) {
+      resizedWidthsRef.current = columnWidths;
+      setColumnLayoutRevision(revision => revision + 1);
+    }
+  }, [columnWidths]);
+
   const handleColumnResize = (fieldName: string, width: string) => {
-    setColumnWidths(prev => ({
-      ...prev,
-      [fieldName]: width
-    }));
+    const next = { ...columnWidths, [fieldName]: width };
+    resizedWidthsRef.current = next;
+    setColumnWidths(next);
   };
 
+  // Auto-fit: widest header or body cell of the column on the current page
+  const handleAutoFitColumn = (fieldName: string) => {
+    const header = tableContainerRef.current
+      ?.querySelector(`[data-column-field="${fieldName}"]`)
+      ?.closest('th');
+    const headerRow = header?.parentElement as HTMLTableRowElement | undefined;
+    if (!header || !headerRow) return;
+
+    const columnIndex = header.cellIndex;
+    // Data rows have one cell per header cell (group headers and detail rows span the table)
+    const bodyCells = Array.from(tableContainerRef.current!.querySelectorAll<HTMLTableRowElement>('tbody > tr'))
+      .filter(row => row.cells.length === headerRow.cells.length)
+      .map(row => row.cells[columnIndex]);
+    setColumnWidths(prev => ({ ...prev, [fieldName]: fitColumnWidth(measureCellContentWidths([header, ...bodyCells])) }));
+  };
+
+  const handleResetColumnWidth = (fieldName: string) => {
+    setColumnWidths(({ [fieldName]: _removed, ...rest }) => rest);
+  };
+
+  // Column header menu - pin left/right, auto-fit and reset width
+  const columnMenuRef = useRef<Menu>(null);
+  const [columnMenuField, setColumnMenuField] = useState<string | null>(null);
+  const columnMenuItems = useMemo((): MenuItem[] => {
+    if (!columnMenuField) return [];
+    const pin = columnPins[columnMenuField];
+    const setPin = (side: ColumnPinSide | null) => setColumnPins(pins => pinColumn(pins, columnMenuField, side));
+    return [
+      { label: 'Pin Left', icon: 'pi pi-angle-double-left', disabled: pin === 'left', command: () => setPin('left') },
+      { label: 'Pin Right', icon: 'pi pi-angle-double-right', disabled: pin === 'right', command: () => setPin('right') },
+      { label: 'Unpin', icon: 'pi pi-times', disabled: !pin, command: () => setPin(null) },
+      { separator: true },
+      { label: 'Auto-fit Width', icon: 'pi pi-arrows-h', command: () => handleAutoFitColumn(columnMenuField) },
+      { label: 'Reset Width', icon: 'pi pi-replay', disabled: !columnWidths[columnMenuField], command: () => handleResetColumnWidth(columnMenuField) }
+    ];
+  }, [columnMenuField, columnPins, columnWidths]);
+
   // Create current grid state for capture
   const getCurrentGridState = (): GridStateConfig<TSearchQuery> => {
     return {
       searchQuery,
       globalSearch,
       activeFilters,
+      filterGroup,
       activeSorts,
       visibleColumns,
       columnOrder,
       columnWidths: Object.entries(columnWidths).map(([field, width]) => ({ field, width })),
+      columnPins: columnPinsToConfig(columnPins),
+      conditionalFormats: userFormatRules,
       selectedRowIds,
-      pageSize: currentPageSize
+      pageSize: currentPageSize,
+      groupBy,
+      aggregates: aggregateConfig,
+      pivot: showPivot ? pivotConfig : null,
+      chart: canChart && chartVisible ? chartConfig : null,
+      board: showBoard,
+      calendar: showCalendar ? calendarMode : null,
+      layout: layoutOverride
     };
   };
 
   // Apply defined filter from toolbar or sidebar
   const applyDefinedFilter = (filter: IQueryDefinedFilterModel | null) => {
+    setActiveViewId(null);
     if (filter === null) {
       // Clear filter - reset to defaults
       setSelectedDefinedFilter(null);
-      setGlobalSearch({ searchTerm: '', searchType: 'contains' });
-      setActiveFilters([]);
-      setActiveSorts([]);
-      setVisibleColumns(columns.map(col => String(col.field)));
-      setColumnOrder(columns.map(col => String(col.field)));
+      applyState({
+        globalSearch: { searchTerm: '', searchType: 'contains' },
+        activeFilters: [],
+        filterGroup: null,
+        activeSorts: [],
+        groupBy: null,
+        visibleColumns: columns.map(col => String(col.field)),
+        columnOrder: columns.map(col => String(col.field)),
+        contentView: 'rows',
+        chartVisible: false
+      });
+      setAggregateOverrides(null);
       updateUrlWithFilter(null);
       
       toastRef.current?.show({
@@ -653,36 +1374,7 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
     
     if (filter.state) {
       try {
-        const state = JSON.parse(filter.state);
-        
-        // Apply the filter state
-        if (state.searchTerm !== undefined) {
-          setGlobalSearch({
-            searchTerm: state.searchTerm || '',
-            searchType: 'contains'
-          });
-        }
-        
-        if (state.filters) {
-          setActiveFilters(state.filters);
-        } else {
-          setActiveFilters([]);
-        }
-        
-        if (state.orderBy) {
-          setActiveSorts(state.orderBy);
-        } else {
-          setActiveSorts([]);
-        }
-        
-        if (state.visibleColumns) {
-          setVisibleColumns(state.visibleColumns);
-        }
-        
-        if (state.columnOrder) {
-          setColumnOrder(state.columnOrder);
-        }
-        
+        applyDefinedFilterState(JSON.parse(filter.state));
         setSelectedDefinedFilter(filter);
         updateUrlWithFilter(filter.name);
         
@@ -704,10 +1396,59 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
     }
   };
 
+  // Apply the DefinedFilter named in the URL hash (#filter=<name>), or clear the filter when there is none
+  // Shared by the hashchange listener and React Router location changes; source prefixes the log messages
+  const applyFilterFromHash = async (source: string) => {
+    const filterName = getFilterNameFromUrl();
+    if (!filterName) {
+      applyDefinedFilter(null);
+      return;
+    }
+
+    if (!definedFilterClient || (!entityType && !gridInstance)) {
+      console.error(`❌ [SimpleGenericGrid] ${source} - missing definedFilterClient or entityType/gridInstance`);
+      return;
+    }
+
+    try {
+      // Query for the filter by name and entityType (preferred) or gridInstance (fallback)
+      // Uses entityType when available for stable filtering across URL/title changes
+      const filterCriteria = entityType
+        ? { entityType: { eq: entityType }, isActive: { eq: true } }
+        : { instance: { eq: gridInstance }, isActive: { eq: true } };
+
+      const response = await definedFilterClient.Query({
+        body: {
+          currentPage: 0,
+          pageSize: 1,
+          filter: {
+            name: { eq: filterName },
+            ...filterCriteria
+          }
+        }
+      });
+
+      if (response?.rows && response.rows.length > 0) {
+        applyDefinedFilter(response.rows[0]);
+      } else {
+        console.warn(`⚠️ [SimpleGenericGrid] ${source} - filter not found: ${filterName}`);
+        applyDefinedFilter(null);
+      }
+    } catch (error) {
+      console.error(`❌ [SimpleGenericGrid] ${source} - error loading filter:`, error);
+      applyDefinedFilter(null);
+    }
+  };
+
   // Listen for hash changes during navigation
   useEffect(() => {
     const handleHashChange = async () => {
       const currentHash = window.location.hash;
+
+      // Encoded grid state (#state=) is handled by the popstate listener
+      if (enableUrlState && readGridStateParam(currentHash) !== null) {
+        return;
+      }
       
       // Skip if this hash was already processed
       if (currentHash === lastProcessedHash) {
@@ -717,46 +1458,7 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
       // Update processed hash
       setLastProcessedHash(currentHash);
       
-      const filterName = getFilterNameFromUrl();
-      if (!filterName) {
-        applyDefinedFilter(null);
-        return;
-      }
-
-      if (!definedFilterClient || (!entityType && !gridInstance)) {
-        console.error('❌ [SimpleGenericGrid] Hash change - missing definedFilterClient or entityType/gridInstance');
-        return;
-      }
-
-      try {
-        // Query for the filter by name and entityType (preferred) or gridInstance (fallback)
-        // Uses entityType when available for stable filtering across URL/title changes
-        const filterCriteria = entityType
-          ? { entityType: { eq: entityType }, isActive: { eq: true } }
-          : { instance: { eq: gridInstance }, isActive: { eq: true } };
-
-        const searchQuery = {
-          currentPage: 0,
-          pageSize: 1,
-          filter: {
-            name: { eq: filterName },
-            ...filterCriteria
-          }
-        };
-
-        const response = await definedFilterClient.Query({ body: searchQuery });
-
-        if (response?.rows && response.rows.length > 0) {
-          const filter = response.rows[0];
-          applyDefinedFilter(filter);
-        } else {
-          console.warn(`⚠️ [SimpleGenericGrid] Hash change - filter not found: ${filterName}`);
-          applyDefinedFilter(null);
-        }
-      } catch (error) {
-        console.error('❌ [SimpleGenericGrid] Hash change - error loading filter:', error);
-        applyDefinedFilter(null);
-      }
+      await applyFilterFromHash('Hash change');
     };
 
     window.addEventListener('hashchange', handleHashChange);
@@ -770,6 +1472,11 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
   useEffect(() => {
     const handleLocationChange = async () => {
       const currentHash = location.hash;
+
+      // Encoded grid state (#state=) is applied on mount and by the popstate listener
+      if (enableUrlState && readGridStateParam(currentHash) !== null) {
+        return;
+      }
       
       // Skip if this hash was already processed
       if (currentHash === lastProcessedHash) {
@@ -788,88 +1495,238 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
       // Update processed hash
       setLastProcessedHash(currentHash);
 
-      const filterName = getFilterNameFromUrl();
-      if (!filterName) {
-        applyDefinedFilter(null);
-        return;
-      }
-
-      if (!definedFilterClient || (!entityType && !gridInstance)) {
-        console.error('❌ [SimpleGenericGrid] Location change - missing definedFilterClient or entityType/gridInstance');
-        return;
-      }
-
-      try {
-        // Query for the filter by name and entityType (preferred) or gridInstance (fallback)
-        // Uses entityType when available for stable filtering across URL/title changes
-        const filterCriteria = entityType
-          ? { entityType: { eq: entityType }, isActive: { eq: true } }
-          : { instance: { eq: gridInstance }, isActive: { eq: true } };
-
-        const searchQuery = {
-          currentPage: 0,
-          pageSize: 1,
-          filter: {
-            name: { eq: filterName },
-            ...filterCriteria
-          }
-        };
-
-        const response = await definedFilterClient.Query({ body: searchQuery });
-
-        if (response?.rows && response.rows.length > 0) {
-          const filter = response.rows[0];
-          applyDefinedFilter(filter);
-        } else {
-          console.warn(`⚠️ [SimpleGenericGrid] Location change - filter not found: ${filterName}`);
-          applyDefinedFilter(null);
-        }
-      } catch (error) {
-        console.error('❌ [SimpleGenericGrid] Location change - error loading filter:', error);
-        applyDefinedFilter(null);
-      }
+      await applyFilterFromHash('Location change');
     };
 
     handleLocationChange();
   }, [location.hash, definedFilterClient, entityType, gridInstance, getFilterNameFromUrl, lastProcessedHash]);
 
-  // Restore grid state from predefined filter
-  const restoreGridState = (gridState: GridStateConfig<TSearchQuery>) => {
+  // Restore grid state from predefined filter - everything GridState covers changes as one undo step
+  // With defaults, parts the state leaves out are reset (see gridStateFromConfig)
+  const restoreGridState = (gridState: GridStateConfig<TSearchQuery>, defaults?: GridState) => {
     if (gridState.searchQuery) {
       setSearchQuery(prev => ({ ...prev, ...gridState.searchQuery }));
     }
-    if (gridState.globalSearch) {
-      setGlobalSearch(gridState.globalSearch);
+    if (gridState.aggregates) {
+      setAggregateOverrides(gridState.aggregates);
     }
-    if (gridState.activeFilters) {
-      setActiveFilters(gridState.activeFilters);
+    applyState(gridStateFromConfig(gridState, defaults));
+  };
+
+  // Capture the current state as a saved view
+  // Selection is persisted separately (grid-selection-*) and is not part of a view
+  const captureView = (name: string, isDefault: boolean, id: string): SavedGridView<TSearchQuery> => {
+    const { selectedRowIds: _selection, ...gridState } = getCurrentGridState();
+    return {
+      id,
+      name,
+      isDefault,
+      gridState,
+      sidebarPinned: sidebarVisible,
+      pageSize: currentPageSize,
+      updatedAt: new Date().toISOString()
+    };
+  };
+
+  const applyView = (view: SavedGridView<TSearchQuery>, refetch = true) => {
+    restoreGridState(view.gridState, createDefaultGridState());
+    setAggregateOverrides(view.gridState.aggregates ?? null);
+    setSidebarVisible(view.sidebarPinned);
+    if (view.pageSize) {
+      setCurrentPageSize(view.pageSize);
     }
-    if (gridState.activeSorts) {
-      setActiveSorts(gridState.activeSorts);
+    setSelectedDefinedFilter(null);
+    setActiveViewId(view.id);
+    if (refetch) {
+      loadPageAfterUpdate(0);
     }
-    if (gridState.visibleColumns) {
-      setVisibleColumns(gridState.visibleColumns);
+  };
+
+  // Apply state decoded from the URL - parts missing from the link reset to their defaults
+  const applyUrlGridState = (urlState: UrlGridState) => {
+    const defaultColumns = columns.map(col => String(col.field));
+    applyState({
+      globalSearch: urlState.globalSearch ?? { searchTerm: '', searchType: 'contains' },
+      activeFilters: urlState.activeFilters ?? [],
+      filterGroup: urlState.filterGroup ?? null,
+      activeSorts: urlState.activeSorts ?? [],
+      groupBy: urlState.groupBy ?? null,
+      visibleColumns: urlState.visibleColumns ?? defaultColumns,
+      columnOrder: urlState.columnOrder ?? defaultColumns,
+      contentView: urlState.contentView ?? 'rows',
+      ...(urlState.pivotConfig ? { pivotConfig: urlState.pivotConfig } : {}),
+      calendarMode: urlState.calendarMode ?? 'month',
+      chartVisible: !!urlState.chart,
+      ...(urlState.chart ? { chartConfig: urlState.chart } : {}),
+      layout: urlState.layout ?? null,
+      currentPageSize: urlState.pageSize ?? pageSize
+    });
+    loadPageAfterUpdate(urlState.page ?? 0);
+    setSelectedDefinedFilter(null);
+    setActiveViewId(null);
+  };
+
+  // Load saved views and apply the default view (a filter or state link in the URL wins over it)
+  const loadSavedViews = async () => {
+    if (!enableViews) return;
+    try {
+      const views = await viewAdapter.load(entityType || gridInstance) as SavedGridView<TSearchQuery>[];
+      setSavedViews(views);
+      const defaultView = findDefaultView(views);
+      if (defaultView && !getFilterNameFromUrl() && !(enableUrlState && readGridStateParam(window.location.hash))) {
+        applyView(defaultView, false);
+      }
+    } catch (error) {
+      console.error('❌ [SimpleGenericGrid] Failed to load saved views:', error);
     }
-    if (gridState.columnOrder) {
-      setColumnOrder(gridState.columnOrder);
+  };
+
+  const handleSaveView = async (name: string, makeDefault: boolean) => {
+    const viewKey = entityType || gridInstance;
+    const existing = savedViews.find(view => view.name === name);
+    try {
+      const saved = await viewAdapter.save(viewKey, captureView(name, makeDefault, existing?.id ?? createViewId()));
+      let views = upsertView(savedViews, saved);
+      if (makeDefault) {
+        // Only one default per grid - clear the flag on the previous default
+        const changed = await Promise.all(
+          applyDefaultFlag(views, saved.id).map(view => viewAdapter.save(viewKey, view))
+        );
+        views = changed.reduce((list, view) => upsertView(list, view), views);
+      }
+      setSavedViews(views as SavedGridView<TSearchQuery>[]);
+      setActiveViewId(saved.id);
+      toastRef.current?.show({
+        severity: 'success',
+        summary: 'View Saved',
+        detail: `Saved view "${name}"${makeDefault ? ' as default' : ''}`,
+        life: 3000
+      });
+    } catch (error) {
+      console.error('❌ [SimpleGenericGrid] Failed to save view:', error);
+      toastRef.current?.show({
+        severity: 'error',
+        summary: 'Error',
+        detail: `Failed to save view: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        life: 5000
+      });
     }
-    if (gridState.columnWidths) {
-      const widthsMap = gridState.columnWidths.reduce((acc, { field, width }) => {
-        acc[field] = width;
-        return acc;
-      }, {} as {[key: string]: string});
-      setColumnWidths(widthsMap);
+  };
+
+  const handleSetDefaultView = async (view: SavedGridView<TSearchQuery> | null) => {
+    const viewKey = entityType || gridInstance;
+    try {
+      const changed = await Promise.all(
+        applyDefaultFlag(savedViews, view?.id ?? null).map(updated => viewAdapter.save(viewKey, updated))
+      );
+      setSavedViews(prev => changed.reduce((list, updated) => upsertView(list, updated), prev as SavedGridView[]) as SavedGridView<TSearchQuery>[]);
+    } catch (error) {
+      console.error('❌ [SimpleGenericGrid] Failed to update default view:', error);
+      toastRef.current?.show({ severity: 'error', summary: 'Error', detail: 'Failed to update the default view', life: 5000 });
     }
-    if (gridState.selectedRowIds) {
-      setSelectedRowIds(gridState.selectedRowIds);
+  };
+
+  const handleDeleteView = async (view: SavedGridView<TSearchQuery>) => {
+    try {
+      await viewAdapter.remove(entityType || gridInstance, view.id);
+      setSavedViews(prev => prev.filter(existing => existing.id !== view.id));
+      if (activeViewId === view.id) {
+        setActiveViewId(null);
+      }
+    } catch (error) {
+      console.error('❌ [SimpleGenericGrid] Failed to delete view:', error);
+      toastRef.current?.show({ severity: 'error', summary: 'Error', detail: `Failed to delete view "${view.name}"`, life: 5000 });
     }
-    if (gridState.pageSize) {
-      setCurrentPageSize(gridState.pageSize);
+  };
+
+  // Undo/redo - the restored state no longer matches a selected defined filter or saved view
+  const handleHistoryStep = (step: () => void) => {
+    step();
+    if (selectedDefinedFilter) {
+      setSelectedDefinedFilter(null);
+      updateUrlWithFilter(null);
     }
+    setActiveViewId(null);
   };
 
   // Column filter functionality removed
 
+  // Footer aggregates - server values cover all matching rows, otherwise computed for the current page
+  const footerAggregates = useMemo<AggregateResults>(
+    () => serverAggregates ?? (hasAggregates ? computeAggregates(displayData as Record<string, any>[], aggregateConfig) : {}),
+    [serverAggregates, hasAggregates, displayData, aggregateConfig]
+  );
+  const aggregateScope = serverAggregates ? 'All matching rows' : 'Current page';
+  const aggregateLabel = (fn: AggregateFunction) => AGGREGATE_FUNCTIONS.find(option => option.value === fn)?.label ?? fn;
+
+  // Row count and aggregates per group on the current page
+  const groupSummaries = useMemo(
+    () => groupBy
+      ? computeGroupAggregates(displayData as Record<string, any>[], groupBy, aggregateConfig)
+      : new Map<string, { count: number; aggregates: AggregateResults }>(),
+    [groupBy, displayData, aggregateConfig]
+  );
+
+  // Groups start expanded - expandedRows holds the first row of every group that is not collapsed
+  const expandedGroupRows = useMemo(() => {
+    if (!groupBy) return undefined;
+    const seen = new Set<string>();
+    return displayData.filter(row => {
+      const key = getGroupKey(row as Record<string, any>, groupBy);
+      if (seen.has(key) || collapsedGroups.includes(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }, [groupBy, displayData, collapsedGroups]);
+
+  const handleGroupToggle = (e: DataTableRowToggleEvent) => {
+    if (!groupBy) return;
+    const expandedKeys = new Set((e.data as Record<string, any>[]).map(row => getGroupKey(row, groupBy)));
+    // Keep collapsed groups from other pages, replace the ones on this page
+    setCollapsedGroups(prev => [
+      ...prev.filter(key => !groupSummaries.has(key)),
+      ...Array.from(groupSummaries.keys()).filter(key => !expandedKeys.has(key))
+    ]);
+  };
+
+  // Master-detail - expanded rows keyed by dataKey; row expansion and group expansion share expandedRows,
+  // so detail grids are only offered while rows are not grouped
+  const [expandedDetailRows, setExpandedDetailRows] = useState<DataTableExpandedRows>({});
+  const hasDetailGrids = detailGrids.length > 0 && !groupBy;
+  // Parent model the child foreign keys point at (x-navigation-target)
+  const parentModel = useMemo(
+    () => (schema ? getSchemaMetadata(schema).fullName : undefined) ?? entityType ?? queryModelName,
+    [schema, entityType, queryModelName]
+  );
+
+  const renderRowDetail = (rowData: TModel) => {
+    const detailFor = (config: GridDetailConfig) => (
+      <DetailGrid
+        config={config}
+        parentModel={parentModel}
+        parentValue={(rowData as any)[config.parentKey ?? dataKey]}
+      />
+    );
+
+    if (detailGrids.length === 1) {
+      return <div className="p-2">{detailFor(detailGrids[0])}</div>;
+    }
+    return (
+      <TabView className="p-2">
+        {detailGrids.map(config => (
+          <TabPanel key={config.childModelName} header={config.title ?? config.childModelName}>
+            {detailFor(config)}
+          </TabPanel>
+        ))}
+      </TabView>
+    );
+  };
+
+  const handleGroupByChange = (field: string | null) => {
+    setGroupBy(field);
+    setCollapsedGroups([]);
+  };
+
   // Render columns - ensure re-render when visibility changes
   // Actions column is always shown and frozen to the right
   const renderColumns = useMemo(() => {
@@ -877,7 +1734,8 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
     // Separate actions column from other columns - actions should always be visible
     const actionsColumn = columns.find(col => String(col.field) === 'actions');
 
-    const orderedColumns = columnOrder
+    // Pinned columns are moved to their edge - frozen columns must be contiguous
+    const orderedColumns = orderColumnsByPin(columnOrder, columnPins)
       .filter(fieldName => {
         // Skip actions column here - we'll add it at the end
         if (fieldName === 'actions') return false;
@@ -889,12 +1747,52 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
 
     const renderedColumns = orderedColumns.map(col => {
       const fieldName = String(col.field);
+      const isSortable = enableSorting && !!col.sortable;
+      const isFilterable = enableFiltering && !!col.filterable;
+      const sort = activeSorts.find(s => s.field === fieldName);
+      const hasFilter = activeFilters.some(f => f.field === fieldName);
+      const pin = columnPins[fieldName];
 
-      // Simple header template without filter, sort, or reorder functionality
+      // Header template: click to sort (shift-click for multi-sort), filter icon opens the column filter menu
       const headerTemplate = () => {
         return (
-          <div className="flex align-items-center">
-            <span>{col.header}</span>
+          <div className="flex align-items-center gap-2 w-full" data-column-field={fieldName}>
+            {pin && <i className="pi pi-thumbtack text-400 text-xs" title={`Pinned ${pin}`} />}
+            <span
+              className={isSortable ? 'cursor-pointer select-none' : ''}
+              onClick={isSortable ? (e) => handleHeaderSort(fieldName, e) : undefined}
+              title={isSortable ? 'Click to sort, Shift+Click to add to sort' : undefined}
+            >
+              {col.header}
+            </span>
+            {isSortable && sort && (
+              <span className="flex align-items-center text-primary">
+                <i className={sort.direction === 'asc' ? 'pi pi-sort-amount-up-alt' : 'pi pi-sort-amount-down'} />
+                {activeSorts.length > 1 && (
+                  <small className="ml-1">{sort.priority + 1}</small>
+                )}
+              </span>
+            )}
+            {isFilterable && (
+              <i
+                className={`pi ${hasFilter ? 'pi-filter-fill text-primary' : 'pi-filter text-400'} cursor-pointer ml-auto`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setFilterOverlayField(fieldName);
+                  filterOverlayRef.current?.toggle(e);
+                }}
+                title="Filter column"
+              />
+            )}
+            <i
+              className={`pi pi-ellipsis-v cursor-pointer text-400 ${isFilterable ? '' : 'ml-auto'}`}
+              onClick={(e) => {
+                e.stopPropagation();
+                setColumnMenuField(fieldName);
+                columnMenuRef.current?.toggle(e);
+              }}
+              title="Column options"
+            />
           </div>
         );
       };
@@ -907,21 +1805,106 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
           bodyRenderer = (rowData: any) => registryRenderer(rowData[fieldName], rowData);
         }
       }
+      if (isSearchHighlighted(fieldName)) {
+        const renderBody = bodyRenderer ?? ((rowData: any) => rowData[fieldName]);
+        bodyRenderer = (rowData: any) => highlightSearchMatches(renderBody(rowData), globalSearch.searchTerm, globalSearch.searchType);
+      }
+      // Virtual table rows whose page is not loaded yet
+      if (isVirtualTable) {
+        const renderLoaded = bodyRenderer ?? ((rowData: any) => rowData[fieldName]);
+        bodyRenderer = (rowData: any) => (rowData ? renderLoaded(rowData) : <Skeleton height="1rem" />);
+      }
+
+      // Inline edit mode: editable columns get a cell editor and changed cells are highlighted
+      const inlineEditable = inlineEditMode ? inlineEditableColumns[fieldName] : undefined;
+
+      // Footer aggregates for this column
+      const columnAggregates = aggregateConfig[fieldName];
+      const footer = columnAggregates?.length ? (
+        <div className="flex flex-column gap-1" title={aggregateScope}>
+          {columnAggregates.map(fn => (
+            <div key={fn} className="flex justify-content-between gap-2 text-sm">
+              <span className="text-600">{aggregateLabel(fn)}{serverAggregates ? '' : ' (page)'}</span>
+              <span className="font-semibold">{formatAggregateValue(fn, footerAggregates[fieldName]?.[fn])}</span>
+            </div>
+          ))}
+        </div>
+      ) : undefined;
 
       return (
         <Column
           key={`${fieldName}-${visibleColumns.join('-')}`}
           field={fieldName}
           header={headerTemplate}
+          footer={footer}
           sortable={false} // Column header sorting disabled
           filter={false} // Column header filtering disabled
-          style={{ width: col.width }}
-          frozen={col.frozen}
+          style={{ width: columnWidths[fieldName] ?? col.width }}
+          frozen={!!pin}
+          alignFrozen={pin === 'right' ? 'right' : 'left'}
           body={bodyRenderer}
+          editor={inlineEditable ? (options) => (
+            <InlineCellEditor
+              editable={inlineEditable}
+              rowData={options.rowData}
+              onChange={(changes) => handleCellChange(options.rowData as TModel, changes)}
+            />
+          ) : undefined}
+          bodyClassName={inlineEditable || hasCellFormats ? (rowData: any) => {
+            if (!rowData) return '';
+            const formatClassName = getCellFormatClassName(rowData, fieldName, formatRules);
+            const changes = inlineEditable ? rowEdits[getRowKey(rowData, dataKey)]?.changes as Record<string, any> | undefined : undefined;
+            const editedClassName = inlineEditable && changes && inlineEditable.valueField in changes ? 'bg-yellow-100' : '';
+            return [formatClassName, editedClassName].filter(Boolean).join(' ');
+          } : undefined}
         />
       );
     });
 
+    // Inline edit mode: per-row save/revert for rows with pending changes
+    if (inlineEditMode) {
+      renderedColumns.push(
+        <Column
+          key="inline-edit-column"
+          header="Changes"
+          style={{ width: '110px' }}
+          frozen
+          alignFrozen="right"
+          body={(rowData: any) => {
+            const rowKey = getRowKey(rowData, dataKey);
+            if (!rowEdits[rowKey]) return null;
+            const saving = savingRowKeys.includes(rowKey);
+            return (
+              <div className="flex align-items-center gap-1">
+                <Button
+                  icon="pi pi-check"
+                  size="small"
+                  text
+                  severity="success"
+                  loading={saving}
+                  disabled={saving}
+                  onClick={() => handleSaveRow(rowKey)}
+                  tooltip="Save row"
+                />
+                <Button
+                  icon="pi pi-undo"
+                  size="small"
+                  text
+                  severity="secondary"
+                  disabled={saving}
+                  onClick={() => revertRow(rowKey)}
+                  tooltip="Revert row"
+                />
+                {rowSaveErrors[rowKey] && (
+                  <i className="pi pi-exclamation-triangle text-red-500" title={rowSaveErrors[rowKey]} />
+                )}
+              </div>
+            );
+          }}
+        />
+      );
+    }
+
     // Always add actions column at the beginning if it exists, frozen to left
     if (actionsColumn) {
       const actionsHeaderTemplate = () => (
@@ -940,28 +1923,51 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
           style={{ width: actionsColumn.width || '100px' }}
           frozen
           alignFrozen="left"
-          body={actionsColumn.body}
+          body={isVirtualTable ? (rowData: any) => (rowData ? actionsColumn.body?.(rowData) : null) : actionsColumn.body}
         />
       );
     }
 
     return renderedColumns;
-  }, [columns, columnOrder, visibleColumns]);
+  }, [
+    columns,
+    columnOrder,
+    visibleColumns,
+    activeSorts,
+    activeFilters,
+    enableSorting,
+    enableFiltering,
+    inlineEditMode,
+    inlineEditableColumns,
+    rowEdits,
+    rowSaveErrors,
+    savingRowKeys,
+    aggregateConfig,
+    footerAggregates,
+    serverAggregates,
+    columnPins,
+    columnWidths,
+    formatRules,
+    hasCellFormats,
+    globalSearch,
+    searchedFields,
+    showSelectedOnly,
+    isVirtualTable
+  ]);
 
   // Create development view model
   const developmentViewModel = useMemo(() => {
     if (!DevelopmentConfig.enableGridDebugPanel) return null;
     
     // Create base ISearch object from current state
+    const query = buildQuery();
     const baseSearch: ISearch<any, any> = {
       currentPage,
       pageSize: currentPageSize,
       excludePageCount: false,
-      searchTerm: globalSearch.searchTerm ? 
-        formatGlobalSearch(globalSearch.searchTerm, globalSearch.searchType) : 
-        undefined,
-      filter: buildFilter() || {},
-      orderBy: buildOrderBy() || {}
+      searchTerm: query.searchTerm,
+      filter: query.filter || {},
+      orderBy: query.orderBy || {}
     };
 
     return createDevelopmentFilterViewModel(
@@ -982,7 +1988,10 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
     globalSearch, 
     visibleColumns, 
     activeFilters, 
+    filterGroup,
     activeSorts, 
+    groupBy,
+    showSelectedOnly,
     columnOrder, 
     columnWidths,
     selectedRowIds,
@@ -990,19 +1999,107 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
     title
   ]);
 
+  // Keyboard navigation - rows in the order the table renders them (collapsed groups are not rendered)
+  const keyboardRows = useMemo(
+    () => (groupBy ? displayData.filter(row => !collapsedGroups.includes(getGroupKey(row as Record<string, any>, groupBy))) : displayData),
+    [displayData, groupBy, collapsedGroups]
+  );
+  const pageCount = Math.ceil(totalRecords / Math.max(currentPageSize, 1));
+  const gridKeyboard = useGridKeyboard({
+    containerRef: tableContainerRef,
+    // Rows are matched by their rendered position, which the virtual scroller shifts
+    enabled: enableKeyboardNavigation && !showCards && !showPivot && !showBoard && !showCalendar && !isVirtualTable,
+    rowsVersion: keyboardRows,
+    rowIndexOffset: currentPage * currentPageSize,
+    onOpenRow: (rowIndex, cell) => {
+      const row = keyboardRows[rowIndex];
+      if (inlineEditMode) {
+        cell.click(); // Opens the cell editor
+      } else if (row && onRowClick) {
+        onRowClick(row);
+      }
+    },
+    onToggleRow: enableBulkSelection ? (rowIndex) => {
+      const row = keyboardRows[rowIndex];
+      if (!row) return;
+      const key = (row as any)[dataKey];
+      toggleRowSelection(row, !selectedRows.some(selected => (selected as any)[dataKey] === key));
+    } : undefined,
+    onPageChange: (direction) => {
+      const page = currentPage + (direction === 'next' ? 1 : -1);
+      if (page >= 0 && page < pageCount) fetchData(page, currentPageSize);
+    }
+  });
+
+  // Grid shortcuts work while focus is anywhere inside the grid
+  const handleShortcutKeyDown = (e: React.KeyboardEvent) => {
+    if (!enableKeyboardNavigation) return;
+    const typing = (e.target as HTMLElement).matches('input, textarea, select, [contenteditable="true"]');
+    const shortcut = resolveGridShortcut(e.nativeEvent, typing);
+    if (!shortcut) return;
+    e.preventDefault();
+
+    switch (shortcut) {
+      case 'search':
+        rootRef.current?.querySelector<HTMLInputElement>('.grid-search-input')?.focus();
+        break;
+      case 'filters':
+        setSidebarVisible(visible => !visible);
+        break;
+      case 'export':
+        rootRef.current?.querySelector<HTMLButtonElement>('.grid-export-button:not(:disabled)')?.click();
+        break;
+      case 'grid':
+        if (showCards) {
+          rootRef.current?.querySelector<HTMLElement>('.grid-card')?.focus();
+        } else {
+          gridKeyboard.focusGrid();
+        }
+        break;
+    }
+  };
+
+  // Live region text - screen readers announce loading, result counts and selection changes
+  const gridStatus = describeGridStatus({
+    loading,
+    totalRecords,
+    currentPage,
+    pageSize: currentPageSize,
+    selectedCount: selectedRowIds.length
+  });
+
   // Export grid state for creating predefined filters (exposed for external use)
   // Note: getCurrentGridState and restoreGridState are available as internal functions
 
   // DataTable sort props removed - using custom header sorting only
 
   return (
-    <div className={`simple-generic-grid ${className}`} style={{ 
+    <div ref={rootRef} className={`simple-generic-grid ${className}`} onKeyDown={handleShortcutKeyDown} style={{ 
       height, 
       display: 'flex', 
       flexDirection: 'column',
       overflow: 'hidden' // Prevent outer container from scrolling
     }}>
       <Toast ref={toastRef} />
+      <div className="p-hidden-accessible" role="status" aria-live="polite" aria-atomic="true">
+        {gridStatus}
+      </div>
+      <ExportProgressDialog
+        progress={exportProgress}
+        formatLabel={EXPORT_FORMAT_OPTIONS.find(option => option.format === exportFormat)?.label}
+        onCancel={handleCancelExport}
+      />
+      {canImport && (
+        <ImportWizard
+          visible={importVisible}
+          onHide={() => setImportVisible(false)}
+          title={title}
+          queryModelName={queryModelName!}
+          saveModelName={saveModelName}
+          save={(params) => client.Save!(params)}
+          onImported={() => reloadRows(0)}
+        />
+      )}
       
       {/* Toolbar - Fixed height */}
       <div style={{ flexShrink: 0 }}>
@@ -1013,6 +2110,12 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
           selectedDefinedFilter={selectedDefinedFilter}
           globalSearch={globalSearch}
           onGlobalSearchChange={setGlobalSearch}
+          searchFields={searchFieldOptions}
+          defaultSearchFields={searchFieldConfig.defaultFields}
+          searchDebounceMs={searchDebounceMs}
+          recentSearchesKey={enableSearchSuggestions ? recentSearchesKey : undefined}
+          fetchSuggestions={enableSearchSuggestions && (suggestionDisplayFields.length > 0 || quickFilterFields.length > 0) ? fetchSearchSuggestions : undefined}
+          onQuickFilter={enableSearchSuggestions ? handleQuickFilter : undefined}
           onPredefinedFilterChange={(filter) => {
             // Support both legacy and new grid state formats
             if (filter.gridState) {
@@ -1026,10 +2129,59 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
           enableCreate={enableCreate}
           onCreateClick={onCreateClick}
           onToggleSidebar={() => setSidebarVisible(!sidebarVisible)}
+          canUndo={grid.canUndo}
+          canRedo={grid.canRedo}
+          onUndo={() => handleHistoryStep(grid.undo)}
+          onRedo={() => handleHistoryStep(grid.redo)}
           enableExport={enableExport}
           onExport={handleExportAll}
-          loading={loading}
+          loading={exportProgress !== null}
+          enableImport={canImport}
+          onImport={() => setImportVisible(true)}
+          groupByOptions={groupByOptions}
+          groupBy={groupBy}
+          onGroupByChange={handleGroupByChange}
+          aggregateColumns={aggregateColumns}
+          aggregates={aggregateConfig}
+          onAggregatesChange={setAggregateOverrides}
+          viewMenu={enableViews ? {
+            views: savedViews,
+            activeViewId,
+            onApply: (view) => applyView(view as SavedGridView<TSearchQuery>),
+            onSave: handleSaveView,
+            onDelete: (view) => handleDeleteView(view as SavedGridView<TSearchQuery>),
+            onSetDefault: (view) => handleSetDefaultView(view as SavedGridView<TSearchQuery> | null)
+          } : undefined}
+          enableInlineEdit={canInlineEdit}
+          inlineEditActive={inlineEditMode}
+          onToggleInlineEdit={handleToggleInlineEdit}
+          layout={showCards ? 'cards' : 'table'}
+          onLayoutChange={inlineEditMode || showPivot || showBoard || showCalendar ? undefined : setLayoutOverride}
+          pivotActive={showPivot}
+          onTogglePivot={!enablePivot || inlineEditMode || pivotDimensions.length === 0 ? undefined : () => toggleContentView('pivot', !showPivot)}
+          boardActive={showBoard}
+          onToggleBoard={!boardField || inlineEditMode ? undefined : () => toggleContentView('board', !showBoard)}
+          calendarActive={showCalendar}
+          onToggleCalendar={!calendarFields || inlineEditMode ? undefined : () => toggleContentView('calendar', !showCalendar)}
+          chartActive={canChart && chartVisible}
+          onToggleChart={canChart ? () => setChartVisible(!chartVisible) : undefined}
         />
+        {enableFilterChips && (
+          <GridFilterChips
+            globalSearch={globalSearch}
+            activeFilters={activeFilters}
+            filterGroup={filterGroup}
+            activeSorts={activeSorts}
+            headers={chipHeaders}
+            dateFields={chipDateFields}
+            navigationTargets={chipNavigationTargets}
+            totalRecords={totalRecords}
+            loading={loading}
+            onRemove={handleChipRemove}
+            onEdit={handleChipEdit}
+            onClearAll={handleClearAllChips}
+          />
+        )}
       </div>
 
       {/* Main Content with Sidebar - Flexible height */}
@@ -1042,11 +2194,11 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
         {/* Filter Sidebar - Pinned Open */}
         {sidebarVisible && (
           <div style={{ 
-            width: '300px', 
+            width: isNarrow ? '100%' : '300px', 
             flexShrink: 0,
-            borderRight: '1px solid var(--surface-border)', 
-            paddingRight: '1rem', 
-            marginRight: '1rem',
+            borderRight: isNarrow ? undefined : '1px solid var(--surface-border)', 
+            paddingRight: isNarrow ? undefined : '1rem', 
+            marginRight: isNarrow ? undefined : '1rem',
             overflowY: 'auto',
             overflowX: 'hidden'
           }}>
@@ -1062,6 +2214,8 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
               onColumnOrderChange={setColumnOrder}
               activeFilters={activeFilters}
               onActiveFiltersChange={setActiveFilters}
+              filterGroup={filterGroup}
+              onFilterGroupChange={setFilterGroup}
               activeSorts={activeSorts}
               onActiveSortsChange={setActiveSorts}
               globalSearch={globalSearch}
@@ -1089,6 +2243,9 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
               }}
               onDefinedFiltersChange={loadDefinedFilters}
               schema={schema}
+              conditionalFormats={userFormatRules}
+              onConditionalFormatsChange={setConditionalFormats}
+              builtInConditionalFormats={formatRules.filter(rule => rule.source !== 'user')}
             />
           </div>
         )}
@@ -1097,42 +2254,243 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
         <div className="grid-table-container" style={{ 
           flex: '1 1 0',
           minWidth: 0, // Allow shrinking
-          display: 'flex', 
+          display: isNarrow && sidebarVisible ? 'none' : 'flex', // The sidebar takes the full width on narrow screens
+
           flexDirection: 'column',
           overflow: 'hidden'
         }}>
+          {/* Chart of the matching rows - follows the search and filters */}
+          {canChart && chartVisible && (
+            <div className="grid-chart-container border-bottom-1 surface-border pb-2 mb-2" style={{ flexShrink: 0, height: isNarrow ? '240px' : '300px' }}>
+              <Suspense fallback={<div className="flex align-items-center justify-content-center h-full"><i className="pi pi-spin pi-spinner text-2xl text-500" /></div>}>
+                <GridChartPanel
+                  config={chartConfig}
+                  onConfigChange={setChartConfig}
+                  dimensions={pivotDimensions}
+                  dateFields={chartDateFields}
+                  measures={pivotMeasures}
+                  fetchPage={fetchGroupedPage}
+                  queryKey={groupedQueryKey}
+                  maxRecords={exportMaxRecords}
+                  chunkSize={exportChunkSize}
+                  onClose={() => setChartVisible(false)}
+                />
+              </Suspense>
+            </div>
+          )}
+
           {/* Table wrapper with controlled scrolling */}
-          <div style={{ 
+          <div ref={tableContainerRef} onKeyDownCapture={gridKeyboard.onKeyDownCapture} style={{ 
             flex: '1 1 0',
             minHeight: 0, // Important for Firefox
-            position: 'relative'
+            position: 'relative',
+            overflowY: showCards ? 'auto' : undefined
           }}>
+            {showPivot ? (
+              <PivotView
+                config={pivotConfig}
+                onConfigChange={setPivotConfig}
+                dimensions={pivotDimensions}
+                measures={pivotMeasures}
+                fetchPage={fetchGroupedPage}
+                queryKey={groupedQueryKey}
+                maxRecords={exportMaxRecords}
+                chunkSize={exportChunkSize}
+                title={title}
+                exportFilename={exportFilename || (title || 'export').replace(/\s+/g, '_')}
+                enableExport={enableExport}
+              />
+            ) : showBoard && boardField ? (
+              <GridKanbanBoard
+                field={boardField.field}
+                options={boardField.options}
+                layout={{ ...cardLayout, detailFields: cardLayout.detailFields.filter(field => field !== boardField.field) }}
+                dataKey={dataKey}
+                getLabel={(field) => columns.find(col => String(col.field) === field)?.header ?? field}
+                renderValue={renderCardValue}
+                fetchColumn={createBoardColumnFetcher(sendViewQuery, viewQuery, boardField.field)}
+                queryKey={boardQueryKey}
+                onMove={client.Save ? handleBoardMove : undefined}
+                onCardClick={openRecord}
+                renderActions={columns.find(col => String(col.field) === 'actions')?.body}
+              />
+            ) : showCalendar && calendarFields ? (
+              <GridCalendarView
+                fields={calendarFields}
+                mode={calendarMode}
+                onModeChange={setCalendarMode}
+                layout={cardLayout}
+                dataKey={dataKey}
+                renderValue={renderCardValue}
+                fetchRange={createCalendarRangeFetcher(sendViewQuery, viewQuery, calendarFields)}
+                queryKey={groupedQueryKey}
+                onEntryClick={openRecord}
+              />
+            ) : showCards ? (
+              <GridCardList
+                rows={displayData}
+                layout={cardLayout}
+                dataKey={dataKey}
+                loading={loading}
+                getLabel={(field) => columns.find(col => String(col.field) === field)?.header ?? field}
+                renderValue={renderCardValue}
+                selectable={enableBulkSelection}
+                selectedKeys={selectedRows.map(row => (row as any)[dataKey])}
+                onToggleSelect={toggleRowSelection}
+                onCardClick={onRowClick}
+                renderActions={columns.find(col => String(col.field) === 'actions')?.body}
+              />
+            ) : (
             <DataTable
-              key={`datatable-${visibleColumns.join('-')}-${columnOrder.join('-')}`} // Force re-render when columns change
-              value={data}
-              loading={loading}
+              key={`datatable-${visibleColumns.join('-')}-${columnOrder.join('-')}-${Object.entries(columnPins).join('-')}-${columnLayoutRevision}-${isVirtualTable}`} // Force re-render when columns change
+              value={isVirtualTable ? virtualRows.rows : displayData}
+              loading={isVirtualTable ? virtualRows.initialLoading : loading}
               selection={enableBulkSelection ? selectedRows : undefined}
               onSelectionChange={enableBulkSelection ? handleSelectionChange : undefined}
-              onRowClick={handleRowClick}
-              onSort={onSort}
-              onFilter={onFilter}
+              onRowClick={inlineEditMode ? undefined : handleRowClick} // Clicks open cell editors in edit mode
+              editMode={inlineEditMode ? 'cell' : undefined}
+              // Conditional format rules, plus the pending-edit highlight in inline edit mode
+              rowClassName={(rowData: any) => {
+                if (!rowData) return {};
+                const formatClassName = getRowFormatClassName(rowData, formatRules);
+                return {
+                  ...(formatClassName ? { [formatClassName]: true } : {}),
+                  'bg-yellow-50': inlineEditMode && !!rowEdits[getRowKey(rowData, dataKey)]
+                };
+              }}
               dataKey={dataKey}
+              // Row grouping - collapsible subheaders with per-group counts and aggregates
+              rowGroupMode={groupBy ? 'subheader' : undefined}
+              groupRowsBy={groupBy || undefined}
+              expandableRowGroups={!!groupBy}
+              expandedRows={groupBy ? expandedGroupRows : hasDetailGrids ? expandedDetailRows : undefined}
+              onRowToggle={groupBy
+                ? handleGroupToggle
+                : hasDetailGrids ? (e: DataTableRowToggleEvent) => setExpandedDetailRows(e.data as DataTableExpandedRows) : undefined}
+              rowExpansionTemplate={hasDetailGrids ? renderRowDetail : undefined}
+              rowGroupHeaderTemplate={groupBy ? (rowData: any) => {
+                const key = getGroupKey(rowData, groupBy);
+                const header = columns.find(col => String(col.field) === groupBy)?.header ?? groupBy;
+                return (
+                  <span className="font-semibold">
+                    {header}: {key || '(empty)'}
+                    <span className="text-500 font-normal ml-2">({groupSummaries.get(key)?.count ?? 0})</span>
+                  </span>
+                );
+              } : undefined}
+              rowGroupFooterTemplate={groupBy && hasAggregates ? (rowData: any, options) => {
+                const summary = groupSummaries.get(getGroupKey(rowData, groupBy));
+                return (
+                  <td colSpan={options.colSpan} className="text-sm">
+                    <div className="flex flex-wrap gap-3 justify-content-end">
+                      {Object.entries(aggregateConfig).filter(([, functions]) => functions.length > 0).map(([field, functions]) => (
+                        <span key={field}>
+                          <span className="text-600">{columns.find(col => String(col.field) === field)?.header ?? field}: </span>
+                          {functions.map(fn => `${aggregateLabel(fn)} ${formatAggregateValue(fn, summary?.aggregates[field]?.[fn])}`).join(' · ')}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                );
+              } : undefined}
               paginator={false} // We'll use custom pagination below
               className="simple-data-table"
               resizableColumns
               columnResizeMode="expand" // Changed from 'fit' to 'expand' to allow horizontal scrolling
+              onColumnResizeEnd={(e) => {
+                if (e.delta !== 0) handleColumnResize(String(e.column.props.field), `${e.element.offsetWidth}px`);
+              }}
+              onColumnResizerDoubleClick={(e) => handleAutoFitColumn(String(e.column.props.field))}
               reorderableColumns={false} // Disabled column reordering
               scrollable
               scrollHeight="flex" // Use flex height to fill container
               style={{ width: '100%', height: '100%' }}
+              showSelectAll={!isVirtualTable} // Select-all can't cover rows that aren't loaded
+              virtualScrollerOptions={isVirtualTable ? {
+                itemSize: virtualConfig.itemHeight,
+                lazy: true,
+                onLazyLoad: virtualRows.onLazyLoad,
+                showLoader: true,
+                loading: virtualRows.loading,
+                delay: 250,
+                // Rows rendered beyond the viewport in each direction
+                numToleratedItems: virtualConfig.buffer
+              } : undefined}
+              // ARIA grid semantics - rows and cells are made keyboard navigable by useGridKeyboard
+              pt={{
+                table: {
+                  role: 'grid',
+                  'aria-label': title,
+                  'aria-rowcount': totalRecords + 1,
+                  'aria-busy': loading,
+                  'aria-multiselectable': enableBulkSelection || undefined
+                },
+                column: { bodyCell: { role: 'gridcell' } }
+              }}
             >
               {enableBulkSelection && (
                 <Column selectionMode="multiple" headerStyle={{ width: '3rem', minWidth: '3rem' }} frozen alignFrozen="left" />
               )}
+              {hasDetailGrids && (
+                <Column expander headerStyle={{ width: '3rem', minWidth: '3rem' }} frozen alignFrozen="left" />
+              )}
               {renderColumns}
             </DataTable>
+            )}
+            <Menu model={columnMenuItems} popup ref={columnMenuRef} onHide={() => setColumnMenuField(null)} />
+            {/* Column header filter menu - reuses FilterControl */}
+            <OverlayPanel ref={filterOverlayRef} onHide={() => setFilterOverlayField(null)}>
+              {filterOverlayField && (() => {
+                const column = columns.find(col => String(col.field) === filterOverlayField);
+                if (!column) return null;
+                return (
+                  <FilterControl
+                    column={column}
+                    initialFilter={activeFilters.find(f => f.field === filterOverlayField)}
+                    onApply={handleHeaderFilterApply}
+                    onClear={() => handleHeaderFilterClear(filterOverlayField)}
+                    onCancel={() => filterOverlayRef.current?.hide()}
+                    schema={schema}
+                    style={{ width: '18rem' }}
+                  />
+                );
+              })()}
+            </OverlayPanel>
           </div>
           
+          {/* Pending inline edits - save or revert everything at once */}
+          {inlineEditMode && dirtyRowCount > 0 && (
+            <div className="inline-edit-indicator p-2 border-top-1 surface-border bg-yellow-50 flex align-items-center justify-content-between" style={{
+              flexShrink: 0
+            }}>
+              <div className="flex align-items-center gap-2">
+                <i className="pi pi-pencil text-yellow-700"></i>
+                <span className="text-sm font-medium text-yellow-900">
+                  {dirtyRowCount} row{dirtyRowCount !== 1 ? 's' : ''} with unsaved changes
+                </span>
+              </div>
+              <div className="flex align-items-center gap-2">
+                <Button
+                  icon="pi pi-undo"
+                  label="Revert All"
+                  size="small"
+                  severity="secondary"
+                  outlined
+                  disabled={savingRowKeys.length > 0}
+                  onClick={revertAllEdits}
+                />
+                <Button
+                  icon="pi pi-save"
+                  label="Save All Changes"
+                  size="small"
+                  loading={savingRowKeys.length > 0}
+                  disabled={savingRowKeys.length > 0}
+                  onClick={saveAllEdits}
+                />
+              </div>
+            </div>
+          )}
+
           {/* Selection indicator and bulk actions - shows total selected across all pages */}
           {enableBulkSelection && selectedRowIds.length > 0 && (
             <div className={`selection-indicator p-2 border-top-1 surface-border ${showSelectedOnly ? 'bg-orange-50' : 'bg-blue-50'}`} style={{
@@ -1228,7 +2586,7 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
                         console.warn(`⚠️ [SimpleGenericGrid] Failed to clear localStorage:`, error);
                       }
                       // Use setTimeout to ensure state updates are applied before fetch
-                      setTimeout(() => fetchData(currentPage, currentPageSize), 0);
+                      setTimeout(() => reloadRows(currentPage), 0);
                     }
                     // Call external handler if provided
                     if (onBulkActionComplete) {
@@ -1240,7 +2598,19 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
             </div>
           )}
           
-          {/* Custom Pagination - Fixed at bottom */}
+          {/* Virtual table status - loaded rows out of the total */}
+          {isVirtualTable && (
+            <div className="grid-status-bar p-2 border-top-1 surface-border text-sm text-600" style={{
+              flexShrink: 0,
+              backgroundColor: 'var(--surface-ground)'
+            }}>
+              {totalRecords.toLocaleString()} entries ({virtualRows.loadedRows.length.toLocaleString()} loaded)
+              {virtualRows.loading && <i className="pi pi-spin pi-spinner ml-2"></i>}
+            </div>
+          )}
+
+          {/* Custom Pagination - Fixed at bottom (the pivot, board, calendar and virtual table load their own records) */}
+          {!showPivot && !showBoard && !showCalendar && !isVirtualTable && (
           <div className="grid-pagination p-0 border-top-1 surface-border flex justify-content-between align-items-center" style={{ 
             flexShrink: 0,
             backgroundColor: 'var(--surface-ground)'
@@ -1273,6 +2643,7 @@ export function SimpleGenericGrid<TFilter, TOrderBy, TSearchQuery extends ISearc
               />
             </div>
           </div>
+          )}
         </div>
       </div>
     </div>
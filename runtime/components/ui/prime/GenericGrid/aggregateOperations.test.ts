@@ -0,0 +1,50 @@
+/**
+ * @vitest-environment jsdom
+ * @group unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseAggregateMetadata,
+  buildAggregateRequest,
+  computeAggregates,
+  computeGroupAggregates,
+  formatAggregateValue
+} from './aggregateOperations';
+
+const rows = [
+  { category: 'Tools', unitPrice: 10, stock: 5 },
+  { category: 'Tools', unitPrice: 30, stock: null },
+  { category: 'Garden', unitPrice: 5, stock: 2 },
+  { category: null, unitPrice: '', stock: 1 }
+];
+
+describe('aggregateOperations', () => {
+  it('should parse x-aggregate metadata', () => {
+    expect(parseAggregateMetadata(true)).toEqual(['sum']);
+    expect(parseAggregateMetadata('sum, AVG,sum')).toEqual(['sum', 'avg']);
+    expect(parseAggregateMetadata(['min', 'median', 'max'])).toEqual(['min', 'max']);
+    expect(parseAggregateMetadata('median')).toBeUndefined();
+    expect(parseAggregateMetadata(undefined)).toBeUndefined();
+    expect(buildAggregateRequest({ unitPrice: ['sum'], stock: [] })).toEqual({ unitPrice: ['sum'] });
+    expect(buildAggregateRequest({ stock: [] })).toBeUndefined();
+  });
+
+  it('should compute aggregates ignoring empty values', () => {
+    const result = computeAggregates(rows, { unitPrice: ['sum', 'avg', 'min', 'max', 'count'], stock: ['sum'] });
+
+    expect(result.unitPrice).toEqual({ sum: 45, avg: 15, min: 5, max: 30, count: 3 });
+    expect(result.stock).toEqual({ sum: 8 });
+    expect(computeAggregates([], { unitPrice: ['sum', 'count'] }).unitPrice).toEqual({ sum: null, count: 0 });
+    expect(formatAggregateValue('avg', 2 / 3)).toBe((0.67).toLocaleString());
+    expect(formatAggregateValue('sum', null)).toBe('-');
+  });
+
+  it('should compute counts and aggregates per group', () => {
+    const groups = computeGroupAggregates(rows, 'category', { unitPrice: ['sum'] });
+
+    expect(Array.from(groups.keys())).toEqual(['Tools', 'Garden', '']);
+    expect(groups.get('Tools')).toEqual({ count: 2, aggregates: { unitPrice: { sum: 40 } } });
+    expect(groups.get('')).toEqual({ count: 1, aggregates: { unitPrice: { sum: null } } });
+  });
+});
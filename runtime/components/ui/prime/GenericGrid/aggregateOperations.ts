@@ -0,0 +1,134 @@
+import type { AggregateFunction } from './types';
+
+/**
+ * Aggregate functions offered for numeric columns, in display order
+ */
+export const AGGREGATE_FUNCTIONS: { value: AggregateFunction; label: string }[] = [
+  { value: 'sum', label: 'Sum' },
+  { value: 'avg', label: 'Average' },
+  { value: 'min', label: 'Min' },
+  { value: 'max', label: 'Max' },
+  { value: 'count', label: 'Count' }
+];
+
+/**
+ * Aggregates per column - field -> functions
+ * Sent as searchQuery.aggregates to servers that support aggregates
+ */
+export type AggregateConfig = Record<string, AggregateFunction[]>;
+
+/**
+ * Aggregate values per column - field -> function -> value (null when the column has no values)
+ * Returned as response.aggregates by servers that support aggregates
+ */
+export type AggregateResults = Record<string, Partial<Record<AggregateFunction, number | null>>>;
+
+const VALID_FUNCTIONS = new Set<string>(AGGREGATE_FUNCTIONS.map(fn => fn.value));
+
+/**
+ * Parse x-aggregate metadata - 'sum', 'sum,avg', ['sum', 'avg'] or true (= sum)
+ */
+export function parseAggregateMetadata(value: unknown): AggregateFunction[] | undefined {
+  if (value === true || (typeof value === 'string' && value.toLowerCase() === 'true')) {
+    return ['sum'];
+  }
+  const names = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  const functions = names
+    .map(name => String(name).trim().toLowerCase())
+    .filter(name => VALID_FUNCTIONS.has(name)) as AggregateFunction[];
+  return functions.length > 0 ? Array.from(new Set(functions)) : undefined;
+}
+
+/**
+ * Drop columns without functions - returns undefined when nothing is aggregated
+ */
+export function buildAggregateRequest(config: AggregateConfig): AggregateConfig | undefined {
+  const entries = Object.entries(config).filter(([, functions]) => functions.length > 0);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+/**
+ * Compute aggregates client-side (used per page when the server returns no aggregates)
+ * Non-numeric and empty values are ignored; count is the number of numeric values
+ */
+export function computeAggregates(rows: Record<string, any>[], config: AggregateConfig): AggregateResults {
+  const results: AggregateResults = {};
+
+  Object.entries(config).forEach(([field, functions]) => {
+    if (functions.length === 0) return;
+
+    const values = rows
+      .map(row => row?.[field])
+      .filter(value => value !== null && value !== undefined && value !== '' && !isNaN(Number(value)))
+      .map(Number);
+    const sum = values.reduce((total, value) => total + value, 0);
+
+    const fieldResults: Partial<Record<AggregateFunction, number | null>> = {};
+    functions.forEach(fn => {
+      switch (fn) {
+        case 'sum':
+          fieldResults.sum = values.length > 0 ? sum : null;
+          break;
+        case 'avg':
+          fieldResults.avg = values.length > 0 ? sum / values.length : null;
+          break;
+        case 'min':
+          fieldResults.min = values.length > 0 ? Math.min(...values) : null;
+          break;
+        case 'max':
+          fieldResults.max = values.length > 0 ? Math.max(...values) : null;
+          break;
+        case 'count':
+          fieldResults.count = values.length;
+          break;
+      }
+    });
+    results[field] = fieldResults;
+  });
+
+  return results;
+}
+
+/**
+ * Key used to group rows - empty values share one group
+ */
+export function getGroupKey(row: Record<string, any>, field: string): string {
+  const value = row?.[field];
+  return value === null || value === undefined || value === '' ? '' : String(value);
+}
+
+/**
+ * Row count and aggregates for each group of rows (rows must already be ordered by the group field)
+ */
+export function computeGroupAggregates(
+  rows: Record<string, any>[],
+  groupField: string,
+  config: AggregateConfig
+): Map<string, { count: number; aggregates: AggregateResults }> {
+  const groups = new Map<string, Record<string, any>[]>();
+  rows.forEach(row => {
+    const key = getGroupKey(row, groupField);
+    const groupRows = groups.get(key);
+    if (groupRows) {
+      groupRows.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  });
+
+  const result = new Map<string, { count: number; aggregates: AggregateResults }>();
+  groups.forEach((groupRows, key) => {
+    result.set(key, { count: groupRows.length, aggregates: computeAggregates(groupRows, config) });
+  });
+  return result;
+}
+
+/**
+ * Format an aggregate value for display
+ */
+export function formatAggregateValue(fn: AggregateFunction, value: number | null | undefined): string {
+  if (value === null || value === undefined) return '-';
+  return fn === 'count'
+    ? value.toLocaleString()
+    : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
@@ -0,0 +1,52 @@
+/**
+ * @vitest-environment jsdom
+ * @group unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildBoardColumnFilter, buildBoardMovePayload, moveBoardCard, parseBoardOptions } from './boardOperations';
+import type { BoardState } from './boardOperations';
+
+describe('boardOperations', () => {
+  it('should read columns from x-options before x-enum', () => {
+    expect(parseBoardOptions([{ value: 'open', label: 'Open' }, { value: 'done' }], ['ignored'])).toEqual([
+      { value: 'open', label: 'Open' },
+      { value: 'done', label: 'Done' }
+    ]);
+    expect(parseBoardOptions(undefined, 'new, in_review,onHold')).toEqual([
+      { value: 'new', label: 'New' },
+      { value: 'in_review', label: 'In Review' },
+      { value: 'onHold', label: 'On Hold' }
+    ]);
+    expect(parseBoardOptions(undefined, [1, 2])).toEqual([{ value: 1, label: '1' }, { value: 2, label: '2' }]);
+    expect(parseBoardOptions(undefined, undefined)).toEqual([]);
+  });
+
+  it('should narrow the grid filter to a column and save only the board field', () => {
+    expect(buildBoardColumnFilter(undefined, 'status', 'open')).toEqual({ status: { eq: 'open' } });
+    expect(buildBoardColumnFilter({ name: { contains: 'a' } }, 'status', 'open')).toEqual({
+      name: { contains: 'a' },
+      status: { eq: 'open' }
+    });
+    // A status filter of its own still applies - the column is empty when they disagree
+    expect(buildBoardColumnFilter({ status: { eq: 'done' } }, 'status', 'open')).toEqual({
+      and: [{ status: { eq: 'done' } }, { status: { eq: 'open' } }]
+    });
+    expect(buildBoardMovePayload({ id: 7, name: 'Task', status: 'open' }, 'id', 'status', 'done')).toEqual({ id: 7, status: 'done' });
+  });
+
+  it('should move a card to the top of its new column and back', () => {
+    const state: BoardState = {
+      open: { rows: [{ id: 1, status: 'open' }, { id: 2, status: 'open' }], total: 2, page: 0, loading: false },
+      done: { rows: [{ id: 3, status: 'done' }], total: 5, page: 0, loading: false }
+    };
+
+    const moved = moveBoardCard(state, { key: 2, dataKey: 'id', field: 'status', from: 'open', to: 'done' });
+    expect(moved.open).toMatchObject({ rows: [{ id: 1, status: 'open' }], total: 1 });
+    expect(moved.done).toMatchObject({ rows: [{ id: 2, status: 'done' }, { id: 3, status: 'done' }], total: 6 });
+
+    const reverted = moveBoardCard(moved, { key: 2, dataKey: 'id', field: 'status', from: 'done', to: 'open' });
+    expect(reverted.open.rows).toEqual([{ id: 2, status: 'open' }, { id: 1, status: 'open' }]);
+    expect(moveBoardCard(state, { key: 9, dataKey: 'id', field: 'status', from: 'open', to: 'done' })).toBe(state);
+  });
+});
@@ -0,0 +1,110 @@
+import { buildFilterFromOperations, combineFiltersWithAnd } from './filterOperations';
+
+/**
+ * One board column - a value of the board field
+ */
+export interface BoardColumnOption {
+  value: string | number | boolean;
+  label: string;
+}
+
+/**
+ * Rows loaded into one board column
+ */
+export interface BoardColumnState<TModel = Record<string, any>> {
+  rows: TModel[];
+  /** Matching rows in the column (all pages) */
+  total: number;
+  /** Last loaded page (0-based) */
+  page: number;
+  loading: boolean;
+}
+
+export type BoardState<TModel = Record<string, any>> = Record<string, BoardColumnState<TModel>>;
+
+// 'in_review' -> 'In Review'
+const formatOptionLabel = (value: unknown) =>
+  String(value).replace(/[_-]+/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').replace(/\b\w/g, char => char.toUpperCase());
+
+const isOptionValue = (value: unknown): value is BoardColumnOption['value'] =>
+  typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+
+/**
+ * Board columns from x-options ([{ value, label }] or plain values) or x-enum (values, or a comma-separated string)
+ * x-options wins when both are set; returns [] when neither lists any values
+ */
+export function parseBoardOptions(options: unknown, enumValues?: unknown): BoardColumnOption[] {
+  const source = Array.isArray(options) && options.length > 0
+    ? options
+    : typeof enumValues === 'string'
+      ? enumValues.split(',').map(value => value.trim()).filter(Boolean)
+      : Array.isArray(enumValues) ? enumValues : [];
+
+  return source.flatMap((option): BoardColumnOption[] => {
+    if (isOptionValue(option)) {
+      return [{ value: option, label: formatOptionLabel(option) }];
+    }
+    if (option && typeof option === 'object' && isOptionValue((option as any).value)) {
+      const { value, label } = option as { value: BoardColumnOption['value']; label?: unknown };
+      return [{ value, label: label ? String(label) : formatOptionLabel(value) }];
+    }
+    console.warn('⚠️ [boardOperations] Ignoring invalid board option:', option);
+    return [];
+  });
+}
+
+/**
+ * Key of a board column in BoardState
+ */
+export const boardColumnKey = (value: BoardColumnOption['value']) => String(value);
+
+/**
+ * Grid filter narrowed to one board column
+ */
+export function buildBoardColumnFilter(
+  filter: Record<string, any> | undefined,
+  field: string,
+  value: BoardColumnOption['value']
+): Record<string, any> | undefined {
+  return combineFiltersWithAnd([filter, buildFilterFromOperations([{ field, operator: 'eq', value }])]);
+}
+
+/**
+ * Save body for a card moved to another column - the primary key and the board field only
+ */
+export function buildBoardMovePayload(
+  row: Record<string, any>,
+  dataKey: string,
+  field: string,
+  value: BoardColumnOption['value']
+): Record<string, any> {
+  return { [dataKey]: row[dataKey], [field]: value };
+}
+
+/**
+ * Move a card between columns - the card gets the new field value and goes to the top of its new column
+ * Returns the state unchanged when the card is not in the source column
+ */
+export function moveBoardCard<TModel>(
+  state: BoardState<TModel>,
+  { key, dataKey, field, from, to }: { key: unknown; dataKey: string; field: string; from: BoardColumnOption['value']; to: BoardColumnOption['value'] }
+): BoardState<TModel> {
+  const source = state[boardColumnKey(from)];
+  const target = state[boardColumnKey(to)];
+  const row = source?.rows.find(candidate => (candidate as any)[dataKey] === key);
+  if (!source || !target || !row || boardColumnKey(from) === boardColumnKey(to)) return state;
+
+  return {
+    ...state,
+    [boardColumnKey(from)]: {
+      ...source,
+      rows: source.rows.filter(candidate => candidate !== row),
+      total: Math.max(0, source.total - 1)
+    },
+    [boardColumnKey(to)]: {
+      ...target,
+      rows: [{ ...row, [field]: to } as TModel, ...target.rows],
+      total: target.total + 1
+    }
+  };
+}
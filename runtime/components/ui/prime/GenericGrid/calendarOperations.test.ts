@@ -0,0 +1,65 @@
+/**
+ * @vitest-environment jsdom
+ * @group unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildCalendarRangeFilter,
+  getCalendarRange,
+  groupCalendarEntries,
+  parseCalendarDate,
+  shiftCalendarAnchor,
+  toDayKey
+} from './calendarOperations';
+
+describe('calendarOperations', () => {
+  it('should cover whole weeks of the month, starting on Monday', () => {
+    const month = getCalendarRange('month', new Date(2026, 2, 18));
+    expect(toDayKey(month.start)).toBe('2026-02-23');
+    expect(toDayKey(month.end)).toBe('2026-04-06');
+    expect(month.days).toHaveLength(42);
+
+    const week = getCalendarRange('week', new Date(2026, 2, 18));
+    expect(week.days.map(toDayKey)).toEqual([
+      '2026-03-16', '2026-03-17', '2026-03-18', '2026-03-19', '2026-03-20', '2026-03-21', '2026-03-22'
+    ]);
+    expect(toDayKey(shiftCalendarAnchor('month', new Date(2026, 0, 31), 1))).toBe('2026-02-01');
+    expect(toDayKey(parseCalendarDate('2026-03-01')!)).toBe('2026-03-01');
+  });
+
+  it('should filter by the visible range', () => {
+    const range = getCalendarRange('day', new Date(2026, 2, 18));
+    expect(buildCalendarRangeFilter({ isActive: { eq: true } }, { startField: 'startDate' }, range)).toEqual({
+      isActive: { eq: true },
+      startDate: { gte: '2026-03-18', lt: '2026-03-19' }
+    });
+    expect(buildCalendarRangeFilter(undefined, { startField: 'startDate', endField: 'endDate' }, range)).toEqual({
+      and: [
+        { startDate: { lt: '2026-03-19' } },
+        { or: [{ endDate: { gte: '2026-03-18' } }, { endDate: { eq: null }, startDate: { gte: '2026-03-18' } }] }
+      ]
+    });
+  });
+
+  it('should place records on every day they cover', () => {
+    const range = getCalendarRange('week', new Date(2026, 2, 18));
+    const rows = [
+      { id: 1, startDate: '2026-03-17', endDate: '2026-03-19' },
+      { id: 2, startDate: new Date(2026, 2, 18, 9, 30).toISOString(), endDate: null },
+      { id: 3, startDate: '2026-03-01', endDate: '2026-03-16' },
+      { id: 4, startDate: null, endDate: null }
+    ];
+    const byDay = groupCalendarEntries(rows, { startField: 'startDate', endField: 'endDate' }, range);
+
+    expect(byDay.get('2026-03-16')!.map(entry => entry.row.id)).toEqual([3]);
+    expect(byDay.get('2026-03-17')!.map(entry => entry.row.id)).toEqual([1]);
+    // Multi-day entries before timed ones
+    expect(byDay.get('2026-03-18')!.map(entry => [entry.row.id, entry.allDay, entry.continuesBefore, entry.continuesAfter])).toEqual([
+      [1, true, true, true],
+      [2, false, false, false]
+    ]);
+    expect(byDay.get('2026-03-19')![0]).toMatchObject({ continuesBefore: true, continuesAfter: false });
+    expect(byDay.get('2026-03-20')).toEqual([]);
+  });
+});
@@ -0,0 +1,201 @@
+import type { CalendarMode } from './types';
+import { COMPOUND_FILTER_KEYS, combineFiltersWithAnd } from './filterOperations';
+
+export const CALENDAR_MODE_OPTIONS: { value: CalendarMode; label: string }[] = [
+  { value: 'month', label: 'Month' },
+  { value: 'week', label: 'Week' },
+  { value: 'day', label: 'Day' }
+];
+
+/**
+ * Date fields a record is plotted by (see getCalendarFields) - a single date, or a start/end range
+ */
+export interface CalendarFields {
+  startField: string;
+  endField?: string;
+}
+
+/**
+ * Visible days - start is the first day at local midnight, end the day after the last one
+ */
+export interface CalendarRange {
+  start: Date;
+  end: Date;
+  days: Date[];
+}
+
+/**
+ * A record on one day of the calendar - multi-day records have one entry per day they cover
+ */
+export interface CalendarEntry<TModel = Record<string, any>> {
+  row: TModel;
+  start: Date;
+  end: Date;
+  /** Date-only values - no time is shown */
+  allDay: boolean;
+  /** The record started on an earlier day */
+  continuesBefore: boolean;
+  /** The record ends on a later day */
+  continuesAfter: boolean;
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+// Days since Monday
+const weekdayOffset = (date: Date) => (date.getDay() + 6) % 7;
+
+/**
+ * Local 'YYYY-MM-DD' of a date - also the value sent in range filters
+ */
+export function toDayKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Parse a field value - date-only strings ('YYYY-MM-DD') are local days, not UTC midnight
+ * null for empty or invalid values
+ */
+export function parseCalendarDate(value: unknown): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'string' && DATE_ONLY.test(value)) {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+  const date = value instanceof Date ? new Date(value.getTime()) : new Date(value as string | number);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+const isDateOnly = (value: unknown, date: Date) =>
+  typeof value === 'string' ? DATE_ONLY.test(value) : date.getTime() === startOfDay(date).getTime();
+
+/**
+ * Days shown for a mode - whole weeks (Monday first) covering the month, the week of the date, or the day
+ */
+export function getCalendarRange(mode: CalendarMode, anchor: Date): CalendarRange {
+  let start: Date;
+  let end: Date;
+  switch (mode) {
+    case 'month': {
+      const first = new Date(anchor.getFullYear(), anchor.getMonth(), 1);
+      const last = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+      start = addDays(first, -weekdayOffset(first));
+      end = addDays(last, 7 - weekdayOffset(last));
+      break;
+    }
+    case 'week':
+      start = addDays(startOfDay(anchor), -weekdayOffset(anchor));
+      end = addDays(start, 7);
+      break;
+    default:
+      start = startOfDay(anchor);
+      end = addDays(start, 1);
+  }
+
+  const days: Date[] = [];
+  for (let day = start; day < end; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return { start, end, days };
+}
+
+/**
+ * Move the shown date by whole months, weeks or days
+ */
+export function shiftCalendarAnchor(mode: CalendarMode, anchor: Date, step: number): Date {
+  switch (mode) {
+    case 'month': return new Date(anchor.getFullYear(), anchor.getMonth() + step, 1);
+    case 'week': return addDays(anchor, step * 7);
+    default: return addDays(anchor, step);
+  }
+}
+
+/**
+ * Heading for the shown range, e.g. 'March 2026', 'Mar 16 – Mar 22, 2026' or 'Monday, March 16, 2026'
+ */
+export function formatCalendarTitle(mode: CalendarMode, anchor: Date): string {
+  switch (mode) {
+    case 'month':
+      return anchor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+    case 'week': {
+      const { days } = getCalendarRange('week', anchor);
+      const first = days[0].toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+      const last = days[6].toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+      return `${first} – ${last}`;
+    }
+    default:
+      return anchor.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+  }
+}
+
+/**
+ * Grid filter narrowed to records in the visible range
+ * - single date: start within the range
+ * - date range: starts before the range ends and ends in or after it (records without an end count as one day)
+ */
+export function buildCalendarRangeFilter(
+  filter: Record<string, any> | undefined,
+  { startField, endField }: CalendarFields,
+  range: CalendarRange
+): Record<string, any> | undefined {
+  const from = toDayKey(range.start);
+  const to = toDayKey(range.end);
+  const rangeFilter = !endField
+    ? { [startField]: { gte: from, lt: to } }
+    : {
+        [COMPOUND_FILTER_KEYS.and]: [
+          { [startField]: { lt: to } },
+          {
+            [COMPOUND_FILTER_KEYS.or]: [
+              { [endField]: { gte: from } },
+              { [endField]: { eq: null }, [startField]: { gte: from } }
+            ]
+          }
+        ]
+      };
+  return combineFiltersWithAnd([filter, rangeFilter]);
+}
+
+/**
+ * Entries per visible day ('YYYY-MM-DD'), all-day and multi-day entries first, then by start time
+ * Records without a valid start date are left out; an end before the start is ignored
+ */
+export function groupCalendarEntries<TModel>(
+  rows: TModel[],
+  { startField, endField }: CalendarFields,
+  range: CalendarRange
+): Map<string, CalendarEntry<TModel>[]> {
+  const byDay = new Map<string, CalendarEntry<TModel>[]>(range.days.map(day => [toDayKey(day), []]));
+
+  for (const row of rows) {
+    const startValue = (row as any)[startField];
+    const start = parseCalendarDate(startValue);
+    if (!start) continue;
+    const endValue = endField ? (row as any)[endField] : undefined;
+    const parsedEnd = parseCalendarDate(endValue);
+    const end = parsedEnd && parsedEnd >= start ? parsedEnd : start;
+    const firstDay = startOfDay(start);
+    const lastDay = startOfDay(end);
+    const allDay = isDateOnly(startValue, start) && (!parsedEnd || isDateOnly(endValue, parsedEnd));
+
+    for (const day of range.days) {
+      if (day < firstDay || day > lastDay) continue;
+      byDay.get(toDayKey(day))!.push({
+        row,
+        start,
+        end,
+        allDay,
+        continuesBefore: day > firstDay,
+        continuesAfter: day < lastDay
+      });
+    }
+  }
+
+  const spansDay = (entry: CalendarEntry<TModel>) => entry.allDay || entry.continuesBefore || entry.continuesAfter;
+  byDay.forEach(entries => entries.sort((a, b) =>
+    Number(spansDay(b)) - Number(spansDay(a)) || a.start.getTime() - b.start.getTime()
+  ));
+  return byDay;
+}
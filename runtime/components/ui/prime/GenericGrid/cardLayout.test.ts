@@ -0,0 +1,37 @@
+/**
+ * @vitest-environment jsdom
+ * @group unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolveCardLayout } from './cardLayout';
+
+const visible = ['id', 'name', 'sku', 'categoryId', 'price', 'stock', 'imageUrl', 'createdAt'];
+
+describe('cardLayout', () => {
+  it('should use the x-card fields when marked', () => {
+    const layout = resolveCardLayout(
+      { titleField: 'sku', subtitleField: 'price', imageField: 'imageUrl', displayValueFields: ['name'] },
+      visible,
+      { dataKey: 'id', excludeFields: ['categoryId'] }
+    );
+
+    expect(layout).toEqual({
+      titleField: 'sku',
+      subtitleField: 'price',
+      imageField: 'imageUrl',
+      detailFields: ['name', 'stock', 'createdAt']
+    });
+  });
+
+  it('should fall back to x-display-value fields, then the first visible column', () => {
+    expect(resolveCardLayout({ displayValueFields: ['name', 'sku'] }, visible, { dataKey: 'id' })).toMatchObject({
+      titleField: 'name',
+      subtitleField: 'sku',
+      detailFields: ['categoryId', 'price', 'stock', 'imageUrl']
+    });
+
+    const layout = resolveCardLayout({ displayValueFields: [] }, ['id', 'price', 'stock'], { dataKey: 'id', maxDetailFields: 1 });
+    expect(layout).toEqual({ titleField: 'price', subtitleField: undefined, imageField: undefined, detailFields: ['stock'] });
+  });
+});
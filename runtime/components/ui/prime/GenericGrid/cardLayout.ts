@@ -0,0 +1,63 @@
+/**
+ * Grid layout - 'auto' shows cards below the card breakpoint and the table above it
+ */
+export type GridLayout = 'table' | 'cards' | 'auto';
+
+/**
+ * Card fields marked in the schema (see getCardFields)
+ */
+export interface CardFieldMetadata {
+  titleField?: string;
+  subtitleField?: string;
+  imageField?: string;
+  /** x-display-value fields - title/subtitle fallback */
+  displayValueFields: string[];
+}
+
+/**
+ * Fields shown on each card
+ */
+export interface CardLayout {
+  titleField?: string;
+  subtitleField?: string;
+  /** Holds an image URL */
+  imageField?: string;
+  /** Label/value lines under the title, in column order */
+  detailFields: string[];
+}
+
+export interface CardLayoutOptions {
+  /** Key field - never shown as a title or detail */
+  dataKey?: string;
+  /** Fields left off the card (e.g. foreign key ids whose names are shown instead) */
+  excludeFields?: string[];
+  /** Detail lines per card (default: 4) */
+  maxDetailFields?: number;
+}
+
+/**
+ * Pick the card title, subtitle, image and detail fields
+ * - title: x-card-title, else the first x-display-value field, else the first visible column
+ * - subtitle: x-card-subtitle, else the next x-display-value field
+ * - details: the remaining visible columns in display order
+ */
+export function resolveCardLayout(
+  metadata: CardFieldMetadata,
+  visibleFields: string[],
+  { dataKey, excludeFields = [], maxDetailFields = 4 }: CardLayoutOptions = {}
+): CardLayout {
+  const candidates = visibleFields.filter(field => field !== dataKey && !excludeFields.includes(field));
+  const displayValues = metadata.displayValueFields.filter(field => field !== dataKey);
+
+  const titleField = metadata.titleField ?? displayValues[0] ?? candidates[0];
+  const subtitleField = metadata.subtitleField ?? displayValues.find(field => field !== titleField);
+  const imageField = metadata.imageField;
+  const shown = [titleField, subtitleField, imageField];
+
+  return {
+    titleField,
+    subtitleField,
+    imageField,
+    detailFields: candidates.filter(field => !shown.includes(field)).slice(0, maxDetailFields)
+  };
+}
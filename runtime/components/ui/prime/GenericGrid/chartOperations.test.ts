@@ -0,0 +1,60 @@
+/**
+ * @vitest-environment jsdom
+ * @group unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import { bucketChartGroups, bucketDate, buildChartData, chartPivotConfig, nextBucket } from './chartOperations';
+import { addRowsToPivotGroups, buildPivotRequest, buildPivotTable } from './pivotOperations';
+import type { GridChartConfig } from './types';
+
+const rows = [
+  { id: 1, createdAt: '2026-01-15T10:00:00Z', region: 'North', amount: 10 },
+  { id: 2, createdAt: '2026-01-20T10:00:00Z', region: 'South', amount: 20 },
+  { id: 3, createdAt: '2026-03-02', region: 'North', amount: 5 },
+  { id: 4, createdAt: null, region: 'North', amount: 100 }
+];
+
+const chartTable = (config: GridChartConfig) => {
+  const pivot = chartPivotConfig(config);
+  const groups = Array.from(addRowsToPivotGroups(new Map(), rows, buildPivotRequest(pivot)).values());
+  return buildPivotTable(config.interval && config.xField === 'createdAt' ? bucketChartGroups(groups, 'createdAt', config.interval) : groups, pivot);
+};
+
+describe('chartOperations', () => {
+  it('should bucket dates by interval in UTC', () => {
+    expect(bucketDate('2026-03-18T08:30:00Z', 'day')).toBe('2026-03-18');
+    expect(bucketDate('2026-03-18T08:30:00Z', 'week')).toBe('2026-03-16'); // Monday
+    expect(bucketDate('2026-03-18', 'month')).toBe('2026-03-01');
+    expect(bucketDate('2026-08-18', 'quarter')).toBe('2026-07-01');
+    expect(bucketDate('2026-08-18', 'year')).toBe('2026-01-01');
+    expect(bucketDate('not a date', 'day')).toBeNull();
+    expect(nextBucket('2026-12-01', 'month')).toBe('2027-01-01');
+    expect(nextBucket('2026-03-30', 'week')).toBe('2026-04-06');
+  });
+
+  it('should fill empty intervals in time series and drop undated rows', () => {
+    const config: GridChartConfig = { type: 'timeseries', xField: 'createdAt', measure: 'amount', aggregate: 'sum', interval: 'month' };
+    const data = buildChartData(chartTable(config), config, { interval: 'month', measureLabel: 'Sum of Amount' });
+
+    expect(data.labels).toHaveLength(3);
+    expect(data.datasets).toEqual([{ label: 'Sum of Amount', data: [30, null, 5] }]);
+  });
+
+  it('should split bar charts into one dataset per series value', () => {
+    const config: GridChartConfig = { type: 'bar', xField: 'createdAt', seriesField: 'region', measure: null, aggregate: 'sum', interval: 'month' };
+    const data = buildChartData(chartTable(config), config, { interval: 'month', measureLabel: 'Count of rows' });
+
+    expect(data.datasets).toEqual([
+      { label: 'North', data: [1, 1] },
+      { label: 'South', data: [1, 0] }
+    ]);
+
+    // Pie charts ignore the series field
+    const pie: GridChartConfig = { ...config, type: 'pie', xField: 'region', interval: undefined };
+    expect(buildChartData(chartTable(pie), pie, { measureLabel: 'Count of rows' })).toEqual({
+      labels: ['North', 'South'],
+      datasets: [{ label: 'Count of rows', data: [3, 1] }]
+    });
+  });
+});
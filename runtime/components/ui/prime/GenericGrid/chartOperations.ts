@@ -0,0 +1,150 @@
+import type { ChartDateInterval, GridChartConfig, GridChartType, PivotConfig } from './types';
+import type { PivotGroup, PivotTable } from './pivotOperations';
+
+export const CHART_TYPE_OPTIONS: { value: GridChartType; label: string; icon: string }[] = [
+  { value: 'bar', label: 'Bar', icon: 'pi pi-chart-bar' },
+  { value: 'line', label: 'Line', icon: 'pi pi-chart-line' },
+  { value: 'pie', label: 'Pie', icon: 'pi pi-chart-pie' },
+  { value: 'timeseries', label: 'Time series', icon: 'pi pi-calendar' }
+];
+
+export const CHART_INTERVAL_OPTIONS: { value: ChartDateInterval; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+  { value: 'quarter', label: 'Quarter' },
+  { value: 'year', label: 'Year' }
+];
+
+export const DEFAULT_CHART_CONFIG: GridChartConfig = {
+  type: 'bar',
+  xField: null,
+  seriesField: null,
+  measure: null,
+  aggregate: 'sum',
+  interval: 'month'
+};
+
+/**
+ * Chart data in Chart.js shape - one dataset per series
+ */
+export interface ChartData {
+  labels: string[];
+  datasets: { label: string; data: (number | null)[] }[];
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const toKey = (date: Date) => `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+
+/**
+ * Start of the interval containing a date, as 'YYYY-MM-DD' (weeks start on Monday)
+ * Dates are bucketed in UTC; null for empty or invalid values
+ */
+export function bucketDate(value: unknown, interval: ChartDateInterval): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  const date = value instanceof Date ? new Date(value.getTime()) : new Date(value as string | number);
+  if (isNaN(date.getTime())) return null;
+
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (interval) {
+    case 'year': return toKey(new Date(Date.UTC(year, 0, 1)));
+    case 'quarter': return toKey(new Date(Date.UTC(year, month - (month % 3), 1)));
+    case 'month': return toKey(new Date(Date.UTC(year, month, 1)));
+    case 'week': {
+      const offset = (date.getUTCDay() + 6) % 7; // Days since Monday
+      return toKey(new Date(Date.UTC(year, month, date.getUTCDate() - offset)));
+    }
+    default: return toKey(new Date(Date.UTC(year, month, date.getUTCDate())));
+  }
+}
+
+/**
+ * Start of the interval after a bucket
+ */
+export function nextBucket(key: string, interval: ChartDateInterval): string {
+  const [year, month, day] = key.split('-').map(Number);
+  switch (interval) {
+    case 'year': return toKey(new Date(Date.UTC(year + 1, 0, 1)));
+    case 'quarter': return toKey(new Date(Date.UTC(year, month - 1 + 3, 1)));
+    case 'month': return toKey(new Date(Date.UTC(year, month, 1)));
+    case 'week': return toKey(new Date(Date.UTC(year, month - 1, day + 7)));
+    default: return toKey(new Date(Date.UTC(year, month - 1, day + 1)));
+  }
+}
+
+/**
+ * Axis label for a bucket, e.g. 'Mar 2026', 'Q1 2026' or '2026'
+ */
+export function formatBucketLabel(key: string, interval: ChartDateInterval): string {
+  const [year, month, day] = key.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  switch (interval) {
+    case 'year': return String(year);
+    case 'quarter': return `Q${Math.floor((month - 1) / 3) + 1} ${year}`;
+    case 'month': return date.toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' });
+    default: return date.toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+  }
+}
+
+/**
+ * Pivot layout behind a chart - the x-axis field as rows, the series field as columns
+ */
+export function chartPivotConfig(config: GridChartConfig): PivotConfig {
+  return {
+    rowFields: config.xField ? [config.xField] : [],
+    columnFields: config.seriesField && config.type !== 'pie' ? [config.seriesField] : [],
+    measure: config.measure,
+    aggregate: config.aggregate
+  };
+}
+
+/**
+ * Replace a date field's values with their interval bucket - buildPivotTable merges groups that share a bucket
+ */
+export function bucketChartGroups(groups: PivotGroup[], field: string, interval: ChartDateInterval): PivotGroup[] {
+  return groups.map(group => ({
+    ...group,
+    keys: { ...group.keys, [field]: bucketDate(group.keys[field], interval) }
+  }));
+}
+
+/**
+ * Chart.js data for a chart's pivot table
+ * - date axes (interval set) drop undated rows and are labeled per interval; time series also get the empty intervals
+ * - pie charts and charts without a series field have one dataset with the row totals
+ * - missing counts are 0, other missing values are gaps (null)
+ */
+export function buildChartData(
+  table: PivotTable,
+  config: GridChartConfig,
+  { interval, measureLabel }: { interval?: ChartDateInterval | null; measureLabel: string }
+): ChartData {
+  const isCount = config.measure === null || config.aggregate === 'count';
+  const missing = isCount ? 0 : null;
+
+  let rows = table.rowHeaders.map(header => ({ key: header.key, label: header.labels[0] ?? '' }));
+  if (interval) {
+    // Bucketed dates sort as 'YYYY-MM-DD'; undated rows have the '(Blank)' label
+    rows = rows.filter(row => /^\d{4}-\d{2}-\d{2}$/.test(row.label)).sort((a, b) => a.label.localeCompare(b.label));
+    if (config.type === 'timeseries' && rows.length > 1) {
+      const byBucket = new Map(rows.map(row => [row.label, row]));
+      const filled: typeof rows = [];
+      for (let bucket = rows[0].label; bucket <= rows[rows.length - 1].label; bucket = nextBucket(bucket, interval)) {
+        filled.push(byBucket.get(bucket) ?? { key: '', label: bucket });
+      }
+      rows = filled;
+    }
+  }
+
+  const labels = rows.map(row => interval ? formatBucketLabel(row.label, interval) : row.label);
+  const hasSeries = config.type !== 'pie' && table.columnHeaders.some(header => header.labels.length > 0);
+  const datasets = hasSeries
+    ? table.columnHeaders.map(column => ({
+        label: column.labels.join(' / '),
+        data: rows.map(row => table.cells[row.key]?.[column.key] ?? missing)
+      }))
+    : [{ label: measureLabel, data: rows.map(row => table.rowTotals[row.key] ?? missing) }];
+
+  return { labels, datasets };
+}
@@ -0,0 +1,29 @@
+/**
+ * @vitest-environment jsdom
+ * @group unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import { pinColumn, orderColumnsByPin, fitColumnWidth, columnPinsToConfig, columnPinsFromConfig } from './columnLayout';
+
+describe('columnLayout', () => {
+  it('should pin, move and unpin columns', () => {
+    let pins = pinColumn({}, 'price', 'right');
+    pins = pinColumn(pins, 'name', 'left');
+    expect(orderColumnsByPin(['id', 'price', 'name', 'stock', 'sku'], pins)).toEqual(['name', 'id', 'stock', 'sku', 'price']);
+
+    pins = pinColumn(pins, 'price', 'left');
+    expect(orderColumnsByPin(['id', 'price', 'name', 'stock'], pins)).toEqual(['price', 'name', 'id', 'stock']);
+
+    pins = pinColumn(pins, 'name', null);
+    expect(pins).toEqual({ price: 'left' });
+    expect(columnPinsFromConfig(columnPinsToConfig(pins))).toEqual(pins);
+  });
+
+  it('should fit widths to the widest cell within bounds', () => {
+    expect(fitColumnWidth([80.2, 143.4, 97])).toBe('144px');
+    expect(fitColumnWidth([12])).toBe('64px');
+    expect(fitColumnWidth([1200], { max: 600 })).toBe('600px');
+    expect(fitColumnWidth([])).toBe('64px');
+  });
+});
@@ -0,0 +1,65 @@
+import type { ColumnPinConfig, ColumnPinSide } from './types';
+
+/**
+ * Pin a column to a side, or unpin it (side = null)
+ */
+export function pinColumn(
+  pins: Record<string, ColumnPinSide>,
+  field: string,
+  side: ColumnPinSide | null
+): Record<string, ColumnPinSide> {
+  const { [field]: _previous, ...rest } = pins;
+  return side ? { ...rest, [field]: side } : rest;
+}
+
+/**
+ * Display order with pinned columns moved to their edge - DataTable needs frozen columns
+ * to be contiguous at the start (left) or end (right); order within each block is kept
+ */
+export function orderColumnsByPin(fields: string[], pins: Record<string, ColumnPinSide>): string[] {
+  return [
+    ...fields.filter(field => pins[field] === 'left'),
+    ...fields.filter(field => !pins[field]),
+    ...fields.filter(field => pins[field] === 'right')
+  ];
+}
+
+export interface FitColumnOptions {
+  /** Narrowest width in px (default: 64) */
+  min?: number;
+  /** Widest width in px - long text is truncated beyond it (default: 480) */
+  max?: number;
+}
+
+/**
+ * Auto-fit width: the widest measured cell (header included), rounded up and clamped
+ */
+export function fitColumnWidth(contentWidths: number[], { min = 64, max = 480 }: FitColumnOptions = {}): string {
+  const widest = Math.ceil(Math.max(0, ...contentWidths));
+  return `${Math.min(max, Math.max(min, widest))}px`;
+}
+
+/**
+ * Width each cell needs to show its content on one line, including its horizontal padding
+ */
+export function measureCellContentWidths(cells: HTMLElement[]): number[] {
+  const range = document.createRange();
+  return cells.map(cell => {
+    const previousWhiteSpace = cell.style.whiteSpace;
+    cell.style.whiteSpace = 'nowrap';
+    range.selectNodeContents(cell);
+    const style = window.getComputedStyle(cell);
+    const width = range.getBoundingClientRect().width
+      + (parseFloat(style.paddingLeft) || 0)
+      + (parseFloat(style.paddingRight) || 0);
+    cell.style.whiteSpace = previousWhiteSpace;
+    return width;
+  });
+}
+
+// GridStateConfig stores pins as an array (like columnWidths); the grid state keeps them keyed by field
+export const columnPinsToConfig = (pins: Record<string, ColumnPinSide>): ColumnPinConfig[] =>
+  Object.entries(pins).map(([field, side]) => ({ field, side }));
+
+export const columnPinsFromConfig = (pins: ColumnPinConfig[]): Record<string, ColumnPinSide> =>
+  Object.fromEntries(pins.map(({ field, side }) => [field, side]));
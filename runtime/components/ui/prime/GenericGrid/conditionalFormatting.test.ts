@@ -0,0 +1,55 @@
+/**
+ * @vitest-environment jsdom
+ * @group unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  matchesCondition,
+  getRowFormatClassName,
+  getCellFormatClassName,
+  parseConditionalFormatMetadata,
+  describeConditionalFormat
+} from './conditionalFormatting';
+import type { ConditionalFormatRule } from './types';
+
+const row = { name: 'Apple Crisp', rating: 2, isActive: false, price: '4.50', releasedOn: '2024-03-01T00:00:00Z', sku: null };
+
+describe('conditionalFormatting', () => {
+  it('should evaluate filter operators against a row', () => {
+    expect(matchesCondition(row, { field: 'rating', operator: 'lt', value: 3 })).toBe(true);
+    expect(matchesCondition(row, { field: 'price', operator: 'gte', value: 5 })).toBe(false);
+    expect(matchesCondition(row, { field: 'isActive', operator: 'eq', value: false })).toBe(true);
+    expect(matchesCondition(row, { field: 'isActive', operator: 'in', value: [true], values: [true] })).toBe(false);
+    expect(matchesCondition(row, { field: 'name', operator: 'startsWith', value: 'apple' })).toBe(true);
+    expect(matchesCondition(row, { field: 'releasedOn', operator: 'between', value: '2024-01-01', values: ['2024-01-01', '2024-06-30'] })).toBe(true);
+    expect(matchesCondition(row, { field: 'sku', operator: 'isNull', value: null })).toBe(true);
+    expect(matchesCondition(row, { field: 'sku', operator: 'gt', value: 1 })).toBe(false);
+  });
+
+  it('should build row and cell classes from matching rules', () => {
+    const rules: ConditionalFormatRule[] = [
+      { id: '1', condition: { field: 'isActive', operator: 'eq', value: false }, target: 'row', style: 'muted' },
+      { id: '2', condition: { field: 'rating', operator: 'lt', value: 3 }, target: 'cell', style: 'danger' },
+      { id: '3', condition: { field: 'rating', operator: 'gte', value: 4 }, target: 'cell', style: 'success' },
+      { id: '4', condition: { field: 'price', operator: 'lt', value: 5 }, target: 'cell', field: 'name', style: 'bold', className: 'sale' }
+    ];
+
+    expect(getRowFormatClassName(row, rules)).toBe('text-400');
+    expect(getCellFormatClassName(row, 'rating', rules)).toBe('text-red-600 font-semibold');
+    expect(getCellFormatClassName(row, 'name', rules)).toBe('font-bold sale');
+    expect(getCellFormatClassName(row, 'price', rules)).toBe('');
+  });
+
+  it('should parse x-conditional-format metadata', () => {
+    const rules = parseConditionalFormatMetadata('rating', 'lt:3:danger; between:3|4:warning:row');
+    expect(rules).toEqual([
+      { id: 'schema-rating-0', condition: { field: 'rating', operator: 'lt', value: 3, values: undefined }, target: 'cell', style: 'danger', source: 'schema' },
+      { id: 'schema-rating-1', condition: { field: 'rating', operator: 'between', value: undefined, values: [3, 4] }, target: 'row', style: 'warning', source: 'schema' }
+    ]);
+    expect(parseConditionalFormatMetadata('isActive', { operator: 'eq', value: false, style: 'muted', target: 'row' })[0].target).toBe('row');
+    expect(parseConditionalFormatMetadata('rating', 'lt:3:purple')).toEqual([]);
+
+    expect(describeConditionalFormat(rules[0], () => 'Rating')).toBe('Rating less than 3 → Red (cell)');
+  });
+});
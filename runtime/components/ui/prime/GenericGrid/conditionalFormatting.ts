@@ -0,0 +1,194 @@
+import type { ConditionalFormatRule, ConditionalFormatStyle, FilterOperation, FilterOperator } from './types';
+import { FILTER_OPERATOR_LABELS, isListOperator, isValuelessOperator } from './filterOperations';
+
+/**
+ * PrimeFlex classes per preset style - rows get a background, cells a text color
+ */
+export const CONDITIONAL_FORMAT_STYLES: Record<ConditionalFormatStyle, { label: string; rowClassName: string; cellClassName: string }> = {
+  highlight: { label: 'Highlight', rowClassName: 'bg-yellow-50', cellClassName: 'bg-yellow-100' },
+  success: { label: 'Green', rowClassName: 'bg-green-50', cellClassName: 'text-green-700 font-semibold' },
+  warning: { label: 'Orange', rowClassName: 'bg-orange-50', cellClassName: 'text-orange-700 font-semibold' },
+  danger: { label: 'Red', rowClassName: 'bg-red-50', cellClassName: 'text-red-600 font-semibold' },
+  muted: { label: 'Muted', rowClassName: 'text-400', cellClassName: 'text-400' },
+  bold: { label: 'Bold', rowClassName: 'font-bold', cellClassName: 'font-bold' }
+};
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+// Numbers and ISO dates compare as numbers; everything else as case-insensitive text
+const toComparable = (value: unknown): number | string => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.getTime();
+  const text = String(value).trim();
+  if (text !== '' && !isNaN(Number(text))) return Number(text);
+  if (text === 'true' || text === 'false') return text === 'true' ? 1 : 0;
+  if (/^\d{4}-\d{2}-\d{2}/.test(text) && !isNaN(Date.parse(text))) return Date.parse(text);
+  return text.toLowerCase();
+};
+
+const compare = (left: unknown, right: unknown): number => {
+  const a = toComparable(left);
+  const b = toComparable(right);
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+};
+
+const listValues = (condition: FilterOperation): unknown[] =>
+  condition.values ?? (Array.isArray(condition.value) ? condition.value : [condition.value]);
+
+/**
+ * Evaluate a filter condition against one row (client-side counterpart of buildFilterParameter)
+ */
+export function matchesCondition(row: Record<string, any>, condition: FilterOperation): boolean {
+  const value = row[condition.field];
+
+  switch (condition.operator) {
+    case 'isNull':
+      return isEmpty(value);
+    case 'isNotNull':
+      return !isEmpty(value);
+    case 'in':
+      return !isEmpty(value) && listValues(condition).some(option => compare(value, option) === 0);
+    case 'notIn':
+      return !listValues(condition).some(option => compare(value, option) === 0);
+    case 'between': {
+      const [from, to] = condition.values ?? [];
+      if (isEmpty(value)) return false;
+      return (isEmpty(from) || compare(value, from) >= 0) && (isEmpty(to) || compare(value, to) <= 0);
+    }
+    case 'contains':
+    case 'startsWith':
+    case 'endsWith': {
+      if (isEmpty(value) || isEmpty(condition.value)) return false;
+      const text = String(value).toLowerCase();
+      const term = String(condition.value).toLowerCase();
+      return condition.operator === 'contains' ? text.includes(term)
+        : condition.operator === 'startsWith' ? text.startsWith(term)
+        : text.endsWith(term);
+    }
+    case 'eq':
+      return isEmpty(value) ? isEmpty(condition.value) : compare(value, condition.value) === 0;
+    case 'neq':
+      return isEmpty(value) ? !isEmpty(condition.value) : compare(value, condition.value) !== 0;
+    default: {
+      // gt, gte, lt, lte
+      if (isEmpty(value) || isEmpty(condition.value)) return false;
+      const difference = compare(value, condition.value);
+      return condition.operator === 'gt' ? difference > 0
+        : condition.operator === 'gte' ? difference >= 0
+        : condition.operator === 'lt' ? difference < 0
+        : difference <= 0;
+    }
+  }
+}
+
+const ruleClassName = (rule: ConditionalFormatRule) => {
+  const preset = CONDITIONAL_FORMAT_STYLES[rule.style];
+  return [rule.target === 'row' ? preset?.rowClassName : preset?.cellClassName, rule.className].filter(Boolean).join(' ');
+};
+
+/**
+ * Classes for a row from the matching 'row' rules (later rules win where classes conflict)
+ */
+export function getRowFormatClassName(row: Record<string, any>, rules: ConditionalFormatRule[]): string {
+  return rules
+    .filter(rule => rule.target === 'row' && matchesCondition(row, rule.condition))
+    .map(ruleClassName)
+    .join(' ');
+}
+
+/**
+ * Classes for one cell from the matching 'cell' rules that target its field
+ */
+export function getCellFormatClassName(row: Record<string, any>, field: string, rules: ConditionalFormatRule[]): string {
+  return rules
+    .filter(rule => rule.target === 'cell' && (rule.field ?? rule.condition.field) === field && matchesCondition(row, rule.condition))
+    .map(ruleClassName)
+    .join(' ');
+}
+
+/**
+ * New user rule with a unique id
+ */
+export function createConditionalFormatRule(
+  condition: FilterOperation,
+  style: ConditionalFormatStyle,
+  target: ConditionalFormatRule['target'],
+  field?: string
+): ConditionalFormatRule {
+  return {
+    id: `format-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+    condition,
+    target,
+    // The condition can use a related key field (e.g. manufacturerId for manufacturerName) - style the chosen column
+    ...(field && field !== condition.field ? { field } : {}),
+    style,
+    source: 'user'
+  };
+}
+
+const VALID_OPERATORS = new Set(Object.keys(FILTER_OPERATOR_LABELS));
+const VALID_STYLES = new Set(Object.keys(CONDITIONAL_FORMAT_STYLES));
+
+// 'true'/'false' and numbers from compact metadata strings
+const parseMetadataValue = (text: string): unknown => {
+  const trimmed = text.trim();
+  if (trimmed === 'true' || trimmed === 'false') return trimmed === 'true';
+  if (trimmed !== '' && !isNaN(Number(trimmed))) return Number(trimmed);
+  return trimmed;
+};
+
+/**
+ * Parse x-conditional-format metadata for one field
+ * - compact string 'operator:value:style[:row]', several separated by ';' - list values use '|'
+ *   e.g. 'lt:3:danger', 'eq:false:muted:row', 'between:1|5:warning'
+ * - or an object / array of objects { operator, value?, values?, style, target? }
+ */
+export function parseConditionalFormatMetadata(field: string, value: unknown): ConditionalFormatRule[] {
+  if (value === undefined || value === null || value === '') return [];
+
+  const entries: { operator?: unknown; value?: unknown; values?: unknown; style?: unknown; target?: unknown }[] =
+    typeof value === 'string'
+      ? value.split(';').filter(part => part.trim()).map(part => {
+          const [operator, operand = '', style, target] = part.split(':').map(piece => piece.trim());
+          const operands = operand.split('|').map(parseMetadataValue);
+          const multiple = isListOperator(operator as FilterOperator) || operator === 'between';
+          return { operator, value: multiple ? undefined : operands[0], values: multiple ? operands : undefined, style, target };
+        })
+      : (Array.isArray(value) ? value : [value]);
+
+  return entries.flatMap((entry, index): ConditionalFormatRule[] => {
+    const operator = String(entry.operator ?? '');
+    const style = String(entry.style ?? '');
+    if (!VALID_OPERATORS.has(operator) || !VALID_STYLES.has(style)) {
+      console.warn(`⚠️ [conditionalFormatting] Ignoring invalid x-conditional-format on ${field}:`, entry);
+      return [];
+    }
+    return [{
+      id: `schema-${field}-${index}`,
+      condition: {
+        field,
+        operator: operator as FilterOperator,
+        value: isValuelessOperator(operator as FilterOperator) ? null : entry.value,
+        values: Array.isArray(entry.values) ? entry.values : undefined
+      },
+      target: entry.target === 'row' ? 'row' : 'cell',
+      style: style as ConditionalFormatStyle,
+      source: 'schema'
+    }];
+  });
+}
+
+/**
+ * Short description for rule lists, e.g. 'Rating less than 3 → Red (cell)'
+ */
+export function describeConditionalFormat(rule: ConditionalFormatRule, getLabel: (field: string) => string = field => field): string {
+  const { field, operator, value, values } = rule.condition;
+  const operand = isValuelessOperator(operator) ? ''
+    : operator === 'between' ? ` ${(values ?? []).join(' and ')}`
+    : isListOperator(operator) ? ` ${listValues(rule.condition).join(', ')}`
+    : ` ${value}`;
+  const styleLabel = CONDITIONAL_FORMAT_STYLES[rule.style]?.label ?? rule.style;
+  return `${getLabel(field)} ${FILTER_OPERATOR_LABELS[operator].toLowerCase()}${operand} → ${styleLabel} (${rule.target})`;
+}
@@ -0,0 +1,96 @@
+/**
+ * @vitest-environment jsdom
+ * @group unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fromDefinedFilterState, toDefinedFilterState } from './definedFilterState';
+import type { ConditionalFormatRule, GridChartConfig } from './types';
+
+describe('definedFilterState', () => {
+  it('should save the grid state with the original keys and without the selection', () => {
+    const state = toDefinedFilterState({
+      searchQuery: {},
+      globalSearch: { searchTerm: 'acme', searchType: 'startsWith' },
+      activeFilters: [{ field: 'isActive', operator: 'eq', value: true }],
+      activeSorts: [{ field: 'name', direction: 'asc', priority: 0 }],
+      columnWidths: [{ field: 'name', width: '240px' }],
+      columnPins: [{ field: 'name', side: 'left' }],
+      selectedRowIds: [1, 2],
+      calendar: 'week'
+    });
+
+    expect(state).not.toHaveProperty('selectedRowIds');
+    expect(state).toMatchObject({
+      searchTerm: 'acme',
+      filters: [{ field: 'isActive', operator: 'eq', value: true }],
+      orderBy: [{ field: 'name', direction: 'asc', priority: 0 }],
+      columnWidths: [{ field: 'name', width: '240px' }],
+      columnPins: [{ field: 'name', side: 'left' }],
+      calendar: 'week'
+    });
+  });
+
+  it('should restore widths, pins and views and reset what the filter leaves out', () => {
+    const restored = fromDefinedFilterState(JSON.parse(JSON.stringify(toDefinedFilterState({
+      searchQuery: {},
+      globalSearch: { searchTerm: 'acme', searchType: 'startsWith' },
+      columnWidths: [{ field: 'name', width: '240px' }],
+      columnPins: [{ field: 'code', side: 'right' }],
+      pivot: { rowFields: ['manufacturerId'], columnFields: [], measure: null, aggregate: 'count' },
+      board: false
+    }))));
+
+    expect(restored).toMatchObject({
+      globalSearch: { searchTerm: 'acme', searchType: 'startsWith' },
+      activeFilters: [],
+      activeSorts: [],
+      filterGroup: null,
+      groupBy: null,
+      columnWidths: [{ field: 'name', width: '240px' }],
+      columnPins: [{ field: 'code', side: 'right' }],
+      pivot: { rowFields: ['manufacturerId'], columnFields: [], measure: null, aggregate: 'count' },
+      board: false,
+      calendar: null
+    });
+  });
+
+  it('should read filters saved with the original keys only', () => {
+    const restored = fromDefinedFilterState({
+      searchTerm: 'bolt',
+      filters: [{ field: 'unitPrice', operator: 'gt', value: 5 }],
+      orderBy: [{ field: 'unitPrice', direction: 'desc', priority: 0 }],
+      visibleColumns: ['name', 'unitPrice']
+    });
+
+    expect(restored).toMatchObject({
+      globalSearch: { searchTerm: 'bolt', searchType: 'contains' },
+      activeFilters: [{ field: 'unitPrice', operator: 'gt', value: 5 }],
+      activeSorts: [{ field: 'unitPrice', direction: 'desc', priority: 0 }],
+      visibleColumns: ['name', 'unitPrice']
+    });
+    // Search, widths and formats are kept when the filter does not save them
+    expect(fromDefinedFilterState({}).globalSearch).toBeUndefined();
+    expect(fromDefinedFilterState({}).columnWidths).toBeUndefined();
+    expect(fromDefinedFilterState({}).conditionalFormats).toBeUndefined();
+  });
+
+  it('should open the chart the filter was saved with', () => {
+    const chart: GridChartConfig = { type: 'bar', xField: 'manufacturerId', measure: 'unitPrice', aggregate: 'sum' };
+
+    expect(fromDefinedFilterState(JSON.parse(JSON.stringify(toDefinedFilterState({ searchQuery: {}, chart })))).chart).toEqual(chart);
+    // Filters saved without a chart close the panel
+    expect(fromDefinedFilterState({ filters: [] }).chart).toBeNull();
+  });
+
+  it('should restore the user formatting rules', () => {
+    const rule: ConditionalFormatRule = { id: 'low', condition: { field: 'rating', operator: 'lt', value: 3 }, target: 'cell', style: 'danger', source: 'user' };
+
+    const restored = fromDefinedFilterState(JSON.parse(JSON.stringify(toDefinedFilterState({
+      searchQuery: {},
+      conditionalFormats: [rule]
+    }))));
+
+    expect(restored.conditionalFormats).toEqual([rule]);
+  });
+});
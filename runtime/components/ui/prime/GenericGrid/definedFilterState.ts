@@ -0,0 +1,54 @@
+import type { FilterOperation, GridStateConfig, OrderByConfig } from './types';
+
+/**
+ * State JSON of a DefinedFilter - the grid state plus the keys filters saved before GridStateConfig use
+ * (searchTerm, filters, orderBy)
+ */
+export type DefinedFilterState<TSearchQuery = any> = Partial<GridStateConfig<TSearchQuery>> & {
+  searchTerm?: string;
+  filters?: FilterOperation[];
+  orderBy?: OrderByConfig[];
+};
+
+/**
+ * State handed to the DefinedFilter component for saving - selection is not part of a filter
+ */
+export function toDefinedFilterState<TSearchQuery>(gridState: GridStateConfig<TSearchQuery>): GridStateConfig<TSearchQuery> & DefinedFilterState<TSearchQuery> {
+  const { selectedRowIds: _selection, ...state } = gridState;
+  return {
+    ...state,
+    searchTerm: gridState.globalSearch?.searchTerm ?? '',
+    filters: gridState.activeFilters ?? [],
+    orderBy: gridState.activeSorts ?? []
+  };
+}
+
+/**
+ * Grid state to restore from a DefinedFilter - applied with restoreGridState like a saved view
+ * Filters, sorts, the filter tree, grouping, the chart and the pivot/board/calendar views reset when the filter leaves
+ * them out; the search, columns, widths, pins, formatting rules and layout are kept
+ */
+export function fromDefinedFilterState<TSearchQuery>(state: DefinedFilterState<TSearchQuery>): GridStateConfig<TSearchQuery> {
+  const globalSearch = state.globalSearch
+    ?? (state.searchTerm !== undefined ? { searchTerm: state.searchTerm || '', searchType: 'contains' as const } : undefined);
+  return {
+    searchQuery: state.searchQuery ?? {},
+    globalSearch,
+    activeFilters: state.activeFilters ?? state.filters ?? [],
+    activeSorts: state.activeSorts ?? state.orderBy ?? [],
+    filterGroup: state.filterGroup ?? null,
+    groupBy: state.groupBy ?? null,
+    visibleColumns: state.visibleColumns,
+    columnOrder: state.columnOrder,
+    columnWidths: state.columnWidths,
+    columnPins: state.columnPins,
+    conditionalFormats: state.conditionalFormats,
+    pageSize: state.pageSize,
+    aggregates: state.aggregates,
+    pivot: state.pivot ?? null,
+    chart: state.chart ?? null,
+    board: state.board ?? false,
+    calendar: state.calendar ?? null,
+    layout: state.layout
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * @vitest-environment jsdom
+ * @group unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { getModelName, findParentForeignKey, getParentReferenceFields, buildDetailFilter } from './detailRelations';
+
+const schoolSchema = z.object({
+  schoolId: z.number().meta({ 'x-navigation-key': true }),
+  schoolName: z.string(),
+  districtId: z.number().meta({ 'x-navigation-target': 'GreenOnion.Common.Models.QuerySchoolDistrictModel' }),
+  districtName: z.string().meta({ 'x-navigation-relation': 'districtId' }),
+  stateId: z.number().meta({ 'x-navigation-target': 'GreenOnion.Common.Models.QueryStateModel' })
+});
+
+describe('detailRelations', () => {
+  it('should normalize model and interface names', () => {
+    expect(getModelName('GreenOnion.Common.Models.QuerySchoolDistrictModel')).toBe('QuerySchoolDistrictModel');
+    expect(getModelName('IQuerySchoolDistrictModel')).toBe('QuerySchoolDistrictModel');
+    expect(getModelName('QuerySchoolDistrictModel')).toBe('QuerySchoolDistrictModel');
+  });
+
+  it('should find the child field that references the parent', () => {
+    expect(findParentForeignKey(schoolSchema, 'GreenOnion.Common.Models.QuerySchoolDistrictModel')).toBe('districtId');
+    expect(findParentForeignKey(schoolSchema, 'IQueryStateModel')).toBe('stateId');
+    expect(findParentForeignKey(schoolSchema, 'QueryProductModel')).toBeUndefined();
+
+    const ambiguous = schoolSchema.extend({
+      coopId: z.number().meta({ 'x-navigation-target': 'GreenOnion.Common.Models.QuerySchoolDistrictModel' })
+    });
+    expect(findParentForeignKey(ambiguous, 'QuerySchoolDistrictModel')).toBeUndefined();
+  });
+
+  it('should list parent reference fields and build the child filter', () => {
+    expect(getParentReferenceFields(schoolSchema, 'districtId')).toEqual(['districtId', 'districtName']);
+    expect(buildDetailFilter('districtId', 42)).toEqual({ districtId: { eq: 42 } });
+  });
+});
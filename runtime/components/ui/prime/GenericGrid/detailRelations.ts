@@ -0,0 +1,51 @@
+import type { z } from 'zod';
+import { extractZodFields, getRelatedModelInfo, getSchemaMetadata } from '@/utils/zodSchemaHelper';
+
+/**
+ * Model name without namespace ('GreenOnion.Common.Models.QuerySchoolDistrictModel' -> 'QuerySchoolDistrictModel')
+ * Interface names ('IQuerySchoolDistrictModel') resolve to the same model name
+ */
+export function getModelName(name: string): string {
+  const model = name.split('.').pop() || name;
+  return /^I[A-Z]/.test(model) ? model.slice(1) : model;
+}
+
+/**
+ * Find the child field that points back at the parent model (x-navigation-target)
+ * e.g. ZQuerySchoolModel.districtId -> QuerySchoolDistrictModel
+ * Returns undefined when the child has no (or more than one) navigation field to the parent
+ */
+export function findParentForeignKey(childSchema: z.ZodObject<any>, parentModel: string): string | undefined {
+  const metadata = getSchemaMetadata(childSchema);
+  const parentName = getModelName(parentModel);
+
+  const matches = Object.keys(metadata.navigationTargets).filter(fieldName => {
+    const { targetModel, isNavigation } = getRelatedModelInfo(fieldName, metadata);
+    return isNavigation && !!targetModel && getModelName(targetModel) === parentName;
+  });
+
+  if (matches.length > 1) {
+    console.warn(`⚠️ [detailRelations] Several fields reference ${parentName} (${matches.join(', ')}) - set foreignKey explicitly`);
+    return undefined;
+  }
+  return matches[0];
+}
+
+/**
+ * Fields that only repeat the parent in a child grid - the foreign key and its display relation
+ */
+export function getParentReferenceFields(childSchema: z.ZodObject<any>, foreignKey: string): string[] {
+  return [
+    foreignKey,
+    ...extractZodFields(childSchema)
+      .filter(field => field.metadata['x-navigation-relation'] === foreignKey)
+      .map(field => field.name)
+  ];
+}
+
+/**
+ * Filter that limits the child query to the parent row
+ */
+export function buildDetailFilter(foreignKey: string, parentValue: unknown): Record<string, { eq: unknown }> {
+  return { [foreignKey]: { eq: parentValue } };
+}
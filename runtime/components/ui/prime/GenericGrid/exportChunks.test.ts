@@ -0,0 +1,71 @@
+/**
+ * @vitest-environment jsdom
+ * @group unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readExportChunks, ExportCancelledError } from './exportChunks';
+import type { ExportChunkFetcher, ExportProgress } from './exportChunks';
+
+// Serves 0..total-1 as rows, honouring page/pageSize like the API
+const createFetcher = (total: number, requests: number[] = []): ExportChunkFetcher =>
+  async (page, pageSize) => {
+    requests.push(page);
+    const start = page * pageSize;
+    const rows = Array.from({ length: Math.max(0, Math.min(pageSize, total - start)) }, (_, i) => ({ id: start + i }));
+    return { rows, totalRowCount: page === 0 ? total : 0 };
+  };
+
+const collect = async (iterator: AsyncGenerator<Record<string, any>[]>) => {
+  const chunks: Record<string, any>[][] = [];
+  for await (const chunk of iterator) chunks.push(chunk);
+  return chunks;
+};
+
+describe('exportChunks', () => {
+  it('should page through the data until a short page', async () => {
+    const progress: ExportProgress[] = [];
+    const chunks = await collect(readExportChunks(createFetcher(25), {
+      chunkSize: 10,
+      maxRecords: 1000,
+      onProgress: p => progress.push(p)
+    }));
+
+    expect(chunks.map(c => c.length)).toEqual([10, 10, 5]);
+    expect(progress[progress.length - 1]).toEqual({ exported: 25, total: 25 });
+  });
+
+  it('should stop at maxRecords', async () => {
+    const requests: number[] = [];
+    const chunks = await collect(readExportChunks(createFetcher(100, requests), { chunkSize: 10, maxRecords: 15 }));
+
+    expect(chunks.flat()).toHaveLength(15);
+    expect(requests).toEqual([0, 1]);
+  });
+
+  it('should throw when cancelled', async () => {
+    const controller = new AbortController();
+    const iterator = readExportChunks(createFetcher(100), {
+      chunkSize: 10,
+      maxRecords: 100,
+      signal: controller.signal
+    });
+
+    await iterator.next();
+    controller.abort();
+
+    await expect(iterator.next()).rejects.toBeInstanceOf(ExportCancelledError);
+  });
+
+  it('should abort the request in flight when cancelled', async () => {
+    const controller = new AbortController();
+    // Rejects like fetch does once its signal aborts
+    const fetcher: ExportChunkFetcher = (_page, _pageSize, signal) => new Promise((_, reject) => {
+      signal!.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    });
+    const pending = readExportChunks(fetcher, { chunkSize: 10, maxRecords: 100, signal: controller.signal }).next();
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(ExportCancelledError);
+  });
+});
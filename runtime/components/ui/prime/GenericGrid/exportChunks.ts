@@ -0,0 +1,83 @@
+/**
+ * Thrown when the user cancels a running export
+ */
+export class ExportCancelledError extends Error {
+  constructor() {
+    super('Export cancelled');
+    this.name = 'ExportCancelledError';
+  }
+}
+
+/**
+ * Progress reported after each chunk
+ */
+export interface ExportProgress {
+  exported: number;
+  /** Total matching rows (capped at maxRecords) when the server reports a count */
+  total?: number;
+}
+
+/**
+ * Fetches one page of export data (0-based page) - signal aborts the request when the export is cancelled
+ */
+export type ExportChunkFetcher = (
+  page: number,
+  pageSize: number,
+  signal?: AbortSignal
+) => Promise<{ rows?: any[]; totalRowCount?: number }>;
+
+/**
+ * Await a request made with the signal - its abort error becomes ExportCancelledError
+ */
+export async function awaitUnlessCancelled<T>(request: Promise<T>, signal?: AbortSignal): Promise<T> {
+  try {
+    return await request;
+  } catch (error) {
+    if (signal?.aborted) throw new ExportCancelledError();
+    throw error;
+  }
+}
+
+export interface ExportChunkOptions {
+  /** Rows per request (default: 1000) */
+  chunkSize?: number;
+  /** Stop after this many rows */
+  maxRecords: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+/**
+ * Page through export data one chunk at a time
+ * Stops on a short page, at maxRecords, or throws ExportCancelledError when the signal aborts
+ */
+export async function* readExportChunks(
+  fetchChunk: ExportChunkFetcher,
+  { chunkSize = 1000, maxRecords, signal, onProgress }: ExportChunkOptions
+): AsyncGenerator<Record<string, any>[]> {
+  let page = 0;
+  let exported = 0;
+  let total: number | undefined;
+
+  while (exported < maxRecords) {
+    if (signal?.aborted) throw new ExportCancelledError();
+
+    // Page numbers assume a constant page size - the last chunk is trimmed to maxRecords instead
+    const response = await awaitUnlessCancelled(fetchChunk(page, chunkSize, signal), signal);
+    if (signal?.aborted) throw new ExportCancelledError();
+
+    const pageRows = response.rows || [];
+    const rows = pageRows.slice(0, maxRecords - exported);
+    if (page === 0 && response.totalRowCount) {
+      total = Math.min(response.totalRowCount, maxRecords);
+    }
+    if (rows.length === 0) break;
+
+    exported += rows.length;
+    onProgress?.({ exported, total });
+    yield rows;
+
+    if (pageRows.length < chunkSize) break;
+    page++;
+  }
+}
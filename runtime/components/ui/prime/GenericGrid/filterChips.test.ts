@@ -0,0 +1,58 @@
+/**
+ * @vitest-environment jsdom
+ * @group unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildFilterChips, describeFilterOperation } from './filterChips';
+import type { FilterChipContext } from './filterChips';
+
+const context: FilterChipContext = {
+  headers: { manufacturerId: 'Manufacturer', unitPrice: 'Price', name: 'Name', code: 'Code', isActive: 'Active' },
+  dateFields: ['releasedOn'],
+  valueLabels: { manufacturerId: { 7: 'Acme', 8: 'Globex' } }
+};
+
+describe('filterChips', () => {
+  it('should describe filters in plain language', () => {
+    expect(describeFilterOperation({ field: 'manufacturerId', operator: 'in', value: null, values: [7, 8] }, context))
+      .toBe('Manufacturer is Acme or Globex');
+    expect(describeFilterOperation({ field: 'manufacturerId', operator: 'notIn', value: null, values: [7, 8, 9, 10, 11] }, context))
+      .toBe('Manufacturer is none of Acme, Globex, 9 and 2 more');
+    expect(describeFilterOperation({ field: 'unitPrice', operator: 'between', value: null, values: [5, 10] }, context))
+      .toBe('Price is between 5 and 10');
+    expect(describeFilterOperation({ field: 'unitPrice', operator: 'gte', value: 5 }, context)).toBe('Price is at least 5');
+    expect(describeFilterOperation({ field: 'name', operator: 'startsWith', value: 'tea' }, context)).toBe('Name starts with "tea"');
+    expect(describeFilterOperation({ field: 'isActive', operator: 'in', value: true, values: [true] }, context)).toBe('Active is Yes');
+    expect(describeFilterOperation({ field: 'discontinuedOn', operator: 'isNull', value: null }, context)).toBe('discontinuedOn is empty');
+    expect(describeFilterOperation({ field: 'releasedOn', operator: 'lt', value: '2026-03-01' }, context))
+      .toBe(`releasedOn is before ${new Date(2026, 2, 1).toLocaleDateString()}`);
+  });
+
+  it('should list the search, filters, filter tree and sorts', () => {
+    const chips = buildFilterChips({
+      globalSearch: { searchTerm: ' tea ', searchType: 'contains', searchFields: ['name', 'code'] },
+      activeFilters: [{ field: 'manufacturerId', operator: 'in', value: null, values: [7] }],
+      filterGroup: {
+        id: 'root',
+        logic: 'or',
+        conditions: [{ field: 'unitPrice', operator: 'gt', value: 5 }, { field: 'isActive', operator: 'in', value: null, values: [false] }]
+      },
+      activeSorts: [{ field: 'unitPrice', direction: 'desc', priority: 1 }, { field: 'name', direction: 'asc', priority: 0 }]
+    }, context);
+
+    expect(chips.map(chip => [chip.key, chip.label])).toEqual([
+      ['search', 'Name or Code contains "tea"'],
+      ['filter:manufacturerId', 'Manufacturer is Acme'],
+      ['group', 'Advanced filter (2 conditions)'],
+      ['sort:name', 'Sorted by Name, ascending'],
+      ['sort:unitPrice', 'then by Price, descending']
+    ]);
+    expect(buildFilterChips({
+      globalSearch: { searchTerm: '  ', searchType: 'contains' },
+      activeFilters: [],
+      filterGroup: null,
+      activeSorts: []
+    }, context)).toEqual([]);
+  });
+});
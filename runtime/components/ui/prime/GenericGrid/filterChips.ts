@@ -0,0 +1,141 @@
+import type { FilterGroup, FilterOperation, GlobalSearchConfig, OrderByConfig } from './types';
+import { flattenFilterGroup, isListOperator, isValuelessOperator } from './filterOperations';
+import { parseCalendarDate } from './calendarOperations';
+
+/**
+ * One entry of the active filter chips bar - key is stable per search, column filter, filter tree or sort
+ */
+export interface FilterChip {
+  key: string;
+  kind: 'search' | 'filter' | 'group' | 'sort';
+  label: string;
+  /** Filtered or sorted field (filter and sort chips) */
+  field?: string;
+}
+
+/**
+ * What chip labels are written with
+ */
+export interface FilterChipContext {
+  /** field -> column header (fields without one are shown by name) */
+  headers: Record<string, string>;
+  /** Fields whose values are shown as dates */
+  dateFields?: string[];
+  /** field -> value -> display text, e.g. navigation ids resolved through the combobox lookups */
+  valueLabels?: Record<string, Record<string, string>>;
+}
+
+const MAX_LISTED_VALUES = 3;
+
+const SEARCH_TYPE_PHRASES: Record<GlobalSearchConfig['searchType'], string> = {
+  contains: 'contains',
+  startsWith: 'starts with',
+  endsWith: 'ends with',
+  equals: 'is'
+};
+
+const headerOf = (field: string, { headers }: FilterChipContext) => headers[field] ?? field;
+
+// 'A', 'A or B', 'A, B or C', 'A, B, C or 2 more'
+const joinValues = (values: string[], conjunction: string) => {
+  if (values.length <= 1) return values[0] ?? '';
+  if (values.length > MAX_LISTED_VALUES + 1) {
+    return `${values.slice(0, MAX_LISTED_VALUES).join(', ')} ${conjunction} ${values.length - MAX_LISTED_VALUES} more`;
+  }
+  return `${values.slice(0, -1).join(', ')} ${conjunction} ${values[values.length - 1]}`;
+};
+
+/**
+ * Display text of a filter value - lookup labels first, then Yes/No for booleans and local dates for date fields
+ */
+export function formatFilterChipValue(field: string, value: unknown, context: FilterChipContext): string {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  const label = context.valueLabels?.[field]?.[String(value)];
+  if (label !== undefined) return label;
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (value instanceof Date || context.dateFields?.includes(field)) {
+    const date = parseCalendarDate(value);
+    if (date) return date.toLocaleDateString();
+  }
+  return String(value);
+}
+
+/**
+ * Plain-language summary of a column filter, e.g. 'Manufacturer is Acme or Globex', 'Price is between 5 and 10'
+ */
+export function describeFilterOperation(filter: FilterOperation, context: FilterChipContext): string {
+  const header = headerOf(filter.field, context);
+  const isDate = !!context.dateFields?.includes(filter.field);
+  const format = (value: unknown) => formatFilterChipValue(filter.field, value, context);
+
+  if (isValuelessOperator(filter.operator)) {
+    return `${header} ${filter.operator === 'isNull' ? 'is empty' : 'is not empty'}`;
+  }
+  if (isListOperator(filter.operator)) {
+    const values = (filter.values ?? (Array.isArray(filter.value) ? filter.value : [filter.value])).map(format);
+    if (filter.operator === 'in') return `${header} is ${joinValues(values, 'or')}`;
+    return values.length === 1 ? `${header} is not ${values[0]}` : `${header} is none of ${joinValues(values, 'and')}`;
+  }
+
+  const value = format(filter.value);
+  switch (filter.operator) {
+    case 'eq': return `${header} is ${value}`;
+    case 'neq': return `${header} is not ${value}`;
+    case 'gt': return `${header} ${isDate ? 'is after' : 'is more than'} ${value}`;
+    case 'gte': return `${header} ${isDate ? 'is on or after' : 'is at least'} ${value}`;
+    case 'lt': return `${header} ${isDate ? 'is before' : 'is less than'} ${value}`;
+    case 'lte': return `${header} ${isDate ? 'is on or before' : 'is at most'} ${value}`;
+    case 'contains': return `${header} contains "${value}"`;
+    case 'startsWith': return `${header} starts with "${value}"`;
+    case 'endsWith': return `${header} ends with "${value}"`;
+    case 'between': {
+      const [from, to] = filter.values ?? [];
+      return `${header} is between ${format(from)} and ${format(to)}`;
+    }
+    default: return `${header} ${filter.operator} ${value}`;
+  }
+}
+
+/**
+ * Chips for the search term, each column filter, the sidebar's filter tree and each sort, in that order
+ */
+export function buildFilterChips(
+  state: {
+    globalSearch: GlobalSearchConfig;
+    activeFilters: FilterOperation[];
+    filterGroup?: FilterGroup | null;
+    activeSorts: OrderByConfig[];
+  },
+  context: FilterChipContext
+): FilterChip[] {
+  const chips: FilterChip[] = [];
+  const { searchTerm, searchType, searchFields = [] } = state.globalSearch;
+
+  if (searchTerm.trim()) {
+    const searched = searchFields.length > 0
+      ? joinValues(searchFields.map(field => headerOf(field, context)), 'or')
+      : 'Search';
+    chips.push({ key: 'search', kind: 'search', label: `${searched} ${SEARCH_TYPE_PHRASES[searchType]} "${searchTerm.trim()}"` });
+  }
+
+  state.activeFilters.forEach(filter => chips.push({
+    key: `filter:${filter.field}`,
+    kind: 'filter',
+    label: describeFilterOperation(filter, context),
+    field: filter.field
+  }));
+
+  const conditions = flattenFilterGroup(state.filterGroup).length;
+  if (conditions > 0) {
+    chips.push({ key: 'group', kind: 'group', label: `Advanced filter (${conditions} ${conditions === 1 ? 'condition' : 'conditions'})` });
+  }
+
+  [...state.activeSorts].sort((a, b) => a.priority - b.priority).forEach((sort, index) => chips.push({
+    key: `sort:${sort.field}`,
+    kind: 'sort',
+    label: `${index === 0 ? 'Sorted by' : 'then by'} ${headerOf(sort.field, context)}, ${sort.direction === 'asc' ? 'ascending' : 'descending'}`,
+    field: sort.field
+  }));
+
+  return chips;
+}
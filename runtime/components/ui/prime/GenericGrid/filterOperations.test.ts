@@ -0,0 +1,112 @@
+/**
+ * @vitest-environment jsdom
+ * @group unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildFilterParameter,
+  buildFilterFromOperations,
+  buildFilterFromGroup,
+  flattenFilterGroup,
+  getOperatorsForFieldType
+} from './filterOperations';
+import type { FilterGroup } from './types';
+
+describe('filterOperations', () => {
+  it('should translate text operators', () => {
+    expect(buildFilterParameter({ field: 'name', operator: 'contains', value: 'acme' })).toEqual({ contains: 'acme' });
+    expect(buildFilterParameter({ field: 'name', operator: 'startsWith', value: 'ac' })).toEqual({ startsWith: 'ac' });
+    expect(buildFilterParameter({ field: 'name', operator: 'endsWith', value: 'me' })).toEqual({ endsWith: 'me' });
+  });
+
+  it('should translate between into gte/lte', () => {
+    const result = buildFilterParameter({ field: 'price', operator: 'between', value: 5, values: [5, 10] });
+
+    expect(result).toEqual({ gte: 5, lte: 10 });
+  });
+
+  it('should allow open-ended between ranges', () => {
+    const result = buildFilterParameter({ field: 'price', operator: 'between', value: undefined, values: [undefined, 10] });
+
+    expect(result).toEqual({ lte: 10 });
+  });
+
+  it('should translate null checks', () => {
+    expect(buildFilterParameter({ field: 'manufacturerId', operator: 'isNull', value: null })).toEqual({ eq: null });
+    expect(buildFilterParameter({ field: 'manufacturerId', operator: 'isNotNull', value: null })).toEqual({ neq: null });
+  });
+
+  it('should translate list operators', () => {
+    expect(buildFilterParameter({ field: 'stateId', operator: 'in', value: [1, 2], values: [1, 2] })).toEqual({ in: [1, 2] });
+    expect(buildFilterParameter({ field: 'stateId', operator: 'notIn', value: 3, values: [3] })).toEqual({ notIn: [3] });
+  });
+
+  it('should skip operations without a value', () => {
+    expect(buildFilterParameter({ field: 'name', operator: 'eq', value: '' })).toBeUndefined();
+    expect(buildFilterFromOperations([{ field: 'name', operator: 'eq', value: '' }])).toBeUndefined();
+  });
+
+  it('should merge operations on the same field', () => {
+    const result = buildFilterFromOperations([
+      { field: 'rating', operator: 'gte', value: 3 },
+      { field: 'rating', operator: 'lt', value: 5 },
+      { field: 'isActive', operator: 'in', value: true, values: [true] }
+    ]);
+
+    expect(result).toEqual({
+      rating: { gte: 3, lt: 5 },
+      isActive: { in: [true] }
+    });
+  });
+
+  it('should keep both conditions when the same operator repeats on a field', () => {
+    const result = buildFilterFromOperations([
+      { field: 'name', operator: 'contains', value: 'farm' },
+      { field: 'name', operator: 'contains', value: 'fresh' }
+    ]);
+
+    expect(result).toEqual({
+      and: [
+        { name: { contains: 'farm' } },
+        { name: { contains: 'fresh' } }
+      ]
+    });
+  });
+
+  it('should build OR groups with nested negated AND groups', () => {
+    const group: FilterGroup = {
+      id: 'root',
+      logic: 'or',
+      conditions: [
+        { field: 'manufacturerId', operator: 'isNull', value: null },
+        {
+          id: 'nested',
+          logic: 'and',
+          negate: true,
+          conditions: [
+            { field: 'isActive', operator: 'in', value: true, values: [true] },
+            { field: 'rating', operator: 'gte', value: 3 }
+          ]
+        }
+      ]
+    };
+
+    expect(buildFilterFromGroup(group)).toEqual({
+      or: [
+        { manufacturerId: { eq: null } },
+        { not: { isActive: { in: [true] }, rating: { gte: 3 } } }
+      ]
+    });
+    expect(flattenFilterGroup(group)).toHaveLength(3);
+  });
+
+  it('should return undefined for empty groups', () => {
+    expect(buildFilterFromGroup({ id: 'root', logic: 'or', negate: true, conditions: [] })).toBeUndefined();
+  });
+
+  it('should offer range operators for numbers but not booleans', () => {
+    expect(getOperatorsForFieldType('number')).toContain('between');
+    expect(getOperatorsForFieldType('boolean')).not.toContain('between');
+  });
+});
@@ -0,0 +1,199 @@
+import type { FilterOperation, FilterOperator, FilterGroup, FilterNode } from './types';
+
+/**
+ * Field type as reported by extractZodFields / column filterType
+ */
+export type FilterFieldType = 'string' | 'number' | 'boolean' | 'date' | 'navigation';
+
+/**
+ * Display labels for each filter operator
+ */
+export const FILTER_OPERATOR_LABELS: Record<FilterOperator, string> = {
+  eq: 'Equals',
+  neq: 'Not equals',
+  gt: 'Greater than',
+  gte: 'Greater or equal',
+  lt: 'Less than',
+  lte: 'Less or equal',
+  in: 'Is any of',
+  notIn: 'Is none of',
+  contains: 'Contains',
+  startsWith: 'Starts with',
+  endsWith: 'Ends with',
+  between: 'Between',
+  isNull: 'Is empty',
+  isNotNull: 'Is not empty'
+};
+
+/**
+ * Operators offered for each field type (first entry is the default)
+ */
+const OPERATORS_BY_FIELD_TYPE: Record<FilterFieldType, FilterOperator[]> = {
+  string: ['in', 'contains', 'startsWith', 'endsWith', 'notIn', 'isNull', 'isNotNull'],
+  number: ['in', 'eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'between', 'notIn', 'isNull', 'isNotNull'],
+  date: ['eq', 'gt', 'gte', 'lt', 'lte', 'between', 'isNull', 'isNotNull'],
+  boolean: ['in', 'isNull', 'isNotNull'],
+  navigation: ['in', 'notIn', 'isNull', 'isNotNull']
+};
+
+/**
+ * Get the operators that make sense for a field type
+ */
+export function getOperatorsForFieldType(fieldType: FilterFieldType): FilterOperator[] {
+  return OPERATORS_BY_FIELD_TYPE[fieldType] || OPERATORS_BY_FIELD_TYPE.string;
+}
+
+/**
+ * Operators that take no value (null checks)
+ */
+export function isValuelessOperator(operator: FilterOperator): boolean {
+  return operator === 'isNull' || operator === 'isNotNull';
+}
+
+/**
+ * Operators that take a list of values
+ */
+export function isListOperator(operator: FilterOperator): boolean {
+  return operator === 'in' || operator === 'notIn';
+}
+
+/**
+ * Translate a single FilterOperation into the IFilterParameter shape expected by the API
+ * Returns undefined when the operation has no usable value
+ */
+export function buildFilterParameter(filterOp: FilterOperation): Record<string, any> | undefined {
+  switch (filterOp.operator) {
+    case 'isNull':
+      return { eq: null };
+    case 'isNotNull':
+      return { neq: null };
+    case 'between': {
+      const [from, to] = filterOp.values || [];
+      const param: Record<string, any> = {};
+      if (from !== undefined && from !== null && from !== '') param.gte = from;
+      if (to !== undefined && to !== null && to !== '') param.lte = to;
+      return Object.keys(param).length > 0 ? param : undefined;
+    }
+    case 'in':
+    case 'notIn': {
+      const values = filterOp.values
+        || (Array.isArray(filterOp.value) ? filterOp.value : [filterOp.value]);
+      const usable = values.filter(v => v !== undefined && v !== '');
+      return usable.length > 0 ? { [filterOp.operator]: usable } : undefined;
+    }
+    default:
+      if (filterOp.value === undefined || filterOp.value === '') return undefined;
+      return { [filterOp.operator]: filterOp.value };
+  }
+}
+
+/**
+ * Keys used for compound filters when conditions cannot be expressed as one flat filter object
+ * e.g. { or: [{ stateId: { in: [1] } }, { isActive: { eq: false } }] }
+ */
+export const COMPOUND_FILTER_KEYS = {
+  and: 'and',
+  or: 'or',
+  not: 'not'
+} as const;
+
+type FilterObject = Record<string, any>;
+
+const isCompoundFilter = (filter: FilterObject): boolean =>
+  Object.keys(filter).some(key =>
+    key === COMPOUND_FILTER_KEYS.and || key === COMPOUND_FILTER_KEYS.or || key === COMPOUND_FILTER_KEYS.not
+  );
+
+/**
+ * Combine filter objects with AND
+ * Merges into one flat object when fields and operators don't collide, otherwise emits { and: [...] }
+ */
+export function combineFiltersWithAnd(filters: (FilterObject | undefined)[]): FilterObject | undefined {
+  const usable = filters.filter((f): f is FilterObject => !!f && Object.keys(f).length > 0);
+  if (usable.length === 0) return undefined;
+  if (usable.length === 1) return usable[0];
+
+  const merged: FilterObject = {};
+  for (const filter of usable) {
+    if (isCompoundFilter(filter)) {
+      return { [COMPOUND_FILTER_KEYS.and]: usable };
+    }
+    for (const [field, param] of Object.entries(filter)) {
+      const existing = merged[field];
+      if (existing && Object.keys(param).some(op => op in existing)) {
+        // Same operator twice on one field (e.g. two 'contains') - can't merge without losing one
+        return { [COMPOUND_FILTER_KEYS.and]: usable };
+      }
+      merged[field] = { ...(existing || {}), ...param };
+    }
+  }
+  return merged;
+}
+
+/**
+ * Convert a list of FilterOperations into the search query filter object
+ * Operations on the same field are merged (e.g. gte + lte); colliding operators fall back to { and: [...] }
+ */
+export function buildFilterFromOperations(filterOps: FilterOperation[]): FilterObject | undefined {
+  return combineFiltersWithAnd(filterOps.map(filterOp => {
+    const param = buildFilterParameter(filterOp);
+    return param ? { [filterOp.field]: param } : undefined;
+  }));
+}
+
+/**
+ * Type guard for nested filter groups
+ */
+export function isFilterGroup(node: FilterNode): node is FilterGroup {
+  return Array.isArray((node as FilterGroup).conditions);
+}
+
+/**
+ * Convert a filter group tree into the search query filter object
+ * Returns undefined for empty groups
+ */
+export function buildFilterFromGroup(group: FilterGroup | null | undefined): FilterObject | undefined {
+  if (!group) return undefined;
+
+  const children = group.conditions
+    .map(node => {
+      if (isFilterGroup(node)) return buildFilterFromGroup(node);
+      const param = buildFilterParameter(node);
+      return param ? { [node.field]: param } : undefined;
+    })
+    .filter((f): f is FilterObject => !!f);
+
+  let result: FilterObject | undefined;
+  if (group.logic === 'or') {
+    result = children.length === 0 ? undefined :
+      children.length === 1 ? children[0] :
+      { [COMPOUND_FILTER_KEYS.or]: children };
+  } else {
+    result = combineFiltersWithAnd(children);
+  }
+
+  if (result && group.negate) {
+    return { [COMPOUND_FILTER_KEYS.not]: result };
+  }
+  return result;
+}
+
+/**
+ * Flatten a filter group tree into its individual conditions (for counts and summaries)
+ */
+export function flattenFilterGroup(group: FilterGroup | null | undefined): FilterOperation[] {
+  if (!group) return [];
+  return group.conditions.flatMap(node => isFilterGroup(node) ? flattenFilterGroup(node) : [node]);
+}
+
+/**
+ * Create an empty filter group with a unique id
+ */
+export function createFilterGroup(logic: FilterGroup['logic'] = 'and'): FilterGroup {
+  return {
+    id: `group-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+    logic,
+    negate: false,
+    conditions: []
+  };
+}
@@ -0,0 +1,406 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import type { GenericGridColumn } from './types';
+import { extractZodFields } from '@/utils/zodSchemaHelper';
+import { getCellRenderer } from '@/utils/cellRendererRegistry';
+import { readExportChunks } from './exportChunks';
+import type { ExportChunkFetcher, ExportChunkOptions } from './exportChunks';
+
+/**
+ * Export formats offered by the grid toolbar
+ * - csv: UTF-8 CSV with formatted cell text
+ * - excel: typed XLSX via exceljs (optional dependency, loaded on demand)
+ * - json: raw values for the visible columns
+ * - pdf: printable table opened in the browser print dialog ("Save as PDF")
+ */
+export type GridExportFormat = 'csv' | 'excel' | 'json' | 'pdf';
+
+export const EXPORT_FORMAT_OPTIONS: { format: GridExportFormat; label: string; icon: string }[] = [
+  { format: 'excel', label: 'Excel (.xlsx)', icon: 'pi pi-file-excel' },
+  { format: 'csv', label: 'CSV', icon: 'pi pi-file' },
+  { format: 'json', label: 'JSON', icon: 'pi pi-code' },
+  { format: 'pdf', label: 'PDF / Print', icon: 'pi pi-file-pdf' }
+];
+
+/**
+ * Number formatting from x-number-format / x-currency metadata
+ */
+export interface ExportNumberFormat {
+  style: 'decimal' | 'currency';
+  currency?: string;
+  minimumFractionDigits?: number;
+  maximumFractionDigits?: number;
+}
+
+/**
+ * Column description used by all export formats
+ */
+export interface ExportColumn {
+  field: string;
+  header: string;
+  type: 'string' | 'number' | 'date' | 'boolean';
+  /** Date without time (format: 'date' metadata) */
+  dateOnly?: boolean;
+  numberFormat?: ExportNumberFormat;
+  /** Cell renderer name - applied for text output, same as the grid */
+  cellRenderer?: string;
+}
+
+/**
+ * Build export columns for the visible grid columns, in display order
+ * Types and number formats come from the Zod schema, falling back to the column filterType
+ */
+export function buildExportColumns(
+  columns: GenericGridColumn<any>[],
+  fieldOrder: string[],
+  schema?: any
+): ExportColumn[] {
+  const schemaFields = schema ? extractZodFields(schema) : [];
+
+  return fieldOrder
+    .filter(field => field !== 'actions')
+    .map(field => columns.find(col => String(col.field) === field))
+    .filter((col): col is GenericGridColumn<any> => !!col)
+    .map(col => {
+      const field = String(col.field);
+      const schemaField = schemaFields.find(f => f.name === field);
+      const metadata = schemaField?.metadata || {};
+
+      let type: ExportColumn['type'] = 'string';
+      if (schemaField && ['number', 'date', 'boolean'].includes(schemaField.type)) {
+        type = schemaField.type as ExportColumn['type'];
+      } else if (col.filterType === 'number' || col.filterType === 'date' || col.filterType === 'boolean') {
+        type = col.filterType;
+      }
+
+      let numberFormat: ExportNumberFormat | undefined;
+      if (type === 'number' && (metadata['x-number-format'] || metadata['x-currency'])) {
+        numberFormat = {
+          style: metadata['x-currency'] ? 'currency' : 'decimal',
+          currency: metadata['x-currency'],
+          minimumFractionDigits: metadata['x-min-fraction-digits'],
+          maximumFractionDigits: metadata['x-max-fraction-digits']
+        };
+      }
+
+      return {
+        field,
+        header: col.header,
+        type,
+        dateOnly: metadata.format === 'date',
+        numberFormat,
+        cellRenderer: col.cellRenderer || metadata['x-cell-renderer']
+      };
+    });
+}
+
+/**
+ * Convert a number format to an Excel format code (e.g. '"$"#,##0.00')
+ */
+export function toExcelNumberFormat(numberFormat: ExportNumberFormat): string {
+  const isCurrency = numberFormat.style === 'currency';
+  const minDigits = numberFormat.minimumFractionDigits ?? (isCurrency ? 2 : 0);
+  const maxDigits = Math.max(numberFormat.maximumFractionDigits ?? minDigits, minDigits);
+
+  let code = '#,##0';
+  if (minDigits > 0) {
+    code += '.' + '0'.repeat(minDigits) + '#'.repeat(maxDigits - minDigits);
+  }
+
+  if (isCurrency) {
+    const symbol = new Intl.NumberFormat('en-US', { style: 'currency', currency: numberFormat.currency || 'USD' })
+      .formatToParts(0)
+      .find(part => part.type === 'currency')?.value || '';
+    code = `"${symbol}"${code}`;
+  }
+  return code;
+}
+
+/**
+ * Render a cell renderer's output to plain text
+ */
+function renderNodeToText(node: React.ReactNode): string {
+  if (node === null || node === undefined || typeof node === 'boolean') return '';
+  if (typeof node === 'string' || typeof node === 'number') return String(node);
+
+  const container = document.createElement('div');
+  container.innerHTML = renderToStaticMarkup(React.createElement(React.Fragment, null, node));
+  return (container.textContent || '').trim();
+}
+
+/**
+ * Format a cell as text (CSV/PDF and non-typed XLSX cells)
+ * Uses the column's cell renderer when one is registered, otherwise formats by type
+ */
+export function formatExportText(row: Record<string, any>, column: ExportColumn): string {
+  const value = row[column.field];
+
+  if (column.cellRenderer) {
+    const renderer = getCellRenderer(column.cellRenderer);
+    if (renderer) {
+      const text = renderNodeToText(renderer(value, row));
+      if (text) return text;
+    }
+  }
+
+  if (value === null || value === undefined) return '';
+
+  switch (column.type) {
+    case 'number':
+      return typeof value === 'number'
+        ? new Intl.NumberFormat(undefined, column.numberFormat ? {
+          style: column.numberFormat.style,
+          currency: column.numberFormat.style === 'currency' ? column.numberFormat.currency || 'USD' : undefined,
+          minimumFractionDigits: column.numberFormat.minimumFractionDigits,
+          maximumFractionDigits: column.numberFormat.maximumFractionDigits
+        } : undefined).format(value)
+        : String(value);
+    case 'date': {
+      const date = new Date(value);
+      if (isNaN(date.getTime())) return String(value);
+      return column.dateOnly ? date.toLocaleDateString() : date.toLocaleString();
+    }
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
+
+/**
+ * Trigger a browser download for generated content
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Incremental file builder - rows are added chunk by chunk, finish() downloads/prints the result
+ */
+export interface ExportFileBuilder {
+  addRows(rows: Record<string, any>[]): void;
+  finish(): Promise<void>;
+  /** Drop what was prepared (e.g. close the print window) when the export fails, is cancelled or is empty */
+  discard?(): void;
+}
+
+/**
+ * Quote a CSV field when it contains a quote, comma or line break
+ */
+export const escapeCsv = (text: string) =>
+  /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+function createCsvBuilder(columns: ExportColumn[], filename: string): ExportFileBuilder {
+  // BOM so Excel opens UTF-8 correctly
+  const parts: string[] = ['﻿' + columns.map(column => escapeCsv(column.header)).join(',') + '\r\n'];
+  return {
+    addRows(rows) {
+      parts.push(rows.map(row =>
+        columns.map(column => escapeCsv(formatExportText(row, column))).join(',') + '\r\n'
+      ).join(''));
+    },
+    async finish() {
+      downloadBlob(new Blob(parts, { type: 'text/csv;charset=utf-8' }), `${filename}.csv`);
+    }
+  };
+}
+
+/**
+ * XLSX with typed cells, number/date formats and a frozen header row
+ */
+async function createXlsxBuilder(columns: ExportColumn[], filename: string, sheetName: string): Promise<ExportFileBuilder> {
+  let ExcelJS: typeof import('exceljs');
+  try {
+    ExcelJS = await import('exceljs');
+  } catch {
+    throw new Error('Excel export requires the "exceljs" package (npm install exceljs)');
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  // Excel limits sheet names to 31 characters without []:*?/\
+  const worksheet = workbook.addWorksheet(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31), {
+    views: [{ state: 'frozen', ySplit: 1 }]
+  });
+
+  worksheet.columns = columns.map(column => ({
+    header: column.header,
+    key: column.field,
+    width: Math.min(Math.max(column.header.length + 2, 12), 50),
+    style: column.type === 'number' && column.numberFormat
+      ? { numFmt: toExcelNumberFormat(column.numberFormat) }
+      : column.type === 'date'
+        ? { numFmt: column.dateOnly ? 'yyyy-mm-dd' : 'yyyy-mm-dd hh:mm' }
+        : {}
+  }));
+  worksheet.getRow(1).font = { bold: true };
+
+  return {
+    addRows(rows) {
+      rows.forEach(row => {
+        const values: Record<string, any> = {};
+        columns.forEach(column => {
+          const value = row[column.field];
+          if (value === null || value === undefined) {
+            values[column.field] = null;
+          } else if (column.type === 'number' && typeof value === 'number') {
+            values[column.field] = value;
+          } else if (column.type === 'date' && !isNaN(new Date(value).getTime())) {
+            values[column.field] = new Date(value);
+          } else if (column.type === 'boolean' && !column.cellRenderer) {
+            values[column.field] = Boolean(value);
+          } else {
+            values[column.field] = formatExportText(row, column);
+          }
+        });
+        worksheet.addRow(values);
+      });
+    },
+    async finish() {
+      const buffer = await workbook.xlsx.writeBuffer();
+      downloadBlob(
+        new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+        `${filename}.xlsx`
+      );
+    }
+  };
+}
+
+/**
+ * JSON array of raw values for the exported columns, keyed by field name
+ */
+function createJsonBuilder(columns: ExportColumn[], filename: string): ExportFileBuilder {
+  const parts: string[] = [];
+  return {
+    addRows(rows) {
+      rows.forEach(row => {
+        const record = Object.fromEntries(columns.map(column => [column.field, row[column.field] ?? null]));
+        parts.push(JSON.stringify(record, null, 2).replace(/^/gm, '  '));
+      });
+    },
+    async finish() {
+      downloadBlob(new Blob(['[\n', parts.join(',\n'), '\n]\n'], { type: 'application/json' }), `${filename}.json`);
+    }
+  };
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Printable table opened in the print dialog (users pick "Save as PDF" for a PDF file)
+ * The header row repeats on every printed page
+ */
+function createPrintBuilder(columns: ExportColumn[], title: string): ExportFileBuilder {
+  // Opened right away - pop-up blockers only allow windows opened from the click, not after the data loads
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('Pop-up blocked - allow pop-ups to print or save as PDF');
+  }
+  printWindow.document.write(`<!DOCTYPE html><html><head><title>${escapeHtml(title)}</title></head>`
+    + '<body style="font-family: sans-serif">Preparing export...</body></html>');
+  printWindow.document.close();
+
+  const bodyRows: string[] = [];
+  let rowCount = 0;
+  return {
+    addRows(rows) {
+      rowCount += rows.length;
+      bodyRows.push(rows.map(row =>
+        `<tr>${columns.map(column =>
+          `<td class="${column.type === 'number' ? 'num' : ''}">${escapeHtml(formatExportText(row, column))}</td>`
+        ).join('')}</tr>`
+      ).join(''));
+    },
+    async finish() {
+      if (printWindow.closed) {
+        throw new Error('The print window was closed before the export finished');
+      }
+
+      const headerCells = columns.map(column => `<th>${escapeHtml(column.header)}</th>`).join('');
+      printWindow.document.open();
+      printWindow.document.write(`<!DOCTYPE html>
+<html>
+<head>
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: sans-serif; font-size: 11px; margin: 1rem; }
+  h1 { font-size: 16px; margin: 0 0 0.5rem 0; }
+  table { border-collapse: collapse; width: 100%; }
+  thead { display: table-header-group; }
+  th, td { border: 1px solid #ccc; padding: 4px 6px; text-align: left; }
+  th { background: #f3f3f3; }
+  td.num { text-align: right; }
+  tr { page-break-inside: avoid; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>${rowCount} records - ${escapeHtml(new Date().toLocaleString())}</p>
+<table><thead><tr>${headerCells}</tr></thead><tbody>${bodyRows.join('')}</tbody></table>
+</body>
+</html>`);
+      printWindow.document.close();
+      printWindow.focus();
+      printWindow.print();
+    },
+    discard() {
+      if (!printWindow.closed) printWindow.close();
+    }
+  };
+}
+
+/**
+ * Create the file builder for an export format
+ * Call it straight from the user's click (no await before it) - the PDF print window is opened here
+ */
+export async function createExportBuilder(
+  format: GridExportFormat,
+  columns: ExportColumn[],
+  filename: string,
+  title: string
+): Promise<ExportFileBuilder> {
+  switch (format) {
+    case 'excel':
+      return createXlsxBuilder(columns, filename, title);
+    case 'json':
+      return createJsonBuilder(columns, filename);
+    case 'pdf':
+      return createPrintBuilder(columns, title);
+    default:
+      return createCsvBuilder(columns, filename);
+  }
+}
+
+/**
+ * Page through the data and stream each chunk into the file builder
+ * Returns the number of exported rows (0 = nothing exported, no file produced)
+ */
+export async function runChunkedExport(
+  fetchChunk: ExportChunkFetcher,
+  builder: ExportFileBuilder,
+  options: ExportChunkOptions
+): Promise<number> {
+  let exported = 0;
+  try {
+    for await (const rows of readExportChunks(fetchChunk, options)) {
+      builder.addRows(rows);
+      exported += rows.length;
+    }
+  } catch (error) {
+    builder.discard?.();
+    throw error;
+  }
+  if (exported > 0) {
+    await builder.finish();
+  } else {
+    builder.discard?.();
+  }
+  return exported;
+}
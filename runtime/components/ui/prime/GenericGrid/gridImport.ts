@@ -0,0 +1,199 @@
+import type { z } from 'zod';
+import { getSchema } from '@/api/GreenOnion/Schema/Registry';
+import { loadLookupOptions } from '@/components/GreenOnion/componentRegistry';
+import { getOrBuildFormSchema } from '../EntityForm/schemaBuilder';
+import { validateFormData } from '../EntityForm/EntityFormSchema';
+import type { EntityFormSchema } from '../EntityForm/EntityFormSchema';
+import { downloadBlob } from './gridExport';
+import { buildImportFields, buildImportPayload, buildLookupIndex, buildErrorReportCsv, parseCsv } from './importMapping';
+import type { ImportField, ImportColumnMapping, ImportRow, LookupIndex } from './importMapping';
+
+/**
+ * Parsed spreadsheet - first row is the header
+ */
+export interface ImportSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Everything the import wizard needs to map and validate rows for one entity
+ */
+export interface ImportSchema {
+  formSchema: EntityFormSchema;
+  /** Zod SaveModel schema from the registry (null when the entity has none) */
+  saveSchema: z.ZodTypeAny | null;
+  fields: ImportField[];
+}
+
+export const IMPORT_FILE_ACCEPT = '.csv,.txt,.xlsx';
+
+/**
+ * Convert an exceljs cell value to the text the mapping step works with
+ * Dates become ISO strings so date fields convert without locale guessing
+ */
+function cellToText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') {
+    const cell = value as { richText?: { text: string }[]; text?: string; result?: unknown; error?: string };
+    if (cell.richText) return cell.richText.map(part => part.text).join('');
+    if (cell.text !== undefined) return String(cell.text);
+    if (cell.result !== undefined) return cellToText(cell.result);
+    if (cell.error) return '';
+  }
+  return String(value);
+}
+
+/**
+ * Read the first worksheet of an XLSX file via exceljs (optional dependency, loaded on demand)
+ */
+async function readXlsx(file: File): Promise<string[][]> {
+  let ExcelJS: typeof import('exceljs');
+  try {
+    ExcelJS = await import('exceljs');
+  } catch {
+    throw new Error('Excel import requires the "exceljs" package (npm install exceljs)');
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return [];
+
+  const rows: string[][] = [];
+  worksheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    // row.values is 1-based
+    const values = Array.isArray(row.values) ? row.values.slice(1) : [];
+    rows[rowNumber - 1] = Array.from(values, cellToText);
+  });
+  return Array.from(rows, row => row ?? []);
+}
+
+/**
+ * Read a CSV or XLSX file into headers and data rows
+ */
+export async function readImportFile(file: File): Promise<ImportSheet> {
+  const rows = /\.xlsx$/i.test(file.name) ? await readXlsx(file) : parseCsv(await file.text());
+  const [headerRow = [], ...dataRows] = rows;
+  const headers = headerRow.map(header => header.trim());
+  if (headers.every(header => header === '')) {
+    throw new Error('The file has no header row');
+  }
+  return { headers, rows: dataRows };
+}
+
+/**
+ * Load the form schema, Zod save schema and importable fields for an entity
+ */
+export async function loadImportSchema(queryModelName: string, saveModelName?: string): Promise<ImportSchema> {
+  const formSchema = await getOrBuildFormSchema(queryModelName, { saveModelName });
+  if (!formSchema) {
+    throw new Error(`Schema not found for ${queryModelName}`);
+  }
+
+  const saveSchema = formSchema.entity.saveModel
+    ? (await getSchema(formSchema.entity.saveModel) as z.ZodTypeAny | null)
+    : null;
+
+  return { formSchema, saveSchema, fields: buildImportFields(formSchema) };
+}
+
+/**
+ * Load lookup options for every mapped navigation field (one request per x-navigation-target)
+ * Targets without a generated ComboBox are left out - their cells must contain ids
+ */
+export async function loadImportLookups(
+  fields: ImportField[],
+  mapping: ImportColumnMapping
+): Promise<Record<string, LookupIndex>> {
+  const targets = new Set(
+    fields
+      .filter(field => field.navigationTarget && mapping.includes(field.name))
+      .map(field => field.navigationTarget!)
+  );
+
+  const lookups: Record<string, LookupIndex> = {};
+  for (const target of targets) {
+    const options = await loadLookupOptions(target);
+    if (options) {
+      lookups[target] = buildLookupIndex(options);
+    } else {
+      console.warn(`⚠️ [gridImport] No lookup available for ${target}`);
+    }
+  }
+  return lookups;
+}
+
+/**
+ * Validate mapped rows with validateFormData and the Zod save schema
+ * Errors are appended to each row; returns the rows that can be saved
+ */
+export function validateImportRows(rows: ImportRow[], { formSchema, saveSchema, fields }: ImportSchema): ImportRow[] {
+  const labels = new Map(fields.map(field => [field.name, field.label]));
+
+  rows.forEach(row => {
+    const payload = buildImportPayload(formSchema, row.data);
+    const failedFields = new Set(row.errors.map(error => error.field));
+
+    validateFormData(formSchema, payload, 'create').forEach(error => {
+      if (failedFields.has(error.field)) return;
+      failedFields.add(error.field);
+      row.errors.push(error);
+    });
+
+    const result = saveSchema?.safeParse(payload);
+    if (result && !result.success) {
+      result.error.issues.forEach(issue => {
+        const field = String(issue.path[0] ?? '');
+        // Primary key is assigned by the server on create
+        if (field === formSchema.entity.primaryKey || failedFields.has(field)) return;
+        failedFields.add(field);
+        const label = labels.get(field) ?? formSchema.fields[field]?.label ?? field;
+        row.errors.push({ field: field || undefined, message: label ? `${label}: ${issue.message}` : issue.message });
+      });
+    }
+  });
+
+  return rows.filter(row => row.errors.length === 0);
+}
+
+/**
+ * Save valid rows one at a time through client.Save
+ * Save failures are recorded on the row; stops early (remaining rows untouched) when the signal aborts
+ */
+export async function saveImportRows(
+  rows: ImportRow[],
+  formSchema: EntityFormSchema,
+  save: (params: { body: any }) => Promise<unknown>,
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (processed: number) => void } = {}
+): Promise<number> {
+  let saved = 0;
+  for (let i = 0; i < rows.length; i++) {
+    if (signal?.aborted) break;
+
+    const row = rows[i];
+    try {
+      const result = await save({ body: buildImportPayload(formSchema, row.data) });
+      if (!result) {
+        throw new Error('Save returned no result');
+      }
+      saved++;
+    } catch (error) {
+      console.error(`❌ [gridImport] Failed to save row ${row.rowNumber}:`, error);
+      row.errors.push({ message: `Save failed: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    }
+    onProgress?.(i + 1);
+  }
+  return saved;
+}
+
+/**
+ * Download the per-row error report as CSV
+ */
+export function downloadImportErrorReport(headers: string[], rows: ImportRow[], filename: string) {
+  downloadBlob(
+    new Blob([buildErrorReportCsv(headers, rows)], { type: 'text/csv;charset=utf-8' }),
+    `${filename}-import-errors.csv`
+  );
+}
@@ -0,0 +1,40 @@
+/**
+ * @vitest-environment jsdom
+ * @group unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import { moveGridCell, resolveGridShortcut, describeGridStatus } from './gridKeyboard';
+
+const key = (key: string, modifiers: Partial<KeyboardEvent> = {}) =>
+  ({ key, code: '', ctrlKey: false, metaKey: false, altKey: false, shiftKey: false, ...modifiers });
+
+describe('gridKeyboard', () => {
+  it('should move between cells and stop at the edges', () => {
+    const size = { rows: 3, cols: 4 };
+
+    expect(moveGridCell({ row: 1, col: 1 }, key('ArrowDown'), size)).toEqual({ row: 2, col: 1 });
+    expect(moveGridCell({ row: 2, col: 1 }, key('ArrowDown'), size)).toEqual({ row: 2, col: 1 });
+    expect(moveGridCell({ row: 0, col: 0 }, key('ArrowLeft'), size)).toEqual({ row: 0, col: 0 });
+    expect(moveGridCell({ row: 1, col: 2 }, key('End'), size)).toEqual({ row: 1, col: 3 });
+    expect(moveGridCell({ row: 1, col: 2 }, key('Home', { ctrlKey: true }), size)).toEqual({ row: 0, col: 0 });
+    expect(moveGridCell({ row: 1, col: 2 }, key('Enter'), size)).toBeNull();
+  });
+
+  it('should resolve shortcuts', () => {
+    expect(resolveGridShortcut(key('/'))).toBe('search');
+    expect(resolveGridShortcut(key('/'), true)).toBeNull();
+    // macOS: Alt+Shift+F types a different character, the physical key still matches
+    expect(resolveGridShortcut(key('Ï', { code: 'KeyF', altKey: true, shiftKey: true }))).toBe('filters');
+    expect(resolveGridShortcut(key('E', { code: 'KeyE', altKey: true, shiftKey: true }), true)).toBe('export');
+    expect(resolveGridShortcut(key('f', { code: 'KeyF', altKey: true }))).toBeNull();
+  });
+
+  it('should describe loading, results, pages and selection', () => {
+    const status = { loading: false, totalRecords: 45, currentPage: 1, pageSize: 20, selectedCount: 0 };
+
+    expect(describeGridStatus({ ...status, loading: true })).toBe('Loading results');
+    expect(describeGridStatus(status)).toBe('45 results, page 2 of 3');
+    expect(describeGridStatus({ ...status, totalRecords: 1, currentPage: 0, selectedCount: 1 })).toBe('1 result, 1 selected');
+  });
+});
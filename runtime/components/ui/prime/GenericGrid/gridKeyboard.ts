@@ -0,0 +1,99 @@
+/**
+ * Focused body cell - row among the rendered data rows, col among that row's cells
+ */
+export interface GridCellPosition {
+  row: number;
+  col: number;
+}
+
+/**
+ * Grid-wide keyboard shortcuts (active while focus is inside the grid)
+ */
+export type GridShortcut = 'search' | 'filters' | 'export' | 'grid';
+
+export interface GridShortcutInfo {
+  /** Shown to users (tooltips, docs) */
+  label: string;
+  /** aria-keyshortcuts value for the control the shortcut reaches */
+  ariaKeys: string;
+}
+
+export const GRID_SHORTCUTS: Record<GridShortcut, GridShortcutInfo> = {
+  search: { label: '/', ariaKeys: '/' },
+  filters: { label: 'Alt+Shift+F', ariaKeys: 'Alt+Shift+F' },
+  export: { label: 'Alt+Shift+E', ariaKeys: 'Alt+Shift+E' },
+  grid: { label: 'Alt+Shift+G', ariaKeys: 'Alt+Shift+G' }
+};
+
+type KeyInput = Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>;
+
+/**
+ * Next cell for an arrow/Home/End key, or null when the key does not move focus
+ * - arrows stop at the edges (no wrapping)
+ * - Home/End go to the start/end of the row; with Ctrl to the first/last cell of the page
+ */
+export function moveGridCell(
+  position: GridCellPosition,
+  event: Pick<KeyInput, 'key' | 'ctrlKey' | 'metaKey'>,
+  size: { rows: number; cols: number }
+): GridCellPosition | null {
+  if (size.rows === 0 || size.cols === 0) return null;
+  const clamp = (value: number, count: number) => Math.max(0, Math.min(count - 1, value));
+  const { row, col } = position;
+  const toCorner = event.ctrlKey || event.metaKey;
+
+  switch (event.key) {
+    case 'ArrowUp': return { row: clamp(row - 1, size.rows), col };
+    case 'ArrowDown': return { row: clamp(row + 1, size.rows), col };
+    case 'ArrowLeft': return { row, col: clamp(col - 1, size.cols) };
+    case 'ArrowRight': return { row, col: clamp(col + 1, size.cols) };
+    case 'Home': return { row: toCorner ? 0 : row, col: 0 };
+    case 'End': return { row: toCorner ? size.rows - 1 : row, col: size.cols - 1 };
+    default: return null;
+  }
+}
+
+/**
+ * Shortcut for a key press, or null
+ * Letter shortcuts use event.code so they also work where Alt changes the typed character (macOS)
+ * '/' is ignored while typing in a text field
+ */
+export function resolveGridShortcut(event: KeyInput, typing = false): GridShortcut | null {
+  if (event.key === '/' && !typing && !event.ctrlKey && !event.metaKey && !event.altKey) {
+    return 'search';
+  }
+  if (event.altKey && event.shiftKey && !event.ctrlKey && !event.metaKey) {
+    switch (event.code) {
+      case 'KeyF': return 'filters';
+      case 'KeyE': return 'export';
+      case 'KeyG': return 'grid';
+    }
+  }
+  return null;
+}
+
+export interface GridStatusInput {
+  loading: boolean;
+  totalRecords: number;
+  /** Zero-based page */
+  currentPage: number;
+  pageSize: number;
+  selectedCount: number;
+}
+
+/**
+ * Text for the grid's live region - announced by screen readers when it changes
+ */
+export function describeGridStatus({ loading, totalRecords, currentPage, pageSize, selectedCount }: GridStatusInput): string {
+  if (loading) return 'Loading results';
+
+  const parts = [`${totalRecords.toLocaleString()} result${totalRecords !== 1 ? 's' : ''}`];
+  const pageCount = Math.ceil(totalRecords / Math.max(pageSize, 1));
+  if (pageCount > 1) {
+    parts.push(`page ${currentPage + 1} of ${pageCount}`);
+  }
+  if (selectedCount > 0) {
+    parts.push(`${selectedCount.toLocaleString()} selected`);
+  }
+  return parts.join(', ');
+}
@@ -0,0 +1,124 @@
+/**
+ * @vitest-environment jsdom
+ * @group unit
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createLatestRequest,
+  createGroupedPageFetcher,
+  createBoardColumnFetcher,
+  createCalendarRangeFetcher,
+  GridRequestCancelledError
+} from './gridRequests';
+import { buildBoardColumnFilter } from './boardOperations';
+import { buildCalendarRangeFilter } from './calendarOperations';
+import { buildPivotRequest } from './pivotOperations';
+
+// Resolves when told to - lets a test finish requests out of order
+function deferredSender() {
+  const pending: { body: any; signal: AbortSignal; resolve: (value: any) => void; reject: (error: any) => void }[] = [];
+  const send = vi.fn((body: any, signal: AbortSignal) => new Promise((resolve, reject) => {
+    pending.push({ body, signal, resolve, reject });
+  }));
+  return { send, pending };
+}
+
+describe('gridRequests', () => {
+  it('should abort a superseded request and drop its late response', async () => {
+    const { send, pending } = deferredSender();
+    const runner = createLatestRequest(send);
+
+    const first = runner.run({ currentPage: 0, searchTerm: '*a*' });
+    const second = runner.run({ currentPage: 0, searchTerm: '*ab*' });
+
+    expect(pending[0].signal.aborted).toBe(true);
+    expect(pending[1].signal.aborted).toBe(false);
+
+    pending[1].resolve({ rows: ['new'] });
+    // A client that ignores the signal still answers - the answer is discarded
+    pending[0].resolve({ rows: ['old'] });
+
+    await expect(second).resolves.toEqual({ rows: ['new'] });
+    await expect(first).rejects.toBeInstanceOf(GridRequestCancelledError);
+  });
+
+  it('should share one request between identical queries in flight', async () => {
+    const { send, pending } = deferredSender();
+    const runner = createLatestRequest(send);
+
+    const a = runner.run({ currentPage: 2, filter: { price: { gt: 10 } } });
+    const b = runner.run({ currentPage: 2, filter: { price: { gt: 10 } } });
+    expect(send).toHaveBeenCalledTimes(1);
+
+    pending[0].resolve({ rows: [1] });
+    await expect(Promise.all([a, b])).resolves.toEqual([{ rows: [1] }, { rows: [1] }]);
+
+    // Once finished, the same query is sent again (e.g. refresh after saving)
+    runner.run({ currentPage: 2, filter: { price: { gt: 10 } } });
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report errors and cancellation', async () => {
+    const { send, pending } = deferredSender();
+    const runner = createLatestRequest(send);
+
+    const failing = runner.run({ currentPage: 0 });
+    pending[0].reject(new Error('Server error'));
+    await expect(failing).rejects.toThrow('Server error');
+
+    const cancelled = runner.run({ currentPage: 1 });
+    runner.cancel();
+    pending[1].reject(new DOMException('Aborted', 'AbortError'));
+    await expect(cancelled).rejects.toBeInstanceOf(GridRequestCancelledError);
+  });
+
+  it('should build the pivot, board and calendar queries from the grid query', async () => {
+    const send = vi.fn(async (_body: Record<string, any>, _signal?: AbortSignal) => ({ rows: [] }));
+    const query = {
+      searchQuery: { includeDeleted: false },
+      searchTerm: '*tea*',
+      filter: { price: { gt: 5 } },
+      orderBy: { name: 'asc' as const }
+    };
+    const signal = new AbortController().signal;
+
+    const pivot = buildPivotRequest({ rowFields: ['manufacturerId'], columnFields: ['isActive'], measure: 'price', aggregate: 'sum' });
+    await createGroupedPageFetcher(send, query)(0, 500, pivot, signal);
+    expect(send).toHaveBeenLastCalledWith({
+      includeDeleted: false,
+      searchTerm: '*tea*',
+      filter: { price: { gt: 5 } },
+      currentPage: 0,
+      pageSize: 500,
+      excludePageCount: false,
+      pivot: { groupBy: ['manufacturerId', 'isActive'], measure: 'price' }
+    }, signal);
+
+    // Later pages only carry the rows
+    await createGroupedPageFetcher(send, query)(1, 500, undefined, signal);
+    expect(send.mock.lastCall?.[0]).not.toHaveProperty('pivot');
+    expect(send.mock.lastCall?.[0]).toMatchObject({ currentPage: 1, excludePageCount: true });
+
+    await createBoardColumnFetcher(send, query, 'status')('open', 2, 20, signal);
+    expect(send).toHaveBeenLastCalledWith({
+      includeDeleted: false,
+      searchTerm: '*tea*',
+      filter: buildBoardColumnFilter({ price: { gt: 5 } }, 'status', 'open'),
+      orderBy: { name: 'asc' },
+      currentPage: 2,
+      pageSize: 20
+    }, signal);
+
+    const range = { start: new Date(2026, 2, 1), end: new Date(2026, 3, 1), days: [] };
+    await createCalendarRangeFetcher(send, query, { startField: 'dueOn' })(range, 300, signal);
+    expect(send).toHaveBeenLastCalledWith({
+      includeDeleted: false,
+      searchTerm: '*tea*',
+      filter: buildCalendarRangeFilter({ price: { gt: 5 } }, { startField: 'dueOn' }, range),
+      orderBy: { dueOn: 'asc' },
+      currentPage: 0,
+      pageSize: 300
+    }, signal);
+  });
+});
@@ -0,0 +1,139 @@
+import { buildBoardColumnFilter } from './boardOperations';
+import type { BoardColumnOption } from './boardOperations';
+import { buildCalendarRangeFilter } from './calendarOperations';
+import type { CalendarFields, CalendarRange } from './calendarOperations';
+import type { PivotPageFetcher } from './pivotOperations';
+
+/**
+ * Thrown (instead of returning data) for a request that was superseded by a newer one or cancelled
+ */
+export class GridRequestCancelledError extends Error {
+  constructor() {
+    super('Request cancelled');
+    this.name = 'GridRequestCancelledError';
+  }
+}
+
+/**
+ * Sends one request body - the signal aborts the underlying fetch
+ */
+export type GridRequestSender<TBody, TResult> = (body: TBody, signal: AbortSignal) => Promise<TResult>;
+
+export interface LatestRequestRunner<TBody, TResult> {
+  /** Send a request; rejects with GridRequestCancelledError when a newer request replaces it */
+  run(body: TBody): Promise<TResult>;
+  /** Cancel the request in flight (e.g. on unmount) */
+  cancel(): void;
+}
+
+/**
+ * Latest-wins request runner for grid queries
+ * - a new request aborts the one in flight, so a slow early response never overwrites newer data
+ *   (also for clients that ignore the signal - their late result is discarded)
+ * - a request identical to the one in flight joins it instead of hitting the API again
+ */
+export function createLatestRequest<TBody, TResult>(send: GridRequestSender<TBody, TResult>): LatestRequestRunner<TBody, TResult> {
+  let current: { key: string; controller: AbortController; promise: Promise<TResult> } | null = null;
+
+  return {
+    run(body) {
+      const key = JSON.stringify(body);
+      if (current && current.key === key) {
+        return current.promise;
+      }
+
+      current?.controller.abort();
+      const controller = new AbortController();
+      const entry = { key, controller, promise: undefined as unknown as Promise<TResult> };
+      entry.promise = send(body, controller.signal).then(
+        result => {
+          if (current !== entry) throw new GridRequestCancelledError();
+          current = null;
+          return result;
+        },
+        error => {
+          if (current === entry) current = null;
+          throw controller.signal.aborted ? new GridRequestCancelledError() : error;
+        }
+      );
+      current = entry;
+      return entry.promise;
+    },
+    cancel() {
+      current?.controller.abort();
+      current = null;
+    }
+  };
+}
+
+/**
+ * The grid's current query - the search query with the grid's search term, filter and sorting applied
+ */
+export interface GridViewQuery {
+  searchQuery: Record<string, any>;
+  searchTerm?: string;
+  filter?: Record<string, any>;
+  orderBy?: Record<string, 'asc' | 'desc'>;
+}
+
+type GridQueryResult = { rows?: any[]; totalRowCount?: number };
+
+/**
+ * Sends a query body through the grid's client (client.Query)
+ */
+export type GridQuerySender<TResult> = (body: Record<string, any>, signal?: AbortSignal) => Promise<TResult>;
+
+/**
+ * Pages for the pivot and the chart - sorting does not matter to them
+ * Page 0 carries the pivot request; servers that support it answer with response.pivot
+ */
+export function createGroupedPageFetcher(
+  send: GridQuerySender<Awaited<ReturnType<PivotPageFetcher>>>,
+  { searchQuery, searchTerm, filter }: GridViewQuery
+): PivotPageFetcher {
+  return (page, pageSize, pivot, signal) => send({
+    ...searchQuery,
+    searchTerm,
+    filter,
+    currentPage: page,
+    pageSize,
+    excludePageCount: page !== 0,
+    ...(pivot ? { pivot } : {})
+  }, signal);
+}
+
+/**
+ * Pages of one board column - the grid's query narrowed to the column's value
+ */
+export function createBoardColumnFetcher<TResult extends GridQueryResult>(
+  send: GridQuerySender<TResult>,
+  { searchQuery, searchTerm, filter, orderBy }: GridViewQuery,
+  field: string
+) {
+  return (value: BoardColumnOption['value'], page: number, pageSize: number, signal: AbortSignal) => send({
+    ...searchQuery,
+    searchTerm,
+    filter: buildBoardColumnFilter(filter, field, value),
+    orderBy,
+    currentPage: page,
+    pageSize
+  }, signal);
+}
+
+/**
+ * Records in the calendar's visible days, earliest first - the grid's search and filter limited to the range
+ */
+export function createCalendarRangeFetcher<TResult extends GridQueryResult>(
+  send: GridQuerySender<TResult>,
+  { searchQuery, searchTerm, filter }: GridViewQuery,
+  fields: CalendarFields
+) {
+  return (range: CalendarRange, pageSize: number, signal: AbortSignal) => send({
+    ...searchQuery,
+    searchTerm,
+    filter: buildCalendarRangeFilter(filter, fields, range),
+    orderBy: { [fields.startField]: 'asc' },
+    currentPage: 0,
+    pageSize
+  }, signal);
+}
@@ -0,0 +1,169 @@
+/**
+ * @vitest-environment jsdom
+ * @group unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createGridState,
+  createGridStateHistory,
+  gridStateReducer,
+  gridStateFromConfig,
+  buildGridQuery,
+  buildGridSearch,
+  buildSearchFieldsFilter
+} from './gridState';
+import type { GridStateAction, GridStateHistory } from './gridState';
+
+const run = (history: GridStateHistory, ...actions: GridStateAction[]) => actions.reduce(gridStateReducer, history);
+
+describe('gridState', () => {
+  it('should undo and redo recorded changes', () => {
+    const initial = createGridStateHistory(createGridState(['id', 'name', 'price']));
+
+    let history = run(initial,
+      { type: 'set', field: 'activeFilters', value: [{ field: 'price', operator: 'gt', value: 10 }] },
+      { type: 'set', field: 'activeSorts', value: sorts => [...sorts, { field: 'name', direction: 'asc', priority: 0 }] },
+      { type: 'set', field: 'currentPage', value: 3 }
+    );
+    expect(history.past).toHaveLength(2);
+
+    history = run(history, { type: 'undo' });
+    expect(history.present.activeSorts).toEqual([]);
+    expect(history.present.activeFilters).toHaveLength(1);
+    // Paging is not part of undo
+    expect(history.present.currentPage).toBe(3);
+
+    history = run(history, { type: 'redo' });
+    expect(history.present.activeSorts).toHaveLength(1);
+
+    // A new change drops the redo stack
+    history = run(history, { type: 'undo' }, { type: 'set', field: 'groupBy', value: 'name' });
+    expect(history.future).toEqual([]);
+    expect(run(history, { type: 'redo' })).toBe(history);
+  });
+
+  it('should coalesce typing and apply several fields as one step', () => {
+    const initial = createGridStateHistory(createGridState(['id', 'name']));
+    const search = (searchTerm: string): GridStateAction =>
+      ({ type: 'set', field: 'globalSearch', value: { searchTerm, searchType: 'contains' } });
+
+    let history = run(initial, search('a'), search('ap'), search('app'));
+    expect(history.past).toHaveLength(1);
+
+    history = run(history, {
+      type: 'apply',
+      state: { activeFilters: [], groupBy: 'name', visibleColumns: ['name'] }
+    });
+    expect(history.past).toHaveLength(2);
+    expect(run(history, { type: 'undo' }).present.visibleColumns).toEqual(['id', 'name']);
+
+    expect(run(history, { type: 'apply', state: { groupBy: 'id' }, skipHistory: true }).past).toHaveLength(2);
+    expect(run(history, { type: 'clearHistory' }).past).toEqual([]);
+  });
+
+  it('should undo view switches and keep the pivot layout while hidden', () => {
+    const pivotConfig = { rowFields: ['manufacturerId'], columnFields: [], measure: null, aggregate: 'count' as const };
+    let history = run(createGridStateHistory(createGridState(['id', 'name'])),
+      { type: 'set', field: 'pivotConfig', value: pivotConfig },
+      { type: 'set', field: 'contentView', value: 'pivot' },
+      { type: 'set', field: 'contentView', value: 'board' }
+    );
+    expect(history.present).toMatchObject({ contentView: 'board', pivotConfig });
+
+    history = run(history, { type: 'undo' });
+    expect(history.present.contentView).toBe('pivot');
+    expect(run(history, { type: 'undo' }, { type: 'undo' }).present.contentView).toBe('rows');
+  });
+
+  it('should turn a saved grid state into state changes', () => {
+    const chart = { type: 'line' as const, xField: 'releasedOn', measure: null, aggregate: 'count' as const };
+    expect(gridStateFromConfig({
+      searchQuery: {},
+      activeFilters: [],
+      columnWidths: [{ field: 'name', width: '240px' }],
+      columnPins: [{ field: 'name', side: 'left' }],
+      pageSize: 50,
+      pivot: null,
+      board: false,
+      calendar: 'week',
+      chart,
+      layout: 'cards'
+    })).toEqual({
+      activeFilters: [],
+      columnWidths: { name: '240px' },
+      columnPins: { name: 'left' },
+      currentPageSize: 50,
+      contentView: 'calendar',
+      calendarMode: 'week',
+      chartVisible: true,
+      chartConfig: chart,
+      layout: 'cards'
+    });
+
+    // Views the config leaves out are kept; clearing them returns to the rows and closes the chart
+    expect(gridStateFromConfig({ searchQuery: {}, groupBy: null })).toEqual({ groupBy: null });
+    expect(gridStateFromConfig({ searchQuery: {}, pivot: null, chart: null })).toEqual({ contentView: 'rows', chartVisible: false });
+
+    // Saved views reset what they leave out, except paging and selection
+    const defaults = createGridState(['id', 'name'], { currentPage: 2, selectedRowIds: [1] });
+    const view = gridStateFromConfig({ searchQuery: {}, board: true, visibleColumns: ['name'] }, defaults);
+    expect(view).toMatchObject({ contentView: 'board', visibleColumns: ['name'], columnOrder: ['id', 'name'], groupBy: null, layout: null });
+    expect(view).not.toHaveProperty('currentPage');
+    expect(view).not.toHaveProperty('selectedRowIds');
+  });
+
+  it('should build the query from grid state', () => {
+    const state = createGridState(['id', 'name', 'price'], {
+      globalSearch: { searchTerm: 'tea', searchType: 'startsWith' },
+      activeFilters: [{ field: 'price', operator: 'between', value: null, values: [1, 5] }],
+      activeSorts: [{ field: 'price', direction: 'desc', priority: 0 }],
+      groupBy: 'name',
+      selectedRowIds: [4, 7],
+      currentPage: 2,
+      currentPageSize: 25
+    });
+
+    expect(buildGridQuery(state)).toEqual({
+      currentPage: 2,
+      pageSize: 25,
+      searchTerm: 'tea*',
+      orderBy: { name: 'asc', price: 'desc' },
+      filter: { price: { gte: 1, lte: 5 } }
+    });
+    expect(buildGridQuery(state, { dataKey: 'id', showSelectedOnly: true })).toMatchObject({
+      searchTerm: undefined,
+      filter: { id: { in: [4, 7] } }
+    });
+  });
+
+  it('should send exact matches as typed and restricted searches as field filters', () => {
+    const state = createGridState(['id', 'name', 'code'], {
+      globalSearch: { searchTerm: 'AB-1', searchType: 'equals' }
+    });
+    expect(buildGridQuery(state).searchTerm).toBe('AB-1');
+
+    const restricted = createGridState(['id', 'name', 'code'], {
+      globalSearch: { searchTerm: 'tea', searchType: 'startsWith', searchFields: ['name', 'code'] },
+      activeFilters: [{ field: 'id', operator: 'gt', value: 3 }]
+    });
+    expect(buildGridQuery(restricted)).toMatchObject({
+      searchTerm: undefined,
+      filter: { and: [{ id: { gt: 3 } }, { or: [{ name: { startsWith: 'tea' } }, { code: { startsWith: 'tea' } }] }] }
+    });
+  });
+
+  it('should change the search request when only the searched fields change', () => {
+    const everywhere = buildGridSearch({ searchTerm: 'tea', searchType: 'contains' });
+    const restricted = buildGridSearch({ searchTerm: 'tea', searchType: 'contains', searchFields: ['name', 'code'] });
+
+    // The grid reloads when the search request changes
+    expect(restricted).not.toEqual(everywhere);
+    expect(restricted).toEqual({ searchFilter: buildSearchFieldsFilter('tea', 'contains', ['name', 'code']) });
+    expect(buildGridQuery(createGridState(['id', 'name', 'code'], {
+      globalSearch: { searchTerm: 'tea', searchType: 'contains', searchFields: ['name', 'code'] }
+    })).filter).toEqual(restricted.searchFilter);
+    // Picking fields without a search term does not change the request
+    expect(buildGridSearch({ searchTerm: '', searchType: 'contains', searchFields: ['name'] })).toEqual({});
+  });
+});
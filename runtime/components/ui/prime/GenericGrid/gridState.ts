@@ -0,0 +1,365 @@
+import type {
+  CalendarMode,
+  ColumnPinSide,
+  ConditionalFormatRule,
+  FilterGroup,
+  FilterOperation,
+  GlobalSearchConfig,
+  GridChartConfig,
+  GridContentView,
+  GridStateConfig,
+  OrderByConfig,
+  PivotConfig
+} from './types';
+import { buildFilterFromOperations, buildFilterFromGroup, combineFiltersWithAnd, COMPOUND_FILTER_KEYS } from './filterOperations';
+import { columnPinsFromConfig } from './columnLayout';
+import { DEFAULT_PIVOT_CONFIG } from './pivotOperations';
+import { DEFAULT_CHART_CONFIG } from './chartOperations';
+
+/**
+ * Grid state shared by SimpleGenericGrid and custom (headless) grid UIs
+ */
+export interface GridState {
+  globalSearch: GlobalSearchConfig;
+  activeFilters: FilterOperation[];
+  /** Nested AND/OR filter tree, combined with activeFilters using AND */
+  filterGroup: FilterGroup | null;
+  activeSorts: OrderByConfig[];
+  visibleColumns: string[];
+  /** All columns in display order (including hidden ones) */
+  columnOrder: string[];
+  /** field -> CSS width */
+  columnWidths: Record<string, string>;
+  /** field -> side the user pinned it to (unpinned columns are absent) */
+  columnPins: Record<string, ColumnPinSide>;
+  /** Column the rows are grouped by (null = no grouping) */
+  groupBy: string | null;
+  /** User-defined formatting rules (rules from code and the schema are not part of the state) */
+  conditionalFormats: ConditionalFormatRule[];
+  /** Pivot, board or calendar shown in place of the rows (one at a time) */
+  contentView: GridContentView;
+  /** Pivot layout - kept while the pivot is hidden */
+  pivotConfig: PivotConfig;
+  chartVisible: boolean;
+  /** Chart panel settings - kept while the panel is closed */
+  chartConfig: GridChartConfig;
+  calendarMode: CalendarMode;
+  /** Table or cards picked in the toolbar (null = the grid's layout prop) */
+  layout: 'table' | 'cards' | null;
+  /** Selected row keys across all pages */
+  selectedRowIds: (string | number)[];
+  /** Zero-based page index */
+  currentPage: number;
+  currentPageSize: number;
+}
+
+/**
+ * New value or updater function (same contract as a React state setter)
+ */
+export type GridStateUpdate<T> = T | ((previous: T) => T);
+
+/**
+ * Set one field - one typed variant per GridState field
+ */
+export type GridStateSetAction = {
+  [K in keyof GridState]: { type: 'set'; field: K; value: GridStateUpdate<GridState[K]>; skipHistory?: boolean }
+}[keyof GridState];
+
+/**
+ * Actions handled by gridStateReducer
+ * - set: change one field
+ * - apply: change several fields as a single undo step (saved views, URL state, defined filters)
+ * - undo/redo: step through recorded changes
+ * - clearHistory: forget recorded changes (e.g. once the initial state is in place)
+ */
+export type GridStateAction =
+  | GridStateSetAction
+  | { type: 'apply'; state: Partial<GridState>; skipHistory?: boolean }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'clearHistory' };
+
+/**
+ * Present state plus undo/redo stacks
+ */
+export interface GridStateHistory {
+  past: GridState[];
+  present: GridState;
+  future: GridState[];
+  /** Field changed by the previous set action - repeated changes to coalesced fields share one undo step */
+  lastField: keyof GridState | null;
+  limit: number;
+}
+
+/**
+ * Paging and selection follow the data rather than the view - they never create undo steps
+ * and undo/redo leaves them as they are
+ */
+const TRANSIENT_FIELDS: (keyof GridState)[] = ['currentPage', 'currentPageSize', 'selectedRowIds'];
+
+/**
+ * Fields changed in quick succession (typing a search term, dragging a column edge) - one undo step per burst
+ */
+const COALESCED_FIELDS: (keyof GridState)[] = ['globalSearch', 'columnWidths'];
+
+export const DEFAULT_GRID_HISTORY_LIMIT = 50;
+
+/**
+ * Default grid state - all columns visible in their declared order, no search, filters, sorts or grouping,
+ * the rows shown without a chart
+ */
+export function createGridState(columns: string[] = [], overrides: Partial<GridState> = {}): GridState {
+  return {
+    globalSearch: { searchTerm: '', searchType: 'contains' },
+    activeFilters: [],
+    filterGroup: null,
+    activeSorts: [],
+    visibleColumns: columns,
+    columnOrder: columns,
+    columnWidths: {},
+    columnPins: {},
+    groupBy: null,
+    conditionalFormats: [],
+    contentView: 'rows',
+    pivotConfig: DEFAULT_PIVOT_CONFIG,
+    chartVisible: false,
+    chartConfig: DEFAULT_CHART_CONFIG,
+    calendarMode: 'month',
+    layout: null,
+    selectedRowIds: [],
+    currentPage: 0,
+    currentPageSize: 20,
+    ...overrides
+  };
+}
+
+/**
+ * Wrap a state in an empty undo/redo history
+ */
+export function createGridStateHistory(present: GridState, limit = DEFAULT_GRID_HISTORY_LIMIT): GridStateHistory {
+  return { past: [], present, future: [], lastField: null, limit };
+}
+
+/**
+ * State changes for a saved grid state (predefined filter, saved view, DefinedFilter) - applied as one undo step
+ * Parts the config leaves out keep their current value, or go back to `defaults` when given (saved views are
+ * full snapshots). Paging and selection are never reset; the search query and aggregates live outside GridState
+ */
+export function gridStateFromConfig<TSearchQuery>(config: GridStateConfig<TSearchQuery>, defaults?: GridState): Partial<GridState> {
+  const changes: Partial<GridState> = {};
+  if (config.globalSearch) changes.globalSearch = config.globalSearch;
+  if (config.activeFilters) changes.activeFilters = config.activeFilters;
+  if (config.filterGroup !== undefined) changes.filterGroup = config.filterGroup;
+  if (config.activeSorts) changes.activeSorts = config.activeSorts;
+  if (config.groupBy !== undefined) changes.groupBy = config.groupBy;
+  if (config.visibleColumns) changes.visibleColumns = config.visibleColumns;
+  if (config.columnOrder) changes.columnOrder = config.columnOrder;
+  if (config.columnWidths) {
+    changes.columnWidths = Object.fromEntries(config.columnWidths.map(({ field, width }) => [field, width]));
+  }
+  if (config.columnPins) changes.columnPins = columnPinsFromConfig(config.columnPins);
+  if (config.conditionalFormats) changes.conditionalFormats = config.conditionalFormats;
+  if (config.selectedRowIds) changes.selectedRowIds = config.selectedRowIds;
+  if (config.pageSize) changes.currentPageSize = config.pageSize;
+
+  // Pivot, board and calendar - the first one set wins, all of them unset return to the rows
+  if (config.pivot || config.board || config.calendar) {
+    changes.contentView = config.pivot ? 'pivot' : config.board ? 'board' : 'calendar';
+  } else if (config.pivot !== undefined || config.board !== undefined || config.calendar !== undefined) {
+    changes.contentView = 'rows';
+  }
+  if (config.pivot) changes.pivotConfig = config.pivot;
+  if (config.calendar) changes.calendarMode = config.calendar;
+  if (config.chart !== undefined) changes.chartVisible = !!config.chart;
+  if (config.chart) changes.chartConfig = config.chart;
+  if (config.layout !== undefined) changes.layout = config.layout;
+  if (!defaults) return changes;
+
+  const { currentPage: _page, currentPageSize: _pageSize, selectedRowIds: _selection, ...base } = defaults;
+  return { ...base, ...changes };
+}
+
+const isTransientChange = (changes: Partial<GridState>) =>
+  Object.keys(changes).every(field => TRANSIENT_FIELDS.includes(field as keyof GridState));
+
+// Keep the present paging and selection when moving through history
+const keepTransient = (target: GridState, present: GridState): GridState => ({
+  ...target,
+  currentPage: present.currentPage,
+  currentPageSize: present.currentPageSize,
+  selectedRowIds: present.selectedRowIds
+});
+
+function commit(
+  history: GridStateHistory,
+  changes: Partial<GridState>,
+  skipHistory: boolean,
+  field: keyof GridState | null
+): GridStateHistory {
+  const changed = (Object.keys(changes) as (keyof GridState)[])
+    .filter(key => changes[key] !== history.present[key]);
+  if (changed.length === 0) return history;
+
+  const present = { ...history.present, ...changes };
+  if (skipHistory || isTransientChange(changes)) {
+    return { ...history, present };
+  }
+  // Another change to the same coalesced field replaces the present without a new undo step
+  if (field && field === history.lastField && COALESCED_FIELDS.includes(field)) {
+    return { ...history, present, future: [] };
+  }
+  return {
+    ...history,
+    past: [...history.past, history.present].slice(-history.limit),
+    present,
+    future: [],
+    lastField: field
+  };
+}
+
+/**
+ * Reducer for grid state with undo/redo - pure, so it can back useReducer or any other store
+ */
+export function gridStateReducer(history: GridStateHistory, action: GridStateAction): GridStateHistory {
+  switch (action.type) {
+    case 'set': {
+      const previous = history.present[action.field];
+      const value = typeof action.value === 'function'
+        ? (action.value as (previous: any) => any)(previous)
+        : action.value;
+      return commit(history, { [action.field]: value }, !!action.skipHistory, action.field);
+    }
+    case 'apply':
+      return commit(history, action.state, !!action.skipHistory, null);
+    case 'undo': {
+      if (history.past.length === 0) return history;
+      const previous = history.past[history.past.length - 1];
+      return {
+        ...history,
+        past: history.past.slice(0, -1),
+        present: keepTransient(previous, history.present),
+        future: [history.present, ...history.future],
+        lastField: null
+      };
+    }
+    case 'redo': {
+      if (history.future.length === 0) return history;
+      const [next, ...future] = history.future;
+      return {
+        ...history,
+        past: [...history.past, history.present],
+        present: keepTransient(next, history.present),
+        future,
+        lastField: null
+      };
+    }
+    case 'clearHistory':
+      return { ...history, past: [], future: [], lastField: null };
+    default:
+      return history;
+  }
+}
+
+/**
+ * Global search term in the API's wildcard syntax - exact matches are sent as typed
+ */
+export function formatGlobalSearch(searchTerm: string, searchType: string): string {
+  switch (searchType) {
+    case 'equals':
+      return searchTerm;
+    case 'startsWith':
+      return `${searchTerm}*`;
+    case 'endsWith':
+      return `*${searchTerm}`;
+    case 'contains':
+    default:
+      return `*${searchTerm}*`;
+  }
+}
+
+const SEARCH_FIELD_OPERATORS: Record<GlobalSearchConfig['searchType'], string> = {
+  contains: 'contains',
+  startsWith: 'startsWith',
+  endsWith: 'endsWith',
+  equals: 'eq'
+};
+
+/**
+ * Search restricted to chosen fields - the search term as a filter on each field, any of them matching
+ * Used instead of searchTerm, which always covers the server's default search fields
+ */
+export function buildSearchFieldsFilter(
+  searchTerm: string,
+  searchType: GlobalSearchConfig['searchType'],
+  fields: string[]
+): Record<string, any> | undefined {
+  if (!searchTerm || fields.length === 0) return undefined;
+  const operator = SEARCH_FIELD_OPERATORS[searchType] ?? 'contains';
+  const conditions = fields.map(field => ({ [field]: { [operator]: searchTerm } }));
+  return conditions.length === 1 ? conditions[0] : { [COMPOUND_FILTER_KEYS.or]: conditions };
+}
+
+/**
+ * orderBy for the query - grouped rows come back ordered by the group column first, then by sort priority
+ */
+export function buildGridOrderBy(state: Pick<GridState, 'activeSorts' | 'groupBy'>): Record<string, 'asc' | 'desc'> | undefined {
+  const { activeSorts, groupBy } = state;
+  if (activeSorts.length === 0 && !groupBy) return undefined;
+
+  const orderBy: Record<string, 'asc' | 'desc'> = {};
+  if (groupBy) {
+    orderBy[groupBy] = activeSorts.find(sort => sort.field === groupBy)?.direction || 'asc';
+  }
+  [...activeSorts]
+    .sort((a, b) => (a.priority || 0) - (b.priority || 0))
+    .forEach(sort => {
+      orderBy[sort.field] = sort.direction;
+    });
+  return orderBy;
+}
+
+/**
+ * Options for building the query from grid state
+ */
+export interface GridQueryOptions {
+  /** Key field - used for the "show selected only" filter */
+  dataKey?: string;
+  /** Only return the selected rows (search and filters are ignored) */
+  showSelectedOnly?: boolean;
+}
+
+/**
+ * Search part of the query - the search term, or a filter on the chosen fields when the search is restricted
+ * The grid reloads from the first page whenever it changes
+ */
+export function buildGridSearch(globalSearch: GlobalSearchConfig): { searchTerm?: string; searchFilter?: Record<string, any> } {
+  const { searchTerm, searchType, searchFields = [] } = globalSearch;
+  if (!searchTerm) return {};
+  return searchFields.length > 0
+    ? { searchFilter: buildSearchFieldsFilter(searchTerm, searchType, searchFields) }
+    : { searchTerm: formatGlobalSearch(searchTerm, searchType) };
+}
+
+/**
+ * Query body (search term, filter, orderBy and paging) for a grid's client.Query - the query engine behind
+ * SimpleGenericGrid, reusable by custom grid UIs (cards, kanban, map) built on useGridState
+ */
+export function buildGridQuery(state: GridState, options: GridQueryOptions = {}) {
+  const selectedOnly = !!options.showSelectedOnly && !!options.dataKey && state.selectedRowIds.length > 0;
+  // "Show selected only" ignores the search and uses the selected keys as the only filter
+  const { searchTerm, searchFilter } = options.showSelectedOnly ? {} : buildGridSearch(state.globalSearch);
+
+  return {
+    currentPage: state.currentPage,
+    pageSize: state.currentPageSize,
+    searchTerm,
+    orderBy: buildGridOrderBy(state),
+    filter: selectedOnly
+      ? { [options.dataKey!]: { in: state.selectedRowIds } }
+      : combineFiltersWithAnd([
+        buildFilterFromOperations(state.activeFilters),
+        buildFilterFromGroup(state.filterGroup),
+        searchFilter
+      ])
+  };
+}
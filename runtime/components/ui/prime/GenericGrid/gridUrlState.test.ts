@@ -0,0 +1,117 @@
+/**
+ * @vitest-environment jsdom
+ * @group unit
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  encodeGridUrlState,
+  decodeGridUrlState,
+  readGridStateParam,
+  writeGridStateParam,
+  isGridStateHistoryStep
+} from './gridUrlState';
+
+const defaults = { columns: ['id', 'name', 'price'], pageSize: 25 };
+
+describe('gridUrlState', () => {
+  it('should round-trip grid state and omit defaults', () => {
+    expect(encodeGridUrlState({
+      globalSearch: { searchTerm: '', searchType: 'contains' },
+      activeFilters: [],
+      visibleColumns: ['id', 'name', 'price'],
+      page: 0,
+      pageSize: 25
+    }, defaults)).toBe('');
+
+    const encoded = encodeGridUrlState({
+      globalSearch: { searchTerm: 'café', searchType: 'startsWith' },
+      activeFilters: [
+        { field: 'price', operator: 'gte', value: 10 },
+        { field: 'id', operator: 'in', value: null, values: [1, 2] }
+      ],
+      activeSorts: [
+        { field: 'price', direction: 'desc', priority: 1 },
+        { field: 'name', direction: 'asc', priority: 0 }
+      ],
+      visibleColumns: ['id', 'name'],
+      groupBy: 'name',
+      page: 3,
+      pageSize: 50
+    }, defaults);
+
+    expect(encoded).toMatch(/^1\.[A-Za-z0-9_-]+$/);
+    expect(decodeGridUrlState(encoded)).toEqual({
+      globalSearch: { searchTerm: 'café', searchType: 'startsWith' },
+      activeFilters: [
+        { field: 'price', operator: 'gte', value: 10 },
+        { field: 'id', operator: 'in', value: null, values: [1, 2] }
+      ],
+      filterGroup: null,
+      activeSorts: [
+        { field: 'name', direction: 'asc', priority: 0 },
+        { field: 'price', direction: 'desc', priority: 1 }
+      ],
+      visibleColumns: ['id', 'name'],
+      columnOrder: undefined,
+      groupBy: 'name',
+      contentView: 'rows',
+      pivotConfig: undefined,
+      calendarMode: 'month',
+      chart: null,
+      layout: null,
+      page: 3,
+      pageSize: 50
+    });
+    expect(decodeGridUrlState('')?.activeFilters).toEqual([]);
+
+    const restricted = { searchTerm: 'tea', searchType: 'contains' as const, searchFields: ['name'] };
+    expect(decodeGridUrlState(encodeGridUrlState({ globalSearch: restricted }, defaults))?.globalSearch).toEqual(restricted);
+  });
+
+  it('should link the pivot, board or calendar view, the open chart and the layout', () => {
+    const pivotConfig = { rowFields: ['manufacturerId'], columnFields: ['isActive'], measure: 'price', aggregate: 'sum' as const };
+    const chart = { type: 'bar' as const, xField: 'manufacturerId', measure: null, aggregate: 'count' as const };
+
+    expect(decodeGridUrlState(encodeGridUrlState({ contentView: 'pivot', pivotConfig, chart, layout: 'cards' }, defaults)))
+      .toMatchObject({ contentView: 'pivot', pivotConfig, chart, layout: 'cards' });
+    expect(decodeGridUrlState(encodeGridUrlState({ contentView: 'calendar', calendarMode: 'week', pivotConfig }, defaults)))
+      .toMatchObject({ contentView: 'calendar', calendarMode: 'week', pivotConfig: undefined });
+    // The rows with a closed chart are the defaults
+    expect(encodeGridUrlState({ contentView: 'rows', pivotConfig, calendarMode: 'month', chart: null, layout: null }, defaults)).toBe('');
+
+    const board = encodeGridUrlState({ contentView: 'board' }, defaults);
+    expect(isGridStateHistoryStep('', board)).toBe(true);
+    expect(isGridStateHistoryStep(board, encodeGridUrlState({ contentView: 'board', chart }, defaults))).toBe(false);
+  });
+
+  it('should reject unknown versions and corrupt data', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(decodeGridUrlState('2.eyJxIjoiYSJ9')).toBeNull();
+    expect(decodeGridUrlState('eyJxIjoiYSJ9')).toBeNull();
+    expect(decodeGridUrlState('1.not-json')).toBeNull();
+    expect(warn).toHaveBeenCalledTimes(3);
+
+    warn.mockRestore();
+  });
+
+  it('should read the hash parameter and detect history steps', () => {
+    const search = encodeGridUrlState({ globalSearch: { searchTerm: 'a', searchType: 'contains' } }, defaults);
+    const searchPage2 = encodeGridUrlState({ globalSearch: { searchTerm: 'a', searchType: 'contains' }, page: 2 }, defaults);
+
+    expect(readGridStateParam(`#state=${search}`)).toBe(search);
+    expect(readGridStateParam(`#tab=1&state=${search}`)).toBe(search);
+    expect(readGridStateParam('#filter=Active')).toBeNull();
+
+    expect(writeGridStateParam('', search)).toBe(`#state=${search}`);
+    expect(writeGridStateParam(`#tab=1&state=${search}&panel=2`, searchPage2)).toBe(`#tab=1&state=${searchPage2}&panel=2`);
+    expect(writeGridStateParam('#tab=1', search)).toBe(`#tab=1&state=${search}`);
+    expect(writeGridStateParam(`#tab=1&state=${search}`, '')).toBe('#tab=1');
+    expect(writeGridStateParam(`#state=${search}`, '')).toBe('');
+
+    expect(isGridStateHistoryStep('', search)).toBe(true);
+    expect(isGridStateHistoryStep(search, searchPage2)).toBe(false);
+    expect(isGridStateHistoryStep(searchPage2, '')).toBe(true);
+  });
+});
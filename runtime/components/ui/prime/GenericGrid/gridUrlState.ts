@@ -0,0 +1,261 @@
+import type {
+  CalendarMode,
+  FilterGroup,
+  FilterOperation,
+  GlobalSearchConfig,
+  GridChartConfig,
+  GridContentView,
+  OrderByConfig,
+  PivotConfig
+} from './types';
+
+/**
+ * Hash parameter holding the encoded grid state (#state=1.<data>)
+ */
+export const GRID_STATE_PARAM = 'state';
+
+/**
+ * Current encoding version - bump when the compact format changes and keep decoding older versions
+ */
+export const GRID_STATE_VERSION = 1;
+
+/**
+ * Grid state that can be shared through the URL
+ */
+export interface UrlGridState {
+  globalSearch?: GlobalSearchConfig;
+  activeFilters?: FilterOperation[];
+  filterGroup?: FilterGroup | null;
+  activeSorts?: OrderByConfig[];
+  visibleColumns?: string[];
+  columnOrder?: string[];
+  groupBy?: string | null;
+  /** Pivot, board or calendar shown in place of the rows */
+  contentView?: GridContentView;
+  /** Pivot layout (only linked while the pivot is shown) */
+  pivotConfig?: PivotConfig;
+  /** Calendar span (only linked while the calendar is shown) */
+  calendarMode?: CalendarMode;
+  /** Chart panel settings while the panel is open (null = closed) */
+  chart?: GridChartConfig | null;
+  /** Table or cards picked in the toolbar (null = the grid's layout prop) */
+  layout?: 'table' | 'cards' | null;
+  /** Zero-based page index */
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * Defaults left out of the encoding so links stay short
+ */
+export interface UrlGridStateDefaults {
+  columns: string[];
+  pageSize: number;
+}
+
+/**
+ * Compact v1 format - short keys, defaults omitted
+ * q: search term, t: search type (omitted for 'contains'), sf: search fields, f: [field, operator, value, values?],
+ * g: filter group, s: sort fields ('-field' = descending), c: visible columns, o: column order,
+ * b: group-by column, v: pivot/board/calendar view, pv: pivot layout, cm: calendar mode (omitted for 'month'),
+ * ch: open chart settings, l: layout, p: page, n: page size
+ */
+interface CompactGridState {
+  q?: string;
+  t?: GlobalSearchConfig['searchType'];
+  sf?: string[];
+  f?: [string, FilterOperation['operator'], any, any[]?][];
+  g?: FilterGroup;
+  s?: string[];
+  c?: string[];
+  o?: string[];
+  b?: string;
+  v?: Exclude<GridContentView, 'rows'>;
+  pv?: PivotConfig;
+  cm?: CalendarMode;
+  ch?: GridChartConfig;
+  l?: 'table' | 'cards';
+  p?: number;
+  n?: number;
+}
+
+// Keys that describe what is shown (filters, sorts, search, grouping, view) - changing them adds a history entry
+const HISTORY_KEYS: (keyof CompactGridState)[] = ['q', 't', 'sf', 'f', 'g', 's', 'b', 'v'];
+
+const sameList = (a: string[], b: string[]) => a.length === b.length && a.every((value, i) => value === b[i]);
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(data: string): string {
+  const base64 = data.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+function toCompact(state: UrlGridState, defaults: UrlGridStateDefaults): CompactGridState {
+  const compact: CompactGridState = {};
+
+  if (state.globalSearch?.searchTerm) {
+    compact.q = state.globalSearch.searchTerm;
+    if (state.globalSearch.searchType !== 'contains') {
+      compact.t = state.globalSearch.searchType;
+    }
+    if (state.globalSearch.searchFields?.length) {
+      compact.sf = state.globalSearch.searchFields;
+    }
+  }
+  if (state.activeFilters?.length) {
+    compact.f = state.activeFilters.map(filter =>
+      filter.values !== undefined
+        ? [filter.field, filter.operator, filter.value, filter.values]
+        : [filter.field, filter.operator, filter.value]
+    );
+  }
+  if (state.filterGroup && state.filterGroup.conditions.length > 0) {
+    compact.g = state.filterGroup;
+  }
+  if (state.activeSorts?.length) {
+    compact.s = [...state.activeSorts]
+      .sort((a, b) => (a.priority || 0) - (b.priority || 0))
+      .map(sort => (sort.direction === 'desc' ? `-${sort.field}` : sort.field));
+  }
+  if (state.visibleColumns && !sameList(state.visibleColumns, defaults.columns)) {
+    compact.c = state.visibleColumns;
+  }
+  if (state.columnOrder && !sameList(state.columnOrder, defaults.columns)) {
+    compact.o = state.columnOrder;
+  }
+  if (state.groupBy) {
+    compact.b = state.groupBy;
+  }
+  if (state.contentView && state.contentView !== 'rows') {
+    compact.v = state.contentView;
+    if (state.contentView === 'pivot' && state.pivotConfig) {
+      compact.pv = state.pivotConfig;
+    }
+    if (state.contentView === 'calendar' && state.calendarMode && state.calendarMode !== 'month') {
+      compact.cm = state.calendarMode;
+    }
+  }
+  if (state.chart) {
+    compact.ch = state.chart;
+  }
+  if (state.layout) {
+    compact.l = state.layout;
+  }
+  if (state.page) {
+    compact.p = state.page;
+  }
+  if (state.pageSize && state.pageSize !== defaults.pageSize) {
+    compact.n = state.pageSize;
+  }
+
+  return compact;
+}
+
+function fromCompact(compact: CompactGridState): UrlGridState {
+  return {
+    globalSearch: {
+      searchTerm: compact.q ?? '',
+      searchType: compact.t ?? 'contains',
+      ...(compact.sf?.length ? { searchFields: compact.sf } : {})
+    },
+    activeFilters: (compact.f ?? []).map(([field, operator, value, values]) =>
+      values !== undefined ? { field, operator, value, values } : { field, operator, value }
+    ),
+    filterGroup: compact.g ?? null,
+    activeSorts: (compact.s ?? []).map((entry, priority) => ({
+      field: entry.replace(/^-/, ''),
+      direction: entry.startsWith('-') ? 'desc' : 'asc',
+      priority
+    })),
+    visibleColumns: compact.c,
+    columnOrder: compact.o,
+    groupBy: compact.b ?? null,
+    contentView: compact.v ?? 'rows',
+    pivotConfig: compact.pv,
+    calendarMode: compact.cm ?? 'month',
+    chart: compact.ch ?? null,
+    layout: compact.l ?? null,
+    page: compact.p ?? 0,
+    pageSize: compact.n
+  };
+}
+
+function parseCompact(encoded: string): CompactGridState | null {
+  const separator = encoded.indexOf('.');
+  const version = Number(encoded.slice(0, separator));
+  if (separator < 1 || version !== GRID_STATE_VERSION) {
+    console.warn(`⚠️ [gridUrlState] Unsupported grid state version: ${encoded.slice(0, Math.max(separator, 0)) || '(none)'}`);
+    return null;
+  }
+  try {
+    const compact = JSON.parse(fromBase64Url(encoded.slice(separator + 1)));
+    return compact && typeof compact === 'object' && !Array.isArray(compact) ? compact : null;
+  } catch (error) {
+    console.warn('⚠️ [gridUrlState] Invalid grid state in URL:', error);
+    return null;
+  }
+}
+
+/**
+ * Encode grid state as `<version>.<base64url JSON>` - returns '' when everything is at its default
+ */
+export function encodeGridUrlState(state: UrlGridState, defaults: UrlGridStateDefaults): string {
+  const compact = toCompact(state, defaults);
+  return Object.keys(compact).length > 0
+    ? `${GRID_STATE_VERSION}.${toBase64Url(JSON.stringify(compact))}`
+    : '';
+}
+
+/**
+ * Decode an encoded grid state ('' decodes to the defaults) - null for unknown versions or corrupt data
+ * Missing parts come back as their empty defaults so applying the result fully replaces the grid state
+ */
+export function decodeGridUrlState(encoded: string): UrlGridState | null {
+  // Empty encoding = everything at its default
+  const compact = encoded ? parseCompact(encoded) : {};
+  return compact ? fromCompact(compact) : null;
+}
+
+/**
+ * Read the encoded state from a location hash (#state=... or #a=b&state=...)
+ */
+export function readGridStateParam(hash: string): string | null {
+  const match = hash.match(new RegExp(`[#&]${GRID_STATE_PARAM}=([^&]+)`));
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+/**
+ * Hash with the state param replaced, added, or removed when encoded is empty - other params are kept
+ * e.g. ('#tab=1&state=1.abc', '1.xyz') -> '#tab=1&state=1.xyz'
+ */
+export function writeGridStateParam(hash: string, encoded: string): string {
+  const params = hash.replace(/^#/, '').split('&').filter(Boolean);
+  const index = params.findIndex(param => param.startsWith(`${GRID_STATE_PARAM}=`));
+  const value = `${GRID_STATE_PARAM}=${encodeURIComponent(encoded)}`;
+  if (index === -1) {
+    if (encoded) params.push(value);
+  } else if (encoded) {
+    params[index] = value;
+  } else {
+    params.splice(index, 1);
+  }
+  return params.length > 0 ? `#${params.join('&')}` : '';
+}
+
+/**
+ * Whether moving from one encoded state to another should add a browser history entry
+ * Filter, sort, search, grouping and view changes do; paging, page size, column, chart and layout changes replace
+ * the current entry
+ */
+export function isGridStateHistoryStep(previous: string, next: string): boolean {
+  const before = previous ? parseCompact(previous) ?? {} : {};
+  const after = next ? parseCompact(next) ?? {} : {};
+  return HISTORY_KEYS.some(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+}
@@ -0,0 +1,88 @@
+/**
+ * @vitest-environment jsdom
+ * @group unit
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  applyDefaultFlag,
+  findDefaultView,
+  createLocalStorageViewAdapter,
+  createDefinedFilterViewAdapter
+} from './gridViews';
+import type { SavedGridView } from './gridViews';
+
+const view = (id: string, name: string, isDefault = false): SavedGridView => ({
+  id,
+  name,
+  isDefault,
+  gridState: { searchQuery: {}, activeSorts: [{ field: 'name', direction: 'asc', priority: 0 }] },
+  sidebarPinned: false,
+  pageSize: 50,
+  updatedAt: '2026-01-01T00:00:00.000Z'
+});
+
+describe('gridViews', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should keep a single default view', () => {
+    const views = [view('a', 'Active', true), view('b', 'Backorders')];
+
+    expect(applyDefaultFlag(views, 'b')).toEqual([
+      { ...views[0], isDefault: false },
+      { ...views[1], isDefault: true }
+    ]);
+    expect(applyDefaultFlag(views, null)).toEqual([{ ...views[0], isDefault: false }]);
+    expect(applyDefaultFlag(views, 'a')).toEqual([]);
+    expect(findDefaultView(views)?.id).toBe('a');
+  });
+
+  it('should store views per grid in localStorage', async () => {
+    const adapter = createLocalStorageViewAdapter();
+
+    await adapter.save('products', view('b', 'Backorders'));
+    await adapter.save('products', view('a', 'Active'));
+    await adapter.save('products', { ...view('b', 'Backorders'), pageSize: 100 });
+    await adapter.save('orders', view('c', 'Open'));
+
+    const views = await adapter.load('products');
+    expect(views.map(v => v.name)).toEqual(['Active', 'Backorders']);
+    expect(views[1].pageSize).toBe(100);
+
+    await adapter.remove('products', 'a');
+    await adapter.remove('products', 'b');
+    expect(await adapter.load('products')).toEqual([]);
+    expect(localStorage.getItem('grid-views-products')).toBeNull();
+    expect(await adapter.load('orders')).toHaveLength(1);
+  });
+
+  it('should store views as owned DefinedFilters', async () => {
+    const client = {
+      Query: vi.fn().mockResolvedValue({
+        rows: [{ id: 7, name: 'Active', state: JSON.stringify({ gridState: {}, sidebarPinned: false, pageSize: 50, isDefault: true }) }]
+      }),
+      Save: vi.fn().mockResolvedValue({ id: 8 }),
+      Delete: vi.fn().mockResolvedValue(true)
+    };
+    const adapter = createDefinedFilterViewAdapter(client, 42);
+
+    const loaded = await adapter.load('products');
+    expect(client.Query.mock.calls[0][0].body.filter).toEqual({
+      instance: { eq: 'views:products' },
+      owner: { eq: 42 },
+      isActive: { eq: true }
+    });
+    expect(loaded[0]).toMatchObject({ id: '7', name: 'Active', isDefault: true, sidebarPinned: false, pageSize: 50 });
+
+    const saved = await adapter.save('products', view('view-new', 'Backorders'));
+    expect(saved.id).toBe('8');
+    const body = client.Save.mock.calls[0][0].body;
+    expect(body).toMatchObject({ id: undefined, name: 'Backorders', instance: 'views:products', owner: 42, isActive: true });
+    expect(JSON.parse(body.state)).toMatchObject({ pageSize: 50, sidebarPinned: false, isDefault: false });
+
+    await adapter.remove('products', '7');
+    expect(client.Delete).toHaveBeenCalledWith({ id: 7 });
+  });
+});
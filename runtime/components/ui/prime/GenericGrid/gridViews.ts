@@ -0,0 +1,179 @@
+import type { GridStateConfig } from './types';
+
+/**
+ * Personal saved view - the grid state plus the layout around it
+ */
+export interface SavedGridView<TSearchQuery = any> {
+  id: string;
+  name: string;
+  /** Applied on mount before the first fetch (at most one view per grid) */
+  isDefault: boolean;
+  gridState: GridStateConfig<TSearchQuery>;
+  /** FilterSidebar pinned open */
+  sidebarPinned: boolean;
+  pageSize: number;
+  /** ISO timestamp of the last save */
+  updatedAt: string;
+}
+
+/**
+ * Storage for saved views - one list per grid key (entityType or grid instance)
+ * save returns the stored view, which may carry a new id (e.g. a server-assigned key)
+ */
+export interface GridViewPersistenceAdapter {
+  load(gridKey: string): Promise<SavedGridView[]>;
+  save(gridKey: string, view: SavedGridView): Promise<SavedGridView>;
+  remove(gridKey: string, viewId: string): Promise<void>;
+}
+
+/**
+ * Generate an id for a view that has not been stored yet
+ */
+export function createViewId(): string {
+  return `view-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Mark one view as default (or none with null) - returns the views whose flag changed
+ */
+export function applyDefaultFlag(views: SavedGridView[], defaultViewId: string | null): SavedGridView[] {
+  return views
+    .filter(view => view.isDefault !== (view.id === defaultViewId))
+    .map(view => ({ ...view, isDefault: view.id === defaultViewId }));
+}
+
+/**
+ * The view to auto-apply on mount
+ */
+export function findDefaultView(views: SavedGridView[]): SavedGridView | undefined {
+  return views.find(view => view.isDefault);
+}
+
+/**
+ * Replace (by id) or append a view, keeping the list ordered by name
+ */
+export function upsertView(views: SavedGridView[], view: SavedGridView): SavedGridView[] {
+  return [...views.filter(existing => existing.id !== view.id), view]
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Views in localStorage under `grid-views-<gridKey>` (default adapter)
+ * Views stay on this browser only
+ */
+export function createLocalStorageViewAdapter(storagePrefix = 'grid-views-'): GridViewPersistenceAdapter {
+  const read = (gridKey: string): SavedGridView[] => {
+    try {
+      const stored = localStorage.getItem(`${storagePrefix}${gridKey}`);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.warn(`⚠️ [gridViews] Failed to read views for ${gridKey}:`, error);
+      return [];
+    }
+  };
+
+  const write = (gridKey: string, views: SavedGridView[]) => {
+    if (views.length > 0) {
+      localStorage.setItem(`${storagePrefix}${gridKey}`, JSON.stringify(views));
+    } else {
+      localStorage.removeItem(`${storagePrefix}${gridKey}`);
+    }
+  };
+
+  return {
+    load: async (gridKey) => read(gridKey),
+    save: async (gridKey, view) => {
+      write(gridKey, upsertView(read(gridKey), view));
+      return view;
+    },
+    remove: async (gridKey, viewId) => {
+      write(gridKey, read(gridKey).filter(view => view.id !== viewId));
+    }
+  };
+}
+
+/**
+ * DefinedFilter client shape used by the DefinedFilter adapter
+ */
+export interface DefinedFilterViewClient {
+  Query(params: { body: any }): Promise<{ rows?: any[] } | undefined>;
+  Save(params: { body: any }): Promise<any>;
+  Delete(params: { id: number | string }): Promise<boolean | undefined>;
+}
+
+/**
+ * Views stored as DefinedFilters owned by one user - shared across browsers
+ * Rows use instance `views:<gridKey>` (no entityType) so they never show up in the shared DefinedFilter list;
+ * the view settings are kept in the state JSON next to the grid state.
+ */
+export function createDefinedFilterViewAdapter(
+  client: DefinedFilterViewClient,
+  owner: string | number
+): GridViewPersistenceAdapter {
+  const instanceFor = (gridKey: string) => `views:${gridKey}`;
+
+  const toView = (row: any): SavedGridView | null => {
+    try {
+      const state = JSON.parse(row.state || '{}');
+      return {
+        id: String(row.id),
+        name: row.name,
+        isDefault: !!state.isDefault,
+        gridState: state.gridState ?? {},
+        sidebarPinned: state.sidebarPinned !== false,
+        pageSize: state.pageSize,
+        updatedAt: state.updatedAt ?? ''
+      };
+    } catch (error) {
+      console.warn(`⚠️ [gridViews] Ignoring view "${row.name}" with invalid state:`, error);
+      return null;
+    }
+  };
+
+  return {
+    load: async (gridKey) => {
+      const response = await client.Query({
+        body: {
+          currentPage: 0,
+          pageSize: 100,
+          filter: {
+            instance: { eq: instanceFor(gridKey) },
+            owner: { eq: owner },
+            isActive: { eq: true }
+          }
+        }
+      });
+      return (response?.rows ?? [])
+        .map(toView)
+        .filter((view): view is SavedGridView => view !== null)
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+    save: async (gridKey, view) => {
+      // Numeric ids come from the server - generated ids mean the view is new
+      const existingId = /^\d+$/.test(view.id) ? Number(view.id) : undefined;
+      const saved = await client.Save({
+        body: {
+          id: existingId,
+          name: view.name,
+          instance: instanceFor(gridKey),
+          owner,
+          isActive: true,
+          state: JSON.stringify({
+            gridState: view.gridState,
+            sidebarPinned: view.sidebarPinned,
+            pageSize: view.pageSize,
+            isDefault: view.isDefault,
+            updatedAt: view.updatedAt
+          })
+        }
+      });
+      if (!saved) {
+        throw new Error(`Failed to save view "${view.name}"`);
+      }
+      return { ...view, id: String(saved.id ?? existingId ?? view.id) };
+    },
+    remove: async (_gridKey, viewId) => {
+      await client.Delete({ id: /^\d+$/.test(viewId) ? Number(viewId) : viewId });
+    }
+  };
+}
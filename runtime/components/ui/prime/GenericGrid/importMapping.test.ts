@@ -0,0 +1,73 @@
+/**
+ * @vitest-environment jsdom
+ * @group unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseCsv,
+  autoMatchColumns,
+  buildLookupIndex,
+  mapImportRows,
+  buildErrorReportCsv
+} from './importMapping';
+import type { ImportField } from './importMapping';
+
+const fields: ImportField[] = [
+  { name: 'productName', label: 'Product Name', dataType: 'string', required: true, aliases: ['productName'] },
+  { name: 'unitPrice', label: 'Price', dataType: 'number', required: false, aliases: ['unitPrice'] },
+  { name: 'isActive', label: 'Active', dataType: 'boolean', required: false, aliases: ['isActive'] },
+  {
+    name: 'manufacturerId',
+    label: 'Manufacturer',
+    dataType: 'integer',
+    required: false,
+    navigationTarget: 'GreenOnion.Common.Models.QueryManufacturerModel',
+    aliases: ['manufacturerName', 'manufacturerId']
+  }
+];
+
+describe('importMapping', () => {
+  it('should parse quoted CSV with a detected delimiter', () => {
+    expect(parseCsv('\uFEFFName,Notes\r\n"Acme, Inc.","Say ""hi""\nagain"\r\nBeta,')).toEqual([
+      ['Name', 'Notes'],
+      ['Acme, Inc.', 'Say "hi"\nagain'],
+      ['Beta', '']
+    ]);
+    expect(parseCsv('a;b\n1;2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('should auto-match headers by label first, then by field name', () => {
+    const mapping = autoMatchColumns(['PRODUCT NAME', 'manufacturer_name', 'Unknown', 'price'], fields);
+
+    expect(mapping).toEqual(['productName', 'manufacturerId', null, 'unitPrice']);
+  });
+
+  it('should convert cells, resolve lookups and collect row errors', () => {
+    const lookups = {
+      'GreenOnion.Common.Models.QueryManufacturerModel': buildLookupIndex([
+        { value: 7, label: 'Acme' },
+        { value: 8, label: 'Globex' },
+        { value: 9, label: 'Globex' }
+      ])
+    };
+    const mapping = ['productName', 'unitPrice', 'isActive', 'manufacturerId'];
+
+    const rows = mapImportRows([
+      ['Widget', '1,250.50', 'yes', 'acme'],
+      ['', '', '', ''],
+      ['Gadget', 'abc', 'maybe', 'Globex']
+    ], mapping, fields, lookups);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0].data).toEqual({ productName: 'Widget', unitPrice: 1250.5, isActive: true, manufacturerId: 7 });
+    expect(rows[0].errors).toEqual([]);
+    expect(rows[1].rowNumber).toBe(4);
+    expect(rows[1].errors.map(e => e.field)).toEqual(['unitPrice', 'isActive', 'manufacturerId']);
+
+    const report = buildErrorReportCsv(['Name', 'Price', 'Active', 'Manufacturer'], rows).split('\r\n');
+    expect(report[0]).toBe('\uFEFFRow,Name,Price,Active,Manufacturer,Errors');
+    expect(report[1]).toBe('4,Gadget,abc,maybe,Globex,"Price must be a number; Active must be Yes or No; ""Globex"" matches more than one Manufacturer"');
+    expect(report).toHaveLength(3);
+  });
+});
@@ -0,0 +1,334 @@
+import type { EntityFormSchema, FieldDataType, FieldOption } from '../EntityForm/EntityFormSchema';
+import { escapeCsv } from './gridExport';
+
+/**
+ * SaveModel field a spreadsheet column can be mapped to
+ * - name: payload field (the FK field for navigation relation columns)
+ * - navigationTarget: cell text is resolved to an id through the target's lookup options
+ */
+export interface ImportField {
+  name: string;
+  label: string;
+  dataType: FieldDataType;
+  required: boolean;
+  navigationTarget?: string;
+  options?: FieldOption[];
+  /** Other names accepted when auto-matching headers (field names, display field) */
+  aliases: string[];
+}
+
+/**
+ * Column index -> ImportField name (null = column is ignored)
+ */
+export type ImportColumnMapping = (string | null)[];
+
+/**
+ * Lookup options of a navigation target indexed for text resolution
+ * Labels that occur more than once map to null (ambiguous)
+ */
+export interface LookupIndex {
+  byLabel: Map<string, number | null>;
+  ids: Set<number>;
+}
+
+export interface ImportRowError {
+  /** Payload field the error belongs to (missing for row-level errors like save failures) */
+  field?: string;
+  message: string;
+}
+
+/**
+ * One spreadsheet data row after mapping and conversion
+ */
+export interface ImportRow {
+  /** 1-based spreadsheet row number (header is row 1) */
+  rowNumber: number;
+  cells: string[];
+  data: Record<string, unknown>;
+  errors: ImportRowError[];
+}
+
+const TRUE_VALUES = new Set(['true', 'yes', 'y', '1', 'x']);
+const FALSE_VALUES = new Set(['false', 'no', 'n', '0', '']);
+
+/**
+ * Normalize a header/label for matching ('Manufacturer ID' -> 'manufacturerid')
+ */
+const normalizeKey = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const normalizeLabel = (text: string) => text.trim().toLowerCase();
+
+/**
+ * Build the importable fields of an entity from its form schema
+ * Only SaveModel (editable) fields are importable; the primary key is skipped because imports create records.
+ * Navigation relation columns (e.g. manufacturerName) import into their FK field (manufacturerId).
+ */
+export function buildImportFields(schema: EntityFormSchema): ImportField[] {
+  const editableByLower = new Map(schema.editableFields.map(name => [name.toLowerCase(), name]));
+  const result: ImportField[] = [];
+  const seen = new Set<string>();
+
+  for (const fieldName of schema.fieldOrder) {
+    const field = schema.fields[fieldName];
+    if (!field || !field.editable || field.isPrimaryKey) continue;
+    // Nested (dot-notation) and complex fields have no flat spreadsheet representation
+    if (fieldName.includes('.') || field.dataType === 'object' || field.dataType === 'array') continue;
+
+    let target = fieldName;
+    if (field.navigationRelation) {
+      const fkField = editableByLower.get(field.navigationRelation.toLowerCase());
+      if (!fkField) continue;
+      target = fkField;
+    } else if (!editableByLower.has(fieldName.toLowerCase())) {
+      continue;
+    }
+    if (seen.has(target)) continue;
+    seen.add(target);
+
+    result.push({
+      name: target,
+      label: field.label,
+      dataType: field.navigation ? 'integer' : field.dataType,
+      required: field.required || !!schema.fields[target]?.required,
+      navigationTarget: field.navigation?.target,
+      options: field.options,
+      aliases: Array.from(new Set([fieldName, target]))
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Parse CSV text into rows of cells
+ * Handles quoted fields, escaped quotes, CRLF and a UTF-8 BOM; the delimiter (comma, semicolon or tab)
+ * is detected from the header line
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const headerLine = source.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  , ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  // Last line without a trailing newline
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Auto-match spreadsheet headers to import fields by x-label first, then by field name
+ * Each field is matched at most once
+ */
+export function autoMatchColumns(headers: string[], fields: ImportField[]): ImportColumnMapping {
+  const used = new Set<string>();
+  const mapping: ImportColumnMapping = headers.map(() => null);
+
+  const matchPass = (keysOf: (field: ImportField) => string[]) => {
+    headers.forEach((header, index) => {
+      if (mapping[index] !== null) return;
+      const key = normalizeKey(header);
+      if (!key) return;
+      const match = fields.find(field => !used.has(field.name) && keysOf(field).some(k => normalizeKey(k) === key));
+      if (match) {
+        mapping[index] = match.name;
+        used.add(match.name);
+      }
+    });
+  };
+
+  matchPass(field => [field.label]);
+  matchPass(field => field.aliases);
+
+  return mapping;
+}
+
+/**
+ * Index lookup options ({ value, label } as produced by the generated ComboBoxes)
+ */
+export function buildLookupIndex(options: { value: number; label: string }[]): LookupIndex {
+  const byLabel = new Map<string, number | null>();
+  const ids = new Set<number>();
+
+  options.forEach(option => {
+    ids.add(option.value);
+    const key = normalizeLabel(String(option.label ?? ''));
+    if (!key) return;
+    byLabel.set(key, byLabel.has(key) && byLabel.get(key) !== option.value ? null : option.value);
+  });
+
+  return { byLabel, ids };
+}
+
+/**
+ * Convert one cell to the field's type
+ * Empty cells convert to undefined so they are left out of the payload
+ */
+export function convertCellValue(
+  raw: string,
+  field: ImportField,
+  lookup?: LookupIndex
+): { value?: unknown; error?: string } {
+  const text = (raw ?? '').trim();
+  if (text === '') return { value: undefined };
+
+  // Navigation fields - resolve display text (or a known id) through the target's lookup
+  if (field.navigationTarget) {
+    const asNumber = Number(text);
+    if (lookup) {
+      const byLabel = lookup.byLabel.get(normalizeLabel(text));
+      if (byLabel === null) return { error: `"${text}" matches more than one ${field.label}` };
+      if (byLabel !== undefined) return { value: byLabel };
+      if (Number.isInteger(asNumber) && lookup.ids.has(asNumber)) return { value: asNumber };
+      return { error: `No ${field.label} matches "${text}"` };
+    }
+    return Number.isInteger(asNumber)
+      ? { value: asNumber }
+      : { error: `${field.label} lookup is not available - use the ID instead of "${text}"` };
+  }
+
+  // Static options (x-options) - match by value or label
+  if (field.options && field.options.length > 0) {
+    const option = field.options.find(o =>
+      normalizeLabel(String(o.value)) === normalizeLabel(text) || normalizeLabel(o.label) === normalizeLabel(text)
+    );
+    return option ? { value: option.value } : { error: `"${text}" is not a valid ${field.label}` };
+  }
+
+  switch (field.dataType) {
+    case 'number':
+    case 'integer': {
+      const value = Number(text.replace(/[\s,]/g, ''));
+      if (isNaN(value)) return { error: `${field.label} must be a number` };
+      if (field.dataType === 'integer' && !Number.isInteger(value)) {
+        return { error: `${field.label} must be a whole number` };
+      }
+      return { value };
+    }
+    case 'boolean': {
+      const key = text.toLowerCase();
+      if (TRUE_VALUES.has(key)) return { value: true };
+      if (FALSE_VALUES.has(key)) return { value: false };
+      return { error: `${field.label} must be Yes or No` };
+    }
+    case 'date':
+    case 'datetime': {
+      const date = new Date(text);
+      return isNaN(date.getTime())
+        ? { error: `${field.label} must be a valid date` }
+        : { value: date.toISOString() };
+    }
+    default:
+      return { value: text };
+  }
+}
+
+/**
+ * Map spreadsheet rows to typed field values
+ * Conversion errors are collected per row; fully empty rows are skipped
+ */
+export function mapImportRows(
+  rows: string[][],
+  mapping: ImportColumnMapping,
+  fields: ImportField[],
+  lookups: Record<string, LookupIndex> = {}
+): ImportRow[] {
+  const fieldsByName = new Map(fields.map(field => [field.name, field]));
+  const result: ImportRow[] = [];
+
+  rows.forEach((cells, index) => {
+    if (cells.every(cell => (cell ?? '').trim() === '')) return;
+
+    const row: ImportRow = { rowNumber: index + 2, cells, data: {}, errors: [] };
+    mapping.forEach((fieldName, column) => {
+      const field = fieldName ? fieldsByName.get(fieldName) : undefined;
+      if (!field) return;
+
+      const { value, error } = convertCellValue(
+        cells[column] ?? '',
+        field,
+        field.navigationTarget ? lookups[field.navigationTarget] : undefined
+      );
+      if (error) {
+        row.errors.push({ field: field.name, message: error });
+      } else if (value !== undefined) {
+        row.data[field.name] = value;
+      }
+    });
+    result.push(row);
+  });
+
+  return result;
+}
+
+/**
+ * Build the create payload for an import row - schema defaults overlaid with the imported values,
+ * limited to SaveModel fields
+ */
+export function buildImportPayload(schema: EntityFormSchema, data: Record<string, unknown>): Record<string, unknown> {
+  const payload: Record<string, unknown> = {};
+  const source = { ...schema.defaultValues, ...data };
+
+  schema.editableFields.forEach(fieldName => {
+    if (fieldName === schema.entity.primaryKey) return;
+    if (source[fieldName] !== undefined) {
+      payload[fieldName] = source[fieldName];
+    }
+  });
+
+  return payload;
+}
+
+/**
+ * Build the downloadable error report - the original columns plus row number and error messages
+ */
+export function buildErrorReportCsv(headers: string[], rows: ImportRow[]): string {
+  const lines = [['Row', ...headers, 'Errors'].map(escapeCsv).join(',')];
+
+  rows.filter(row => row.errors.length > 0).forEach(row => {
+    lines.push([
+      String(row.rowNumber),
+      ...headers.map((_, i) => row.cells[i] ?? ''),
+      row.errors.map(error => error.message).join('; ')
+    ].map(escapeCsv).join(','));
+  });
+
+  // BOM so Excel opens UTF-8 correctly
+  return '﻿' + lines.join('\r\n') + '\r\n';
+}
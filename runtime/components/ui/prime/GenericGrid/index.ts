@@ -11,6 +11,7 @@ export type {
   PredefinedFilter,
   GlobalSearchConfig,
   FilterOperation,
+  FilterOperator,
   OrderByConfig,
   IQueryableClient,
   FilterType
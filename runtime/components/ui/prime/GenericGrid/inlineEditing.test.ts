@@ -0,0 +1,75 @@
+/**
+ * @vitest-environment jsdom
+ * @group unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyCellChanges,
+  buildRowSavePayload,
+  mergeRowEdits,
+  resolveInlineEditableField
+} from './inlineEditing';
+import type { RowEditMap } from './inlineEditing';
+import type { FieldMetadata } from '../EntityForm/types';
+
+interface Row {
+  id: number;
+  name: string;
+  manufacturerId: number | null;
+  manufacturerName: string;
+  createdOn: string;
+}
+
+const row: Row = { id: 1, name: 'Apples', manufacturerId: 7, manufacturerName: 'Acme', createdOn: '2024-01-01' };
+
+const field = (overrides: Partial<FieldMetadata>): FieldMetadata => ({
+  field: 'name',
+  label: 'Name',
+  type: 'text',
+  required: false,
+  readOnly: false,
+  nullable: true,
+  hidden: false,
+  isComplex: false,
+  ...overrides
+});
+
+describe('inlineEditing', () => {
+  it('should track changes per row and drop values reverted to the original', () => {
+    const edited = applyCellChanges<Row>({}, row, 'id', { name: 'Pears' });
+    expect(edited['1'].changes).toEqual({ name: 'Pears' });
+    expect(mergeRowEdits([row], edited, 'id')[0].name).toBe('Pears');
+
+    // Editing the merged row back to its original value stops tracking it
+    const reverted = applyCellChanges<Row>(edited, { ...row, name: 'Pears' }, 'id', { name: 'Apples' });
+    expect(reverted).toEqual({});
+  });
+
+  it('should build the save payload from editable fields and the primary key', () => {
+    const edits: RowEditMap<Row> = applyCellChanges<Row>({}, row, 'id', { name: 'Pears' });
+    const editedRow = { ...edits['1'].original, ...edits['1'].changes };
+
+    expect(buildRowSavePayload(editedRow, new Set(['name', 'manufacturerId']), 'id')).toEqual({
+      id: 1,
+      name: 'Pears',
+      manufacturerId: 7
+    });
+  });
+
+  it('should edit navigation relation columns through their FK field', () => {
+    const fields: Record<string, FieldMetadata> = {
+      manufacturerId: field({ field: 'manufacturerId', type: 'number', navigationTarget: 'Models.QueryManufacturerModel' }),
+      manufacturerName: field({ field: 'manufacturerName', navigationRelation: 'ManufacturerId' }),
+      createdOn: field({ field: 'createdOn', type: 'readonly' })
+    };
+    const editable = new Set(['manufacturerId']);
+
+    expect(resolveInlineEditableField('manufacturerName', fields, editable)).toMatchObject({
+      valueField: 'manufacturerId',
+      displayField: 'manufacturerName',
+      navigationTarget: 'Models.QueryManufacturerModel'
+    });
+    expect(resolveInlineEditableField('createdOn', fields, editable)).toBeNull();
+  });
+});
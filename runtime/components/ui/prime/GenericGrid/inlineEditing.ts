@@ -0,0 +1,129 @@
+import type { FieldMetadata } from '../EntityForm/types';
+
+/**
+ * Pending inline edits for a single row
+ * original is kept so rows can be saved/reverted after paging away
+ */
+export interface RowEditState<TModel> {
+  original: TModel;
+  changes: Partial<TModel>;
+}
+
+/**
+ * Pending inline edits keyed by row primary key (stringified)
+ */
+export type RowEditMap<TModel> = Record<string, RowEditState<TModel>>;
+
+/**
+ * Editable column resolved from form field metadata
+ * - valueField: field the editor writes (the FK field for navigation relation columns)
+ * - displayField: display text field updated alongside the FK (navigation relation columns only)
+ */
+export interface InlineEditableField {
+  field: FieldMetadata;
+  valueField: string;
+  displayField?: string;
+  navigationTarget?: string;
+}
+
+// Field types that have no inline editor
+const NON_EDITABLE_TYPES = new Set(['readonly', 'images', 'complex']);
+
+/**
+ * Get the row key used for edit tracking
+ */
+export function getRowKey(row: any, dataKey: string): string {
+  return String(row?.[dataKey]);
+}
+
+/**
+ * Lower-case the first character of a navigation relation (e.g. 'ManufacturerId' -> 'manufacturerId')
+ */
+function toFieldName(name: string): string {
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+/**
+ * Resolve whether a grid column can be edited inline
+ * Only fields reported by loadEditableFields are editable; navigation relation (display) columns
+ * are editable when their FK field is, and edit the FK through the target's combobox
+ */
+export function resolveInlineEditableField(
+  fieldName: string,
+  fieldsByName: Record<string, FieldMetadata>,
+  editableFields: Set<string>
+): InlineEditableField | null {
+  const field = fieldsByName[fieldName];
+  if (!field || field.hidden || field.isComplex) return null;
+
+  if (field.navigationRelation) {
+    const fkField = toFieldName(field.navigationRelation);
+    const navigationTarget = field.navigationTarget || fieldsByName[fkField]?.navigationTarget;
+    if (!editableFields.has(fkField) || !navigationTarget) return null;
+    return { field, valueField: fkField, displayField: fieldName, navigationTarget };
+  }
+
+  if (!editableFields.has(fieldName) || NON_EDITABLE_TYPES.has(field.type)) return null;
+  return { field, valueField: fieldName, navigationTarget: field.navigationTarget };
+}
+
+/**
+ * Record a cell change for a row
+ * Fields changed back to their original value are dropped; rows without changes are no longer tracked
+ */
+export function applyCellChanges<TModel>(
+  edits: RowEditMap<TModel>,
+  row: TModel,
+  dataKey: string,
+  changes: Partial<TModel>
+): RowEditMap<TModel> {
+  const key = getRowKey(row, dataKey);
+  const original = edits[key]?.original ?? row;
+  const merged: Record<string, any> = { ...(edits[key]?.changes || {}), ...changes };
+
+  Object.keys(merged).forEach(field => {
+    if ((merged[field] ?? null) === ((original as any)[field] ?? null)) {
+      delete merged[field];
+    }
+  });
+
+  const next = { ...edits };
+  if (Object.keys(merged).length === 0) {
+    delete next[key];
+  } else {
+    next[key] = { original, changes: merged as Partial<TModel> };
+  }
+  return next;
+}
+
+/**
+ * Apply pending edits to the rows being displayed
+ */
+export function mergeRowEdits<TModel>(rows: TModel[], edits: RowEditMap<TModel>, dataKey: string): TModel[] {
+  if (Object.keys(edits).length === 0) return rows;
+  return rows.map(row => {
+    const edit = edits[getRowKey(row, dataKey)];
+    return edit ? { ...row, ...edit.changes } : row;
+  });
+}
+
+/**
+ * Build the Save payload for an edited row - editable fields plus the primary key
+ * Mirrors BaseEntityForm so a grid save sends the same shape as the Edit page
+ */
+export function buildRowSavePayload(
+  row: Record<string, any>,
+  editableFields: Set<string>,
+  primaryKeyField: string
+): Record<string, any> {
+  const payload: Record<string, any> = {};
+  editableFields.forEach(field => {
+    if (field in row) {
+      payload[field] = row[field];
+    }
+  });
+  if (row[primaryKeyField] !== undefined) {
+    payload[primaryKeyField] = row[primaryKeyField];
+  }
+  return payload;
+}
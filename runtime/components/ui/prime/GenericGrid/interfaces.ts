@@ -2,8 +2,9 @@ import React from 'react';
 import { ISearchQueryBase } from '../Base/types';
 
 // Client interface for data operations
+// requestOptions.signal aborts the request (generated clients pass it to fetch)
 export interface IQueryableClient<TFilter, TOrderBy, TSearchQuery, TModel> {
-  Query(request: { body: TSearchQuery }): Promise<{
+  Query(request: { body: TSearchQuery }, requestOptions?: { signal?: AbortSignal }): Promise<{
     rows?: TModel[];
     totalRowCount?: number;
   }>;
@@ -39,12 +40,20 @@ export interface GlobalSearchConfig {
   searchType: 'startsWith' | 'contains' | 'endsWith' | 'equals';
 }
 
+// Filter operators (see types.ts for value conventions)
+export type FilterOperator =
+  | 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte'
+  | 'in' | 'notIn'
+  | 'contains' | 'startsWith' | 'endsWith'
+  | 'between'
+  | 'isNull' | 'isNotNull';
+
 // Filter operations
 export interface FilterOperation {
   field: string;
-  operator: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in';
+  operator: FilterOperator;
   value: any;
-  values?: any[]; // for 'in' operator
+  values?: any[]; // for 'in'/'notIn' operators, or [from, to] for 'between'
 }
 
 // Order by configuration
@@ -77,6 +86,8 @@ export interface GenericGridProps<TFilter, TOrderBy, TSearchQuery extends ISearc
     pageSize?: number;
     /** Buffer size for virtual scrolling (default: 10) */
     buffer?: number;
+    /** Maximum pages kept in memory - pages farthest from the viewport are evicted (default: 10) */
+    maxCachedPages?: number;
   };
   
   // Features
@@ -94,4 +105,7 @@ export interface GenericGridProps<TFilter, TOrderBy, TSearchQuery extends ISearc
   // Styling
   className?: string;
   height?: string;
+
+  /** Primary key field for row identification and selection (default: 'id') */
+  dataKey?: string;
 }
\ No newline at end of file
@@ -0,0 +1,97 @@
+/**
+ * @vitest-environment jsdom
+ * @group unit
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  addRowsToPivotGroups,
+  buildPivotExport,
+  buildPivotRequest,
+  buildPivotTable,
+  getPivotDimensions,
+  loadPivotGroups
+} from './pivotOperations';
+import type { PivotPageFetcher } from './pivotOperations';
+import type { PivotConfig } from './types';
+
+const rows = [
+  { id: 1, categoryId: 1, categoryName: 'Beverages', isActive: true, unitPrice: 10 },
+  { id: 2, categoryId: 1, categoryName: 'Beverages', isActive: false, unitPrice: 20 },
+  { id: 3, categoryId: 2, categoryName: 'Produce', isActive: true, unitPrice: 30 },
+  { id: 4, categoryId: 2, categoryName: 'Produce', isActive: true, unitPrice: 50 },
+  { id: 5, categoryId: null, categoryName: null, isActive: true, unitPrice: null }
+];
+const dimensions = [{ field: 'categoryId', header: 'Category', labelField: 'categoryName' }, { field: 'isActive', header: 'Active' }];
+const config: PivotConfig = { rowFields: ['categoryId'], columnFields: ['isActive'], measure: 'unitPrice', aggregate: 'avg' };
+
+describe('pivotOperations', () => {
+  it('should offer navigation fields labeled by their display field, then non-numeric columns', () => {
+    const columns = [
+      { field: 'id', header: 'ID' },
+      { field: 'categoryId', header: 'Category ID', sortable: false },
+      { field: 'categoryName', header: 'Category Name' },
+      { field: 'isActive', header: 'Active' },
+      { field: 'unitPrice', header: 'Unit Price' }
+    ];
+
+    expect(getPivotDimensions(columns, [{ field: 'categoryId', labelField: 'categoryName' }], { dataKey: 'id', numericFields: ['unitPrice'] }))
+      .toEqual([
+        { field: 'categoryId', header: 'Category Name', labelField: 'categoryName' },
+        { field: 'isActive', header: 'Active' }
+      ]);
+  });
+
+  it('should cross-tabulate rows with true averages in the totals', () => {
+    const groups = addRowsToPivotGroups(new Map(), rows, buildPivotRequest(config), dimensions);
+    const table = buildPivotTable(Array.from(groups.values()), config);
+
+    expect(table.rowHeaders.map(header => header.labels)).toEqual([['Beverages'], ['Produce'], ['(Blank)']]);
+    expect(table.columnHeaders.map(header => header.labels)).toEqual([['No'], ['Yes']]);
+
+    const [beverages, produce] = table.rowHeaders.map(header => header.key);
+    const [inactive, active] = table.columnHeaders.map(header => header.key);
+    expect(table.cells[beverages]).toEqual({ [inactive]: 20, [active]: 10 });
+    expect(table.cells[produce]).toEqual({ [active]: 40 });
+    expect(table.columnTotals[active]).toBe(30); // (10 + 30 + 50) / 3, not the average of 10 and 40
+    expect(table.grandTotal).toBe(27.5);
+
+    // Counting rows is a different request - rows without a measure value count too
+    const countConfig: PivotConfig = { ...config, measure: null };
+    const countGroups = addRowsToPivotGroups(new Map(), rows, buildPivotRequest(countConfig), dimensions);
+    expect(buildPivotTable(Array.from(countGroups.values()), countConfig).grandTotal).toBe(5);
+  });
+
+  it('should use the server pivot when returned, otherwise page through the rows', async () => {
+    const serverGroups = [{ keys: { categoryId: 1 }, labels: { categoryId: 'Beverages' }, count: 2, sum: 30 }];
+    const server = vi.fn().mockResolvedValue({ rows: [], totalRowCount: 2, pivot: serverGroups });
+    await expect(loadPivotGroups(server, buildPivotRequest(config), dimensions, { maxRecords: 100 }))
+      .resolves.toEqual({ groups: serverGroups, source: 'server', totalRowCount: 2 });
+
+    const paged = vi.fn<PivotPageFetcher>((page, pageSize) =>
+      Promise.resolve({ rows: rows.slice(page * pageSize, (page + 1) * pageSize), totalRowCount: rows.length }));
+    const result = await loadPivotGroups(paged, buildPivotRequest(config), dimensions, { chunkSize: 2, maxRecords: 100 });
+
+    expect(paged).toHaveBeenCalledTimes(3);
+    expect(paged.mock.calls[0][2]).toEqual({ groupBy: ['categoryId', 'isActive'], measure: 'unitPrice' });
+    expect(result).toMatchObject({ source: 'rows', rowCount: 5, totalRowCount: 5 });
+    expect(result.groups).toHaveLength(4);
+  });
+
+  it('should flatten the table for export with a totals row and column', () => {
+    const sumConfig: PivotConfig = { ...config, aggregate: 'sum' };
+    const groups = addRowsToPivotGroups(new Map(), rows.slice(0, 4), buildPivotRequest(sumConfig), dimensions);
+    const { columns, rows: exportRows } = buildPivotExport(
+      buildPivotTable(Array.from(groups.values()), sumConfig),
+      sumConfig,
+      field => dimensions.find(dimension => dimension.field === field)?.header ?? field
+    );
+
+    expect(columns.map(column => column.header)).toEqual(['Category', 'No', 'Yes', 'Total']);
+    expect(exportRows).toEqual([
+      { row0: 'Beverages', value0: 20, value1: 10, total: 30 },
+      { row0: 'Produce', value0: null, value1: 80, total: 80 },
+      { row0: 'Total', value0: 20, value1: 90, total: 110 }
+    ]);
+  });
+});
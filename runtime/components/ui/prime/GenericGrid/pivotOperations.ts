@@ -0,0 +1,329 @@
+import type { GenericGridColumn, PivotConfig } from './types';
+import { AGGREGATE_FUNCTIONS, getGroupKey } from './aggregateOperations';
+import { ExportCancelledError, awaitUnlessCancelled, readExportChunks } from './exportChunks';
+import type { ExportChunkOptions } from './exportChunks';
+import type { ExportColumn } from './gridExport';
+
+/**
+ * Field the pivot can group rows or columns by
+ */
+export interface PivotDimension {
+  field: string;
+  header: string;
+  /** Row field holding the display text for the value (x-navigation-relation of a navigation ID) */
+  labelField?: string;
+}
+
+/**
+ * Sent as searchQuery.pivot to servers that can aggregate the pivot themselves
+ */
+export interface PivotRequest {
+  /** Row dimensions followed by column dimensions */
+  groupBy: string[];
+  /** Numeric field to aggregate - null counts rows */
+  measure: string | null;
+}
+
+/**
+ * Partial aggregates for one combination of dimension values
+ * Returned as response.pivot by servers that support searchQuery.pivot - totals for any
+ * function can be derived from these, so changing the function needs no new request
+ */
+export interface PivotGroup {
+  /** Dimension field -> value */
+  keys: Record<string, unknown>;
+  /** Dimension field -> display text (navigation fields) */
+  labels?: Record<string, string>;
+  /** Rows in the group, or the number of measure values when a measure is set */
+  count: number;
+  sum?: number | null;
+  min?: number | null;
+  max?: number | null;
+}
+
+/**
+ * Row or column header - one label per dimension field
+ */
+export interface PivotHeader {
+  key: string;
+  labels: string[];
+}
+
+export interface PivotTable {
+  rowHeaders: PivotHeader[];
+  columnHeaders: PivotHeader[];
+  /** Row key -> column key -> value (missing = no rows in that combination) */
+  cells: Record<string, Record<string, number | null>>;
+  rowTotals: Record<string, number | null>;
+  columnTotals: Record<string, number | null>;
+  grandTotal: number | null;
+}
+
+export const DEFAULT_PIVOT_CONFIG: PivotConfig = { rowFields: [], columnFields: [], measure: null, aggregate: 'sum' };
+
+const BLANK_LABEL = '(Blank)';
+
+/**
+ * Dimensions offered by the pivot - navigation IDs first (labeled by their display field),
+ * then the other sortable, non-numeric columns
+ * Display fields of navigation IDs are left out as they would repeat the ID's grouping
+ */
+export function getPivotDimensions(
+  columns: GenericGridColumn<any>[],
+  navigationFields: { field: string; labelField?: string }[],
+  { dataKey, numericFields = [] }: { dataKey: string; numericFields?: string[] }
+): PivotDimension[] {
+  const headerOf = (field: string) => columns.find(col => String(col.field) === field)?.header;
+  const navigation = navigationFields
+    .filter(nav => headerOf(nav.field) || (nav.labelField && headerOf(nav.labelField)))
+    .map(nav => ({
+      field: nav.field,
+      // Navigation ID columns are headed 'Category ID' - the pivot shows the names
+      header: (nav.labelField && headerOf(nav.labelField)) || headerOf(nav.field)!.replace(/ ID$/i, ''),
+      labelField: nav.labelField
+    }));
+
+  const skipped = new Set([dataKey, 'actions', ...numericFields, ...navigationFields.flatMap(nav => [nav.field, nav.labelField ?? ''])]);
+  const others = columns
+    .filter(col => col.sortable !== false && !skipped.has(String(col.field)))
+    .map(col => ({ field: String(col.field), header: col.header }));
+
+  return [...navigation, ...others];
+}
+
+/**
+ * Server request for a pivot layout
+ */
+export function buildPivotRequest(config: PivotConfig): PivotRequest {
+  return { groupBy: [...config.rowFields, ...config.columnFields], measure: config.measure };
+}
+
+const groupKeyOf = (values: Record<string, unknown>, fields: string[]) =>
+  JSON.stringify(fields.map(field => getGroupKey(values as Record<string, any>, field)));
+
+const toMeasureValue = (value: unknown): number | null =>
+  value === null || value === undefined || value === '' || isNaN(Number(value)) ? null : Number(value);
+
+// Merge a group's partial aggregates into an accumulator
+function mergeGroup(target: PivotGroup, source: Pick<PivotGroup, 'count' | 'sum' | 'min' | 'max'>) {
+  target.count += source.count;
+  if (source.sum !== null && source.sum !== undefined) target.sum = (target.sum ?? 0) + source.sum;
+  if (source.min !== null && source.min !== undefined) target.min = Math.min(target.min ?? source.min, source.min);
+  if (source.max !== null && source.max !== undefined) target.max = Math.max(target.max ?? source.max, source.max);
+}
+
+/**
+ * Add fetched rows to the pivot groups (client-side counterpart of response.pivot)
+ * Rows without a numeric measure value still create their group, with a count of 0
+ */
+export function addRowsToPivotGroups(
+  groups: Map<string, PivotGroup>,
+  rows: Record<string, any>[],
+  request: PivotRequest,
+  dimensions: PivotDimension[] = []
+): Map<string, PivotGroup> {
+  rows.forEach(row => {
+    const key = groupKeyOf(row, request.groupBy);
+    let group = groups.get(key);
+    if (!group) {
+      group = { keys: {}, labels: {}, count: 0 };
+      request.groupBy.forEach(field => {
+        group!.keys[field] = row[field] ?? null;
+        const labelField = dimensions.find(dimension => dimension.field === field)?.labelField;
+        if (labelField && row[labelField] !== null && row[labelField] !== undefined) {
+          group!.labels![field] = String(row[labelField]);
+        }
+      });
+      groups.set(key, group);
+    }
+
+    if (request.measure === null) {
+      group.count++;
+      return;
+    }
+    const value = toMeasureValue(row[request.measure]);
+    if (value !== null) {
+      mergeGroup(group, { count: 1, sum: value, min: value, max: value });
+    }
+  });
+  return groups;
+}
+
+/**
+ * Final value of an accumulator for the configured function (row counts ignore the function)
+ */
+function pivotValue(group: PivotGroup, config: PivotConfig): number | null {
+  if (config.measure === null || config.aggregate === 'count') return group.count;
+  if (group.count === 0) return null;
+  switch (config.aggregate) {
+    case 'avg': return group.sum !== null && group.sum !== undefined ? group.sum / group.count : null;
+    case 'min': return group.min ?? null;
+    case 'max': return group.max ?? null;
+    default: return group.sum ?? null;
+  }
+}
+
+const formatDimensionLabel = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return BLANK_LABEL;
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+// Headers in label order - numbers sort numerically, blanks last
+const compareHeaders = (a: PivotHeader, b: PivotHeader) => {
+  for (let index = 0; index < a.labels.length; index++) {
+    const left = a.labels[index];
+    const right = b.labels[index];
+    if (left === right) continue;
+    if (left === BLANK_LABEL) return 1;
+    if (right === BLANK_LABEL) return -1;
+    return left.localeCompare(right, undefined, { numeric: true });
+  }
+  return 0;
+};
+
+/**
+ * Cross-tabulate the groups - cells, row/column totals and the grand total
+ * Totals are computed from the merged groups, so averages are true averages rather than averages of averages
+ */
+export function buildPivotTable(groups: PivotGroup[], config: PivotConfig): PivotTable {
+  const emptyAccumulator = (): PivotGroup => ({ keys: {}, count: 0 });
+  const rowHeaders = new Map<string, PivotHeader>();
+  const columnHeaders = new Map<string, PivotHeader>();
+  const cells = new Map<string, Map<string, PivotGroup>>();
+  const rowTotals = new Map<string, PivotGroup>();
+  const columnTotals = new Map<string, PivotGroup>();
+  const grandTotal = emptyAccumulator();
+
+  const headerFor = (headers: Map<string, PivotHeader>, group: PivotGroup, fields: string[]) => {
+    const key = groupKeyOf(group.keys, fields);
+    if (!headers.has(key)) {
+      headers.set(key, { key, labels: fields.map(field => group.labels?.[field] ?? formatDimensionLabel(group.keys[field])) });
+    }
+    return key;
+  };
+  const accumulate = (map: Map<string, PivotGroup>, key: string, group: PivotGroup) => {
+    if (!map.has(key)) map.set(key, emptyAccumulator());
+    mergeGroup(map.get(key)!, group);
+  };
+
+  groups.forEach(group => {
+    const rowKey = headerFor(rowHeaders, group, config.rowFields);
+    const columnKey = headerFor(columnHeaders, group, config.columnFields);
+    if (!cells.has(rowKey)) cells.set(rowKey, new Map());
+    accumulate(cells.get(rowKey)!, columnKey, group);
+    accumulate(rowTotals, rowKey, group);
+    accumulate(columnTotals, columnKey, group);
+    mergeGroup(grandTotal, group);
+  });
+
+  const finalize = (map: Map<string, PivotGroup>) =>
+    Object.fromEntries(Array.from(map, ([key, group]) => [key, pivotValue(group, config)]));
+
+  return {
+    rowHeaders: Array.from(rowHeaders.values()).sort(compareHeaders),
+    columnHeaders: Array.from(columnHeaders.values()).sort(compareHeaders),
+    cells: Object.fromEntries(Array.from(cells, ([rowKey, row]) => [rowKey, finalize(row)])),
+    rowTotals: finalize(rowTotals),
+    columnTotals: finalize(columnTotals),
+    grandTotal: groups.length > 0 ? pivotValue(grandTotal, config) : null
+  };
+}
+
+/**
+ * Fetches one page of the grid's current query - page 0 also carries the pivot request
+ * signal aborts the request when the pivot or chart is closed or reloads
+ */
+export type PivotPageFetcher = (
+  page: number,
+  pageSize: number,
+  pivot?: PivotRequest,
+  signal?: AbortSignal
+) => Promise<{ rows?: any[]; totalRowCount?: number; pivot?: PivotGroup[] }>;
+
+export interface PivotLoadResult {
+  groups: PivotGroup[];
+  /** 'server' when the API aggregated the pivot, 'rows' when it was computed from fetched rows */
+  source: 'server' | 'rows';
+  /** Rows the pivot was computed from ('rows' source) */
+  rowCount?: number;
+  /** Matching rows reported by the server - above rowCount when maxRecords cut the fetch short */
+  totalRowCount?: number;
+}
+
+/**
+ * Load the pivot groups - from the server when it returns response.pivot for the first page,
+ * otherwise by paging through all matching rows (up to maxRecords) and grouping them here
+ * Throws ExportCancelledError when the signal aborts
+ */
+export async function loadPivotGroups(
+  fetchPage: PivotPageFetcher,
+  request: PivotRequest,
+  dimensions: PivotDimension[],
+  options: ExportChunkOptions
+): Promise<PivotLoadResult> {
+  const chunkSize = options.chunkSize ?? 1000;
+  const first = await awaitUnlessCancelled(fetchPage(0, chunkSize, request, options.signal), options.signal);
+  if (options.signal?.aborted) throw new ExportCancelledError();
+  if (first.pivot) {
+    return { groups: first.pivot, source: 'server', totalRowCount: first.totalRowCount };
+  }
+
+  // Servers without pivot support ignore the request - the first page is reused for the full fetch
+  const groups = new Map<string, PivotGroup>();
+  let rowCount = 0;
+  const chunks = readExportChunks(
+    (page, pageSize, signal) => page === 0 ? Promise.resolve(first) : fetchPage(page, pageSize, undefined, signal),
+    { ...options, chunkSize }
+  );
+  for await (const rows of chunks) {
+    addRowsToPivotGroups(groups, rows, request, dimensions);
+    rowCount += rows.length;
+  }
+  return { groups: Array.from(groups.values()), source: 'rows', rowCount, totalRowCount: first.totalRowCount };
+}
+
+/**
+ * Caption for the pivot values, e.g. 'Sum of Unit Price' or 'Count of rows'
+ */
+export function describePivotMeasure(config: PivotConfig, getHeader: (field: string) => string = field => field): string {
+  if (config.measure === null) return 'Count of rows';
+  const fn = AGGREGATE_FUNCTIONS.find(option => option.value === config.aggregate)?.label ?? config.aggregate;
+  return `${fn} of ${getHeader(config.measure)}`;
+}
+
+/**
+ * Flatten a pivot table for the grid exporters - one row per row header plus a totals row,
+ * one column per row dimension, column header and the row total
+ */
+export function buildPivotExport(
+  table: PivotTable,
+  config: PivotConfig,
+  getHeader: (field: string) => string = field => field
+): { columns: ExportColumn[]; rows: Record<string, any>[] } {
+  const measureLabel = describePivotMeasure(config, getHeader);
+  const columns: ExportColumn[] = [
+    ...config.rowFields.map((field, index) => ({ field: `row${index}`, header: getHeader(field), type: 'string' as const })),
+    ...table.columnHeaders.map((header, index) => ({
+      field: `value${index}`,
+      header: header.labels.length > 0 ? header.labels.join(' / ') : measureLabel,
+      type: 'number' as const
+    })),
+    ...(config.columnFields.length > 0 ? [{ field: 'total', header: 'Total', type: 'number' as const }] : [])
+  ];
+
+  const valueCells = (values: Record<string, number | null>, total: number | null) => ({
+    ...Object.fromEntries(table.columnHeaders.map((header, index) => [`value${index}`, values[header.key] ?? null])),
+    ...(config.columnFields.length > 0 ? { total } : {})
+  });
+
+  const rows: Record<string, any>[] = table.rowHeaders.map(header => ({
+    ...Object.fromEntries(header.labels.map((label, index) => [`row${index}`, label])),
+    ...valueCells(table.cells[header.key] ?? {}, table.rowTotals[header.key] ?? null)
+  }));
+  if (config.rowFields.length > 0) {
+    rows.push({ row0: 'Total', ...valueCells(table.columnTotals, table.grandTotal) });
+  }
+
+  return { columns, rows };
+}
@@ -0,0 +1,27 @@
+/**
+ * @vitest-environment jsdom
+ * @group unit
+ */
+
+import React from 'react';
+import { describe, it, expect } from 'vitest';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { findSearchMatches, highlightSearchMatches } from './searchHighlight';
+
+describe('searchHighlight', () => {
+  it('should find matches by search type, ignoring case', () => {
+    expect(findSearchMatches('Green Tea, green tea', 'TEA', 'contains')).toEqual([[6, 9], [17, 20]]);
+    expect(findSearchMatches('Green Tea', 'green', 'startsWith')).toEqual([[0, 5]]);
+    expect(findSearchMatches('Green Tea', 'tea', 'startsWith')).toEqual([]);
+    expect(findSearchMatches('Green Tea', 'tea', 'endsWith')).toEqual([[6, 9]]);
+    expect(findSearchMatches('Green Tea', 'green', 'equals')).toEqual([]);
+    expect(findSearchMatches('Green Tea', 'green tea', 'equals')).toEqual([[0, 9]]);
+  });
+
+  it('should mark matches inside rendered elements', () => {
+    const cell = React.createElement('a', { href: '#' }, 'Green ', React.createElement('b', null, 'Tea'));
+    expect(renderToStaticMarkup(React.createElement(React.Fragment, null, highlightSearchMatches(cell, 'tea', 'contains'))))
+      .toBe('<a href="#">Green <b><mark class="grid-search-match p-0">Tea</mark></b></a>');
+    expect(highlightSearchMatches('Coffee', 'tea', 'contains')).toBe('Coffee');
+  });
+});
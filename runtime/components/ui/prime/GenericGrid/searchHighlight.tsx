@@ -0,0 +1,69 @@
+import React from 'react';
+import type { GlobalSearchConfig } from './types';
+
+/**
+ * Where the search term matches a text, as [start, end) ranges - case-insensitive, like the server search
+ * contains: every occurrence, startsWith/endsWith: the start/end of the text, equals: the whole text
+ */
+export function findSearchMatches(
+  text: string,
+  searchTerm: string,
+  searchType: GlobalSearchConfig['searchType']
+): [number, number][] {
+  const term = searchTerm.trim().toLowerCase();
+  if (!term || !text) return [];
+  const lower = text.toLowerCase();
+
+  switch (searchType) {
+    case 'equals':
+      return lower === term ? [[0, text.length]] : [];
+    case 'startsWith':
+      return lower.startsWith(term) ? [[0, term.length]] : [];
+    case 'endsWith':
+      return lower.endsWith(term) ? [[text.length - term.length, text.length]] : [];
+    default: {
+      const matches: [number, number][] = [];
+      for (let index = lower.indexOf(term); index !== -1; index = lower.indexOf(term, index + term.length)) {
+        matches.push([index, index + term.length]);
+      }
+      return matches;
+    }
+  }
+}
+
+const highlightText = (text: string, searchTerm: string, searchType: GlobalSearchConfig['searchType']): React.ReactNode => {
+  const matches = findSearchMatches(text, searchTerm, searchType);
+  if (matches.length === 0) return text;
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  matches.forEach(([start, end]) => {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(<mark key={start} className="grid-search-match p-0">{text.slice(start, end)}</mark>);
+    position = end;
+  });
+  if (position < text.length) parts.push(text.slice(position));
+  return <>{parts}</>;
+};
+
+/**
+ * Rendered cell content with the search matches marked - text inside elements (e.g. links, tags
+ * with text children) is marked too; text a component renders from its other props is left as is
+ */
+export function highlightSearchMatches(
+  node: React.ReactNode,
+  searchTerm: string,
+  searchType: GlobalSearchConfig['searchType']
+): React.ReactNode {
+  if (!searchTerm.trim()) return node;
+  if (typeof node === 'string' || typeof node === 'number') {
+    return highlightText(String(node), searchTerm, searchType);
+  }
+  if (Array.isArray(node)) {
+    return React.Children.map(node, child => highlightSearchMatches(child, searchTerm, searchType));
+  }
+  if (React.isValidElement<{ children?: React.ReactNode }>(node) && node.props.children !== undefined) {
+    return React.cloneElement(node, undefined, highlightSearchMatches(node.props.children, searchTerm, searchType));
+  }
+  return node;
+}
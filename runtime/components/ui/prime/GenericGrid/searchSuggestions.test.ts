@@ -0,0 +1,61 @@
+/**
+ * @vitest-environment jsdom
+ * @group unit
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  buildSearchSuggestions,
+  getRecentSearchesKey,
+  loadRecentSearches,
+  matchRecentSearches,
+  saveRecentSearch
+} from './searchSuggestions';
+
+describe('searchSuggestions', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('should keep recent searches per grid, most recent first', () => {
+    const key = getRecentSearchesKey('grid-selection-products');
+    expect(key).toBe('grid-recent-searches-products');
+    expect(getRecentSearchesKey('product-picker')).toBe('product-picker-recent-searches');
+
+    saveRecentSearch(key, 'acme');
+    saveRecentSearch(key, 'widget ');
+    saveRecentSearch(key, '  ');
+    expect(saveRecentSearch(key, 'ACME')).toEqual(['ACME', 'widget']);
+    expect(saveRecentSearch(key, 'bolt', 2)).toEqual(['bolt', 'ACME']);
+    expect(loadRecentSearches('grid-recent-searches-orders')).toEqual([]);
+
+    expect(matchRecentSearches(['acme tools', 'widget', 'acme'], 'acm').map(s => s.term)).toEqual(['acme tools', 'acme']);
+    expect(matchRecentSearches(['acme', 'widget'], '')).toHaveLength(2);
+  });
+
+  it('should suggest display values and quick filters from matching rows', () => {
+    const rows = [
+      { id: 1, name: 'Acme Anvil', manufacturerId: 7, manufacturerName: 'Acme' },
+      { id: 2, name: 'acme anvil', manufacturerId: 7, manufacturerName: 'Acme' },
+      { id: 3, name: 'Rocket', manufacturerId: 8, manufacturerName: 'Acme West' },
+      { id: 4, name: 'Bolt', manufacturerId: null, manufacturerName: null }
+    ];
+    const suggestions = buildSearchSuggestions(rows, 'acme', {
+      displayFields: ['name'],
+      quickFilterFields: [{ field: 'manufacturerId', labelField: 'manufacturerName', header: 'Manufacturer' }]
+    });
+
+    expect(suggestions).toEqual([
+      { kind: 'value', label: 'Acme Anvil', term: 'Acme Anvil' },
+      {
+        kind: 'filter',
+        label: 'Manufacturer: Acme',
+        filter: { field: 'manufacturerId', operator: 'in', value: null, values: [7] }
+      },
+      {
+        kind: 'filter',
+        label: 'Manufacturer: Acme West',
+        filter: { field: 'manufacturerId', operator: 'in', value: null, values: [8] }
+      }
+    ]);
+    expect(buildSearchSuggestions(rows, ' ', { displayFields: ['name'], quickFilterFields: [] })).toEqual([]);
+  });
+});
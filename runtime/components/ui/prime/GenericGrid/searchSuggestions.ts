@@ -0,0 +1,126 @@
+import type { FilterOperation } from './types';
+
+/**
+ * Entry in the search box's typeahead
+ * - recent: a search term used before on this grid
+ * - value: a matching display value (x-display-value) - searched as a term
+ * - filter: a related record, e.g. 'Manufacturer: Acme' - applied as a column filter instead of a term
+ */
+export interface SearchSuggestion {
+  kind: 'recent' | 'value' | 'filter';
+  label: string;
+  /** Search term applied when picked (recent and value suggestions) */
+  term?: string;
+  /** Filter applied when picked (filter suggestions) */
+  filter?: FilterOperation;
+}
+
+/**
+ * Navigation field offered as a quick filter - rows carry the key in field and its display text in labelField
+ */
+export interface QuickFilterField {
+  field: string;
+  labelField: string;
+  header: string;
+}
+
+export const MAX_RECENT_SEARCHES = 8;
+/** Rows fetched per typeahead lookup - suggestions come from this small page only */
+export const SEARCH_SUGGESTION_PAGE_SIZE = 10;
+const SELECTION_KEY_PREFIX = 'grid-selection-';
+
+/**
+ * localStorage key of a grid's recent searches, next to its selection key
+ * (kept out of the 'grid-selection-' prefix - stale selection cleanup removes those)
+ */
+export function getRecentSearchesKey(selectionKey: string): string {
+  return selectionKey.startsWith(SELECTION_KEY_PREFIX)
+    ? `grid-recent-searches-${selectionKey.slice(SELECTION_KEY_PREFIX.length)}`
+    : `${selectionKey}-recent-searches`;
+}
+
+/**
+ * Recent search terms, most recent first - empty when nothing is stored or storage is unavailable
+ */
+export function loadRecentSearches(key: string): string[] {
+  try {
+    const stored = localStorage.getItem(key);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter((term): term is string => typeof term === 'string') : [];
+  } catch (error) {
+    console.warn(`⚠️ [searchSuggestions] Failed to load recent searches (${key}):`, error);
+    return [];
+  }
+}
+
+/**
+ * Put a term first in the recent searches - the same term in another case replaces the older entry
+ * Returns the updated list; blank terms are not recorded
+ */
+export function saveRecentSearch(key: string, term: string, max = MAX_RECENT_SEARCHES): string[] {
+  const trimmed = term.trim();
+  const recent = loadRecentSearches(key);
+  if (!trimmed) return recent;
+
+  const next = [trimmed, ...recent.filter(other => other.toLowerCase() !== trimmed.toLowerCase())].slice(0, max);
+  try {
+    localStorage.setItem(key, JSON.stringify(next));
+  } catch (error) {
+    console.warn(`⚠️ [searchSuggestions] Failed to save recent searches (${key}):`, error);
+  }
+  return next;
+}
+
+/**
+ * Recent searches containing the typed text (all of them while the box is empty)
+ */
+export function matchRecentSearches(recent: string[], query: string): SearchSuggestion[] {
+  const lower = query.trim().toLowerCase();
+  return recent
+    .filter(term => !lower || (term.toLowerCase().includes(lower) && term.toLowerCase() !== lower))
+    .map(term => ({ kind: 'recent', label: term, term }));
+}
+
+/**
+ * Suggestions from a small page of matching rows: distinct display values containing the typed text,
+ * then quick filters for related records whose display text contains it
+ */
+export function buildSearchSuggestions(
+  rows: Record<string, any>[],
+  query: string,
+  { displayFields, quickFilterFields }: { displayFields: string[]; quickFilterFields: QuickFilterField[] },
+  limit = 5
+): SearchSuggestion[] {
+  const lower = query.trim().toLowerCase();
+  if (!lower) return [];
+  const contains = (value: unknown) =>
+    value !== null && value !== undefined && value !== '' && String(value).toLowerCase().includes(lower);
+
+  const values = new Map<string, SearchSuggestion>();
+  for (const row of rows) {
+    for (const field of displayFields) {
+      const text = contains(row[field]) ? String(row[field]) : null;
+      if (text && !values.has(text.toLowerCase()) && values.size < limit) {
+        values.set(text.toLowerCase(), { kind: 'value', label: text, term: text });
+      }
+    }
+  }
+
+  const filters = new Map<string, SearchSuggestion>();
+  for (const { field, labelField, header } of quickFilterFields) {
+    for (const row of rows) {
+      const key = row[field];
+      if (key === null || key === undefined || !contains(row[labelField])) continue;
+      const id = `${field}:${key}`;
+      if (!filters.has(id) && filters.size < limit) {
+        filters.set(id, {
+          kind: 'filter',
+          label: `${header}: ${row[labelField]}`,
+          filter: { field, operator: 'in', value: null, values: [key] }
+        });
+      }
+    }
+  }
+
+  return [...values.values(), ...filters.values()];
+}
@@ -0,0 +1,45 @@
+/**
+ * @vitest-environment jsdom
+ * @group unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import { cycleColumnSort } from './sortOperations';
+import type { OrderByConfig } from './types';
+
+describe('sortOperations', () => {
+  it('should cycle a single column through asc, desc and none', () => {
+    const asc = cycleColumnSort([], 'name', false);
+    expect(asc).toEqual([{ field: 'name', direction: 'asc', priority: 0 }]);
+
+    const desc = cycleColumnSort(asc, 'name', false);
+    expect(desc).toEqual([{ field: 'name', direction: 'desc', priority: 0 }]);
+
+    expect(cycleColumnSort(desc, 'name', false)).toEqual([]);
+  });
+
+  it('should replace other sorts on a plain click', () => {
+    const sorts: OrderByConfig[] = [{ field: 'name', direction: 'asc', priority: 0 }];
+
+    expect(cycleColumnSort(sorts, 'rating', false)).toEqual([
+      { field: 'rating', direction: 'asc', priority: 0 }
+    ]);
+  });
+
+  it('should append and remove sorts on shift-click', () => {
+    const sorts: OrderByConfig[] = [
+      { field: 'name', direction: 'asc', priority: 0 },
+      { field: 'rating', direction: 'desc', priority: 1 }
+    ];
+
+    expect(cycleColumnSort(sorts, 'salary', true)).toEqual([
+      ...sorts,
+      { field: 'salary', direction: 'asc', priority: 2 }
+    ]);
+
+    // rating is desc, so the next shift-click removes it and re-numbers priorities
+    expect(cycleColumnSort(sorts, 'rating', true)).toEqual([
+      { field: 'name', direction: 'asc', priority: 0 }
+    ]);
+  });
+});
@@ -0,0 +1,35 @@
+import type { OrderByConfig } from './types';
+
+/**
+ * Re-number sort priorities to match their order (0-based)
+ */
+export function normalizeSortPriorities(sorts: OrderByConfig[]): OrderByConfig[] {
+  return [...sorts]
+    .sort((a, b) => (a.priority || 0) - (b.priority || 0))
+    .map((sort, index) => ({ ...sort, priority: index }));
+}
+
+/**
+ * Cycle a column's sort through asc -> desc -> none
+ * - multiSort (shift-click): keeps the other sorts and appends/updates this one
+ * - otherwise: this column becomes the only sort
+ */
+export function cycleColumnSort(sorts: OrderByConfig[], field: string, multiSort: boolean): OrderByConfig[] {
+  const existing = sorts.find(s => s.field === field);
+  const nextDirection: OrderByConfig['direction'] | null =
+    !existing ? 'asc' : existing.direction === 'asc' ? 'desc' : null;
+
+  if (!multiSort) {
+    return nextDirection ? [{ field, direction: nextDirection, priority: 0 }] : [];
+  }
+
+  if (!existing) {
+    return normalizeSortPriorities([...sorts, { field, direction: 'asc', priority: sorts.length }]);
+  }
+
+  if (nextDirection) {
+    return normalizeSortPriorities(sorts.map(s => s.field === field ? { ...s, direction: nextDirection } : s));
+  }
+
+  return normalizeSortPriorities(sorts.filter(s => s.field !== field));
+}
@@ -19,14 +19,100 @@ export interface GenericGridColumn<TModel> {
   navigationVariant?: string;
   /** Cell renderer name from x-cell-renderer metadata - looked up in cellRendererRegistry */
   cellRenderer?: string;
+  /** Footer aggregates for numeric columns (from x-aggregate metadata or set in code) */
+  aggregate?: AggregateFunction[];
+  /** Formatting rules for this column's values (from x-conditional-format metadata or set in code) */
+  conditionalFormats?: ConditionalFormatRule[];
 }
 
+/**
+ * Footer aggregate functions for numeric columns
+ */
+export type AggregateFunction = 'sum' | 'avg' | 'min' | 'max' | 'count';
+
+/**
+ * Preset styles for conditional formatting (see CONDITIONAL_FORMAT_STYLES)
+ */
+export type ConditionalFormatStyle = 'highlight' | 'success' | 'warning' | 'danger' | 'muted' | 'bold';
+
+/**
+ * Conditional formatting rule - styles rows or cells whose values match the condition
+ * e.g. { condition: { field: 'rating', operator: 'lt', value: 3 }, target: 'cell', style: 'danger' }
+ */
+export interface ConditionalFormatRule {
+  id: string;
+  /** Evaluated against each row in the browser - same operators as filters */
+  condition: FilterOperation;
+  /** 'row' styles the whole row, 'cell' only the cell of `field` */
+  target: 'row' | 'cell';
+  /** Cell styled by a 'cell' rule (default: the condition field) */
+  field?: string;
+  style: ConditionalFormatStyle;
+  /** Extra CSS class added when the rule matches (rules defined in code) */
+  className?: string;
+  /** Where the rule was defined - only 'user' rules are editable in the filter sidebar */
+  source?: 'code' | 'schema' | 'user';
+}
+
+/**
+ * Pivot (crosstab) layout - rows and columns are grouped by the dimension fields,
+ * each cell aggregates the measure over the rows in both groups
+ */
+export interface PivotConfig {
+  /** Dimension fields shown as row headers (outermost first) */
+  rowFields: string[];
+  /** Dimension fields combined into the column headers */
+  columnFields: string[];
+  /** Numeric field to aggregate - null counts rows */
+  measure: string | null;
+  /** Function applied to the measure (ignored when counting rows) */
+  aggregate: AggregateFunction;
+}
+
+/**
+ * Chart types offered by the chart panel - 'timeseries' is a line over date intervals with gaps filled
+ */
+export type GridChartType = 'bar' | 'line' | 'pie' | 'timeseries';
+
+/**
+ * Date interval the chart groups date fields by
+ */
+export type ChartDateInterval = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+/**
+ * Chart panel settings
+ */
+export interface GridChartConfig {
+  type: GridChartType;
+  /** Category or date field on the x-axis (pie slices) */
+  xField: string | null;
+  /** Field splitting the values into one series per value (not used by pie charts) */
+  seriesField?: string | null;
+  /** Numeric field to aggregate - null counts rows */
+  measure: string | null;
+  aggregate: AggregateFunction;
+  /** Grouping for date fields on the x-axis (default: 'month') */
+  interval?: ChartDateInterval;
+}
+
+/**
+ * Span of days the calendar view shows at once
+ */
+export type CalendarMode = 'month' | 'week' | 'day';
+
+/**
+ * What the grid shows in place of its rows - 'rows' is the table (or the cards)
+ */
+export type GridContentView = 'rows' | 'pivot' | 'board' | 'calendar';
+
 /**
  * Global search configuration
  */
 export interface GlobalSearchConfig {
   searchTerm: string;
   searchType: 'startsWith' | 'contains' | 'endsWith' | 'equals';
+  /** Fields the search is restricted to - empty/missing searches the server's default fields (x-search-term-default) */
+  searchFields?: string[];
 }
 
 /**
@@ -37,6 +123,19 @@ export interface ColumnWidthConfig {
   width: string;
 }
 
+/**
+ * Side a column is pinned (frozen) to while scrolling horizontally
+ */
+export type ColumnPinSide = 'left' | 'right';
+
+/**
+ * Column pin configuration for state capture/restore
+ */
+export interface ColumnPinConfig {
+  field: string;
+  side: ColumnPinSide;
+}
+
 /**
  * Complete grid state for predefined filters
  */
@@ -48,8 +147,28 @@ export interface GridStateConfig<TSearchQuery> {
   visibleColumns?: string[];
   columnOrder?: string[];
   columnWidths?: ColumnWidthConfig[];
+  /** Columns pinned by the user - overrides the column's static frozen flag */
+  columnPins?: ColumnPinConfig[];
   selectedRowIds?: (string | number)[];
   pageSize?: number;
+  /** Nested AND/OR filter tree, combined with activeFilters using AND */
+  filterGroup?: FilterGroup | null;
+  /** Column the rows are grouped by (null = no grouping) */
+  groupBy?: string | null;
+  /** Footer aggregates per column - field -> functions */
+  aggregates?: Record<string, AggregateFunction[]>;
+  /** Formatting rules added by the user in the filter sidebar */
+  conditionalFormats?: ConditionalFormatRule[];
+  /** Pivot layout when the grid was showing the pivot view (null/missing = rows) */
+  pivot?: PivotConfig | null;
+  /** Chart panel settings when the panel was open (null/missing = closed) */
+  chart?: GridChartConfig | null;
+  /** Whether the grid was showing the board view (x-board-field columns) */
+  board?: boolean;
+  /** Calendar mode when the grid was showing the calendar view (null/missing = rows) */
+  calendar?: CalendarMode | null;
+  /** Table or cards picked in the toolbar (null/missing = the grid's layout prop) */
+  layout?: 'table' | 'cards' | null;
 }
 
 /**
@@ -67,16 +186,43 @@ export interface PredefinedFilter<TSearchQuery> {
   gridState?: GridStateConfig<TSearchQuery>;
 }
 
+/**
+ * Filter operators supported by FilterControl and buildFilter
+ * - 'between' expects values: [from, to] and becomes { gte, lte }
+ * - 'isNull'/'isNotNull' take no value and become { eq: null } / { neq: null }
+ */
+export type FilterOperator =
+  | 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte'
+  | 'in' | 'notIn'
+  | 'contains' | 'startsWith' | 'endsWith'
+  | 'between'
+  | 'isNull' | 'isNotNull';
+
 /**
  * Filter operations
  */
 export interface FilterOperation {
   field: string;
-  operator: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in';
+  operator: FilterOperator;
   value: any;
-  values?: any[]; // for 'in' operator
+  values?: any[]; // for 'in'/'notIn' operators, or [from, to] for 'between'
+}
+
+/**
+ * Nested filter group - conditions combined with AND/OR, optionally negated
+ */
+export interface FilterGroup {
+  id: string;
+  logic: 'and' | 'or';
+  negate?: boolean;
+  conditions: FilterNode[];
 }
 
+/**
+ * A node in a filter group tree - either a single condition or a nested group
+ */
+export type FilterNode = FilterOperation | FilterGroup;
+
 /**
  * Order by configuration
  */
@@ -84,4 +230,42 @@ export interface OrderByConfig {
   field: string;
   direction: 'asc' | 'desc';
   priority: number;
+}
+
+/**
+ * Child grid shown when a row is expanded (master-detail)
+ * e.g. District -> Schools: { childModelName: 'IQuerySchoolModel', client: schoolClient, title: 'Schools' }
+ * (schoolClient created once, e.g. with useMemo - not inline on every render)
+ */
+export interface GridDetailConfig {
+  /** Child query model interface name (e.g., 'IQuerySchoolModel') */
+  childModelName: string;
+  /** Child entity's generated client */
+  client: {
+    Query: (params: { body: any }) => Promise<{ rows?: any[]; totalRowCount?: number }>;
+  };
+  /** Tab label when several detail grids are configured (defaults to the child model name) */
+  title?: string;
+  /** Child field holding the parent key - resolved from the child's x-navigation-target when omitted */
+  foreignKey?: string;
+  /** Parent field whose value the child is filtered by (defaults to the grid's dataKey) */
+  parentKey?: string;
+  /** Rows per page in the child grid (default: 10) */
+  pageSize?: number;
+}
+
+/**
+ * Virtual scrolling for SimpleGenericGrid's table - rows are loaded while scrolling instead of page by page
+ */
+export interface GridVirtualScrollingConfig {
+  /** Enable virtual scrolling (default: false) */
+  enabled?: boolean;
+  /** Row height in pixels - every row must have this height (default: 50) */
+  itemHeight?: number;
+  /** Rows fetched per request (default: 50) */
+  pageSize?: number;
+  /** Rows rendered beyond the viewport in each direction (default: 10) */
+  buffer?: number;
+  /** Maximum pages kept in memory - pages farthest from the viewport are evicted (default: 10) */
+  maxCachedPages?: number;
 }
\ No newline at end of file
@@ -0,0 +1,105 @@
+import { useMemo } from 'react';
+import { getNumericColumns, getDateColumns, getNavigationFields, getBoardField, getCalendarFields } from '@/utils/zodSchemaHelper';
+import { getPivotDimensions } from './pivotOperations';
+import type { GenericGridColumn, GridContentView } from './types';
+import type { GridLayout } from './cardLayout';
+
+export interface GridContentViewsOptions {
+  columns: GenericGridColumn<any>[];
+  /** Zod schema for field metadata lookup */
+  schema?: any;
+  dataKey: string;
+  enablePivot: boolean;
+  enableCharts: boolean;
+  enableBoard: boolean;
+  enableCalendar: boolean;
+  contentView: GridContentView;
+  setContentView: (view: GridContentView) => void;
+  /** Layout picked in the toolbar, else the grid's layout prop */
+  layout: GridLayout;
+  /** Narrow screens show cards for the 'auto' layout */
+  isNarrow: boolean;
+  /** Inline editing needs the table rows - the other views are hidden meanwhile */
+  inlineEditMode: boolean;
+}
+
+/**
+ * Views shown in place of the table rows - cards, the pivot, the board and the calendar - and the fields
+ * each of them (and the chart panel) can use
+ */
+export function useGridContentViews({
+  columns,
+  schema,
+  dataKey,
+  enablePivot,
+  enableCharts,
+  enableBoard,
+  enableCalendar,
+  contentView,
+  setContentView,
+  layout,
+  isNarrow,
+  inlineEditMode
+}: GridContentViewsOptions) {
+  // Pivot view - dimensions are navigation fields (labeled by their display field) and other
+  // non-numeric sortable columns, measures are the numeric columns (getNumericColumns)
+  const pivotMeasures = useMemo(() => {
+    if ((!enablePivot && !enableCharts) || !schema) return [];
+    const numericFields = new Set<string>(getNumericColumns(schema));
+    return columns
+      .filter(col => numericFields.has(String(col.field)) && String(col.field) !== dataKey && !col.navigationTarget)
+      .map(col => ({ field: String(col.field), header: col.header }));
+  }, [enablePivot, enableCharts, schema, columns, dataKey]);
+  const pivotDimensions = useMemo(() => {
+    if (!enablePivot && !enableCharts) return [];
+    return getPivotDimensions(columns, schema ? getNavigationFields(schema) : [], {
+      dataKey,
+      numericFields: schema ? getNumericColumns(schema) : []
+    });
+  }, [enablePivot, enableCharts, schema, columns, dataKey]);
+
+  // Chart panel - shares the pivot's fields; date fields (getDateColumns) can also be on the x-axis
+  const chartDateFields = useMemo(() => {
+    if (!enableCharts || !schema) return [];
+    const dateFields = new Set<string>(getDateColumns(schema));
+    return columns
+      .filter(col => dateFields.has(String(col.field)))
+      .map(col => ({ field: String(col.field), header: col.header }));
+  }, [enableCharts, schema, columns]);
+  const canChart = enableCharts && (pivotDimensions.length > 0 || chartDateFields.length > 0);
+
+  // Board view - one column per x-options / x-enum value of the x-board-field field
+  const boardField = useMemo(
+    () => enableBoard && schema ? getBoardField(schema) : undefined,
+    [enableBoard, schema]
+  );
+
+  // Calendar view - records by their x-calendar-start date (to x-calendar-end), month/week/day at a time
+  const calendarFields = useMemo(
+    () => enableCalendar && schema ? getCalendarFields(schema) : undefined,
+    [enableCalendar, schema]
+  );
+
+  // Card layout - inline editing always uses the table
+  const showCards = !inlineEditMode && (layout === 'auto' ? isNarrow : layout === 'cards');
+  // The pivot replaces the rows (and the paging) until toggled off
+  const showPivot = enablePivot && contentView === 'pivot' && !inlineEditMode && pivotDimensions.length > 0;
+  // Same for the board and the calendar - contentView holds one of them at a time
+  const showBoard = !!boardField && contentView === 'board' && !inlineEditMode;
+  const showCalendar = !!calendarFields && contentView === 'calendar' && !inlineEditMode;
+  const toggleContentView = (view: 'pivot' | 'board' | 'calendar', show: boolean) => setContentView(show ? view : 'rows');
+
+  return {
+    pivotMeasures,
+    pivotDimensions,
+    chartDateFields,
+    canChart,
+    boardField,
+    calendarFields,
+    showCards,
+    showPivot,
+    showBoard,
+    showCalendar,
+    toggleContentView
+  };
+}
@@ -0,0 +1,115 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { createLatestRequest, GridRequestCancelledError } from './gridRequests';
+import type { GridRequestSender } from './gridRequests';
+
+export interface GridDataOptions<TModel, TBody, TResponse extends { rows?: TModel[]; totalRowCount?: number }> {
+  /** Nothing is fetched while disabled (e.g. before the initial state is applied, or while rows load elsewhere) */
+  enabled: boolean;
+  send: GridRequestSender<TBody, TResponse>;
+  /** Query body for a page - the grid's search, filters, sorting and aggregates */
+  buildBody: (page: number, pageSize: number) => TBody;
+  page: number;
+  pageSize: number;
+  setPage: (page: number) => void;
+  setPageSize: (pageSize: number) => void;
+  /** Changes whenever the grid's search, filters or sorting change - the first page reloads */
+  resetKey: string;
+  /** Changes reload the current page (e.g. other aggregates) - null skips the reload */
+  refreshKey: string | null;
+  /** Called with every loaded page */
+  onLoaded?: (response: TResponse) => void;
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Rows for the paged grid - one page of the grid's query, reloaded when the query changes
+ * Queries go through a latest-wins runner: a newer query aborts the one in flight and identical queries fired
+ * by several effects at once share one request
+ */
+export function useGridData<TModel, TBody, TResponse extends { rows?: TModel[]; totalRowCount?: number }>({
+  enabled,
+  send,
+  buildBody,
+  page,
+  pageSize,
+  setPage,
+  setPageSize,
+  resetKey,
+  refreshKey,
+  onLoaded,
+  onError
+}: GridDataOptions<TModel, TBody, TResponse>) {
+  const [data, setData] = useState<TModel[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [totalRecords, setTotalRecords] = useState(0);
+  // Bumped by loadPageAfterUpdate - the page is loaded once the applied state has rendered
+  const [revision, setRevision] = useState(0);
+  // Page to load after applying state (the query changes would start over at page 0)
+  const pendingPageRef = useRef<number | null>(null);
+
+  // The sender closes over the grid's client - the runner is kept for the component's lifetime
+  const sendRef = useRef(send);
+  sendRef.current = send;
+  const request = useMemo(
+    () => createLatestRequest((body: TBody, signal: AbortSignal) => sendRef.current(body, signal)),
+    []
+  );
+  useEffect(() => () => request.cancel(), [request]);
+
+  const fetchData = async (pageNumber: number = 0, size: number = pageSize) => {
+    if (!enabled) return;
+    setLoading(true);
+    let superseded = false;
+    try {
+      const response = await request.run(buildBody(pageNumber, size));
+      setData(response.rows || []);
+      setTotalRecords(response.totalRowCount || 0);
+      setPage(pageNumber);
+      setPageSize(size);
+      onLoaded?.(response);
+    } catch (error) {
+      // A newer query replaced this one - it owns the data and the loading state
+      if (error instanceof GridRequestCancelledError) {
+        superseded = true;
+        return;
+      }
+      console.error('❌ [useGridData] Failed to fetch data:', error);
+      onError?.(error);
+    } finally {
+      if (!superseded) {
+        setLoading(false);
+      }
+    }
+  };
+
+  // Query changes - skipped while applied state waits for its own page (loaded by the effect below)
+  useEffect(() => {
+    if (pendingPageRef.current !== null) return;
+    if (page > 0) setPage(0);
+    fetchData(0, pageSize);
+  }, [resetKey]);
+
+  useEffect(() => {
+    if (refreshKey === null || pendingPageRef.current !== null) return;
+    fetchData(page, pageSize);
+  }, [refreshKey]);
+
+  // First load once enabled (again, e.g. after virtual scrolling) and loads after applied state
+  // The pending page stays set while disabled, so it is the page loaded when fetching starts
+  useEffect(() => {
+    if (!enabled) return;
+    const pageNumber = pendingPageRef.current ?? 0;
+    pendingPageRef.current = null;
+    setPage(pageNumber);
+    fetchData(pageNumber, pageSize);
+  }, [enabled, revision]);
+
+  // Load a page after state has been applied (a saved view, URL state) instead of the first page
+  // Call in the same update as the state change
+  const loadPageAfterUpdate = (pageNumber: number) => {
+    pendingPageRef.current = pageNumber;
+    setRevision(current => current + 1);
+  };
+
+  return { data, setData, loading, totalRecords, setTotalRecords, fetchData, loadPageAfterUpdate };
+}
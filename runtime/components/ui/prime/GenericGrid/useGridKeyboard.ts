@@ -0,0 +1,151 @@
+import React, { useCallback, useEffect, useRef } from 'react';
+import { moveGridCell } from './gridKeyboard';
+import type { GridCellPosition } from './gridKeyboard';
+
+// Body rows that are not data rows (group headers/footers, detail rows, empty message)
+const NON_DATA_ROWS = '.p-rowgroup-header, .p-rowgroup-footer, .p-datatable-row-expansion, .p-datatable-emptymessage';
+const CONTROLS = 'button, a[href], input, select, textarea, [tabindex]:not(td):not(tr)';
+
+export interface GridKeyboardOptions {
+  /** Element containing the DataTable */
+  containerRef: React.RefObject<HTMLElement>;
+  enabled?: boolean;
+  /** Changes whenever the rendered rows change (e.g. the page data) - resets the roving tabindex */
+  rowsVersion: unknown;
+  /** Rows before the first rendered row (e.g. earlier pages) - used for aria-rowindex */
+  rowIndexOffset?: number;
+  /** Enter on a cell without controls */
+  onOpenRow?: (rowIndex: number, cell: HTMLElement) => void;
+  /** Space on a cell */
+  onToggleRow?: (rowIndex: number) => void;
+  /** PageDown / PageUp */
+  onPageChange?: (direction: 'next' | 'previous') => void;
+}
+
+/**
+ * Keyboard model for the DataTable body (ARIA grid pattern)
+ * - one cell is in the tab order; arrows, Home/End (Ctrl for first/last cell) move focus between cells
+ * - Enter opens the row, or moves into the cell's controls (Escape returns to the cell)
+ * - Space toggles the row selection, PageDown/PageUp change pages
+ * Handles keys in the capture phase so PrimeReact's own row key handling does not run twice
+ */
+export function useGridKeyboard({
+  containerRef,
+  enabled = true,
+  rowsVersion,
+  rowIndexOffset = 0,
+  onOpenRow,
+  onToggleRow,
+  onPageChange
+}: GridKeyboardOptions) {
+  const positionRef = useRef<GridCellPosition>({ row: 0, col: 0 });
+
+  const getRows = useCallback((): HTMLTableRowElement[] => {
+    const body = containerRef.current?.querySelector('tbody');
+    if (!body) return [];
+    return Array.from(body.querySelectorAll<HTMLTableRowElement>(':scope > tr')).filter(row => !row.matches(NON_DATA_ROWS));
+  }, [containerRef]);
+
+  const getCell = useCallback((rows: HTMLTableRowElement[], position: GridCellPosition) => {
+    return rows[position.row]?.cells[position.col] as HTMLElement | undefined;
+  }, []);
+
+  const focusCell = useCallback((position: GridCellPosition) => {
+    const rows = getRows();
+    const cell = getCell(rows, position);
+    if (!cell) return;
+    getCell(rows, positionRef.current)?.setAttribute('tabindex', '-1');
+    cell.setAttribute('tabindex', '0');
+    positionRef.current = position;
+    cell.focus();
+  }, [getRows, getCell]);
+
+  // Roving tabindex: only the current cell is tabbable; refocus it when a page change replaced the focused row
+  useEffect(() => {
+    if (!enabled) return;
+    const rows = getRows();
+    if (rows.length === 0) return;
+
+    const hadFocus = document.activeElement === document.body;
+    const row = Math.min(positionRef.current.row, rows.length - 1);
+    const col = Math.min(positionRef.current.col, rows[row].cells.length - 1);
+    positionRef.current = { row, col };
+
+    // aria-rowindex is 1-based and counts the header row
+    rows.forEach((tr, index) => {
+      tr.setAttribute('aria-rowindex', String(rowIndexOffset + index + 2));
+      tr.setAttribute('tabindex', '-1');
+      Array.from(tr.cells).forEach(cell => cell.setAttribute('tabindex', '-1'));
+    });
+    const cell = getCell(rows, positionRef.current);
+    cell?.setAttribute('tabindex', '0');
+    if (hadFocus && containerRef.current?.dataset.keyboardActive === 'true') {
+      cell?.focus();
+    }
+  }, [enabled, rowsVersion, rowIndexOffset, getRows, getCell, containerRef]);
+
+  const onKeyDownCapture = useCallback((e: React.KeyboardEvent) => {
+    if (!enabled) return;
+    const target = e.target as HTMLElement;
+    const rows = getRows();
+
+    // Escape from a control inside a cell returns to the cell (open cell editors handle Escape themselves)
+    const ownerCell = target.closest('td');
+    if (e.key === 'Escape' && ownerCell && ownerCell !== target
+      && !ownerCell.classList.contains('p-cell-editing') && rows.some(row => row.contains(ownerCell))) {
+      e.preventDefault();
+      e.stopPropagation();
+      ownerCell.focus();
+      return;
+    }
+
+    // Only keys pressed on a body cell (or a PrimeReact-focused row) are handled here
+    const rowElement = target.tagName === 'TR' ? target as HTMLTableRowElement : target.tagName === 'TD' ? target.parentElement as HTMLTableRowElement : null;
+    const row = rowElement ? rows.indexOf(rowElement) : -1;
+    if (row < 0) return;
+    const col = target.tagName === 'TD' ? Array.from(rowElement!.cells).indexOf(target as HTMLTableCellElement) : 0;
+    if (containerRef.current) containerRef.current.dataset.keyboardActive = 'true';
+
+    const handled = (() => {
+      const next = moveGridCell({ row, col }, e, { rows: rows.length, cols: rowElement!.cells.length });
+      if (next) {
+        focusCell(next);
+        return true;
+      }
+      switch (e.key) {
+        case 'Enter': {
+          const cell = getCell(rows, { row, col });
+          const control = cell?.querySelector<HTMLElement>(CONTROLS);
+          if (control) {
+            control.focus();
+          } else if (cell && onOpenRow) {
+            onOpenRow(row, cell);
+          }
+          return true;
+        }
+        case ' ':
+          onToggleRow?.(row);
+          return !!onToggleRow;
+        case 'PageDown':
+        case 'PageUp':
+          onPageChange?.(e.key === 'PageDown' ? 'next' : 'previous');
+          return !!onPageChange;
+        default:
+          return false;
+      }
+    })();
+
+    if (handled) {
+      e.preventDefault();
+      e.stopPropagation();
+    }
+  }, [enabled, getRows, getCell, focusCell, containerRef, onOpenRow, onToggleRow, onPageChange]);
+
+  // Focus the current cell (e.g. from the "go to grid" shortcut)
+  const focusGrid = useCallback(() => {
+    if (containerRef.current) containerRef.current.dataset.keyboardActive = 'true';
+    focusCell(positionRef.current);
+  }, [focusCell, containerRef]);
+
+  return { onKeyDownCapture, focusGrid };
+}
@@ -0,0 +1,82 @@
+import { useMemo, useReducer } from 'react';
+import {
+  createGridState,
+  createGridStateHistory,
+  gridStateReducer,
+  DEFAULT_GRID_HISTORY_LIMIT
+} from './gridState';
+import type { GridState, GridStateAction, GridStateUpdate } from './gridState';
+
+export interface UseGridStateOptions {
+  /** Column fields in declared order - default visible columns and column order */
+  columns?: string[];
+  /** Initial values (e.g. hidden columns left out of visibleColumns, a restored selection) - a function runs on mount only */
+  initialState?: Partial<GridState> | (() => Partial<GridState>);
+  /** Undo steps kept (default: 50) */
+  historyLimit?: number;
+}
+
+type Setter<T> = (value: GridStateUpdate<T>, options?: { skipHistory?: boolean }) => void;
+
+/**
+ * Grid state with undo/redo - search, filters, sorts, columns, widths, grouping, the pivot/board/calendar view,
+ * the chart, the layout, selection and paging
+ *
+ * Backs SimpleGenericGrid and works without it: pair the state with buildGridQuery and the entity client
+ * to drive a custom UI (cards, kanban, map) through the same query engine.
+ *
+ * Setters accept a value or an updater function like React state setters. Use applyState to change several
+ * fields as one undo step. Paging and selection changes are not recorded.
+ */
+export function useGridState({ columns = [], initialState, historyLimit = DEFAULT_GRID_HISTORY_LIMIT }: UseGridStateOptions = {}) {
+  const [history, dispatch] = useReducer(
+    gridStateReducer,
+    undefined,
+    () => createGridStateHistory(
+      createGridState(columns, typeof initialState === 'function' ? initialState() : initialState),
+      historyLimit
+    )
+  );
+
+  const actions = useMemo(() => {
+    const setter = <K extends keyof GridState>(field: K): Setter<GridState[K]> =>
+      (value, options) => dispatch({ type: 'set', field, value, skipHistory: options?.skipHistory } as GridStateAction);
+
+    return {
+      setGlobalSearch: setter('globalSearch'),
+      setActiveFilters: setter('activeFilters'),
+      setFilterGroup: setter('filterGroup'),
+      setActiveSorts: setter('activeSorts'),
+      setVisibleColumns: setter('visibleColumns'),
+      setColumnOrder: setter('columnOrder'),
+      setColumnWidths: setter('columnWidths'),
+      setColumnPins: setter('columnPins'),
+      setGroupBy: setter('groupBy'),
+      setConditionalFormats: setter('conditionalFormats'),
+      setContentView: setter('contentView'),
+      setPivotConfig: setter('pivotConfig'),
+      setChartVisible: setter('chartVisible'),
+      setChartConfig: setter('chartConfig'),
+      setCalendarMode: setter('calendarMode'),
+      setLayout: setter('layout'),
+      setSelectedRowIds: setter('selectedRowIds'),
+      setCurrentPage: setter('currentPage'),
+      setCurrentPageSize: setter('currentPageSize'),
+      applyState: (state: Partial<GridState>, options?: { skipHistory?: boolean }) =>
+        dispatch({ type: 'apply', state, skipHistory: options?.skipHistory }),
+      undo: () => dispatch({ type: 'undo' }),
+      redo: () => dispatch({ type: 'redo' }),
+      clearHistory: () => dispatch({ type: 'clearHistory' })
+    };
+  }, []);
+
+  return {
+    state: history.present,
+    dispatch,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    ...actions
+  };
+}
+
+export type GridStateController = ReturnType<typeof useGridState>;
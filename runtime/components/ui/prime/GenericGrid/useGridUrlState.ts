@@ -0,0 +1,69 @@
+import { useEffect, useRef } from 'react';
+import {
+  decodeGridUrlState,
+  encodeGridUrlState,
+  isGridStateHistoryStep,
+  readGridStateParam,
+  writeGridStateParam
+} from './gridUrlState';
+import type { UrlGridState, UrlGridStateDefaults } from './gridUrlState';
+
+export interface GridUrlStateOptions {
+  /** Nothing is written or restored while disabled */
+  enabled: boolean;
+  /** State mirrored into the URL - null until the grid's initial state is in place */
+  state: UrlGridState | null;
+  defaults: UrlGridStateDefaults;
+  /** The URL holds another link for the grid (e.g. a selected defined filter's #filter=<name>) - it is kept */
+  paused: boolean;
+  /** Back/forward reached another grid state */
+  onNavigate: (state: UrlGridState) => void;
+}
+
+/**
+ * Mirror the grid state into the URL hash (#state=<version>.<data>) so ad-hoc views can be shared
+ * Filter, sort, search, grouping and view changes push a history entry; paging, column, chart and layout changes
+ * replace the current one. Other hash params (#tab=2&state=...) are kept.
+ */
+export function useGridUrlState({ enabled, state, defaults, paused, onNavigate }: GridUrlStateOptions) {
+  const encoded = enabled && state ? encodeGridUrlState(state, defaults) : null;
+  // Encoding of the current state - compared with the URL to skip redundant writes and no-op history steps
+  const encodedRef = useRef('');
+  const onNavigateRef = useRef(onNavigate);
+  onNavigateRef.current = onNavigate;
+
+  useEffect(() => {
+    if (encoded === null) return;
+    encodedRef.current = encoded;
+
+    if (paused) return;
+    const current = readGridStateParam(window.location.hash) ?? '';
+    // Leave unrelated hashes alone while the grid is at its defaults
+    if (encoded === current || (!encoded && !current)) return;
+
+    const url = window.location.pathname + window.location.search + writeGridStateParam(window.location.hash, encoded);
+    if (isGridStateHistoryStep(current, encoded)) {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(null, '', url);
+    }
+  }, [encoded, paused]);
+
+  // Back/forward between grid states
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handlePopState = () => {
+      const current = readGridStateParam(window.location.hash) ?? '';
+      if (current === encodedRef.current) return;
+
+      const urlState = decodeGridUrlState(current);
+      if (urlState) {
+        onNavigateRef.current(urlState);
+      }
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [enabled]);
+}
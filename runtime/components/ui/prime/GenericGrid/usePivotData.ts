@@ -0,0 +1,64 @@
+import { useEffect, useRef, useState } from 'react';
+import { loadPivotGroups } from './pivotOperations';
+import type { PivotDimension, PivotLoadResult, PivotPageFetcher, PivotRequest } from './pivotOperations';
+import { ExportCancelledError } from './exportChunks';
+import type { ExportProgress } from './exportChunks';
+
+export interface PivotDataOptions {
+  /** One page of the grid's current query - page 0 also carries the pivot request */
+  fetchPage: PivotPageFetcher;
+  /** null while there is nothing to load */
+  request: PivotRequest | null;
+  dimensions: PivotDimension[];
+  /** Changes whenever the grid's search or filters change - the data reloads */
+  queryKey: string;
+  /** Rows fetched at most when the server does not aggregate */
+  maxRecords: number;
+  chunkSize: number;
+}
+
+/**
+ * Grouped values for the pivot and chart views, reloaded when the request or the grid's query changes
+ * A reload cancels the one in flight; progress is set while rows are paged through
+ */
+export function usePivotData({ fetchPage, request, dimensions, queryKey, maxRecords, chunkSize }: PivotDataOptions) {
+  // Kept with the request it answers - results for other fields are not shown while the next load runs
+  const [loaded, setLoaded] = useState<{ requestKey: string; result: PivotLoadResult } | null>(null);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // The fetcher closes over the grid's query - the reload is driven by queryKey instead
+  const fetchPageRef = useRef(fetchPage);
+  fetchPageRef.current = fetchPage;
+  const requestKey = request ? JSON.stringify(request) : null;
+
+  useEffect(() => {
+    if (!request || !requestKey) {
+      setLoaded(null);
+      return;
+    }
+
+    const abortController = new AbortController();
+    setError(null);
+    setProgress({ exported: 0 });
+    loadPivotGroups(
+      (page, pageSize, pivot, signal) => fetchPageRef.current(page, pageSize, pivot, signal),
+      request,
+      dimensions,
+      { chunkSize, maxRecords, signal: abortController.signal, onProgress: setProgress }
+    )
+      .then(result => setLoaded({ requestKey, result }))
+      .catch(err => {
+        if (err instanceof ExportCancelledError) return;
+        console.error('❌ [usePivotData] Failed to load grouped data:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load data');
+      })
+      .finally(() => {
+        if (!abortController.signal.aborted) setProgress(null);
+      });
+    return () => abortController.abort();
+    // request is covered by requestKey
+  }, [requestKey, queryKey, dimensions, chunkSize, maxRecords]);
+
+  const result = loaded && loaded.requestKey === requestKey ? loaded.result : null;
+  return { result, progress, error, setError };
+}
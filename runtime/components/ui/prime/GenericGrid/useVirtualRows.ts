@@ -0,0 +1,143 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { buildVirtualRows, evictDistantPages, getLoadedRows, getPagesForRange } from './virtualPageCache';
+import type { VirtualPageCache } from './virtualPageCache';
+
+/** One page of the grid's current query - page 0 also returns the row count */
+export type VirtualPageFetcher<TModel, TResponse extends { rows?: TModel[]; totalRowCount?: number }> = (
+  page: number,
+  pageSize: number,
+  signal: AbortSignal
+) => Promise<TResponse>;
+
+export interface VirtualRowsOptions<TModel, TResponse extends { rows?: TModel[]; totalRowCount?: number }> {
+  /** Nothing is loaded while disabled */
+  enabled: boolean;
+  fetchPage: VirtualPageFetcher<TModel, TResponse>;
+  /** Changes whenever the grid's search, filters or sorting change - the cache is dropped and page 0 reloads */
+  queryKey: string;
+  pageSize: number;
+  /** Pages kept in memory - pages farthest from the viewport are evicted */
+  maxCachedPages: number;
+  /** Called with the response of page 0 (e.g. for server aggregates) */
+  onFirstPage?: (response: TResponse) => void;
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Rows for a lazy virtual scroller - pages are loaded as the visible range reaches them
+ * Each query gets its own in-flight set and abort signal, so results of an older query are dropped
+ */
+export function useVirtualRows<TModel, TResponse extends { rows?: TModel[]; totalRowCount?: number }>({
+  enabled,
+  fetchPage,
+  queryKey,
+  pageSize,
+  maxCachedPages,
+  onFirstPage,
+  onError
+}: VirtualRowsOptions<TModel, TResponse>) {
+  // Rows with undefined placeholders for pages not loaded yet, and the loaded rows alone
+  const [rows, setRows] = useState<(TModel | undefined)[]>([]);
+  const [loadedRows, setLoadedRows] = useState<TModel[]>([]);
+  const [totalRecords, setTotalRecords] = useState(0);
+  // Whether totalRecords is the server's count rather than an estimate
+  const [rowCountKnown, setRowCountKnown] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [initialLoading, setInitialLoading] = useState(false);
+  const [reloadRevision, setReloadRevision] = useState(0);
+
+  const queryRef = useRef({
+    cache: new Map() as VirtualPageCache<TModel>,
+    pending: new Set<number>(),
+    abortController: new AbortController()
+  });
+  const visiblePageRef = useRef(0);
+  // Row count reported by the server (0 = unknown) and the count estimated from loaded pages
+  const totalRecordsRef = useRef(0);
+  const estimatedRowCountRef = useRef(0);
+  // The fetcher closes over the grid's query - reloads are driven by queryKey instead
+  const optionsRef = useRef({ fetchPage, onFirstPage, onError });
+  optionsRef.current = { fetchPage, onFirstPage, onError };
+
+  const refreshRows = useCallback(() => {
+    const { cache } = queryRef.current;
+    setRows(buildVirtualRows(cache, pageSize, totalRecordsRef.current || estimatedRowCountRef.current));
+    setLoadedRows(getLoadedRows(cache));
+  }, [pageSize]);
+
+  // Load a single page (skips pages that are cached or already loading)
+  const loadPage = useCallback(async (pageNumber: number) => {
+    const query = queryRef.current;
+    if (query.cache.has(pageNumber) || query.pending.has(pageNumber)) return;
+
+    query.pending.add(pageNumber);
+    setLoading(true);
+    try {
+      const response = await optionsRef.current.fetchPage(pageNumber, pageSize, query.abortController.signal);
+      // The query changed while this page was loading
+      if (query !== queryRef.current) return;
+
+      const pageRows = response.rows || [];
+      const isLastPage = pageRows.length < pageSize;
+      if (pageNumber === 0) {
+        totalRecordsRef.current = response.totalRowCount || 0;
+        optionsRef.current.onFirstPage?.(response);
+      }
+      if (!totalRecordsRef.current) {
+        // No total from the server - grow the scroll range one page at a time until a short page arrives
+        const loadedEnd = pageNumber * pageSize + pageRows.length;
+        estimatedRowCountRef.current = isLastPage
+          ? loadedEnd
+          : Math.max(estimatedRowCountRef.current, loadedEnd + pageSize);
+      }
+      setTotalRecords(totalRecordsRef.current || estimatedRowCountRef.current);
+      setRowCountKnown(totalRecordsRef.current > 0);
+
+      query.cache.set(pageNumber, pageRows);
+      evictDistantPages(query.cache, visiblePageRef.current, maxCachedPages);
+      refreshRows();
+    } catch (error) {
+      // Aborted or replaced by a newer query - nothing to report
+      if (query !== queryRef.current) return;
+      console.error('❌ [useVirtualRows] Failed to load page:', error);
+      optionsRef.current.onError?.(error);
+    } finally {
+      query.pending.delete(pageNumber);
+      if (query === queryRef.current) {
+        setLoading(query.pending.size > 0);
+        if (pageNumber === 0) setInitialLoading(false);
+      }
+    }
+  }, [pageSize, maxCachedPages, refreshRows]);
+
+  // New query (or reload) - drop the cache, cancel what is in flight and load the first page
+  useEffect(() => {
+    queryRef.current.abortController.abort();
+    queryRef.current = { cache: new Map(), pending: new Set(), abortController: new AbortController() };
+    visiblePageRef.current = 0;
+    totalRecordsRef.current = 0;
+    estimatedRowCountRef.current = 0;
+    setRows([]);
+    setLoadedRows([]);
+    setTotalRecords(0);
+    setRowCountKnown(false);
+    setLoading(false);
+    setInitialLoading(enabled);
+    if (enabled) loadPage(0);
+  }, [enabled, queryKey, reloadRevision, loadPage]);
+
+  useEffect(() => () => queryRef.current.abortController.abort(), []);
+
+  // Virtual scroller lazy load - every page the visible range touches
+  const onLazyLoad = useCallback((event: { first: number; last: number }) => {
+    if (!enabled) return;
+    const rowCount = totalRecordsRef.current || estimatedRowCountRef.current;
+    visiblePageRef.current = Math.floor(event.first / pageSize);
+    getPagesForRange(event.first, Math.min(event.last, rowCount) - 1, pageSize).forEach(page => loadPage(page));
+  }, [enabled, pageSize, loadPage]);
+
+  // Reload from the first page with the same query, e.g. after records were changed
+  const reload = useCallback(() => setReloadRevision(revision => revision + 1), []);
+
+  return { rows, loadedRows, totalRecords, rowCountKnown, loading, initialLoading, onLazyLoad, reload };
+}
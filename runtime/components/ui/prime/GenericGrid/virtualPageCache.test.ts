@@ -0,0 +1,44 @@
+/**
+ * @vitest-environment jsdom
+ * @group unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildVirtualRows, evictDistantPages, getLoadedRows, getPagesForRange } from './virtualPageCache';
+import type { VirtualPageCache } from './virtualPageCache';
+
+describe('virtualPageCache', () => {
+  it('should return every page a visible range touches', () => {
+    expect(getPagesForRange(0, 49, 50)).toEqual([0]);
+    expect(getPagesForRange(40, 120, 50)).toEqual([0, 1, 2]);
+    expect(getPagesForRange(10, 5, 50)).toEqual([]);
+  });
+
+  it('should evict the pages farthest from the visible page', () => {
+    const cache: VirtualPageCache<number> = new Map([
+      [0, [1]], [1, [2]], [2, [3]], [7, [8]], [8, [9]]
+    ]);
+
+    const evicted = evictDistantPages(cache, 7, 3);
+
+    expect(evicted.sort()).toEqual([0, 1]);
+    expect([...cache.keys()].sort()).toEqual([2, 7, 8]);
+  });
+
+  it('should place cached rows at their offsets with placeholders elsewhere', () => {
+    const cache: VirtualPageCache<string> = new Map([[1, ['c', 'd']]]);
+
+    const rows = buildVirtualRows(cache, 2, 5);
+
+    expect(rows).toEqual([undefined, undefined, 'c', 'd', undefined]);
+    // Placeholders must be real entries so the virtual scroller renders them
+    expect(Object.keys(rows)).toHaveLength(5);
+  });
+
+  it('should list the loaded rows in page order', () => {
+    const cache: VirtualPageCache<string> = new Map([[2, ['e']], [0, ['a', 'b']]]);
+
+    expect(getLoadedRows(cache)).toEqual(['a', 'b', 'e']);
+    expect(getLoadedRows(new Map())).toEqual([]);
+  });
+});
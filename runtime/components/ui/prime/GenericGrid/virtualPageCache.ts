@@ -0,0 +1,67 @@
+/**
+ * Page cache helpers for lazy virtual scrolling
+ * Pages are keyed by 0-based page number; rows outside cached pages are undefined placeholders
+ */
+export type VirtualPageCache<TModel> = Map<number, TModel[]>;
+
+/**
+ * Get the page numbers needed to render rows first..last (inclusive)
+ */
+export function getPagesForRange(first: number, last: number, pageSize: number): number[] {
+  if (pageSize <= 0 || last < first) return [];
+  const firstPage = Math.floor(Math.max(first, 0) / pageSize);
+  const lastPage = Math.floor(Math.max(last, 0) / pageSize);
+  const pages: number[] = [];
+  for (let page = firstPage; page <= lastPage; page++) {
+    pages.push(page);
+  }
+  return pages;
+}
+
+/**
+ * Evict the pages farthest from the visible page until the cache fits maxPages
+ * Mutates the cache and returns the evicted page numbers
+ */
+export function evictDistantPages<TModel>(
+  cache: VirtualPageCache<TModel>,
+  visiblePage: number,
+  maxPages: number
+): number[] {
+  if (cache.size <= maxPages) return [];
+
+  const byDistance = [...cache.keys()].sort(
+    (a, b) => Math.abs(b - visiblePage) - Math.abs(a - visiblePage)
+  );
+  const evicted = byDistance.slice(0, cache.size - maxPages);
+  evicted.forEach(page => cache.delete(page));
+  return evicted;
+}
+
+/**
+ * Build the row array for the virtual scroller
+ * Length is the total row count so the scrollbar reflects the full result set
+ */
+export function buildVirtualRows<TModel>(
+  cache: VirtualPageCache<TModel>,
+  pageSize: number,
+  totalRecords: number
+): (TModel | undefined)[] {
+  // Array.from (not new Array) so placeholders are real entries the scroller can render
+  const rows: (TModel | undefined)[] = Array.from({ length: totalRecords });
+  cache.forEach((pageRows, page) => {
+    const offset = page * pageSize;
+    pageRows.forEach((row, index) => {
+      if (offset + index < totalRecords) {
+        rows[offset + index] = row;
+      }
+    });
+  });
+  return rows;
+}
+
+/**
+ * Rows of the cached pages in page order - the loaded rows without placeholders
+ */
+export function getLoadedRows<TModel>(cache: VirtualPageCache<TModel>): TModel[] {
+  return [...cache.keys()].sort((a, b) => a - b).flatMap(page => cache.get(page)!);
+}
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Whether a CSS media query currently matches - updates when the viewport crosses it
+ * e.g. useMediaQuery('(max-width: 767px)')
+ */
+export function useMediaQuery(query: string): boolean {
+  const getMatches = () => typeof window !== 'undefined' && !!window.matchMedia && window.matchMedia(query).matches;
+  const [matches, setMatches] = useState(getMatches);
+
+  useEffect(() => {
+    if (typeof window === 'undefined' || !window.matchMedia) return;
+    const mediaQuery = window.matchMedia(query);
+    const handleChange = () => setMatches(mediaQuery.matches);
+    handleChange();
+    mediaQuery.addEventListener('change', handleChange);
+    return () => mediaQuery.removeEventListener('change', handleChange);
+  }, [query]);
+
+  return matches;
+}
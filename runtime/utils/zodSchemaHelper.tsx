@@ -1,6 +1,11 @@
 import React from 'react';
 import { z } from 'zod';
 import type { GenericGridColumn } from '@/components/ui/prime/GenericGrid/types';
+import { parseAggregateMetadata } from '@/components/ui/prime/GenericGrid/aggregateOperations';
+import { parseConditionalFormatMetadata } from '@/components/ui/prime/GenericGrid/conditionalFormatting';
+import { parseBoardOptions } from '@/components/ui/prime/GenericGrid/boardOperations';
+import type { BoardColumnOption } from '@/components/ui/prime/GenericGrid/boardOperations';
+import type { CalendarFields } from '@/components/ui/prime/GenericGrid/calendarOperations';
 
 /**
  * Helper to check if a metadata value is truthy
@@ -28,6 +33,9 @@ export interface ZodFieldMetadata {
   // Display and labeling
   'x-label'?: string;                        // Column header / field label
   'x-display-value'?: boolean | string;      // Field used as display value
+  'x-card-title'?: boolean | string;         // Card/list layout title field
+  'x-card-subtitle'?: boolean | string;      // Card/list layout subtitle field
+  'x-card-image'?: boolean | string;         // Card/list layout image URL field
 
   // Permissions and access
   'x-permissions'?: string | string[];       // Roles allowed to use related operation
@@ -45,6 +53,15 @@ export interface ZodFieldMetadata {
   'x-hidden-column'?: boolean | string;      // Column hidden by default in grid
   'x-not-selectable'?: boolean | string;     // Entity not selectable in dropdowns
   'x-cell-renderer'?: string;                // Cell renderer name for registry lookup
+  'x-aggregate'?: string | string[];         // Footer aggregates for numeric columns (sum, avg, min, max, count)
+  'x-conditional-format'?: string | object | object[]; // Cell/row formatting rules (e.g. 'lt:3:danger')
+  'x-board-field'?: boolean | string;        // Status field whose values are the board view columns
+  'x-calendar-start'?: boolean | string;     // Date (or range start) the calendar view plots records by
+  'x-calendar-end'?: boolean | string;       // Range end for x-calendar-start
+
+  // Field values
+  'x-options'?: object[];                    // Allowed values ({ value, label }) for select fields
+  'x-enum'?: string | (string | number)[];   // Allowed values without labels
 
   // Field sets
   'x-field-set'?: string;                    // Field set grouping
@@ -287,6 +304,12 @@ export function zodSchemaToGridColumns<TModel>(
       navigationVariant: navigationVariant,
       // Include cell renderer name for registry lookup
       cellRenderer: field.metadata['x-cell-renderer'],
+      // Footer aggregates (sum, avg, min, max, count) from x-aggregate
+      aggregate: parseAggregateMetadata(field.metadata['x-aggregate']),
+      // Cell/row formatting rules from x-conditional-format
+      conditionalFormats: field.metadata['x-conditional-format'] !== undefined
+        ? parseConditionalFormatMetadata(field.name, field.metadata['x-conditional-format'])
+        : undefined,
     };
 
     // Add custom renderer if specified
@@ -578,6 +601,96 @@ export function getNumericColumns(schema: z.ZodObject<any>): string[] {
     .map(field => field.name);
 }
 
+/**
+ * Create date columns array from schema - date fields and strings with format 'date' or 'date-time'
+ */
+export function getDateColumns(schema: z.ZodObject<any>): string[] {
+  const fields = extractZodFields(schema);
+  return fields
+    .filter(field => field.type === 'date' || field.metadata.format === 'date' || field.metadata.format === 'date-time')
+    .map(field => field.name);
+}
+
+/**
+ * Navigation (foreign key) fields - x-navigation-target IDs, with the x-navigation-relation
+ * field that holds their display text when the model has one
+ */
+export function getNavigationFields(schema: z.ZodObject<any>): { field: string; target: string; labelField?: string }[] {
+  const fields = extractZodFields(schema);
+  return fields
+    .filter(field => !!field.metadata['x-navigation-target'])
+    .map(field => ({
+      field: field.name,
+      target: field.metadata['x-navigation-target'] as string,
+      labelField: fields.find(other => other.metadata['x-navigation-relation'] === field.name)?.name
+    }));
+}
+
+/**
+ * Card/list layout fields from x-card-title / x-card-subtitle / x-card-image,
+ * plus the x-display-value fields used when no card title is marked
+ */
+export function getCardFields(schema: z.ZodObject<any>): {
+  titleField?: string;
+  subtitleField?: string;
+  imageField?: string;
+  displayValueFields: string[];
+} {
+  const fields = extractZodFields(schema);
+  const marked = (key: string) => fields.find(field => isMetadataTrue(field.metadata[key]))?.name;
+  return {
+    titleField: marked('x-card-title'),
+    subtitleField: marked('x-card-subtitle'),
+    imageField: marked('x-card-image'),
+    displayValueFields: fields
+      .filter(field => isMetadataTrue(field.metadata['x-display-value']))
+      .map(field => field.name)
+  };
+}
+
+/**
+ * Search term fields - x-searchable and x-search-term-default fields, without x-not-searchable ones
+ * defaultFields are the ones searched when the user has not picked any: x-search-term-default, else all of them
+ */
+export function getSearchFields(schema: z.ZodObject<any>): { fields: string[]; defaultFields: string[] } {
+  const candidates = extractZodFields(schema).filter(field => !isMetadataTrue(field.metadata['x-not-searchable']));
+  const defaultFields = candidates
+    .filter(field => isMetadataTrue(field.metadata['x-search-term-default']))
+    .map(field => field.name);
+  const fields = candidates
+    .filter(field => isMetadataTrue(field.metadata['x-searchable']) || defaultFields.includes(field.name))
+    .map(field => field.name);
+  return { fields, defaultFields: defaultFields.length > 0 ? defaultFields : fields };
+}
+
+/**
+ * Board view field - the x-board-field field, with its x-options / x-enum values as the columns
+ * undefined when no field is marked or the marked field lists no values
+ */
+export function getBoardField(schema: z.ZodObject<any>): { field: string; options: BoardColumnOption[] } | undefined {
+  const field = extractZodFields(schema).find(candidate => isMetadataTrue(candidate.metadata['x-board-field']));
+  if (!field) return undefined;
+
+  const options = parseBoardOptions(field.metadata['x-options'], field.metadata['x-enum']);
+  if (options.length === 0) {
+    console.warn(`getBoardField: Board field '${field.name}' has no x-options or x-enum values`);
+    return undefined;
+  }
+  return { field: field.name, options };
+}
+
+/**
+ * Calendar view fields - the x-calendar-start date and the optional x-calendar-end range end
+ * undefined when no start field is marked
+ */
+export function getCalendarFields(schema: z.ZodObject<any>): CalendarFields | undefined {
+  const fields = extractZodFields(schema);
+  const startField = fields.find(field => isMetadataTrue(field.metadata['x-calendar-start']))?.name;
+  if (!startField) return undefined;
+  const endField = fields.find(field => isMetadataTrue(field.metadata['x-calendar-end']))?.name;
+  return endField && endField !== startField ? { startField, endField } : { startField };
+}
+
 /**
  * Check if a user has permission to access a field based on role
  */
@@ -36,7 +36,7 @@ call npm install classnames@^2.5.1
 echo.
 set /p XLSX="Install xlsx for Excel export? (y/n): "
 if /i "%XLSX%"=="y" (
-    call npm install xlsx@https://cdn.sheetjs.com/xlsx-0.20.2/xlsx-0.20.2.tgz
+    call npm install xlsx@https://cdn.sheetjs.com/xlsx-0.20.2/xlsx-0.20.2.tgz exceljs@^4.4.0
 )
 
 echo.
@@ -41,7 +41,7 @@ echo ""
 read -p "Install xlsx for Excel export? (y/n) " -n 1 -r
 echo ""
 if [[ $REPLY =~ ^[Yy]$ ]]; then
-    npm install xlsx@https://cdn.sheetjs.com/xlsx-0.20.2/xlsx-0.20.2.tgz
+    npm install xlsx@https://cdn.sheetjs.com/xlsx-0.20.2/xlsx-0.20.2.tgz exceljs@^4.4.0
 fi
 
 echo ""